@@ -17,6 +17,29 @@ const ENV_KEYS = [
   "DISABLE_TOKEN_PRICES",
 ];
 
+export interface QuoteAssetConfig {
+  quote: string;
+  asset: string;
+  receiveValue?: number;
+}
+
+export type PriceSourceName =
+  | "horizon_paths"
+  | "soroban_router"
+  | "sep40_oracle"
+  | "liquidity_pool";
+
+export interface Sep40OracleConfig {
+  quote: string;
+  contractId: string;
+}
+
+export interface ManualPriceOverrideConfig {
+  token: string;
+  quote: string;
+  price: number;
+}
+
 export interface PriceConfig {
   batchUpdateDelayMs: number;
   calculationTimeoutMs: number;
@@ -26,6 +49,15 @@ export interface PriceConfig {
   priceStalenessThreshold: number;
   usdReceiveValue: number;
   priceOneDayThresholdMs: number;
+  quoteAssets: QuoteAssetConfig[];
+  sorobanRpcUrl: string;
+  sorobanRouterContracts: string[];
+  sorobanPricingAccount: string;
+  priceSources: PriceSourceName[];
+  sep40Oracles: Sep40OracleConfig[];
+  manualPriceOverrides: ManualPriceOverrideConfig[];
+  maxSourceDeviation: number;
+  maxSampleDeviation: number;
 }
 
 export interface StellarRpcConfig {
@@ -34,6 +66,115 @@ export interface StellarRpcConfig {
   freighterRpcFuturenetUrl: string;
 }
 
+/**
+ * Parses the PRICE_QUOTE_ASSETS env var into quote asset configs.
+ * Entries are comma separated in the format "QUOTE=CODE:ISSUER[:RECEIVE_VALUE]",
+ * e.g. "EUR=EURC:GDHU6WRG4IEQXM5NZ4BMPKOXHW76MZM4Y2IEMFDVXBSDP6SJY4ITNPP2:500".
+ */
+export function parseQuoteAssets(value?: string): QuoteAssetConfig[] {
+  if (!value) {
+    return [];
+  }
+
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [quote, assetConfig] = entry.split("=");
+      const [code, issuer, receiveValue] = (assetConfig || "").split(":");
+      if (!quote || !code || !issuer) {
+        throw new Error(ERROR.INVALID_QUOTE_ASSET(entry));
+      }
+
+      return {
+        quote: quote.toUpperCase(),
+        asset: `${code}:${issuer}`,
+        receiveValue: Number(receiveValue) || undefined,
+      };
+    });
+}
+
+const PRICE_SOURCE_NAMES: PriceSourceName[] = [
+  "horizon_paths",
+  "soroban_router",
+  "sep40_oracle",
+  "liquidity_pool",
+];
+
+const DEFAULT_PRICE_SOURCES: PriceSourceName[] = [
+  "horizon_paths",
+  "soroban_router",
+];
+
+/**
+ * Parses the PRICE_SOURCES env var, a comma separated list of the price sources to aggregate.
+ */
+export function parsePriceSources(value?: string): PriceSourceName[] {
+  if (!value) {
+    return DEFAULT_PRICE_SOURCES;
+  }
+
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      if (!PRICE_SOURCE_NAMES.includes(entry as PriceSourceName)) {
+        throw new Error(ERROR.INVALID_PRICE_SOURCE(entry));
+      }
+      return entry as PriceSourceName;
+    });
+}
+
+/**
+ * Parses the PRICE_SEP40_ORACLES env var into oracle configs.
+ * Entries are comma separated in the format "QUOTE=CONTRACT_ID", e.g. "USD=CAFJZQ...".
+ */
+export function parseSep40Oracles(value?: string): Sep40OracleConfig[] {
+  if (!value) {
+    return [];
+  }
+
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [quote, contractId] = entry.split("=");
+      if (!quote || !contractId) {
+        throw new Error(ERROR.INVALID_SEP40_ORACLE(entry));
+      }
+      return { quote: quote.toUpperCase(), contractId };
+    });
+}
+
+/**
+ * Parses the PRICE_MANUAL_OVERRIDES env var into manual price overrides.
+ * Entries are comma separated in the format "TOKEN[@QUOTE]=PRICE", where the quote defaults to USD,
+ * e.g. "USDC:GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN=1".
+ */
+export function parseManualPriceOverrides(
+  value?: string,
+): ManualPriceOverrideConfig[] {
+  if (!value) {
+    return [];
+  }
+
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [target, price] = entry.split("=");
+      const [token, quote = "USD"] = (target || "").split("@");
+      if (!token || !(Number(price) > 0)) {
+        throw new Error(ERROR.INVALID_PRICE_OVERRIDE(entry));
+      }
+      return { token, quote: quote.toUpperCase(), price: Number(price) };
+    });
+}
+
 export function buildConfig(config: Record<string, string | undefined>) {
   const configKeys = Object.keys(config);
   const missingKeys = [] as string[];
@@ -83,6 +224,25 @@ export function buildConfig(config: Record<string, string | undefined>) {
     disableTokenPrices:
       config.DISABLE_TOKEN_PRICES === "true" ||
       process.env.DISABLE_TOKEN_PRICES === "true",
+    adminApiKey: config.ADMIN_API_KEY || process.env.ADMIN_API_KEY,
+    mercurySubscriptionMaxIdleDays:
+      Number(config.MERCURY_SUBSCRIPTION_MAX_IDLE_DAYS) ||
+      Number(process.env.MERCURY_SUBSCRIPTION_MAX_IDLE_DAYS!) ||
+      30,
+    // Mercury is enabled again after a failed integrity check once this many consecutive checks passed, over at
+    // least this long.
+    mercuryRecoveryPasses:
+      Number(config.MERCURY_RECOVERY_PASSES) ||
+      Number(process.env.MERCURY_RECOVERY_PASSES!) ||
+      50,
+    mercuryRecoveryWindowMs:
+      Number(config.MERCURY_RECOVERY_WINDOW_MS) ||
+      Number(process.env.MERCURY_RECOVERY_WINDOW_MS!) ||
+      60 * 60 * 1000,
+    // Also compares the balances of accounts seen in recent ledgers between Mercury and Horizon/RPC.
+    mercuryBalanceIntegrityCheck:
+      config.MERCURY_BALANCE_INTEGRITY_CHECK === "true" ||
+      process.env.MERCURY_BALANCE_INTEGRITY_CHECK === "true",
     stellarRpcConfig: <StellarRpcConfig>{
       freighterRpcPubnetUrl:
         config.FREIGHTER_RPC_PUBNET_URL ||
@@ -127,6 +287,40 @@ export function buildConfig(config: Record<string, string | undefined>) {
         Number(config.PRICE_ONE_DAY_THRESHOLD_MS) ||
         Number(process.env.PRICE_ONE_DAY_THRESHOLD_MS!) ||
         300000,
+      quoteAssets: parseQuoteAssets(
+        config.PRICE_QUOTE_ASSETS || process.env.PRICE_QUOTE_ASSETS,
+      ),
+      sorobanRpcUrl:
+        config.FREIGHTER_RPC_PUBNET_URL ||
+        process.env.FREIGHTER_RPC_PUBNET_URL!,
+      sorobanRouterContracts: (
+        config.PRICE_SOROBAN_ROUTER_CONTRACTS ||
+        process.env.PRICE_SOROBAN_ROUTER_CONTRACTS ||
+        ""
+      )
+        .split(",")
+        .map((contractId) => contractId.trim())
+        .filter(Boolean),
+      sorobanPricingAccount:
+        config.PRICE_SOROBAN_PRICING_ACCOUNT ||
+        process.env.PRICE_SOROBAN_PRICING_ACCOUNT!,
+      priceSources: parsePriceSources(
+        config.PRICE_SOURCES || process.env.PRICE_SOURCES,
+      ),
+      sep40Oracles: parseSep40Oracles(
+        config.PRICE_SEP40_ORACLES || process.env.PRICE_SEP40_ORACLES,
+      ),
+      manualPriceOverrides: parseManualPriceOverrides(
+        config.PRICE_MANUAL_OVERRIDES || process.env.PRICE_MANUAL_OVERRIDES,
+      ),
+      maxSourceDeviation:
+        Number(config.PRICE_MAX_SOURCE_DEVIATION) ||
+        Number(process.env.PRICE_MAX_SOURCE_DEVIATION!) ||
+        0.1,
+      maxSampleDeviation:
+        Number(config.PRICE_MAX_SAMPLE_DEVIATION) ||
+        Number(process.env.PRICE_MAX_SAMPLE_DEVIATION!) ||
+        0.5,
     },
 
     blockaidConfig: {
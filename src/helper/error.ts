@@ -6,11 +6,25 @@ export const ERROR = {
     "Transfer authorizes sub-invocations to another contract",
   FAILED_TO_SIM: "Failed to simulate transaction",
   INVALID_ENV: (key: string) => `ENV configuration invalid - missing ${key}`,
+  INVALID_QUOTE_ASSET: (entry: string) =>
+    `ENV configuration invalid - malformed quote asset ${entry}`,
+  INVALID_PRICE_SOURCE: (entry: string) =>
+    `ENV configuration invalid - unknown price source ${entry}`,
+  INVALID_SEP40_ORACLE: (entry: string) =>
+    `ENV configuration invalid - malformed SEP-40 oracle ${entry}`,
+  INVALID_PRICE_OVERRIDE: (entry: string) =>
+    `ENV configuration invalid - malformed price override ${entry}`,
   UNSUPPORTED_NETWORK: "network not supported",
   INVALID_SIMULATION: "Invalid response from simulateTransaction",
   INVALID_VALIDATOR_DEF: "Invalid definition for custom validator",
   TOKEN_SUB_FAILED: "Failed to subscribe to token events",
   SERVER_ERROR: "Unexpected server error",
+  UNAUTHORIZED: "Unauthorized",
+  PRICE_ALERT_NOT_FOUND: "price alert not found",
+  PRICE_ALERT_LIMIT_REACHED: "price alert limit reached",
+  INVALID_WEBHOOK_URL:
+    "webhook URL must be https and resolve to a public address",
+  SUBSCRIPTION_JOB_NOT_FOUND: "subscription job not found",
   MISSING_SUB_FOR_PUBKEY:
     "Tried to query for data without a subscription setup for a public key",
   MISSING_SUB_FOR_TOKEN_BALANCE:
@@ -5,7 +5,7 @@ import { getSdk } from "./stellar";
 
 export const BASE_RESERVE = 0.5;
 export const BASE_RESERVE_MIN_COUNT = 2;
-const TRANSACTIONS_LIMIT = 100;
+export const TRANSACTIONS_LIMIT = 100;
 
 export enum NETWORK_URLS {
   PUBLIC = "https://horizon.stellar.org",
@@ -226,16 +226,21 @@ export const fetchAccountHistory = async (
   pubKey: string,
   server: StellarSdkNext.Horizon.Server | StellarSdk.Horizon.Server,
   isFailedIncluded: boolean = false,
+  cursor?: string,
+  limit: number = TRANSACTIONS_LIMIT,
 ) => {
   try {
-    const operationsData = await server
+    const operations = server
       .operations()
       .forAccount(pubKey)
       .order("desc")
       .includeFailed(isFailedIncluded)
       .join("transactions")
-      .limit(TRANSACTIONS_LIMIT)
-      .call();
+      .limit(limit);
+    if (cursor) {
+      operations.cursor(cursor);
+    }
+    const operationsData = await operations.call();
 
     return operationsData.records || [];
   } catch (error) {
@@ -243,6 +248,29 @@ export const fetchAccountHistory = async (
   }
 };
 
+export const fetchAccountEffects = async (
+  pubKey: string,
+  server: StellarSdkNext.Horizon.Server | StellarSdk.Horizon.Server,
+  cursor?: string,
+  limit: number = TRANSACTIONS_LIMIT,
+) => {
+  try {
+    const effects = server
+      .effects()
+      .forAccount(pubKey)
+      .order("desc")
+      .limit(limit);
+    if (cursor) {
+      effects.cursor(cursor);
+    }
+    const effectsData = await effects.call();
+
+    return effectsData.records || [];
+  } catch (error) {
+    throw new Error(JSON.stringify(error));
+  }
+};
+
 export const submitTransaction = async (
   signedXDR: string,
   networkUrl: string,
@@ -11,6 +11,11 @@ interface EndpointsMap {
 }
 
 export const REDIS_USE_MERCURY_KEY = "USE_MERCURY";
+// Per network, sorted sets of the accounts served from Mercury scored by when they were last queried,
+// and hashes of the hydration started by their account subscription.
+export const REDIS_SUBSCRIPTION_ACTIVITY_KEY = "MERCURY_SUBSCRIPTION_ACTIVITY";
+export const REDIS_SUBSCRIPTION_HYDRATION_KEY =
+  "MERCURY_SUBSCRIPTION_HYDRATION";
 
 export const hasIndexerSupport = (network: NetworkNames) => {
   return network === "TESTNET" || network === "PUBLIC";
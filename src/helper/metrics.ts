@@ -4,6 +4,9 @@ import Prometheus from "prom-client";
 export enum WorkerMessage {
   INTEGRITY_CHECK_PASS = "integrityCheckPass",
   INTEGRITY_CHECK_FAIL = "integrityCheckFail",
+  PRICE_OUTLIER_REJECTED = "priceOutlierRejected",
+  SUBSCRIPTION_JOB_DEAD_LETTERED = "subscriptionJobDeadLettered",
+  MERCURY_STATE_TRANSITION = "mercuryStateTransition",
 }
 
 export const register = new Prometheus.Registry();
@@ -45,6 +48,20 @@ export const dataIntegrityCheckFail = new Prometheus.Counter({
   registers: [register],
 });
 
+export const mercuryStateTransition = new Prometheus.Counter({
+  name: "freighter_backend_mercury_state_transition_count",
+  help: "Count of transitions between the enabled, disabled and recovering states of Mercury",
+  labelNames: ["from", "to"],
+  registers: [register],
+});
+
+export const priceOutlierRejected = new Prometheus.Counter({
+  name: "freighter_backend_price_outlier_rejected_count",
+  help: "Count of token price samples quarantined for deviating from the recent prices of the token",
+  labelNames: ["token"],
+  registers: [register],
+});
+
 register.registerMetric(dataIntegrityCheckPass);
 register.registerMetric(dataIntegrityCheckFail);
 
@@ -0,0 +1,168 @@
+import * as StellarSdkNext from "stellar-sdk-next";
+import { NetworkNames } from "../validate";
+import { getSdk } from "../stellar";
+import { getServer } from "./network";
+import { StellarRpcConfig } from "../../config";
+
+// RPC nodes retain events for 7 days by default, reading 6 keeps clear of the ledgers being pruned.
+const TOKEN_EVENTS_LEDGER_WINDOW = 6 * 17280;
+const TOKEN_EVENTS_PAGE_LIMIT = 100;
+const TOKEN_EVENTS_MAX_PAGES = 10;
+// getEvents accepts at most 5 contract IDs per filter.
+const TOKEN_EVENTS_CONTRACTS_PER_REQUEST = 5;
+
+export interface TokenEvent {
+  // "<TOID of the emitting operation>-<event index>", ordered like operation IDs.
+  id: string;
+  contractId: string;
+  fnName: "transfer" | "mint";
+  from: string | null;
+  to: string | null;
+  // In the smallest unit of the token.
+  amount: string;
+  txHash: string;
+  // Close time of the ledger, in milliseconds.
+  closeTime: number;
+}
+
+/**
+ * Reads the addresses and amount of a SEP-41 transfer or mint event. Stellar Asset Contracts add the
+ * asset name as a last topic, and their mints name the admin before the recipient.
+ *
+ * @param topics - The event topics as base64 ScVals
+ * @param value - The event data as a base64 ScVal
+ * @param network - The network the event was emitted on
+ * @returns The transfer, or null if the event isn't a SEP-41 transfer or mint
+ */
+const decodeTokenEvent = (
+  topics: string[],
+  value: string,
+  network: NetworkNames,
+): Pick<TokenEvent, "fnName" | "from" | "to" | "amount"> | null => {
+  const Sdk = getSdk(StellarSdkNext.Networks[network]);
+  try {
+    const [fn, ...addresses] = topics.map((topic) =>
+      Sdk.xdr.ScVal.fromXDR(topic, "base64"),
+    );
+    const toAddress = (scVal?: StellarSdkNext.xdr.ScVal) =>
+      scVal ? Sdk.Address.fromScVal(scVal).toString() : null;
+    // Transfers to muxed accounts carry the amount in a map with the muxed ID.
+    const data = Sdk.scValToNative(Sdk.xdr.ScVal.fromXDR(value, "base64"));
+    const amount = String(
+      data && typeof data === "object" && "amount" in data ? data.amount : data,
+    );
+
+    switch (fn.sym().toString()) {
+      case "transfer":
+        return {
+          fnName: "transfer",
+          from: toAddress(addresses[0]),
+          to: toAddress(addresses[1]),
+          amount,
+        };
+      case "mint":
+        return {
+          fnName: "mint",
+          from: null,
+          to: toAddress(addresses.length === 1 ? addresses[0] : addresses[1]),
+          amount,
+        };
+      default:
+        return null;
+    }
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Reads the SEP-41 transfers and mints an account took part in from Soroban RPC, for the tokens it
+ * holds. Only the events RPC still retains, about the last 6 days, are returned.
+ *
+ * @param pubKey - The account to read the events of
+ * @param contractIds - The token contracts to read the events of
+ * @param network - The network of the account
+ * @param rpcConfig - The RPC URLs
+ * @returns The events, oldest first
+ */
+const getTokenEvents = async (
+  pubKey: string,
+  contractIds: string[],
+  network: NetworkNames,
+  rpcConfig: StellarRpcConfig,
+): Promise<TokenEvent[]> => {
+  const Sdk = getSdk(StellarSdkNext.Networks[network]);
+  const server = await getServer(network, rpcConfig);
+  const { sequence } = await server.getLatestLedger();
+  const startLedger = Math.max(1, sequence - TOKEN_EVENTS_LEDGER_WINDOW);
+
+  const account = new Sdk.Address(pubKey).toScVal().toXDR("base64");
+  const transfer = Sdk.nativeToScVal("transfer", { type: "symbol" }).toXDR(
+    "base64",
+  );
+  const mint = Sdk.nativeToScVal("mint", { type: "symbol" }).toXDR("base64");
+
+  const events: TokenEvent[] = [];
+  for (
+    let i = 0;
+    i < contractIds.length;
+    i += TOKEN_EVENTS_CONTRACTS_PER_REQUEST
+  ) {
+    const ids = contractIds.slice(i, i + TOKEN_EVENTS_CONTRACTS_PER_REQUEST);
+    const filters = [
+      {
+        type: "contract" as const,
+        contractIds: ids,
+        topics: [
+          [transfer, account, "*"],
+          [transfer, "*", account],
+          [transfer, account, "*", "*"],
+          [transfer, "*", account, "*"],
+        ],
+      },
+      {
+        type: "contract" as const,
+        contractIds: ids,
+        topics: [
+          [mint, account],
+          [mint, "*", account],
+          [mint, "*", account, "*"],
+        ],
+      },
+    ];
+
+    let cursor: string | undefined;
+    for (let pages = 0; pages < TOKEN_EVENTS_MAX_PAGES; pages++) {
+      const response = await server.getEvents(
+        cursor
+          ? { filters, cursor, limit: TOKEN_EVENTS_PAGE_LIMIT }
+          : { filters, startLedger, limit: TOKEN_EVENTS_PAGE_LIMIT },
+      );
+      for (const event of response.events) {
+        const decoded = decodeTokenEvent(
+          event.topic.map((topic) => topic.toXDR("base64")),
+          event.value.toXDR("base64"),
+          network,
+        );
+        if (!decoded || !event.contractId || !event.inSuccessfulContractCall) {
+          continue;
+        }
+        const [toid, index] = event.id.split("-");
+        events.push({
+          ...decoded,
+          id: `${BigInt(toid)}-${Number(index)}`,
+          contractId: event.contractId.contractId(),
+          txHash: event.txHash,
+          closeTime: Date.parse(event.ledgerClosedAt),
+        });
+      }
+      if (response.events.length < TOKEN_EVENTS_PAGE_LIMIT) {
+        break;
+      }
+      cursor = response.cursor;
+    }
+  }
+  return events;
+};
+
+export { decodeTokenEvent, getTokenEvents };
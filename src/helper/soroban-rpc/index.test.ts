@@ -1,8 +1,10 @@
-import { xdr } from "stellar-sdk";
+import { Address, Keypair, nativeToScVal, xdr } from "stellar-sdk";
 
 import { base64regex, testLogger } from "../test-helper";
 import * as networkHelpers from "./network";
 import { getIsTokenSpec, isTokenSpec } from "./token";
+import { decodeInvocation } from "./invocation";
+import { decodeTokenEvent } from "./events";
 
 const { getLedgerKeyContractCode, getLedgerKeyWasmId, parseWasmXdr } =
   networkHelpers;
@@ -91,4 +93,151 @@ describe("Soroban RPC helpers", () => {
       expect(isSep41).toBeFalsy();
     });
   });
+  describe("decodeInvocation", () => {
+    const from = Keypair.random().publicKey();
+    const to = Keypair.random().publicKey();
+    const spender = Keypair.random().publicKey();
+    const getParameters = (fnName: string, args: xdr.ScVal[]) =>
+      [
+        new Address(CONTRACT_ID).toScVal(),
+        nativeToScVal(fnName, { type: "symbol" }),
+        ...args,
+      ].map((scVal) => ({ type: "", value: scVal.toXDR("base64") }));
+
+    it("will name and type the arguments from the contract spec", async () => {
+      const spec = await parseWasmXdr(contractWasmXdr, "TESTNET");
+      const invocation = decodeInvocation(
+        getParameters("set_admin", [new Address(spender).toScVal()]),
+        "TESTNET",
+        spec,
+      );
+
+      expect(invocation).toEqual({
+        contractId: CONTRACT_ID,
+        fnName: "set_admin",
+        args: [{ name: "new_admin", type: "Address", value: spender }],
+        token: null,
+      });
+    });
+
+    it("will decode SEP-41 token calls with the token decimals", async () => {
+      const spec = await parseWasmXdr(contractWasmXdr, "TESTNET");
+      const invocation = decodeInvocation(
+        getParameters("transfer_from", [
+          new Address(spender).toScVal(),
+          new Address(from).toScVal(),
+          new Address(to).toScVal(),
+          nativeToScVal(12345000, { type: "i128" }),
+        ]),
+        "TESTNET",
+        spec,
+        { symbol: "TST", decimals: 7 },
+      );
+
+      expect(invocation?.args[3]).toEqual({
+        name: "amount",
+        type: "I128",
+        value: "12345000",
+      });
+      expect(invocation?.token).toEqual({
+        fnName: "transfer_from",
+        from,
+        to,
+        spender,
+        amount: "1.2345",
+        symbol: "TST",
+        decimals: 7,
+      });
+    });
+
+    it("will recognize SEP-41 calls without a contract spec", () => {
+      const invocation = decodeInvocation(
+        getParameters("approve", [
+          new Address(from).toScVal(),
+          new Address(spender).toScVal(),
+          nativeToScVal(100, { type: "i128" }),
+          nativeToScVal(5000, { type: "u32" }),
+        ]),
+        "TESTNET",
+      );
+
+      expect(invocation?.args.map(({ name, type }) => [name, type])).toEqual([
+        ["from", "Address"],
+        ["spender", "Address"],
+        ["amount", "I128"],
+        ["expiration_ledger", "U32"],
+      ]);
+      expect(invocation?.token).toMatchObject({
+        fnName: "approve",
+        from,
+        spender,
+        amount: "100",
+        symbol: null,
+      });
+    });
+
+    it("will return null for parameters that aren't a contract call", () => {
+      expect(
+        decodeInvocation(
+          [{ value: nativeToScVal(1, { type: "u32" }).toXDR("base64") }],
+          "TESTNET",
+        ),
+      ).toBeNull();
+    });
+  });
+  describe("decodeTokenEvent", () => {
+    const admin = Keypair.random().publicKey();
+    const to = Keypair.random().publicKey();
+    const toXdr = (scVal: xdr.ScVal) => scVal.toXDR("base64");
+
+    it("will read the recipient of Stellar Asset Contract mints", () => {
+      expect(
+        decodeTokenEvent(
+          [
+            nativeToScVal("mint", { type: "symbol" }),
+            new Address(admin).toScVal(),
+            new Address(to).toScVal(),
+            nativeToScVal("native"),
+          ].map(toXdr),
+          toXdr(nativeToScVal(100, { type: "i128" })),
+          "TESTNET",
+        ),
+      ).toEqual({ fnName: "mint", from: null, to, amount: "100" });
+    });
+
+    it("will read the amount of transfers to muxed accounts", () => {
+      expect(
+        decodeTokenEvent(
+          [
+            nativeToScVal("transfer", { type: "symbol" }),
+            new Address(admin).toScVal(),
+            new Address(to).toScVal(),
+          ].map(toXdr),
+          toXdr(
+            xdr.ScVal.scvMap([
+              new xdr.ScMapEntry({
+                key: nativeToScVal("amount", { type: "symbol" }),
+                val: nativeToScVal(100, { type: "i128" }),
+              }),
+              new xdr.ScMapEntry({
+                key: nativeToScVal("to_muxed_id", { type: "symbol" }),
+                val: nativeToScVal(1, { type: "u64" }),
+              }),
+            ]),
+          ),
+          "TESTNET",
+        ),
+      ).toEqual({ fnName: "transfer", from: admin, to, amount: "100" });
+    });
+
+    it("will return null for other events", () => {
+      expect(
+        decodeTokenEvent(
+          [nativeToScVal("approve", { type: "symbol" })].map(toXdr),
+          toXdr(nativeToScVal(100, { type: "i128" })),
+          "TESTNET",
+        ),
+      ).toBeNull();
+    });
+  });
 });
@@ -1,2 +1,6 @@
 export * from "./network";
 export * from "./token";
+export * from "./router";
+export * from "./oracle";
+export * from "./invocation";
+export * from "./events";
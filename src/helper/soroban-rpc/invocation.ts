@@ -0,0 +1,173 @@
+import * as StellarSdkNext from "stellar-sdk-next";
+import BigNumber from "bignumber.js";
+import { NetworkNames } from "../validate";
+import { getSdk } from "../stellar";
+
+// https://github.com/stellar/stellar-protocol/blob/master/ecosystem/sep-0041.md, with the admin functions
+// of the Stellar Asset Contract that move balances.
+const SEP41_FUNCTION_ARGS: { [fnName: string]: string[] } = {
+  transfer: ["from", "to", "amount"],
+  transfer_from: ["spender", "from", "to", "amount"],
+  approve: ["from", "spender", "amount", "expiration_ledger"],
+  burn: ["from", "amount"],
+  burn_from: ["spender", "from", "amount"],
+  mint: ["to", "amount"],
+  clawback: ["from", "amount"],
+};
+
+export interface InvocationTokenDetails {
+  symbol: string;
+  decimals: number;
+}
+
+export interface DecodedInvocationArg {
+  name: string | null;
+  // Spec type of the argument, e.g. "Address" or "I128", or the ScVal type when the spec is unknown.
+  type: string;
+  value: unknown;
+}
+
+export interface DecodedTokenInvocation {
+  fnName: string;
+  from: string | null;
+  to: string | null;
+  spender: string | null;
+  // In token units when the token decimals are known, in the smallest unit of the token otherwise.
+  amount: string | null;
+  symbol: string | null;
+  decimals: number | null;
+}
+
+export interface DecodedInvocation {
+  contractId: string;
+  fnName: string;
+  args: DecodedInvocationArg[];
+  token: DecodedTokenInvocation | null;
+}
+
+const isSep41Function = (fnName: string) =>
+  Object.prototype.hasOwnProperty.call(SEP41_FUNCTION_ARGS, fnName);
+
+// Native values of ScVals hold bigints and buffers, which can't be serialized as JSON.
+const toJsonValue = (value: unknown): unknown => {
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value).toString("base64");
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJsonValue);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, toJsonValue(entry)]),
+    );
+  }
+  return value;
+};
+
+/**
+ * Reads the argument names and types of a function from a contract spec, as returned by getContractSpec.
+ *
+ * @param spec - The JSON schema of the contract spec
+ * @param fnName - The invoked function
+ * @returns The arguments in call order, or null if the spec doesn't declare the function
+ */
+const getSpecArgs = (
+  spec: Record<string, any> | null,
+  fnName: string,
+): { name: string; type: string | null }[] | null => {
+  // The spec of the Stellar Asset Contract isn't wrapped in definitions.
+  const fnSpec = spec ? (spec.definitions || spec)[fnName] : null;
+  const args = fnSpec?.properties?.args?.properties;
+  if (!args) {
+    return null;
+  }
+  return Object.entries(args).map(([name, schema]: [string, any]) => ({
+    name,
+    type: schema.$ref
+      ? String(schema.$ref).replace("#/definitions/", "")
+      : schema.type || null,
+  }));
+};
+
+/**
+ * Decodes a contract invocation into its function name and typed arguments. Argument names and types
+ * come from the contract spec when it is known, and token movements are read from the SEP-41 functions.
+ *
+ * @param parameters - The invocation parameters as base64 ScVals: contract address, function name and arguments
+ * @param network - The network the invocation was submitted to
+ * @param spec - The JSON schema of the contract spec, or null if it couldn't be fetched
+ * @param tokenDetails - Symbol and decimals of the contract token, or null if it isn't a token
+ * @returns The decoded invocation, or null if the parameters aren't a contract invocation
+ */
+const decodeInvocation = (
+  parameters: { value: string }[],
+  network: NetworkNames,
+  spec: Record<string, any> | null = null,
+  tokenDetails: InvocationTokenDetails | null = null,
+): DecodedInvocation | null => {
+  const Sdk = getSdk(StellarSdkNext.Networks[network]);
+  let contractId: string;
+  let fnName: string;
+  let args: StellarSdkNext.xdr.ScVal[];
+  try {
+    const [contract, fn, ...rest] = parameters.map(({ value }) =>
+      Sdk.xdr.ScVal.fromXDR(value, "base64"),
+    );
+    contractId = Sdk.Address.fromScVal(contract).toString();
+    fnName = fn.sym().toString();
+    args = rest;
+  } catch (error) {
+    return null;
+  }
+
+  const specArgs = getSpecArgs(spec, fnName);
+  const sep41Args = isSep41Function(fnName) ? SEP41_FUNCTION_ARGS[fnName] : [];
+  const decodedArgs = args.map((arg, i) => {
+    let value: unknown;
+    try {
+      value = toJsonValue(Sdk.scValToNative(arg));
+    } catch (error) {
+      value = arg.toXDR("base64");
+    }
+    return {
+      name: specArgs?.[i]?.name || sep41Args[i] || null,
+      type: specArgs?.[i]?.type || arg.switch().name.replace(/^scv/, ""),
+      value,
+    };
+  });
+
+  let token: DecodedTokenInvocation | null = null;
+  // A spec that declares the function with other arguments isn't a SEP-41 token function.
+  const isTokenCall =
+    isSep41Function(fnName) &&
+    args.length === sep41Args.length &&
+    (!specArgs || specArgs.every(({ name }, i) => name === sep41Args[i]));
+  if (isTokenCall) {
+    const byName = (name: string) => {
+      const arg = decodedArgs.find((decoded) => decoded.name === name);
+      return arg && arg.value !== undefined && arg.value !== null
+        ? String(arg.value)
+        : null;
+    };
+    const amount = byName("amount");
+    token = {
+      fnName,
+      from: byName("from"),
+      to: byName("to"),
+      spender: byName("spender"),
+      amount:
+        amount && tokenDetails
+          ? new BigNumber(amount).shiftedBy(-tokenDetails.decimals).toString()
+          : amount,
+      symbol: tokenDetails?.symbol || null,
+      decimals: tokenDetails?.decimals ?? null,
+    };
+  }
+
+  return { contractId, fnName, args: decodedArgs, token };
+};
+
+export { decodeInvocation, isSep41Function };
@@ -0,0 +1,72 @@
+import * as StellarSdkNext from "stellar-sdk-next";
+import * as StellarSdk from "stellar-sdk";
+import { NetworkNames } from "../validate";
+import { getSdk } from "../stellar";
+import { simulateTx } from "./network";
+
+// https://github.com/stellar/stellar-protocol/blob/master/ecosystem/sep-0040.md
+enum Sep40OracleInterface {
+  decimals = "decimals",
+  lastprice = "lastprice",
+}
+
+export interface Sep40PriceData {
+  price: bigint;
+  timestamp: bigint;
+}
+
+const getOracleDecimals = async (
+  contractId: string,
+  server: StellarSdk.rpc.Server | StellarSdkNext.rpc.Server,
+  builder: StellarSdk.TransactionBuilder,
+  network: NetworkNames,
+) => {
+  const Sdk = getSdk(StellarSdkNext.Networks[network]);
+  const contract = new Sdk.Contract(contractId);
+
+  const tx = builder
+    .addOperation(contract.call(Sep40OracleInterface.decimals))
+    .setTimeout(Sdk.TimeoutInfinite)
+    .build();
+
+  const result = await simulateTx<number>(
+    tx,
+    server,
+    StellarSdkNext.Networks[network],
+  );
+  return result;
+};
+
+// Prices a Stellar asset, identified by its contract ID, using the Asset::Stellar(Address) variant.
+const getOracleLastPrice = async (
+  contractId: string,
+  assetContractId: string,
+  server: StellarSdk.rpc.Server | StellarSdkNext.rpc.Server,
+  builder: StellarSdk.TransactionBuilder,
+  network: NetworkNames,
+) => {
+  const Sdk = getSdk(StellarSdkNext.Networks[network]);
+  const contract = new Sdk.Contract(contractId);
+
+  const tx = builder
+    .addOperation(
+      contract.call(
+        Sep40OracleInterface.lastprice,
+        Sdk.xdr.ScVal.scvVec([
+          Sdk.xdr.ScVal.scvSymbol("Stellar"),
+          new Sdk.Address(assetContractId).toScVal(),
+        ]),
+      ),
+    )
+    .setTimeout(Sdk.TimeoutInfinite)
+    .build();
+
+  const result = await simulateTx<Sep40PriceData | undefined>(
+    tx,
+    server,
+    StellarSdkNext.Networks[network],
+  );
+  return result;
+};
+
+export { getOracleDecimals, getOracleLastPrice, Sep40OracleInterface };
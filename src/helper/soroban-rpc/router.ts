@@ -0,0 +1,44 @@
+import * as StellarSdkNext from "stellar-sdk-next";
+import * as StellarSdk from "stellar-sdk";
+import { NetworkNames } from "../validate";
+import { getSdk } from "../stellar";
+import { simulateTx } from "./network";
+
+// https://github.com/soroswap/core/blob/main/contracts/router/src/lib.rs
+enum SorobanRouterInterface {
+  getAmountsIn = "router_get_amounts_in",
+}
+
+const getRouterAmountsIn = async (
+  routerId: string,
+  amountOut: bigint,
+  path: string[],
+  server: StellarSdk.rpc.Server | StellarSdkNext.rpc.Server,
+  builder: StellarSdk.TransactionBuilder,
+  network: NetworkNames,
+) => {
+  const Sdk = getSdk(StellarSdkNext.Networks[network]);
+  const contract = new Sdk.Contract(routerId);
+
+  const tx = builder
+    .addOperation(
+      contract.call(
+        SorobanRouterInterface.getAmountsIn,
+        Sdk.nativeToScVal(amountOut, { type: "i128" }),
+        Sdk.xdr.ScVal.scvVec(
+          path.map((contractId) => new Sdk.Address(contractId).toScVal()),
+        ),
+      ),
+    )
+    .setTimeout(Sdk.TimeoutInfinite)
+    .build();
+
+  const result = await simulateTx<bigint[]>(
+    tx,
+    server,
+    StellarSdkNext.Networks[network],
+  );
+  return result;
+};
+
+export { getRouterAmountsIn, SorobanRouterInterface };
@@ -11,6 +11,7 @@ import { NetworkNames } from "./validate";
 import { hasIndexerSupport } from "./mercury";
 import { BlockAidService } from "../service/blockaid";
 import { PriceClient } from "../service/prices";
+import { SubscriptionQueue } from "../service/subscription-queue";
 import { PriceConfig, StellarRpcConfig } from "../config";
 
 export const TEST_SOROBAN_TX =
@@ -667,6 +668,8 @@ async function getDevServer(
   priceConfig = mockPriceConfig,
   stellarRpcConfig = mockStellarRpcConfig,
   useMercury = true,
+  adminApiKey = "adminApiKey",
+  subscriptionQueue?: SubscriptionQueue,
 ) {
   register.clear();
 
@@ -683,6 +686,9 @@ async function getDevServer(
     coinbaseConfig,
     priceConfig,
     stellarRpcConfig,
+    adminApiKey,
+    undefined,
+    subscriptionQueue,
   );
 
   await server.listen();
@@ -691,6 +697,7 @@ async function getDevServer(
 export {
   pubKey,
   mockMercuryClient,
+  mockPriceClient,
   queryMockResponse,
   getDevServer,
   tokenBalanceLedgerKey,
@@ -1,3 +1,5 @@
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
 import { Networks, StrKey } from "stellar-sdk";
 
 export type NetworkNames = keyof typeof Networks;
@@ -14,6 +16,8 @@ const isContractId = (contractId: string) => {
 const isValidTokenString = (asset: string) => {
   try {
     if (asset === "XLM" || asset === "native") return true;
+    // Soroban contract tokens without a classic asset are identified by their contract ID
+    if (isContractId(asset)) return true;
     const [code, issuer] = asset.split(":");
     if (!code || !issuer) return false;
 
@@ -47,4 +51,60 @@ const isNetwork = (network: string): network is NetworkNames => {
   return Object.keys(Networks).includes(network);
 };
 
-export { isContractId, isPubKey, isNetwork, isValidTokenString };
+const isHttpsUrl = (url: string) => {
+  try {
+    return new URL(url).protocol === "https:";
+  } catch (error) {
+    return false;
+  }
+};
+
+// Unspecified, loopback, private, shared and link-local ranges, which must not be reachable through
+// user provided URLs. IPv4-mapped IPv6 addresses are matched against the IPv4 ranges.
+const NON_PUBLIC_ADDRESSES = new BlockList();
+NON_PUBLIC_ADDRESSES.addSubnet("0.0.0.0", 8, "ipv4");
+NON_PUBLIC_ADDRESSES.addSubnet("10.0.0.0", 8, "ipv4");
+NON_PUBLIC_ADDRESSES.addSubnet("100.64.0.0", 10, "ipv4");
+NON_PUBLIC_ADDRESSES.addSubnet("127.0.0.0", 8, "ipv4");
+NON_PUBLIC_ADDRESSES.addSubnet("169.254.0.0", 16, "ipv4");
+NON_PUBLIC_ADDRESSES.addSubnet("172.16.0.0", 12, "ipv4");
+NON_PUBLIC_ADDRESSES.addSubnet("192.168.0.0", 16, "ipv4");
+NON_PUBLIC_ADDRESSES.addAddress("::", "ipv6");
+NON_PUBLIC_ADDRESSES.addAddress("::1", "ipv6");
+NON_PUBLIC_ADDRESSES.addSubnet("fc00::", 7, "ipv6");
+NON_PUBLIC_ADDRESSES.addSubnet("fe80::", 10, "ipv6");
+
+const isPublicAddress = (address: string) => {
+  const family = isIP(address);
+  if (!family) {
+    return false;
+  }
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+};
+
+const isPublicHttpsUrl = async (url: string) => {
+  if (!isHttpsUrl(url)) {
+    return false;
+  }
+  try {
+    // IPv6 hosts are bracketed in URLs.
+    const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+    const addresses = await lookup(hostname, { all: true });
+    return (
+      addresses.length > 0 &&
+      addresses.every(({ address }) => isPublicAddress(address))
+    );
+  } catch (error) {
+    return false;
+  }
+};
+
+export {
+  isContractId,
+  isPubKey,
+  isNetwork,
+  isValidTokenString,
+  isHttpsUrl,
+  isPublicAddress,
+  isPublicHttpsUrl,
+};
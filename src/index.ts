@@ -4,7 +4,7 @@ import yargs from "yargs";
 import Redis from "ioredis";
 import { createClient } from "redis";
 import Prometheus from "prom-client";
-import { Worker } from "worker_threads";
+import { Worker, WorkerOptions } from "worker_threads";
 import Blockaid from "@blockaid/client";
 
 import { logger } from "./logger";
@@ -28,10 +28,79 @@ import {
   WorkerMessage,
   dataIntegrityCheckFail,
   dataIntegrityCheckPass,
+  mercuryStateTransition,
+  priceOutlierRejected,
 } from "./helper/metrics";
 import { fetchWithTimeout } from "./helper/fetch";
 import { BlockAidService } from "./service/blockaid";
 import { PriceClient } from "./service/prices";
+import { SubscriptionQueue } from "./service/subscription-queue";
+import { NetworkNames } from "./helper/validate";
+
+const SUBSCRIPTION_COLLECTION_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Starts a worker thread, and restarts it with an exponential backoff whenever it exits abnormally.
+ *
+ * @param name - Name of the worker in logs, capitalized
+ * @param filename - Build of the worker
+ * @param options - Options the worker is started with, including its workerData
+ * @param onMessage - Handler of the messages the worker posts
+ * @param retryCount - Restarts of the worker so far
+ */
+const startRetryingWorker = (
+  name: string,
+  filename: string,
+  options: WorkerOptions,
+  onMessage: (message: any) => void,
+  retryCount = 0,
+) => {
+  const maxRetries = 10;
+  const baseDelay = 1000; // 1 second
+  const maxDelay = 300000; // 5 minutes
+
+  const worker = new Worker(filename, options);
+
+  worker.on("message", onMessage);
+
+  worker.on("error", (e) => {
+    logger.error({ error: e }, `${name} worker error`);
+    worker.terminate();
+  });
+
+  worker.on("exit", (code) => {
+    logger.info(`${name} worker exited with code ${code}`);
+
+    // Non-zero exit code indicates abnormal termination
+    if (code !== 0) {
+      const delay = Math.min(baseDelay * Math.pow(2, retryCount), maxDelay);
+
+      if (retryCount < maxRetries) {
+        logger.info(
+          `Restarting ${name.toLowerCase()} worker in ${delay}ms (attempt ${retryCount + 1}/${maxRetries})`,
+        );
+        setTimeout(
+          () =>
+            startRetryingWorker(
+              name,
+              filename,
+              options,
+              onMessage,
+              retryCount + 1,
+            ),
+          delay,
+        );
+      } else {
+        logger.error(
+          `Max retry attempts reached for ${name.toLowerCase()} worker. Manual intervention required.`,
+        );
+        criticalError.inc();
+      }
+    }
+  });
+
+  return worker;
+};
 
 interface CliArgs {
   env: string;
@@ -140,6 +209,13 @@ async function main() {
   });
   const blockAidService = new BlockAidService(blockAidClient, logger, register);
 
+  // Subscriptions are queued for the subscription worker, which only runs outside of development alongside
+  // Redis and Mercury. Without it, subscriptions are made during the request.
+  const subscriptionQueue =
+    env !== "development" && redis && conf.useMercury
+      ? new SubscriptionQueue(redis, logger)
+      : undefined;
+
   const mercuryClient = new MercuryClient(
     mercurySession,
     logger,
@@ -151,6 +227,7 @@ async function main() {
     },
     conf.stellarRpcConfig,
     redis,
+    subscriptionQueue,
   );
 
   const priceClient = new PriceClient(
@@ -171,7 +248,9 @@ async function main() {
     conf.coinbaseConfig,
     conf.priceConfig,
     conf.stellarRpcConfig,
+    conf.adminApiKey,
     redis,
+    subscriptionQueue,
   );
   const metricsServer = await initMetricsServer(register, redis);
 
@@ -197,49 +276,47 @@ async function main() {
         },
       };
 
-      const startPriceWorker = (retryCount = 0) => {
-        const maxRetries = 10;
-        const baseDelay = 1000; // 1 second
-        const maxDelay = 300000; // 5 minutes
-
-        const priceWorker = new Worker(
-          "./build/price-worker.js",
-          priceWorkerData,
-        );
-
-        priceWorker.on("error", (e) => {
-          logger.error("Price worker error:", e);
-          priceWorker.terminate();
-        });
-
-        priceWorker.on("exit", (code) => {
-          logger.info(`Price worker exited with code ${code}`);
-
-          // Non-zero exit code indicates abnormal termination
-          if (code !== 0) {
-            const delay = Math.min(
-              baseDelay * Math.pow(2, retryCount),
-              maxDelay,
-            );
+      startRetryingWorker(
+        "Price",
+        "./build/price-worker.js",
+        priceWorkerData,
+        (message) => {
+          const { type, token } = message;
+          switch (type) {
+            case WorkerMessage.PRICE_OUTLIER_REJECTED: {
+              priceOutlierRejected.inc({ token });
+              return;
+            }
 
-            if (retryCount < maxRetries) {
-              logger.info(
-                `Restarting price worker in ${delay}ms (attempt ${retryCount + 1}/${maxRetries})`,
-              );
-              setTimeout(() => startPriceWorker(retryCount + 1), delay);
-            } else {
-              logger.error(
-                "Max retry attempts reached for price worker. Manual intervention required.",
-              );
-              criticalError.inc();
+            default: {
+              logger.error(`Price worker message type not supported: ${type}`);
             }
           }
-        });
+        },
+      );
+    }
 
-        return priceWorker;
+    // Unsubscribe the accounts that haven't been queried in a while, Mercury bills every subscription.
+    if (conf.useMercury && env !== "development" && redis) {
+      const collectIdleSubscriptions = async () => {
+        for (const network of ["PUBLIC", "TESTNET"] as NetworkNames[]) {
+          const { data, error } = await mercuryClient.collectIdleSubscriptions(
+            network,
+            conf.mercurySubscriptionMaxIdleDays,
+          );
+          if (error) {
+            logger.error(error);
+          } else {
+            logger.info(
+              `Collected idle subscriptions of ${data?.collected.length} accounts on ${network}`,
+            );
+          }
+        }
       };
-
-      startPriceWorker();
+      setInterval(
+        collectIdleSubscriptions,
+        SUBSCRIPTION_COLLECTION_INTERVAL_MS,
+      );
     }
 
     // the worker is not properly instantiated when running this app with ts-node
@@ -250,6 +327,7 @@ async function main() {
           hostname: conf.hostname,
           mercuryBackendPubnet: conf.mercuryBackendPubnet,
           mercuryBackendTestnet: conf.mercuryBackendTestnet,
+          mercuryBalanceIntegrityCheck: conf.mercuryBalanceIntegrityCheck,
           mercuryEmailTestnet: conf.mercuryEmailTestnet,
           mercuryGraphQLCurrentDataPubnet: conf.mercuryGraphQLCurrentDataPubnet,
           mercuryGraphQLCurrentDataTestnet:
@@ -259,6 +337,8 @@ async function main() {
           mercuryIntegrityCheckEmail: conf.mercuryIntegrityCheckEmail,
           mercuryIntegrityCheckPass: conf.mercuryIntegrityCheckPass,
           mercuryPasswordTestnet: conf.mercuryPasswordTestnet,
+          mercuryRecoveryPasses: conf.mercuryRecoveryPasses,
+          mercuryRecoveryWindowMs: conf.mercuryRecoveryWindowMs,
           redisConnectionName: conf.redisConnectionName,
           redisPort: conf.redisPort,
           sentryKey: conf.sentryKey,
@@ -277,6 +357,11 @@ async function main() {
             dataIntegrityCheckPass.inc();
             return;
           }
+          case WorkerMessage.MERCURY_STATE_TRANSITION: {
+            const { from, to } = message;
+            mercuryStateTransition.labels({ from, to }).inc();
+            return;
+          }
 
           default: {
             logger.error(`Worker message type not supported: ${type}`);
@@ -291,6 +376,48 @@ async function main() {
         logger.info("Integrity checker worker exited");
       });
     }
+
+    if (subscriptionQueue) {
+      startRetryingWorker(
+        "Subscription",
+        "./build/subscription-worker.js",
+        {
+          workerData: {
+            hostname: conf.hostname,
+            mercuryBackendPubnet: conf.mercuryBackendPubnet,
+            mercuryBackendTestnet: conf.mercuryBackendTestnet,
+            mercuryEmail: conf.mercuryEmail,
+            mercuryEmailTestnet: conf.mercuryEmailTestnet,
+            mercuryGraphQLCurrentDataPubnet:
+              conf.mercuryGraphQLCurrentDataPubnet,
+            mercuryGraphQLCurrentDataTestnet:
+              conf.mercuryGraphQLCurrentDataTestnet,
+            mercuryGraphQLPubnet: conf.mercuryGraphQLPubnet,
+            mercuryGraphQLTestnet: conf.mercuryGraphQLTestnet,
+            mercuryPassword: conf.mercuryPassword,
+            mercuryPasswordTestnet: conf.mercuryPasswordTestnet,
+            redisConnectionName: conf.redisConnectionName,
+            redisPort: conf.redisPort,
+            stellarRpcConfig: conf.stellarRpcConfig,
+          },
+        },
+        (message) => {
+          const { type } = message;
+          switch (type) {
+            case WorkerMessage.SUBSCRIPTION_JOB_DEAD_LETTERED: {
+              criticalError
+                .labels({ message: "Subscription job ran out of attempts" })
+                .inc();
+              return;
+            }
+
+            default: {
+              logger.error(`Worker message type not supported: ${type}`);
+            }
+          }
+        },
+      );
+    }
   } catch (err) {
     logger.error(err);
   }
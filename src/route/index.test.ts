@@ -1,7 +1,10 @@
+import BigNumber from "bignumber.js";
 import * as StellarSdk from "stellar-sdk";
 import "@blockaid/client";
 import {
   getDevServer,
+  mockMercuryClient,
+  mockPriceClient,
   queryMockResponse,
   pubKey,
   TEST_SOROBAN_TX,
@@ -16,6 +19,11 @@ import * as OnrampHelpers from "../helper/onramp";
 import * as HorizonRpcHelpers from "../helper/horizon-rpc";
 import { getStellarRpcUrls } from "../helper/soroban-rpc";
 import { StellarRpcConfig } from "../config";
+import { SubscriptionQueue } from "../service/subscription-queue";
+import {
+  InvalidWebhookUrlError,
+  PriceAlertLimitError,
+} from "../service/prices/errors";
 
 const mockStellarRpcConfig = {
   freighterRpcPubnetUrl: "https://rpc-pubnet.stellar.org",
@@ -176,7 +184,237 @@ describe("API routes", () => {
       expect(fetchAccountHistorySpy.mock.calls[0][2]).toEqual(true);
       await server.close();
     });
+
+    it("pages through history with a cursor and returns the next cursor", async () => {
+      const fetchAccountHistorySpy = jest
+        .spyOn(HorizonRpcHelpers, "fetchAccountHistory")
+        .mockResolvedValue([
+          { id: "300", paging_token: "300" },
+          { id: "200", paging_token: "200" },
+        ] as any);
+      const server = await getDevServer(
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        false,
+      );
+      const response = await fetch(
+        `http://localhost:${
+          (server?.server?.address() as any).port
+        }/api/v1/account-history/${pubKey}?network=TESTNET&cursor=400&limit=2`,
+      );
+
+      expect(response.status).toEqual(200);
+      expect(fetchAccountHistorySpy).toHaveBeenCalledWith(
+        pubKey,
+        expect.anything(),
+        false,
+        "400",
+        2,
+      );
+      expect(response.headers.get("X-Next-Cursor")).toEqual("200");
+      fetchAccountHistorySpy.mockRestore();
+      await server.close();
+    });
+
+    it("fills filtered pages by scanning older Horizon pages", async () => {
+      const usdc =
+        "USDC:GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN";
+      const [assetCode, assetIssuer] = usdc.split(":");
+      const operation = (id: string, type: string, code?: string) => ({
+        id,
+        paging_token: id,
+        type,
+        created_at: "2024-01-01T00:00:00Z",
+        ...(code
+          ? {
+              asset_type: "credit_alphanum4",
+              asset_code: code,
+              asset_issuer: assetIssuer,
+            }
+          : { asset_type: "native" }),
+      });
+      const fetchAccountHistorySpy = jest
+        .spyOn(HorizonRpcHelpers, "fetchAccountHistory")
+        .mockResolvedValueOnce([
+          operation("600", "payment", assetCode),
+          operation("500", "payment"),
+        ] as any)
+        .mockResolvedValueOnce([
+          operation("400", "change_trust", assetCode),
+          operation("300", "payment", assetCode),
+        ] as any)
+        .mockResolvedValueOnce([operation("200", "payment", assetCode)] as any);
+      const server = await getDevServer(
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        false,
+      );
+      const response = await fetch(
+        `http://localhost:${
+          (server?.server?.address() as any).port
+        }/api/v1/account-history/${pubKey}?network=TESTNET&limit=2&types=payment&asset=${usdc}`,
+      );
+      const data = await response.json();
+
+      expect(response.status).toEqual(200);
+      expect(data.map(({ id }: { id: string }) => id)).toEqual(["600", "300"]);
+      expect(fetchAccountHistorySpy).toHaveBeenLastCalledWith(
+        pubKey,
+        expect.anything(),
+        false,
+        "500",
+        2,
+      );
+      expect(response.headers.get("X-Next-Cursor")).toEqual("300");
+      fetchAccountHistorySpy.mockRestore();
+      await server.close();
+    });
+
+    it("rejects invalid cursors and limits", async () => {
+      const server = await getDevServer();
+      const port = (server?.server?.address() as any).port;
+      const invalidCursor = await fetch(
+        `http://localhost:${port}/api/v1/account-history/${pubKey}?network=TESTNET&cursor=abc`,
+      );
+      const invalidLimit = await fetch(
+        `http://localhost:${port}/api/v1/account-history/${pubKey}?network=TESTNET&limit=201`,
+      );
+
+      expect(invalidCursor.status).toEqual(400);
+      expect(invalidLimit.status).toEqual(400);
+      await server.close();
+    });
+
+    it("can decode contract invocations on request", async () => {
+      const decodeSpy = jest
+        .spyOn(mockMercuryClient, "decodeAccountHistoryInvocations")
+        .mockImplementation(async (_pubKey, history) =>
+          history.map((operation) => ({ ...operation, invocation: null })),
+        );
+      const server = await getDevServer();
+      const response = await fetch(
+        `http://localhost:${
+          (server?.server?.address() as any).port
+        }/api/v1/account-history/${pubKey}?network=TESTNET&decode_invocations=true`,
+      );
+      const data = await response.json();
+
+      expect(response.status).toEqual(200);
+      expect(decodeSpy).toHaveBeenLastCalledWith(
+        pubKey,
+        expect.any(Array),
+        "TESTNET",
+      );
+      expect(data[0]).toHaveProperty("invocation", null);
+      decodeSpy.mockRestore();
+      await server.close();
+    });
+  });
+  describe("/account-history/:pubKey/export", () => {
+    const payment = {
+      id: "100",
+      type: "payment",
+      created_at: "2024-01-01T00:00:00Z",
+      transaction_hash: "tx1",
+      from: pubKey,
+      to: "GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN",
+      asset_type: "native",
+      amount: "5.0000000",
+    };
+
+    let getAccountHistorySpy: jest.SpyInstance;
+
+    afterEach(() => {
+      getAccountHistorySpy.mockRestore();
+    });
+
+    it("exports the account history as CSV", async () => {
+      getAccountHistorySpy = jest
+        .spyOn(mockMercuryClient, "getAccountHistory")
+        .mockResolvedValue({
+          data: [payment] as any,
+          next: null,
+          error: null,
+        });
+      const server = await getDevServer();
+      const response = await fetch(
+        `http://localhost:${
+          (server?.server?.address() as any).port
+        }/api/v1/account-history/${pubKey}/export?network=TESTNET`,
+      );
+      const body = await response.text();
+      await server.close();
+
+      expect(response.status).toEqual(200);
+      expect(response.headers.get("Content-Type")).toContain("text/csv");
+      expect(response.headers.get("Content-Disposition")).toEqual(
+        `attachment; filename="${pubKey}-testnet-history.csv"`,
+      );
+      expect(body.split("\n")).toEqual([
+        "date,type,asset,amount,counterparty,fee,memo,tx_hash,fiat_value,fiat_currency",
+        `2024-01-01T00:00:00Z,payment,XLM,-5,${payment.to},,,tx1,,`,
+        "",
+      ]);
+    });
+
+    it("exports the account history as JSON", async () => {
+      getAccountHistorySpy = jest
+        .spyOn(mockMercuryClient, "getAccountHistory")
+        .mockResolvedValue({
+          data: [payment] as any,
+          next: null,
+          error: null,
+        });
+      const server = await getDevServer();
+      const response = await fetch(
+        `http://localhost:${
+          (server?.server?.address() as any).port
+        }/api/v1/account-history/${pubKey}/export?network=TESTNET&format=json`,
+      );
+      const body = await response.json();
+      await server.close();
+
+      expect(response.status).toEqual(200);
+      expect(body.data).toHaveLength(1);
+      expect(body.data[0]).toMatchObject({
+        type: "payment",
+        asset: "XLM",
+        amount: "-5",
+        txHash: "tx1",
+      });
+    });
+
+    it("passes through account history errors", async () => {
+      getAccountHistorySpy = jest
+        .spyOn(mockMercuryClient, "getAccountHistory")
+        .mockResolvedValue({
+          data: null,
+          next: null,
+          error: "history error",
+        });
+      const server = await getDevServer();
+      const response = await fetch(
+        `http://localhost:${
+          (server?.server?.address() as any).port
+        }/api/v1/account-history/${pubKey}/export?network=TESTNET&format=xml`,
+      );
+      const invalidFormat = response.status;
+      const errorResponse = await fetch(
+        `http://localhost:${
+          (server?.server?.address() as any).port
+        }/api/v1/account-history/${pubKey}/export?network=TESTNET`,
+      );
+      await server.close();
+
+      expect(invalidFormat).toEqual(400);
+      expect(errorResponse.status).toEqual(400);
+    });
   });
+
   describe("/token-details/:contractId", () => {
     it("can fetch token details for a contract ID with pub_key", async () => {
       const contractId =
@@ -790,6 +1028,85 @@ describe("API routes", () => {
       await server.close();
     });
 
+    it("accepts Soroban contract IDs as tokens", async () => {
+      const server = await getDevServer();
+      const url = new URL(
+        `http://localhost:${(server?.server?.address() as any).port}/api/v1/token-prices`,
+      );
+      const options = {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          tokens: ["CCWAMYJME4H5CKG7OLXGC2T4M6FL52XCZ3OQOAV6LL3GLA4RO4WH3ASP"],
+        }),
+      };
+      const response = await fetch(url.href, options);
+      expect(response.status).toEqual(200);
+      await server.close();
+    });
+
+    it("accepts a supported quote currency", async () => {
+      const server = await getDevServer();
+      const url = new URL(
+        `http://localhost:${(server?.server?.address() as any).port}/api/v1/token-prices`,
+      );
+      const options = {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          tokens: ["XLM"],
+          quote: "USD",
+        }),
+      };
+      const response = await fetch(url.href, options);
+      expect(response.status).toEqual(200);
+      await server.close();
+    });
+
+    it("accepts a supported quote currency in lowercase", async () => {
+      const server = await getDevServer();
+      const url = new URL(
+        `http://localhost:${(server?.server?.address() as any).port}/api/v1/token-prices`,
+      );
+      const options = {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          tokens: ["XLM"],
+          quote: "usd",
+        }),
+      };
+      const response = await fetch(url.href, options);
+      expect(response.status).toEqual(200);
+      await server.close();
+    });
+
+    it("rejects unsupported quote currencies", async () => {
+      const server = await getDevServer();
+      const url = new URL(
+        `http://localhost:${(server?.server?.address() as any).port}/api/v1/token-prices`,
+      );
+      const options = {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          tokens: ["XLM"],
+          quote: "JPY",
+        }),
+      };
+      const response = await fetch(url.href, options);
+      expect(response.status).toEqual(400);
+      await server.close();
+    });
+
     it("accepts 'native' as a valid token", async () => {
       const server = await getDevServer();
       const url = new URL(
@@ -964,6 +1281,781 @@ describe("API routes", () => {
       await server.close();
     });
   });
+  describe("/token-prices/:token/history", () => {
+    it("accepts a valid token and period", async () => {
+      const server = await getDevServer();
+      const response = await fetch(
+        `http://localhost:${
+          (server?.server?.address() as any).port
+        }/api/v1/token-prices/XLM/history?period=7d`,
+      );
+      expect(response.status).toEqual(200);
+      await server.close();
+    });
+
+    it("rejects invalid token format", async () => {
+      const server = await getDevServer();
+      const response = await fetch(
+        `http://localhost:${
+          (server?.server?.address() as any).port
+        }/api/v1/token-prices/invalid-token/history`,
+      );
+      expect(response.status).toEqual(400);
+      await server.close();
+    });
+
+    it("rejects unsupported periods", async () => {
+      const server = await getDevServer();
+      const response = await fetch(
+        `http://localhost:${
+          (server?.server?.address() as any).port
+        }/api/v1/token-prices/XLM/history?period=1y`,
+      );
+      expect(response.status).toEqual(400);
+      await server.close();
+    });
+  });
+  describe("/token-candles", () => {
+    const postCandles = async (body: object) => {
+      const server = await getDevServer();
+      const url = new URL(
+        `http://localhost:${(server?.server?.address() as any).port}/api/v1/token-candles`,
+      );
+      const response = await fetch(url.href, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+      await server.close();
+      return response;
+    };
+
+    it("accepts valid tokens, interval and limit", async () => {
+      const response = await postCandles({
+        tokens: [
+          "XLM",
+          "USD:GBBD47IF6LWK7P7MDEVSCWR7DPUWV3NY3DTQEVFL4NAT4AQH3ZLLFLA5",
+        ],
+        interval: "5m",
+        limit: 12,
+      });
+      expect(response.status).toEqual(200);
+    });
+
+    it("rejects unsupported intervals", async () => {
+      const response = await postCandles({ tokens: ["XLM"], interval: "1w" });
+      expect(response.status).toEqual(400);
+    });
+
+    it("rejects limits above the maximum", async () => {
+      const response = await postCandles({ tokens: ["XLM"], limit: 501 });
+      expect(response.status).toEqual(400);
+    });
+  });
+  describe("/token-prices/stream", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("streams a snapshot and then price updates", async () => {
+      const unsubscribe = jest.fn();
+      jest
+        .spyOn(mockPriceClient, "subscribeToPrices")
+        .mockImplementation(async (_tokens, quote, onUpdate) => {
+          setTimeout(() =>
+            onUpdate({
+              token: "XLM",
+              quote,
+              timestamp: 123,
+              price: new BigNumber(0.1),
+            }),
+          );
+          return unsubscribe;
+        });
+      jest.spyOn(mockPriceClient, "getPrice").mockResolvedValue(null);
+      const server = await getDevServer();
+      const url = new URL(
+        `http://localhost:${(server?.server?.address() as any).port}/api/v1/token-prices/stream?tokens=XLM`,
+      );
+      const controller = new AbortController();
+
+      const response = await fetch(url.href, { signal: controller.signal });
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+      let body = "";
+      while (!body.includes("event: price")) {
+        const { value } = await reader.read();
+        body += decoder.decode(value);
+      }
+      controller.abort();
+      await server.close();
+
+      expect(response.status).toEqual(200);
+      expect(response.headers.get("content-type")).toEqual("text/event-stream");
+      expect(body).toContain(
+        `event: snapshot\ndata: ${JSON.stringify({ XLM: null })}`,
+      );
+      expect(body).toContain(
+        `event: price\ndata: ${JSON.stringify({ token: "XLM", quote: "USD", timestamp: 123, price: "0.1" })}`,
+      );
+      expect(mockPriceClient.subscribeToPrices).toHaveBeenCalledWith(
+        ["XLM"],
+        "USD",
+        expect.any(Function),
+      );
+    });
+
+    it("rejects invalid tokens", async () => {
+      const server = await getDevServer();
+      const url = new URL(
+        `http://localhost:${(server?.server?.address() as any).port}/api/v1/token-prices/stream?tokens=XLM,notAToken`,
+      );
+      const response = await fetch(url.href);
+      await server.close();
+
+      expect(response.status).toEqual(400);
+    });
+  });
+  describe("/portfolio/:pubKey", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("values the balances of an account", async () => {
+      const balancesError = { horizon: null, soroban: null };
+      const getAccountBalances = jest
+        .spyOn(mockMercuryClient, "getAccountBalances")
+        .mockResolvedValue({
+          balances: {
+            native: { total: new BigNumber(100) },
+            "abcd:lp": { total: new BigNumber(1) },
+          },
+          isFunded: true,
+          subentryCount: 1,
+          error: balancesError,
+        });
+      jest.spyOn(mockPriceClient, "getPrice").mockResolvedValue({
+        currentPrice: new BigNumber(0.5),
+        percentagePriceChange24h: new BigNumber(25),
+        unreliable: false,
+        confidence: null,
+      });
+      const server = await getDevServer();
+      const response = await fetch(
+        `http://localhost:${(server?.server?.address() as any).port}/api/v1/portfolio/${pubKey}`,
+      );
+      const body = await response.json();
+      await server.close();
+
+      expect(response.status).toEqual(200);
+      expect(getAccountBalances).toHaveBeenCalledWith(
+        pubKey,
+        [],
+        "PUBLIC",
+        true,
+      );
+      expect(body).toEqual({
+        data: {
+          quote: "USD",
+          totalValue: "50",
+          valueChange24h: "10",
+          percentageChange24h: "25",
+          assets: {
+            native: {
+              token: "XLM",
+              amount: "100",
+              price: "0.5",
+              value: "50",
+              valueChange24h: "10",
+              percentagePriceChange24h: "25",
+            },
+          },
+          unpricedAssets: ["abcd:lp"],
+        },
+        error: balancesError,
+      });
+    });
+
+    it("rejects unsupported quotes", async () => {
+      const server = await getDevServer();
+      const response = await fetch(
+        `http://localhost:${(server?.server?.address() as any).port}/api/v1/portfolio/${pubKey}?quote=BTC`,
+      );
+      await server.close();
+
+      expect(response.status).toEqual(400);
+    });
+
+    it("rejects requests for non strings that are not pub keys", async () => {
+      const server = await getDevServer();
+      const response = await fetch(
+        `http://localhost:${(server?.server?.address() as any).port}/api/v1/portfolio/newp`,
+      );
+      await server.close();
+
+      expect(response.status).toEqual(400);
+    });
+  });
+  describe("/portfolio/:pubKey/history", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("returns the value timeline of an account", async () => {
+      jest.spyOn(mockMercuryClient, "getAccountHistory").mockResolvedValue({
+        data: [],
+        next: null,
+        error: null,
+      });
+      jest.spyOn(mockMercuryClient, "getAccountBalances").mockResolvedValue({
+        balances: { native: { total: new BigNumber(100) } },
+        isFunded: true,
+        subentryCount: 0,
+        error: { horizon: null, soroban: null },
+      });
+      jest.spyOn(mockPriceClient, "getPriceHistory").mockResolvedValue({
+        token: "XLM",
+        period: "30d",
+        prices: [{ timestamp: 0, price: new BigNumber(0.5) }],
+      });
+      const server = await getDevServer();
+      const response = await fetch(
+        `http://localhost:${(server?.server?.address() as any).port}/api/v1/portfolio/${pubKey}/history`,
+      );
+      const body = await response.json();
+      await server.close();
+
+      expect(response.status).toEqual(200);
+      expect(body.data.quote).toEqual("USD");
+      expect(body.data.unpricedAssets).toEqual([]);
+      expect(body.data.values).toHaveLength(181);
+      expect(body.data.values[0].value).toEqual("50");
+    });
+
+    it("passes through account history errors", async () => {
+      jest.spyOn(mockMercuryClient, "getAccountHistory").mockResolvedValue({
+        data: null,
+        next: null,
+        error: "history error",
+      });
+      const server = await getDevServer();
+      const response = await fetch(
+        `http://localhost:${(server?.server?.address() as any).port}/api/v1/portfolio/${pubKey}/history`,
+      );
+      await server.close();
+
+      expect(response.status).toEqual(400);
+    });
+  });
+  describe("/price-alerts", () => {
+    const alertId = "0b6c8a5e-5d7a-4f0e-9a55-1c8c4e2f3b1a";
+    const alert = {
+      id: alertId,
+      token: "XLM",
+      quote: "USD",
+      direction: "down" as const,
+      threshold: new BigNumber(0.1),
+      percentChange: null,
+      windowMs: null,
+      webhookUrl: "https://example.com/webhook",
+      secret: "secret",
+      createdAt: 1000,
+      triggered: false,
+    };
+    const alertRequest = async (
+      method: string,
+      path: string,
+      body?: object,
+    ) => {
+      const server = await getDevServer();
+      const url = new URL(
+        `http://localhost:${(server?.server?.address() as any).port}/api/v1/price-alerts${path}`,
+      );
+      const response = await fetch(url.href, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : {},
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      await server.close();
+      return response;
+    };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("creates threshold and percentage move alerts", async () => {
+      const createPriceAlert = jest
+        .spyOn(mockPriceClient, "createPriceAlert")
+        .mockResolvedValue(alert);
+
+      const response = await alertRequest("POST", "", {
+        token: "XLM",
+        direction: "down",
+        threshold: "0.1",
+        webhookUrl: "https://example.com/webhook",
+      });
+      const body = await response.json();
+      expect(response.status).toEqual(200);
+      expect(body.data.secret).toEqual("secret");
+      expect(createPriceAlert).toHaveBeenCalledWith({
+        token: "XLM",
+        quote: "USD",
+        direction: "down",
+        threshold: new BigNumber(0.1),
+        percentChange: null,
+        windowMs: null,
+        webhookUrl: "https://example.com/webhook",
+      });
+
+      const percentResponse = await alertRequest("POST", "", {
+        token: "XLM",
+        direction: "down",
+        percentChange: 10,
+        windowMs: 3600000,
+        webhookUrl: "https://example.com/webhook",
+      });
+      expect(percentResponse.status).toEqual(200);
+      expect(createPriceAlert).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          threshold: null,
+          percentChange: 10,
+          windowMs: 3600000,
+        }),
+      );
+    });
+
+    it("rejects alerts with both or neither condition", async () => {
+      const both = await alertRequest("POST", "", {
+        token: "XLM",
+        direction: "up",
+        threshold: "1",
+        percentChange: 10,
+        windowMs: 3600000,
+        webhookUrl: "https://example.com/webhook",
+      });
+      expect(both.status).toEqual(400);
+
+      const neither = await alertRequest("POST", "", {
+        token: "XLM",
+        direction: "up",
+        webhookUrl: "https://example.com/webhook",
+      });
+      expect(neither.status).toEqual(400);
+    });
+
+    it("rejects windows longer than a day and non https webhooks", async () => {
+      const longWindow = await alertRequest("POST", "", {
+        token: "XLM",
+        direction: "up",
+        percentChange: 10,
+        windowMs: 2 * 24 * 60 * 60 * 1000,
+        webhookUrl: "https://example.com/webhook",
+      });
+      expect(longWindow.status).toEqual(400);
+
+      const httpWebhook = await alertRequest("POST", "", {
+        token: "XLM",
+        direction: "up",
+        threshold: "1",
+        webhookUrl: "http://example.com/webhook",
+      });
+      expect(httpWebhook.status).toEqual(400);
+    });
+
+    it("rejects webhooks that don't resolve to a public address and alerts over the limit", async () => {
+      const createPriceAlert = jest
+        .spyOn(mockPriceClient, "createPriceAlert")
+        .mockRejectedValueOnce(
+          new InvalidWebhookUrlError("https://localhost/webhook"),
+        )
+        .mockRejectedValueOnce(new PriceAlertLimitError(10000));
+      const body = {
+        token: "XLM",
+        direction: "up",
+        threshold: "1",
+        webhookUrl: "https://localhost/webhook",
+      };
+
+      expect((await alertRequest("POST", "", body)).status).toEqual(400);
+      expect((await alertRequest("POST", "", body)).status).toEqual(429);
+      expect(createPriceAlert).toHaveBeenCalledTimes(2);
+    });
+
+    it("returns alerts without their secret", async () => {
+      jest.spyOn(mockPriceClient, "getPriceAlert").mockResolvedValue(alert);
+
+      const response = await alertRequest("GET", `/${alertId}`);
+      const body = await response.json();
+
+      expect(response.status).toEqual(200);
+      expect(body.data.id).toEqual(alertId);
+      expect(body.data.secret).toBeUndefined();
+    });
+
+    it("returns 404 for unknown alerts", async () => {
+      jest.spyOn(mockPriceClient, "getPriceAlert").mockResolvedValue(null);
+      jest.spyOn(mockPriceClient, "deletePriceAlert").mockResolvedValue(false);
+
+      expect((await alertRequest("GET", `/${alertId}`)).status).toEqual(404);
+      expect((await alertRequest("DELETE", `/${alertId}`)).status).toEqual(404);
+    });
+
+    it("deletes alerts", async () => {
+      const deletePriceAlert = jest
+        .spyOn(mockPriceClient, "deletePriceAlert")
+        .mockResolvedValue(true);
+
+      const response = await alertRequest("DELETE", `/${alertId}`);
+
+      expect(response.status).toEqual(204);
+      expect(deletePriceAlert).toHaveBeenCalledWith(alertId);
+    });
+  });
+  describe("/admin/tokens", () => {
+    const adminRequest = async (
+      method: string,
+      path: string,
+      authorization?: string,
+    ) => {
+      const server = await getDevServer();
+      const url = new URL(
+        `http://localhost:${(server?.server?.address() as any).port}/api/v1/admin${path}`,
+      );
+      const response = await fetch(url.href, {
+        method,
+        headers: authorization ? { Authorization: authorization } : {},
+      });
+      await server.close();
+      return response;
+    };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("rejects requests without the admin API key", async () => {
+      const missing = await adminRequest("GET", "/tokens");
+      expect(missing.status).toEqual(401);
+
+      const wrong = await adminRequest("GET", "/tokens", "Bearer wrongKey");
+      expect(wrong.status).toEqual(401);
+    });
+
+    it("lists tracked tokens", async () => {
+      const trackedTokens = [
+        { token: "XLM", accessCount: 10, lastUpdated: 123, pinned: true },
+      ];
+      jest
+        .spyOn(mockPriceClient, "getTrackedTokens")
+        .mockResolvedValue(trackedTokens);
+
+      const response = await adminRequest(
+        "GET",
+        "/tokens",
+        "Bearer adminApiKey",
+      );
+      expect(response.status).toEqual(200);
+      expect((await response.json()).data).toEqual(trackedTokens);
+    });
+
+    it("pins, unpins and evicts tokens", async () => {
+      const token =
+        "USD:GBBD47IF6LWK7P7MDEVSCWR7DPUWV3NY3DTQEVFL4NAT4AQH3ZLLFLA5";
+      const pinToken = jest
+        .spyOn(mockPriceClient, "pinToken")
+        .mockResolvedValue();
+      const unpinToken = jest
+        .spyOn(mockPriceClient, "unpinToken")
+        .mockResolvedValue();
+      const evictToken = jest
+        .spyOn(mockPriceClient, "evictToken")
+        .mockResolvedValue();
+
+      const pinned = await adminRequest(
+        "POST",
+        `/tokens/${token}/pin`,
+        "Bearer adminApiKey",
+      );
+      const unpinned = await adminRequest(
+        "DELETE",
+        `/tokens/${token}/pin`,
+        "Bearer adminApiKey",
+      );
+      const evicted = await adminRequest(
+        "DELETE",
+        `/tokens/${token}`,
+        "Bearer adminApiKey",
+      );
+
+      expect([pinned.status, unpinned.status, evicted.status]).toEqual([
+        200, 200, 200,
+      ]);
+      expect(pinToken).toHaveBeenCalledWith(token);
+      expect(unpinToken).toHaveBeenCalledWith(token);
+      expect(evictToken).toHaveBeenCalledWith(token);
+    });
+
+    it("rejects invalid tokens", async () => {
+      const response = await adminRequest(
+        "DELETE",
+        "/tokens/notAToken",
+        "Bearer adminApiKey",
+      );
+      expect(response.status).toEqual(400);
+    });
+  });
+  describe("/subscription/account", () => {
+    it("queues the subscription when a subscription queue is available", async () => {
+      const job = {
+        id: `TESTNET:account:${pubKey}:`,
+        network: "TESTNET",
+        type: "account",
+        pubKey,
+        status: "pending",
+        attempts: 0,
+        createdAt: 1700000000000,
+        updatedAt: 1700000000000,
+      };
+      const subscriptionQueue = {
+        enqueue: jest.fn().mockResolvedValue(job),
+        getJob: jest.fn().mockResolvedValue(job),
+      } as unknown as SubscriptionQueue;
+      const accountSubscription = jest.spyOn(
+        mockMercuryClient,
+        "accountSubscription",
+      );
+      const server = await getDevServer(
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        true,
+        "adminApiKey",
+        subscriptionQueue,
+      );
+      const port = (server?.server?.address() as any).port;
+
+      const response = await fetch(
+        `http://localhost:${port}/api/v1/subscription/account`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ pub_key: pubKey, network: "TESTNET" }),
+        },
+      );
+      expect(response.status).toEqual(202);
+      expect((await response.json()).data).toEqual(job);
+      expect(subscriptionQueue.enqueue).toHaveBeenCalledWith({
+        network: "TESTNET",
+        type: "account",
+        pubKey,
+      });
+      expect(accountSubscription).not.toHaveBeenCalled();
+
+      const status = await fetch(
+        `http://localhost:${port}/api/v1/subscription/status?network=TESTNET&type=account&pub_key=${pubKey}`,
+      );
+      expect(status.status).toEqual(200);
+      expect((await status.json()).data).toEqual(job);
+      expect(subscriptionQueue.getJob).toHaveBeenCalledWith(job.id);
+      await server.close();
+      accountSubscription.mockRestore();
+    });
+  });
+  describe("/subscription/bulk", () => {
+    const contractId =
+      "CCWAMYJME4H5CKG7OLXGC2T4M6FL52XCZ3OQOAV6LL3GLA4RO4WH3ASP";
+    const bulkRequest = async (body: object) => {
+      const server = await getDevServer();
+      const url = new URL(
+        `http://localhost:${(server?.server?.address() as any).port}/api/v1/subscription/bulk`,
+      );
+      const response = await fetch(url.href, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      await server.close();
+      return response;
+    };
+
+    it("subscribes to de-duplicated accounts and token balances", async () => {
+      const results = [
+        { pubKey, status: "existing" },
+        { pubKey, contractId, status: "subscribed" },
+      ];
+      const bulkSubscription = jest
+        .spyOn(mockMercuryClient, "bulkSubscription")
+        .mockResolvedValue(results as any);
+
+      const response = await bulkRequest({
+        network: "TESTNET",
+        accounts: [
+          { pub_key: pubKey, contract_ids: [contractId] },
+          { pub_key: pubKey, contract_ids: [contractId] },
+        ],
+      });
+
+      expect(response.status).toEqual(200);
+      expect((await response.json()).data).toEqual(results);
+      expect(bulkSubscription).toHaveBeenCalledWith(
+        [{ pubKey, contractIds: [contractId] }],
+        "TESTNET",
+      );
+      bulkSubscription.mockRestore();
+    });
+
+    it("queues a job per subscription when a subscription queue is available", async () => {
+      const subscriptionQueue = {
+        enqueue: jest.fn(async (request) => ({
+          ...request,
+          id: `${request.network}:${request.type}:${request.pubKey}:${request.contractId || ""}`,
+          status: "pending",
+        })),
+      } as unknown as SubscriptionQueue;
+      const bulkSubscription = jest.spyOn(
+        mockMercuryClient,
+        "bulkSubscription",
+      );
+      const server = await getDevServer(
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        true,
+        "adminApiKey",
+        subscriptionQueue,
+      );
+
+      const response = await fetch(
+        `http://localhost:${(server?.server?.address() as any).port}/api/v1/subscription/bulk`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            network: "TESTNET",
+            accounts: [
+              { pub_key: pubKey, contract_ids: [contractId] },
+              { pub_key: pubKey, contract_ids: [contractId] },
+            ],
+          }),
+        },
+      );
+      expect(response.status).toEqual(202);
+      expect(
+        (await response.json()).data.map(({ id }: { id: string }) => id),
+      ).toEqual([
+        `TESTNET:account:${pubKey}:`,
+        `TESTNET:token_balance:${pubKey}:${contractId}`,
+      ]);
+      expect(subscriptionQueue.enqueue).toHaveBeenCalledTimes(2);
+      expect(bulkSubscription).not.toHaveBeenCalled();
+      await server.close();
+      bulkSubscription.mockRestore();
+    });
+
+    it("rejects invalid accounts", async () => {
+      const response = await bulkRequest({
+        network: "TESTNET",
+        accounts: [{ pub_key: "notAPubKey" }],
+      });
+      expect(response.status).toEqual(400);
+    });
+  });
+  describe("/admin/subscriptions", () => {
+    const adminRequest = async (
+      method: string,
+      path: string,
+      body?: object,
+    ) => {
+      const server = await getDevServer();
+      const url = new URL(
+        `http://localhost:${(server?.server?.address() as any).port}/api/v1/admin${path}`,
+      );
+      const response = await fetch(url.href, {
+        method,
+        headers: {
+          Authorization: "Bearer adminApiKey",
+          ...(body ? { "Content-Type": "application/json" } : {}),
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      await server.close();
+      return response;
+    };
+
+    it("lists and deletes the subscriptions of an account", async () => {
+      const contractId =
+        "CCWAMYJME4H5CKG7OLXGC2T4M6FL52XCZ3OQOAV6LL3GLA4RO4WH3ASP";
+      const subscriptions = {
+        account: [{ id: 1 }],
+        tokenEvents: [{ id: 2, contractId }],
+        tokenBalances: [{ id: 3, contractId }],
+        hydration: { id: 4, status: "complete" },
+        lastQueriedAt: 1700000000000,
+      };
+      const getSubscriptions = jest
+        .spyOn(mockMercuryClient, "getSubscriptionsForPubKey")
+        .mockResolvedValue({ data: subscriptions, error: null });
+      const deleteSubscriptions = jest
+        .spyOn(mockMercuryClient, "deleteSubscriptionsForPubKey")
+        .mockResolvedValue({ data: { deleted: 3 }, error: null });
+
+      const listed = await adminRequest(
+        "GET",
+        `/subscriptions/${pubKey}?network=TESTNET`,
+      );
+      expect(listed.status).toEqual(200);
+      expect((await listed.json()).data).toEqual(subscriptions);
+      expect(getSubscriptions).toHaveBeenCalledWith(pubKey, "TESTNET");
+
+      const deleted = await adminRequest(
+        "DELETE",
+        `/subscriptions/${pubKey}?network=TESTNET`,
+      );
+      expect(deleted.status).toEqual(200);
+      expect((await deleted.json()).data).toEqual({ deleted: 3 });
+      expect(deleteSubscriptions).toHaveBeenCalledWith(pubKey, "TESTNET");
+
+      const futurenet = await adminRequest(
+        "GET",
+        `/subscriptions/${pubKey}?network=FUTURENET`,
+      );
+      expect(futurenet.status).toEqual(400);
+      getSubscriptions.mockRestore();
+      deleteSubscriptions.mockRestore();
+    });
+
+    it("collects idle subscriptions", async () => {
+      const collectIdleSubscriptions = jest
+        .spyOn(mockMercuryClient, "collectIdleSubscriptions")
+        .mockResolvedValue({
+          data: { collected: [pubKey], failed: [] },
+          error: null,
+        });
+
+      const response = await adminRequest("POST", "/subscriptions/collect", {
+        network: "PUBLIC",
+        max_idle_days: 30,
+      });
+      expect(response.status).toEqual(200);
+      expect((await response.json()).data).toEqual({
+        collected: [pubKey],
+        failed: [],
+      });
+      expect(collectIdleSubscriptions).toHaveBeenCalledWith("PUBLIC", 30);
+
+      const invalid = await adminRequest("POST", "/subscriptions/collect", {
+        network: "PUBLIC",
+        max_idle_days: 0,
+      });
+      expect(invalid.status).toEqual(400);
+      collectIdleSubscriptions.mockRestore();
+    });
+  });
   describe("/simulate-tx", () => {
     const simResponse = "simulated xdr";
     const preparedTransaction = "assembled tx xdr";
@@ -1,4 +1,7 @@
 import Fastify, { FastifyRequest } from "fastify";
+import BigNumber from "bignumber.js";
+import { timingSafeEqual } from "crypto";
+import { Readable } from "stream";
 import axios from "axios";
 import helmet from "@fastify/helmet";
 import rateLimiter from "@fastify/rate-limit";
@@ -10,6 +13,15 @@ import { Networks } from "stellar-sdk-next";
 import * as StellarSdk from "stellar-sdk";
 
 import { MercuryClient } from "../service/mercury";
+import {
+  SubscriptionJobType,
+  SubscriptionQueue,
+  getSubscriptionJobId,
+} from "../service/subscription-queue";
+import {
+  OPERATION_CATEGORIES,
+  OperationCategory,
+} from "../service/mercury/helpers/filters";
 import {
   BlockAidService,
   BlockaidAssetScanResponse,
@@ -26,6 +38,7 @@ import {
   isNetwork,
   NetworkNames,
   isValidTokenString,
+  isHttpsUrl,
 } from "../helper/validate";
 import { NETWORK_URLS, submitTransaction } from "../helper/horizon-rpc";
 import {
@@ -37,20 +50,71 @@ import {
 } from "../helper/soroban-rpc";
 import { ERROR } from "../helper/error";
 import { getSdk } from "../helper/stellar";
-import { getUseMercury } from "../helper/mercury";
+import { getUseMercury, hasIndexerSupport } from "../helper/mercury";
 import { getHttpRequestDurationLabels } from "../helper/metrics";
 import { mode } from "../helper/env";
 import { fetchOnrampSessionToken, CoinbaseConfig } from "../helper/onramp";
 import Blockaid from "@blockaid/client";
 import { PriceClient } from "../service/prices";
-import { TokenPriceData } from "../service/prices/types";
-import { ensureError } from "../service/prices/errors";
+import {
+  CandleInterval,
+  PriceAlertDirection,
+  PriceHistoryPeriod,
+  TokenCandlesData,
+  TokenPriceData,
+} from "../service/prices/types";
+import {
+  ensureError,
+  InvalidWebhookUrlError,
+  PriceAlertLimitError,
+} from "../service/prices/errors";
+import {
+  getPortfolioHistory,
+  getPortfolioValuation,
+  PortfolioOperation,
+  PORTFOLIO_HISTORY_WINDOW_MS,
+} from "../service/prices/portfolio";
+import {
+  exportAccountHistory,
+  getAccountHistoryCsvHeader,
+  getAccountHistoryCsvLine,
+} from "../service/prices/history-export";
 import { PriceConfig, StellarRpcConfig } from "../config";
 
 const API_VERSION = "v1";
 const TOKEN_PRICES_BATCH_SIZE = 50;
 const TOKEN_PRICES_MIN_REQUEST_SIZE = 1;
 const TOKEN_PRICES_MAX_REQUEST_SIZE = 100;
+const TOKEN_PRICE_HISTORY_PERIODS: PriceHistoryPeriod[] = [
+  "1h",
+  "24h",
+  "7d",
+  "30d",
+];
+const TOKEN_CANDLE_INTERVALS: CandleInterval[] = ["5m", "1h", "1d"];
+const TOKEN_CANDLES_MAX_LIMIT = 500;
+const TOKEN_PRICES_STREAM_HEARTBEAT_MS = 15000;
+// Horizon serves at most 200 operations per page.
+const ACCOUNT_HISTORY_MAX_LIMIT = 200;
+const PORTFOLIO_HISTORY_MAX_PAGES = 10;
+const ACCOUNT_HISTORY_NEXT_CURSOR_HEADER = "X-Next-Cursor";
+// Percentage move alerts are evaluated against the raw price series, which is retained for a day.
+const PRICE_ALERT_MIN_WINDOW_MS = 5 * 60 * 1000;
+const PRICE_ALERT_MAX_WINDOW_MS = 24 * 60 * 60 * 1000;
+const PRICE_ALERT_CREATE_RATE_LIMIT = 10;
+const PRICE_ALERT_ID_PATTERN =
+  "^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$";
+
+const isAdminAuthorized = (
+  authorization: string | undefined,
+  adminApiKey: string,
+) => {
+  const expected = Buffer.from(`Bearer ${adminApiKey}`);
+  const received = Buffer.from(authorization || "");
+  return (
+    received.length === expected.length && timingSafeEqual(received, expected)
+  );
+};
 
 export async function initApiServer(
   mercuryClient: MercuryClient,
@@ -71,7 +135,9 @@ export async function initApiServer(
   coinbaseConfig: CoinbaseConfig,
   priceConfig: PriceConfig,
   stellarRpcConfig: StellarRpcConfig,
+  adminApiKey: string | undefined,
   redis?: Redis,
+  subscriptionQueue?: SubscriptionQueue,
 ) {
   const routeMetricsStore = new WeakMap<
     FastifyRequest,
@@ -101,6 +167,7 @@ export async function initApiServer(
   server.register(helmet, { global: true });
   await server.register(cors, {
     origin: "*",
+    exposedHeaders: [ACCOUNT_HISTORY_NEXT_CURSOR_HEADER],
   });
 
   server.addHook("onRequest", (request, _, done) => {
@@ -346,6 +413,53 @@ export async function initApiServer(
               ["is_failed_included"]: {
                 type: "string",
               },
+              ["decode_invocations"]: {
+                type: "string",
+              },
+              ["include_balance_changes"]: {
+                type: "string",
+              },
+              ["contract_ids"]: {
+                type: "array",
+                validator: (qStr: Array<unknown>) =>
+                  qStr.map((q) => String(q)).every(isContractId),
+              },
+              ["cursor"]: {
+                type: "string",
+                // Operation IDs, or token event IDs when the page ends on an event.
+                pattern: "^[0-9]+(-[0-9]+)?$",
+              },
+              ["limit"]: {
+                type: "integer",
+                minimum: 1,
+                maximum: ACCOUNT_HISTORY_MAX_LIMIT,
+              },
+              ["types"]: {
+                type: "array",
+                items: {
+                  type: "string",
+                  enum: Array.from(
+                    new Set(Object.values(OPERATION_CATEGORIES)),
+                  ),
+                },
+              },
+              ["asset"]: {
+                type: "string",
+                validator: (qStr: string) => isValidTokenString(qStr),
+              },
+              ["counterparty"]: {
+                type: "string",
+                validator: (qStr: string) =>
+                  isPubKey(qStr) || isContractId(qStr),
+              },
+              ["from"]: {
+                type: "integer",
+                minimum: 0,
+              },
+              ["to"]: {
+                type: "integer",
+                minimum: 0,
+              },
             },
           },
         },
@@ -355,6 +469,16 @@ export async function initApiServer(
             Querystring: {
               ["network"]: NetworkNames;
               ["is_failed_included"]: string;
+              ["decode_invocations"]?: string;
+              ["include_balance_changes"]?: string;
+              ["contract_ids"]?: string[];
+              ["cursor"]?: string;
+              ["limit"]?: number;
+              ["types"]?: OperationCategory[];
+              ["asset"]?: string;
+              ["counterparty"]?: string;
+              ["from"]?: number;
+              ["to"]?: number;
             };
           }>,
           reply,
@@ -362,18 +486,52 @@ export async function initApiServer(
           try {
             const useMercury = await getUseMercury(mode, useMercuryConf, redis);
             const pubKey = request.params["pubKey"];
-            const { network, is_failed_included: isFailedIncluded } =
-              request.query;
+            const {
+              network,
+              is_failed_included: isFailedIncluded,
+              decode_invocations: decodeInvocations,
+              include_balance_changes: includeBalanceChanges,
+              contract_ids: contractIds = [],
+              cursor,
+              limit,
+              types,
+              asset,
+              counterparty,
+              from,
+              to,
+            } = request.query;
 
-            const { data, error } = await mercuryClient.getAccountHistory(
+            const skipSorobanPubnet = network === "PUBLIC" && !useSorobanPublic;
+            const { data, error, next } = await mercuryClient.getAccountHistory(
               pubKey,
               network,
               useMercury,
               isFailedIncluded === "true",
+              { cursor, limit },
+              { types, asset, counterparty, from, to },
+              {
+                contractIds: skipSorobanPubnet ? [] : contractIds,
+                includeBalanceChanges: includeBalanceChanges === "true",
+              },
             );
             if (error) {
               reply.code(400).send(JSON.stringify(error));
             } else {
+              if (next) {
+                reply.header(ACCOUNT_HISTORY_NEXT_CURSOR_HEADER, next);
+              }
+              if (decodeInvocations === "true" && !skipSorobanPubnet) {
+                reply
+                  .code(200)
+                  .send(
+                    await mercuryClient.decodeAccountHistoryInvocations(
+                      pubKey,
+                      data || [],
+                      network,
+                    ),
+                  );
+                return;
+              }
               reply.code(200).send(data);
             }
           } catch (error) {
@@ -383,6 +541,117 @@ export async function initApiServer(
         },
       });
 
+      instance.route({
+        method: "GET",
+        url: "/account-history/:pubKey/export",
+        schema: {
+          params: {
+            type: "object",
+            required: ["pubKey"],
+            properties: {
+              ["pubKey"]: {
+                type: "string",
+                validator: (pubKey: string) => isPubKey(pubKey),
+              },
+            },
+          },
+          querystring: {
+            type: "object",
+            required: ["network"],
+            properties: {
+              ["network"]: {
+                type: "string",
+                validator: (qStr: string) => isNetwork(qStr),
+              },
+              ["format"]: {
+                type: "string",
+                enum: ["csv", "json"],
+                default: "csv",
+              },
+              ["from"]: {
+                type: "integer",
+                minimum: 0,
+              },
+              ["to"]: {
+                type: "integer",
+                minimum: 0,
+              },
+            },
+          },
+        },
+        handler: async (
+          request: FastifyRequest<{
+            Params: { ["pubKey"]: string };
+            Querystring: {
+              ["network"]: NetworkNames;
+              ["format"]: "csv" | "json";
+              ["from"]?: number;
+              ["to"]?: number;
+            };
+          }>,
+          reply,
+        ) => {
+          try {
+            const useMercury = await getUseMercury(mode, useMercuryConf, redis);
+            const pubKey = request.params["pubKey"];
+            const { network, format, from, to } = request.query;
+
+            const { data: rows, error } = await exportAccountHistory(
+              pubKey,
+              network,
+              useMercury,
+              { from, to },
+              mercuryClient,
+              priceClient,
+            );
+            if (error || !rows) {
+              reply.code(400).send(JSON.stringify(error));
+              return;
+            }
+
+            async function* serialize() {
+              try {
+                yield format === "csv"
+                  ? getAccountHistoryCsvHeader()
+                  : '{"data":[';
+                let isFirstRow = true;
+                for await (const row of rows!) {
+                  if (format === "csv") {
+                    yield getAccountHistoryCsvLine(row);
+                  } else {
+                    yield `${isFirstRow ? "" : ","}${JSON.stringify(row)}`;
+                  }
+                  isFirstRow = false;
+                }
+                if (format === "json") {
+                  yield "]}";
+                }
+              } catch (e) {
+                const error = ensureError(e, "exporting account history");
+                logger.error(error);
+                throw error;
+              }
+            }
+
+            // The reply is returned so Fastify doesn't end the response when the handler resolves.
+            return reply
+              .code(200)
+              .header(
+                "Content-Type",
+                format === "csv" ? "text/csv" : "application/json",
+              )
+              .header(
+                "Content-Disposition",
+                `attachment; filename="${pubKey}-${network.toLowerCase()}-history.${format}"`,
+              )
+              .send(Readable.from(serialize()));
+          } catch (error) {
+            logger.error(error);
+            reply.code(500).send(ERROR.SERVER_ERROR);
+          }
+        },
+      });
+
       instance.route({
         method: "GET",
         url: "/account-balances/:pubKey",
@@ -1045,6 +1314,14 @@ export async function initApiServer(
                   validator: (token: string) => isValidTokenString(token),
                 },
               },
+              quote: {
+                type: "string",
+                default: PriceClient.DEFAULT_QUOTE,
+                validator: (quote: string) =>
+                  priceClient
+                    .getSupportedQuotes()
+                    .includes(quote.toUpperCase()),
+              },
             },
           },
         },
@@ -1052,19 +1329,21 @@ export async function initApiServer(
           request: FastifyRequest<{
             Body: {
               tokens: string[];
+              quote: string;
             };
           }>,
           reply,
         ) => {
           try {
             const { tokens } = request.body;
+            const quote = request.body.quote.toUpperCase();
             const prices: { [key: string]: TokenPriceData | null } = {};
 
             for (let i = 0; i < tokens.length; i += TOKEN_PRICES_BATCH_SIZE) {
               const batch = tokens.slice(i, i + TOKEN_PRICES_BATCH_SIZE);
               await Promise.all(
                 batch.map(async (token) => {
-                  prices[token] = await priceClient.getPrice(token);
+                  prices[token] = await priceClient.getPrice(token, quote);
                 }),
               );
             }
@@ -1079,129 +1358,181 @@ export async function initApiServer(
       });
 
       instance.route({
-        method: "POST",
-        url: "/subscription/token",
+        method: "GET",
+        url: "/token-prices/stream",
         schema: {
-          body: {
+          querystring: {
             type: "object",
-            required: ["contract_id", "pub_key", "network"],
+            required: ["tokens"],
             properties: {
-              contract_id: { type: "string" },
-              pub_key: { type: "string" },
-              network: { type: "string" },
-            },
-          },
-          response: {
-            200: {
-              type: "object",
-              properties: {
-                data: { type: "object" },
+              tokens: {
+                type: "string",
+                validator: (tokens: string) => {
+                  const tokenList = tokens.split(",");
+                  return (
+                    tokenList.length >= TOKEN_PRICES_MIN_REQUEST_SIZE &&
+                    tokenList.length <= TOKEN_PRICES_MAX_REQUEST_SIZE &&
+                    tokenList.every((token) => isValidTokenString(token))
+                  );
+                },
+              },
+              quote: {
+                type: "string",
+                default: PriceClient.DEFAULT_QUOTE,
+                validator: (quote: string) =>
+                  priceClient
+                    .getSupportedQuotes()
+                    .includes(quote.toUpperCase()),
               },
             },
           },
         },
         handler: async (
           request: FastifyRequest<{
-            Body: {
-              contract_id: string;
-              pub_key: string;
-              network: NetworkNames;
+            Querystring: {
+              tokens: string;
+              quote: string;
             };
           }>,
           reply,
         ) => {
-          const { contract_id, pub_key, network } = request.body;
-          const useMercury = await getUseMercury(mode, useMercuryConf, redis);
-          if (!useMercury) {
-            return reply.code(400).send(JSON.stringify("Mercury disabled"));
-          }
+          const tokens = request.query.tokens.split(",");
+          const quote = request.query.quote.toUpperCase();
+
+          // Server-Sent Events are written to the raw response, which is kept open until the client disconnects.
+          reply.hijack();
+          reply.raw.writeHead(200, {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            Connection: "keep-alive",
+            "Access-Control-Allow-Origin": "*",
+          });
+          const writeEvent = (event: string, data: unknown) => {
+            if (reply.raw.destroyed) {
+              return;
+            }
+            reply.raw.write(
+              `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`,
+            );
+          };
 
+          let unsubscribe: () => void;
           try {
-            const { data, error } = await mercuryClient.tokenSubscription(
-              contract_id,
-              pub_key,
-              network,
+            unsubscribe = await priceClient.subscribeToPrices(
+              tokens,
+              quote,
+              (update) => writeEvent("price", update),
+            );
+          } catch (e) {
+            const error = ensureError(e, "streaming token prices");
+            logger.error({ error }, "Error streaming token prices");
+            writeEvent("error", { error: ERROR.SERVER_ERROR });
+            reply.raw.end();
+            return;
+          }
+
+          if (reply.raw.destroyed) {
+            unsubscribe();
+            return;
+          }
+          const heartbeat = setInterval(
+            () => reply.raw.write(": heartbeat\n\n"),
+            TOKEN_PRICES_STREAM_HEARTBEAT_MS,
+          );
+          reply.raw.on("close", () => {
+            clearInterval(heartbeat);
+            unsubscribe();
+          });
+
+          // Start with the current prices so clients don't have to wait for the next update.
+          const prices: { [key: string]: TokenPriceData | null } = {};
+          for (let i = 0; i < tokens.length; i += TOKEN_PRICES_BATCH_SIZE) {
+            const batch = tokens.slice(i, i + TOKEN_PRICES_BATCH_SIZE);
+            await Promise.all(
+              batch.map(async (token) => {
+                prices[token] = await priceClient.getPrice(token, quote);
+              }),
             );
-            if (error) {
-              reply.code(400).send(JSON.stringify(error));
-            } else {
-              reply.code(200).send(data);
-            }
-          } catch (error) {
-            logger.error(error);
-            return reply.code(500).send(ERROR.SERVER_ERROR);
           }
+          writeEvent("snapshot", prices);
         },
       });
 
       instance.route({
-        method: "POST",
-        url: "/subscription/account",
+        method: "GET",
+        url: "/token-prices/:token/history",
         schema: {
-          body: {
+          params: {
             type: "object",
-            required: ["pub_key", "network"],
+            required: ["token"],
             properties: {
-              pub_key: { type: "string" },
-              network: { type: "string" },
+              ["token"]: {
+                type: "string",
+                validator: (token: string) => isValidTokenString(token),
+              },
             },
           },
-          response: {
-            200: {
-              type: "object",
-              properties: {
-                data: { type: "object" },
+          querystring: {
+            type: "object",
+            properties: {
+              ["period"]: {
+                type: "string",
+                enum: TOKEN_PRICE_HISTORY_PERIODS,
+                default: "24h",
               },
             },
           },
         },
         handler: async (
           request: FastifyRequest<{
-            Body: { pub_key: string; network: NetworkNames };
+            Params: { ["token"]: string };
+            Querystring: {
+              ["period"]: PriceHistoryPeriod;
+            };
           }>,
           reply,
         ) => {
-          const { pub_key, network } = request.body;
-          const useMercury = await getUseMercury(mode, useMercuryConf, redis);
-          if (!useMercury) {
-            return reply.code(400).send(JSON.stringify("Mercury disabled"));
-          }
-
           try {
-            const { data, error } = await mercuryClient.accountSubscription(
-              pub_key,
-              network,
-            );
-            if (error) {
-              reply.code(400).send(JSON.stringify(error));
-            } else {
-              reply.code(200).send(data);
-            }
-          } catch (error) {
-            logger.error(error);
-            return reply.code(500).send(ERROR.SERVER_ERROR);
+            const { token } = request.params;
+            const { period } = request.query;
+            const history = await priceClient.getPriceHistory(token, period);
+
+            reply.code(200).send({ data: history });
+          } catch (e) {
+            const error = ensureError(e, "getting token price history");
+            logger.error({ error }, "Error getting token price history");
+            reply.code(500).send(ERROR.SERVER_ERROR);
           }
         },
       });
 
       instance.route({
         method: "POST",
-        url: "/subscription/token-balance",
+        url: "/token-candles",
         schema: {
           body: {
             type: "object",
-            required: ["contract_id", "pub_key", "network"],
+            required: ["tokens"],
             properties: {
-              contract_id: { type: "string" },
-              pub_key: { type: "string" },
-              network: { type: "string" },
-            },
-          },
-          response: {
-            200: {
-              type: "object",
-              properties: {
-                data: { type: "object" },
+              tokens: {
+                type: "array",
+                minItems: TOKEN_PRICES_MIN_REQUEST_SIZE,
+                maxItems: TOKEN_PRICES_MAX_REQUEST_SIZE,
+                items: {
+                  type: "string",
+                  validator: (token: string) => isValidTokenString(token),
+                },
+              },
+              interval: {
+                type: "string",
+                enum: TOKEN_CANDLE_INTERVALS,
+                default: "1h",
+              },
+              limit: {
+                type: "integer",
+                minimum: 1,
+                maximum: TOKEN_CANDLES_MAX_LIMIT,
+                default: 24,
               },
             },
           },
@@ -1209,42 +1540,733 @@ export async function initApiServer(
         handler: async (
           request: FastifyRequest<{
             Body: {
-              pub_key: string;
-              contract_id: string;
-              network: NetworkNames;
+              tokens: string[];
+              interval: CandleInterval;
+              limit: number;
             };
           }>,
           reply,
         ) => {
-          const { pub_key, contract_id, network } = request.body;
-
-          const useMercury = await getUseMercury(mode, useMercuryConf, redis);
-          if (!useMercury) {
-            return reply.code(400).send(JSON.stringify("Mercury disabled"));
-          }
-
           try {
-            const { data, error } =
-              await mercuryClient.tokenBalanceSubscription(
-                contract_id,
-                pub_key,
-                network,
+            const { tokens, interval, limit } = request.body;
+            const candles: { [key: string]: TokenCandlesData | null } = {};
+
+            for (let i = 0; i < tokens.length; i += TOKEN_PRICES_BATCH_SIZE) {
+              const batch = tokens.slice(i, i + TOKEN_PRICES_BATCH_SIZE);
+              await Promise.all(
+                batch.map(async (token) => {
+                  candles[token] = await priceClient.getCandles(
+                    token,
+                    interval,
+                    limit,
+                  );
+                }),
               );
-            if (error) {
-              reply.code(400).send(JSON.stringify(error));
-            } else {
-              reply.code(200).send(data);
             }
-          } catch (error) {
-            logger.error(error);
-            return reply.code(500).send(ERROR.SERVER_ERROR);
+
+            reply.code(200).send({ data: candles });
+          } catch (e) {
+            const error = ensureError(e, "getting token candles");
+            logger.error({ error }, "Error getting token candles");
+            reply.code(500).send(ERROR.SERVER_ERROR);
           }
         },
       });
 
       instance.route({
-        method: "POST",
-        url: "/submit-tx",
+        method: "GET",
+        url: "/portfolio/:pubKey",
+        schema: {
+          params: {
+            type: "object",
+            required: ["pubKey"],
+            properties: {
+              ["pubKey"]: {
+                type: "string",
+                validator: (pubKey: string) => isPubKey(pubKey),
+              },
+            },
+          },
+          querystring: {
+            type: "object",
+            properties: {
+              ["contract_ids"]: {
+                type: "array",
+                validator: (qStr: Array<unknown>) =>
+                  qStr.map((q) => String(q)).every(isContractId),
+              },
+              quote: {
+                type: "string",
+                default: PriceClient.DEFAULT_QUOTE,
+                validator: (quote: string) =>
+                  priceClient
+                    .getSupportedQuotes()
+                    .includes(quote.toUpperCase()),
+              },
+            },
+          },
+        },
+        handler: async (
+          request: FastifyRequest<{
+            Params: { ["pubKey"]: string };
+            Querystring: {
+              ["contract_ids"]: string[];
+              quote: string;
+            };
+          }>,
+          reply,
+        ) => {
+          try {
+            // Token prices are tracked on Pubnet, so portfolios are only valued there.
+            const network: NetworkNames = "PUBLIC";
+            const useMercury = await getUseMercury(mode, useMercuryConf, redis);
+            const pubKey = request.params["pubKey"];
+            const quote = request.query.quote.toUpperCase();
+            const contractIds =
+              request.query["contract_ids"] || ([] as string[]);
+
+            const { balances, error } = await mercuryClient.getAccountBalances(
+              pubKey,
+              useSorobanPublic ? contractIds : [],
+              network,
+              useMercury,
+            );
+            const portfolio = await getPortfolioValuation(
+              balances,
+              priceClient,
+              quote,
+            );
+
+            // Balance errors are passed through so clients can tell a partial portfolio from a complete one.
+            reply.code(200).send({ data: portfolio, error });
+          } catch (e) {
+            const error = ensureError(e, "getting portfolio");
+            logger.error({ error }, "Error getting portfolio");
+            reply.code(500).send(ERROR.SERVER_ERROR);
+          }
+        },
+      });
+
+      instance.route({
+        method: "GET",
+        url: "/portfolio/:pubKey/history",
+        schema: {
+          params: {
+            type: "object",
+            required: ["pubKey"],
+            properties: {
+              ["pubKey"]: {
+                type: "string",
+                validator: (pubKey: string) => isPubKey(pubKey),
+              },
+            },
+          },
+          querystring: {
+            type: "object",
+            properties: {
+              ["contract_ids"]: {
+                type: "array",
+                validator: (qStr: Array<unknown>) =>
+                  qStr.map((q) => String(q)).every(isContractId),
+              },
+            },
+          },
+        },
+        handler: async (
+          request: FastifyRequest<{
+            Params: { ["pubKey"]: string };
+            Querystring: {
+              ["contract_ids"]: string[];
+            };
+          }>,
+          reply,
+        ) => {
+          try {
+            const network: NetworkNames = "PUBLIC";
+            const useMercury = await getUseMercury(mode, useMercuryConf, redis);
+            const pubKey = request.params["pubKey"];
+            const contractIds =
+              request.query["contract_ids"] || ([] as string[]);
+
+            // Page through the history until it covers the portfolio history window.
+            const operations: PortfolioOperation[] = [];
+            let cursor: string | undefined;
+            for (let page = 0; page < PORTFOLIO_HISTORY_MAX_PAGES; page++) {
+              const history = await mercuryClient.getAccountHistory(
+                pubKey,
+                network,
+                useMercury,
+                false,
+                { cursor, limit: ACCOUNT_HISTORY_MAX_LIMIT },
+              );
+              if (history.error) {
+                reply.code(400).send(JSON.stringify(history.error));
+                return;
+              }
+              operations.push(
+                ...((history.data || []) as PortfolioOperation[]),
+              );
+
+              const oldest = operations[operations.length - 1];
+              if (
+                !history.next ||
+                !oldest?.created_at ||
+                Date.parse(oldest.created_at) <
+                  Date.now() - PORTFOLIO_HISTORY_WINDOW_MS
+              ) {
+                break;
+              }
+              cursor = history.next;
+            }
+            const { balances } = await mercuryClient.getAccountBalances(
+              pubKey,
+              useSorobanPublic ? contractIds : [],
+              network,
+              useMercury,
+            );
+
+            const portfolioHistory = await getPortfolioHistory(
+              pubKey,
+              balances,
+              operations,
+              priceClient,
+            );
+            reply.code(200).send({ data: portfolioHistory });
+          } catch (e) {
+            const error = ensureError(e, "getting portfolio history");
+            logger.error({ error }, "Error getting portfolio history");
+            reply.code(500).send(ERROR.SERVER_ERROR);
+          }
+        },
+      });
+
+      instance.route({
+        method: "POST",
+        url: "/price-alerts",
+        // Every alert is evaluated on each price update, so clients can only register a few at a time.
+        config: {
+          rateLimit: {
+            max: PRICE_ALERT_CREATE_RATE_LIMIT,
+            timeWindow: "1 minute",
+          },
+        },
+        schema: {
+          body: {
+            type: "object",
+            required: ["token", "direction", "webhookUrl"],
+            properties: {
+              token: {
+                type: "string",
+                validator: (token: string) => isValidTokenString(token),
+              },
+              quote: {
+                type: "string",
+                default: PriceClient.DEFAULT_QUOTE,
+                validator: (quote: string) =>
+                  priceClient
+                    .getSupportedQuotes()
+                    .includes(quote.toUpperCase()),
+              },
+              direction: {
+                type: "string",
+                enum: ["up", "down"],
+              },
+              threshold: {
+                type: "string",
+                validator: (threshold: string) =>
+                  new BigNumber(threshold).isGreaterThan(0),
+              },
+              percentChange: {
+                type: "number",
+                exclusiveMinimum: 0,
+              },
+              windowMs: {
+                type: "integer",
+                minimum: PRICE_ALERT_MIN_WINDOW_MS,
+                maximum: PRICE_ALERT_MAX_WINDOW_MS,
+              },
+              webhookUrl: {
+                type: "string",
+                validator: (webhookUrl: string) => isHttpsUrl(webhookUrl),
+              },
+            },
+            // An alert either fires on a price threshold or on a percentage move within a window.
+            oneOf: [
+              { required: ["threshold"] },
+              { required: ["percentChange", "windowMs"] },
+            ],
+          },
+        },
+        handler: async (
+          request: FastifyRequest<{
+            Body: {
+              token: string;
+              quote: string;
+              direction: PriceAlertDirection;
+              threshold?: string;
+              percentChange?: number;
+              windowMs?: number;
+              webhookUrl: string;
+            };
+          }>,
+          reply,
+        ) => {
+          try {
+            const { threshold, percentChange, windowMs, ...condition } =
+              request.body;
+            const alert = await priceClient.createPriceAlert({
+              ...condition,
+              quote: condition.quote.toUpperCase(),
+              threshold: threshold ? new BigNumber(threshold) : null,
+              percentChange: threshold ? null : percentChange!,
+              windowMs: threshold ? null : windowMs!,
+            });
+            reply.code(200).send({ data: alert });
+          } catch (e) {
+            if (e instanceof InvalidWebhookUrlError) {
+              reply.code(400).send(ERROR.INVALID_WEBHOOK_URL);
+              return;
+            }
+            if (e instanceof PriceAlertLimitError) {
+              reply.code(429).send(ERROR.PRICE_ALERT_LIMIT_REACHED);
+              return;
+            }
+            const error = ensureError(e, "creating price alert");
+            logger.error({ error }, "Error creating price alert");
+            reply.code(500).send(ERROR.SERVER_ERROR);
+          }
+        },
+      });
+
+      instance.route({
+        method: "GET",
+        url: "/price-alerts/:id",
+        schema: {
+          params: {
+            type: "object",
+            required: ["id"],
+            properties: {
+              ["id"]: { type: "string", pattern: PRICE_ALERT_ID_PATTERN },
+            },
+          },
+        },
+        handler: async (
+          request: FastifyRequest<{ Params: { ["id"]: string } }>,
+          reply,
+        ) => {
+          try {
+            const alert = await priceClient.getPriceAlert(request.params.id);
+            if (!alert) {
+              reply.code(404).send(ERROR.PRICE_ALERT_NOT_FOUND);
+              return;
+            }
+            // The secret is only handed out when the alert is created.
+            const { secret: _secret, ...data } = alert;
+            reply.code(200).send({ data });
+          } catch (e) {
+            const error = ensureError(e, "getting price alert");
+            logger.error({ error }, "Error getting price alert");
+            reply.code(500).send(ERROR.SERVER_ERROR);
+          }
+        },
+      });
+
+      instance.route({
+        method: "DELETE",
+        url: "/price-alerts/:id",
+        schema: {
+          params: {
+            type: "object",
+            required: ["id"],
+            properties: {
+              ["id"]: { type: "string", pattern: PRICE_ALERT_ID_PATTERN },
+            },
+          },
+        },
+        handler: async (
+          request: FastifyRequest<{ Params: { ["id"]: string } }>,
+          reply,
+        ) => {
+          try {
+            const deleted = await priceClient.deletePriceAlert(
+              request.params.id,
+            );
+            if (!deleted) {
+              reply.code(404).send(ERROR.PRICE_ALERT_NOT_FOUND);
+              return;
+            }
+            reply.code(204).send();
+          } catch (e) {
+            const error = ensureError(e, "deleting price alert");
+            logger.error({ error }, "Error deleting price alert");
+            reply.code(500).send(ERROR.SERVER_ERROR);
+          }
+        },
+      });
+
+      instance.route({
+        method: "POST",
+        url: "/subscription/token",
+        schema: {
+          body: {
+            type: "object",
+            required: ["contract_id", "pub_key", "network"],
+            properties: {
+              contract_id: { type: "string" },
+              pub_key: { type: "string" },
+              network: { type: "string" },
+            },
+          },
+          response: {
+            200: {
+              type: "object",
+              properties: {
+                data: { type: "object" },
+              },
+            },
+          },
+        },
+        handler: async (
+          request: FastifyRequest<{
+            Body: {
+              contract_id: string;
+              pub_key: string;
+              network: NetworkNames;
+            };
+          }>,
+          reply,
+        ) => {
+          const { contract_id, pub_key, network } = request.body;
+          const useMercury = await getUseMercury(mode, useMercuryConf, redis);
+          if (!useMercury) {
+            return reply.code(400).send(JSON.stringify("Mercury disabled"));
+          }
+
+          try {
+            if (subscriptionQueue) {
+              const job = await subscriptionQueue.enqueue({
+                network,
+                type: "token",
+                pubKey: pub_key,
+                contractId: contract_id,
+              });
+              return reply.code(202).send({ data: job });
+            }
+
+            const { data, error } = await mercuryClient.tokenSubscription(
+              contract_id,
+              pub_key,
+              network,
+            );
+            if (error) {
+              reply.code(400).send(JSON.stringify(error));
+            } else {
+              reply.code(200).send(data);
+            }
+          } catch (error) {
+            logger.error(error);
+            return reply.code(500).send(ERROR.SERVER_ERROR);
+          }
+        },
+      });
+
+      instance.route({
+        method: "POST",
+        url: "/subscription/account",
+        schema: {
+          body: {
+            type: "object",
+            required: ["pub_key", "network"],
+            properties: {
+              pub_key: { type: "string" },
+              network: { type: "string" },
+            },
+          },
+          response: {
+            200: {
+              type: "object",
+              properties: {
+                data: { type: "object" },
+              },
+            },
+          },
+        },
+        handler: async (
+          request: FastifyRequest<{
+            Body: { pub_key: string; network: NetworkNames };
+          }>,
+          reply,
+        ) => {
+          const { pub_key, network } = request.body;
+          const useMercury = await getUseMercury(mode, useMercuryConf, redis);
+          if (!useMercury) {
+            return reply.code(400).send(JSON.stringify("Mercury disabled"));
+          }
+
+          try {
+            if (subscriptionQueue) {
+              const job = await subscriptionQueue.enqueue({
+                network,
+                type: "account",
+                pubKey: pub_key,
+              });
+              return reply.code(202).send({ data: job });
+            }
+
+            const { data, error } = await mercuryClient.accountSubscription(
+              pub_key,
+              network,
+            );
+            if (error) {
+              reply.code(400).send(JSON.stringify(error));
+            } else {
+              reply.code(200).send(data);
+            }
+          } catch (error) {
+            logger.error(error);
+            return reply.code(500).send(ERROR.SERVER_ERROR);
+          }
+        },
+      });
+
+      instance.route({
+        method: "POST",
+        url: "/subscription/token-balance",
+        schema: {
+          body: {
+            type: "object",
+            required: ["contract_id", "pub_key", "network"],
+            properties: {
+              contract_id: { type: "string" },
+              pub_key: { type: "string" },
+              network: { type: "string" },
+            },
+          },
+          response: {
+            200: {
+              type: "object",
+              properties: {
+                data: { type: "object" },
+              },
+            },
+          },
+        },
+        handler: async (
+          request: FastifyRequest<{
+            Body: {
+              pub_key: string;
+              contract_id: string;
+              network: NetworkNames;
+            };
+          }>,
+          reply,
+        ) => {
+          const { pub_key, contract_id, network } = request.body;
+
+          const useMercury = await getUseMercury(mode, useMercuryConf, redis);
+          if (!useMercury) {
+            return reply.code(400).send(JSON.stringify("Mercury disabled"));
+          }
+
+          try {
+            if (subscriptionQueue) {
+              const job = await subscriptionQueue.enqueue({
+                network,
+                type: "token_balance",
+                pubKey: pub_key,
+                contractId: contract_id,
+              });
+              return reply.code(202).send({ data: job });
+            }
+
+            const { data, error } =
+              await mercuryClient.tokenBalanceSubscription(
+                contract_id,
+                pub_key,
+                network,
+              );
+            if (error) {
+              reply.code(400).send(JSON.stringify(error));
+            } else {
+              reply.code(200).send(data);
+            }
+          } catch (error) {
+            logger.error(error);
+            return reply.code(500).send(ERROR.SERVER_ERROR);
+          }
+        },
+      });
+
+      instance.route({
+        method: "GET",
+        url: "/subscription/status",
+        schema: {
+          querystring: {
+            type: "object",
+            required: ["network", "type", "pub_key"],
+            properties: {
+              network: {
+                type: "string",
+                validator: (qStr: string) => isNetwork(qStr),
+              },
+              type: {
+                type: "string",
+                enum: ["account", "token", "token_balance"],
+              },
+              pub_key: {
+                type: "string",
+                validator: (pubKey: string) => isPubKey(pubKey),
+              },
+              contract_id: {
+                type: "string",
+                validator: (contractId: string) => isContractId(contractId),
+              },
+            },
+          },
+        },
+        handler: async (
+          request: FastifyRequest<{
+            Querystring: {
+              network: NetworkNames;
+              type: SubscriptionJobType;
+              pub_key: string;
+              contract_id?: string;
+            };
+          }>,
+          reply,
+        ) => {
+          if (!subscriptionQueue) {
+            return reply
+              .code(400)
+              .send(JSON.stringify("Subscription queue disabled"));
+          }
+
+          const { network, type, pub_key, contract_id } = request.query;
+          try {
+            const job = await subscriptionQueue.getJob(
+              getSubscriptionJobId({
+                network,
+                type,
+                pubKey: pub_key,
+                contractId: contract_id,
+              }),
+            );
+            if (!job) {
+              return reply.code(404).send(ERROR.SUBSCRIPTION_JOB_NOT_FOUND);
+            }
+            reply.code(200).send({ data: job });
+          } catch (error) {
+            logger.error(error);
+            return reply.code(500).send(ERROR.SERVER_ERROR);
+          }
+        },
+      });
+
+      instance.route({
+        method: "POST",
+        url: "/subscription/bulk",
+        schema: {
+          body: {
+            type: "object",
+            required: ["accounts", "network"],
+            properties: {
+              accounts: {
+                type: "array",
+                minItems: 1,
+                maxItems: 50,
+                items: {
+                  type: "object",
+                  required: ["pub_key"],
+                  properties: {
+                    pub_key: {
+                      type: "string",
+                      validator: (pubKey: string) => isPubKey(pubKey),
+                    },
+                    contract_ids: {
+                      type: "array",
+                      maxItems: 20,
+                      items: {
+                        type: "string",
+                        validator: (contractId: string) =>
+                          isContractId(contractId),
+                      },
+                    },
+                  },
+                },
+              },
+              network: {
+                type: "string",
+                validator: (network: string) =>
+                  isNetwork(network) &&
+                  hasIndexerSupport(network as NetworkNames),
+              },
+            },
+          },
+        },
+        handler: async (
+          request: FastifyRequest<{
+            Body: {
+              accounts: { pub_key: string; contract_ids?: string[] }[];
+              network: NetworkNames;
+            };
+          }>,
+          reply,
+        ) => {
+          const { accounts, network } = request.body;
+          const useMercury = await getUseMercury(mode, useMercuryConf, redis);
+          if (!useMercury) {
+            return reply.code(400).send(JSON.stringify("Mercury disabled"));
+          }
+
+          // Wallets can list the same account or token more than once when importing.
+          const contractIdsByPubKey = new Map<string, Set<string>>();
+          for (const { pub_key, contract_ids = [] } of accounts) {
+            const contractIds = contractIdsByPubKey.get(pub_key) || new Set();
+            contract_ids.forEach((contractId) => contractIds.add(contractId));
+            contractIdsByPubKey.set(pub_key, contractIds);
+          }
+
+          try {
+            // Each subscription is queued as its own job, the worker skips the ones that already exist.
+            if (subscriptionQueue) {
+              const jobs = await Promise.all(
+                Array.from(contractIdsByPubKey, ([pubKey, contractIds]) => [
+                  subscriptionQueue.enqueue({
+                    network,
+                    type: "account",
+                    pubKey,
+                  }),
+                  ...Array.from(contractIds, (contractId) =>
+                    subscriptionQueue.enqueue({
+                      network,
+                      type: "token_balance",
+                      pubKey,
+                      contractId,
+                    }),
+                  ),
+                ]).flat(),
+              );
+              return reply.code(202).send({ data: jobs });
+            }
+
+            const results = await mercuryClient.bulkSubscription(
+              Array.from(contractIdsByPubKey, ([pubKey, contractIds]) => ({
+                pubKey,
+                contractIds: Array.from(contractIds),
+              })),
+              network,
+            );
+            reply.code(200).send({ data: results });
+          } catch (error) {
+            logger.error(error);
+            return reply.code(500).send(ERROR.SERVER_ERROR);
+          }
+        },
+      });
+
+      instance.route({
+        method: "POST",
+        url: "/submit-tx",
         schema: {
           body: {
             type: "object",
@@ -1506,5 +2528,262 @@ export async function initApiServer(
     { prefix: `/api/${API_VERSION}` },
   );
 
+  // Admin routes are only served when an admin API key is configured.
+  if (adminApiKey) {
+    const tokenParamsSchema = {
+      type: "object",
+      required: ["token"],
+      properties: {
+        ["token"]: {
+          type: "string",
+          validator: (token: string) => isValidTokenString(token),
+        },
+      },
+    };
+
+    server.register(
+      function (instance, _opts, next) {
+        instance.addHook("onRequest", async (request, reply) => {
+          if (!isAdminAuthorized(request.headers.authorization, adminApiKey)) {
+            return reply.code(401).send({ error: ERROR.UNAUTHORIZED });
+          }
+        });
+
+        instance.route({
+          method: "GET",
+          url: "/tokens",
+          handler: async (_request, reply) => {
+            try {
+              const tokens = await priceClient.getTrackedTokens();
+              reply.code(200).send({ data: tokens });
+            } catch (e) {
+              const error = ensureError(e, "getting tracked tokens");
+              logger.error({ error }, "Error getting tracked tokens");
+              reply.code(500).send(ERROR.SERVER_ERROR);
+            }
+          },
+        });
+
+        instance.route({
+          method: "POST",
+          url: "/tokens/reinitialize",
+          handler: async (_request, reply) => {
+            try {
+              await priceClient.reinitializePriceCache();
+              reply.code(200).send({ data: { reinitialized: true } });
+            } catch (e) {
+              const error = ensureError(e, "reinitializing price cache");
+              logger.error({ error }, "Error reinitializing price cache");
+              reply.code(500).send(ERROR.SERVER_ERROR);
+            }
+          },
+        });
+
+        instance.route({
+          method: "POST",
+          url: "/tokens/:token/pin",
+          schema: {
+            params: tokenParamsSchema,
+          },
+          handler: async (
+            request: FastifyRequest<{
+              Params: { ["token"]: string };
+            }>,
+            reply,
+          ) => {
+            const { token } = request.params;
+            try {
+              await priceClient.pinToken(token);
+              reply.code(200).send({ data: { token, pinned: true } });
+            } catch (e) {
+              const error = ensureError(e, "pinning token");
+              logger.error({ error }, "Error pinning token");
+              reply.code(500).send(ERROR.SERVER_ERROR);
+            }
+          },
+        });
+
+        instance.route({
+          method: "DELETE",
+          url: "/tokens/:token/pin",
+          schema: {
+            params: tokenParamsSchema,
+          },
+          handler: async (
+            request: FastifyRequest<{
+              Params: { ["token"]: string };
+            }>,
+            reply,
+          ) => {
+            const { token } = request.params;
+            try {
+              await priceClient.unpinToken(token);
+              reply.code(200).send({ data: { token, pinned: false } });
+            } catch (e) {
+              const error = ensureError(e, "unpinning token");
+              logger.error({ error }, "Error unpinning token");
+              reply.code(500).send(ERROR.SERVER_ERROR);
+            }
+          },
+        });
+
+        instance.route({
+          method: "DELETE",
+          url: "/tokens/:token",
+          schema: {
+            params: tokenParamsSchema,
+          },
+          handler: async (
+            request: FastifyRequest<{
+              Params: { ["token"]: string };
+            }>,
+            reply,
+          ) => {
+            const { token } = request.params;
+            try {
+              await priceClient.evictToken(token);
+              reply.code(200).send({ data: { token, evicted: true } });
+            } catch (e) {
+              const error = ensureError(e, "evicting token");
+              logger.error({ error }, "Error evicting token");
+              reply.code(500).send(ERROR.SERVER_ERROR);
+            }
+          },
+        });
+
+        instance.route({
+          method: "GET",
+          url: "/subscription-jobs/dead-letters",
+          handler: async (_request, reply) => {
+            if (!subscriptionQueue) {
+              return reply.code(200).send({ data: [] });
+            }
+            try {
+              const jobs = await subscriptionQueue.getDeadLetters();
+              reply.code(200).send({ data: jobs });
+            } catch (e) {
+              logger.error(
+                { error: e },
+                "Error getting dead-lettered subscriptions",
+              );
+              reply.code(500).send(ERROR.SERVER_ERROR);
+            }
+          },
+        });
+
+        const subscriptionParamsSchema = {
+          params: {
+            type: "object",
+            required: ["pubKey"],
+            properties: {
+              ["pubKey"]: {
+                type: "string",
+                validator: (pubKey: string) => isPubKey(pubKey),
+              },
+            },
+          },
+          querystring: {
+            type: "object",
+            required: ["network"],
+            properties: {
+              ["network"]: {
+                type: "string",
+                validator: (qStr: string) =>
+                  isNetwork(qStr) && hasIndexerSupport(qStr as NetworkNames),
+              },
+            },
+          },
+        };
+
+        instance.route({
+          method: "GET",
+          url: "/subscriptions/:pubKey",
+          schema: subscriptionParamsSchema,
+          handler: async (
+            request: FastifyRequest<{
+              Params: { ["pubKey"]: string };
+              Querystring: { ["network"]: NetworkNames };
+            }>,
+            reply,
+          ) => {
+            const { pubKey } = request.params;
+            const { network } = request.query;
+            const { data, error } =
+              await mercuryClient.getSubscriptionsForPubKey(pubKey, network);
+            if (error) {
+              logger.error({ error }, "Error listing subscriptions");
+              return reply.code(500).send(ERROR.SERVER_ERROR);
+            }
+            reply.code(200).send({ data });
+          },
+        });
+
+        instance.route({
+          method: "DELETE",
+          url: "/subscriptions/:pubKey",
+          schema: subscriptionParamsSchema,
+          handler: async (
+            request: FastifyRequest<{
+              Params: { ["pubKey"]: string };
+              Querystring: { ["network"]: NetworkNames };
+            }>,
+            reply,
+          ) => {
+            const { pubKey } = request.params;
+            const { network } = request.query;
+            const { data, error } =
+              await mercuryClient.deleteSubscriptionsForPubKey(pubKey, network);
+            if (error) {
+              logger.error({ error }, "Error deleting subscriptions");
+              return reply.code(500).send(ERROR.SERVER_ERROR);
+            }
+            reply.code(200).send({ data });
+          },
+        });
+
+        instance.route({
+          method: "POST",
+          url: "/subscriptions/collect",
+          schema: {
+            body: {
+              type: "object",
+              required: ["network", "max_idle_days"],
+              properties: {
+                network: {
+                  type: "string",
+                  validator: (network: string) =>
+                    isNetwork(network) &&
+                    hasIndexerSupport(network as NetworkNames),
+                },
+                max_idle_days: { type: "number", minimum: 1 },
+              },
+            },
+          },
+          handler: async (
+            request: FastifyRequest<{
+              Body: { network: NetworkNames; max_idle_days: number };
+            }>,
+            reply,
+          ) => {
+            const { network, max_idle_days } = request.body;
+            const { data, error } =
+              await mercuryClient.collectIdleSubscriptions(
+                network,
+                max_idle_days,
+              );
+            if (error) {
+              logger.error({ error }, "Error collecting idle subscriptions");
+              return reply.code(500).send(ERROR.SERVER_ERROR);
+            }
+            reply.code(200).send({ data });
+          },
+        });
+
+        next();
+      },
+      { prefix: `/api/${API_VERSION}/admin` },
+    );
+  }
+
   return server;
 }
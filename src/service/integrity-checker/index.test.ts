@@ -0,0 +1,394 @@
+import BigNumber from "bignumber.js";
+import { Address, Keypair, nativeToScVal, xdr } from "stellar-sdk";
+
+import { IntegrityChecker, compareBalances } from ".";
+import { REDIS_USE_MERCURY_KEY } from "../../helper/mercury";
+import { transformAccountHistory } from "../mercury/helpers/transformers";
+import { query } from "../mercury/queries";
+import {
+  mockMercuryClient,
+  pubKey,
+  queryMockResponse,
+  testLogger,
+} from "../../helper/test-helper";
+
+describe("IntegrityChecker", () => {
+  const store = new Map<string, string>();
+  const mockRedisClient: any = {
+    get: jest.fn(async (key: string) => store.get(key) ?? null),
+    set: jest.fn(async (key: string, value: string) => {
+      store.set(key, value);
+      return "OK";
+    }),
+  };
+  const mockSentryClient: any = { captureException: jest.fn() };
+  const integrityChecker = new IntegrityChecker(
+    testLogger,
+    mockMercuryClient,
+    mockRedisClient,
+    mockSentryClient,
+    { passes: 3, windowMs: 90000 },
+  );
+  let now = 1700000000000;
+  let dateNowSpy: jest.SpyInstance;
+
+  const useMercury = () => store.get(REDIS_USE_MERCURY_KEY) === "true";
+  const pass = async () => {
+    now += 30000;
+    await integrityChecker.onCheckPass(useMercury());
+  };
+
+  beforeEach(() => {
+    store.clear();
+    store.set(REDIS_USE_MERCURY_KEY, "true");
+    dateNowSpy = jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    dateNowSpy.mockRestore();
+    jest.clearAllMocks();
+  });
+
+  it("enables Mercury again after consecutive passes over the recovery window", async () => {
+    await integrityChecker.onCheckFailure("1", useMercury());
+    expect(useMercury()).toBe(false);
+    expect(mockSentryClient.captureException).toHaveBeenCalledTimes(1);
+
+    await pass();
+    expect(await integrityChecker.getRecoveryState(useMercury())).toEqual({
+      state: "recovering",
+      passes: 1,
+      streakStartedAt: now,
+    });
+    await pass();
+    await pass();
+    // 3 passes, but only 60 of the 90 seconds of the window since the first one.
+    expect(useMercury()).toBe(false);
+
+    await pass();
+    expect(useMercury()).toBe(true);
+    expect((await integrityChecker.getRecoveryState(true)).state).toEqual(
+      "enabled",
+    );
+  });
+
+  it("restarts the recovery on a failure", async () => {
+    await integrityChecker.onCheckFailure("1", useMercury());
+    await pass();
+    await pass();
+    await integrityChecker.onCheckFailure("2", useMercury());
+    // Failures while Mercury is disabled aren't alerted.
+    expect(mockSentryClient.captureException).toHaveBeenCalledTimes(1);
+    expect(await integrityChecker.getRecoveryState(useMercury())).toEqual({
+      state: "disabled",
+      passes: 0,
+      streakStartedAt: null,
+    });
+
+    await pass();
+    await pass();
+    await pass();
+    expect(useMercury()).toBe(false);
+    await pass();
+    expect(useMercury()).toBe(true);
+  });
+
+  it("keeps Mercury disabled by an operator disabled", async () => {
+    await integrityChecker.onCheckPass(true);
+    store.set(REDIS_USE_MERCURY_KEY, "false");
+
+    for (let i = 0; i < 5; i++) {
+      await pass();
+    }
+    expect(useMercury()).toBe(false);
+  });
+
+  describe("operation checks", () => {
+    const operation: any = { id: "600", source_account: pubKey };
+    const horizonOperation = {
+      id: "600",
+      type: "payment",
+      amount: "10.0000000",
+      memo: null,
+      created_at: "2024-01-01T00:00:00Z",
+    };
+
+    const mockHistory = (
+      mercuryOperation: any,
+      horizonRecord: any = horizonOperation,
+    ) => {
+      const mercurySpy = jest
+        .spyOn(mockMercuryClient, "getAccountHistoryMercury")
+        .mockResolvedValue({ data: [mercuryOperation], error: null } as any);
+      const horizonSpy = jest
+        .spyOn(mockMercuryClient, "getAccountHistoryHorizon")
+        .mockResolvedValue({ data: [horizonRecord], error: null } as any);
+      return [mercurySpy, horizonSpy];
+    };
+
+    it("passes an operation matching on every key once", async () => {
+      const passSpy = jest.spyOn(integrityChecker, "onCheckPass");
+      const spies = mockHistory({
+        ...horizonOperation,
+        created_at: "2024-01-01T00:00:01Z",
+      });
+
+      await integrityChecker.matchOperations(pubKey, operation, "PUBLIC", true);
+      expect(passSpy).toHaveBeenCalledTimes(1);
+      expect(useMercury()).toBe(true);
+      [passSpy, ...spies].forEach((spy) => spy.mockRestore());
+    });
+
+    it("fails an operation mismatching on a key after the first one", async () => {
+      const passSpy = jest.spyOn(integrityChecker, "onCheckPass");
+      const spies = mockHistory({ ...horizonOperation, amount: "1.0000000" });
+
+      await integrityChecker.matchOperations(pubKey, operation, "PUBLIC", true);
+      expect(passSpy).not.toHaveBeenCalled();
+      expect(useMercury()).toBe(false);
+      [passSpy, ...spies].forEach((spy) => spy.mockRestore());
+    });
+
+    describe("contract invocations", () => {
+      const contractId =
+        "CCWAMYJME4H5CKG7OLXGC2T4M6FL52XCZ3OQOAV6LL3GLA4RO4WH3ASP";
+      const destination = Keypair.random().publicKey();
+      const invocationArgs = [
+        nativeToScVal(pubKey, { type: "address" }),
+        nativeToScVal(destination, { type: "address" }),
+        nativeToScVal(10000000, { type: "i128" }),
+      ];
+      const hostFunction = xdr.HostFunction.hostFunctionTypeInvokeContract(
+        new xdr.InvokeContractArgs({
+          contractAddress: Address.fromString(contractId).toScAddress(),
+          functionName: "transfer",
+          args: invocationArgs,
+        }),
+      ).toXDR("base64");
+      const getMercuryInvocation = async () => {
+        const history = await transformAccountHistory(
+          {
+            data: {
+              ...queryMockResponse[query.getAccountHistory],
+              invokeHostFnByPublicKey: {
+                edges: [
+                  {
+                    node: {
+                      auth: "",
+                      hostFunction,
+                      sorobanMeta: "AAAAAA==",
+                      source: pubKey,
+                      tx: "invocation",
+                      opId: "600",
+                      txInfoByTx: {
+                        fee: "100",
+                        opCount: 1,
+                        ledgerByLedger: { closeTime: 1704067200 },
+                      },
+                    },
+                  },
+                ],
+              },
+            },
+          } as any,
+          "TESTNET",
+        );
+        return history.find(({ id }) => id === "600");
+      };
+      // The record Horizon serves for the same invocation, joined with its transaction.
+      const horizonInvocation = {
+        id: "600",
+        paging_token: "600",
+        transaction_successful: true,
+        source_account: pubKey,
+        type: "invoke_host_function",
+        type_i: 24,
+        created_at: "2024-01-01T00:00:00Z",
+        transaction_hash: "invocation",
+        function: "HostFunctionTypeHostFunctionTypeInvokeContract",
+        parameters: [
+          nativeToScVal(Address.fromString(contractId)),
+          xdr.ScVal.scvSymbol("transfer"),
+          ...invocationArgs,
+        ].map((scVal, i) => ({
+          type: ["Address", "Sym", "Address", "Address", "I128"][i],
+          value: scVal.toXDR("base64"),
+        })),
+        address: "",
+        salt: "",
+        asset_balance_changes: [],
+        transaction_attr: {
+          hash: "invocation",
+          fee_charged: "100",
+          operation_count: 1,
+          memo_type: "none",
+          result_meta_xdr: "AAAAAwAAAAA=",
+        },
+      };
+
+      it("passes a Mercury invocation matching its Horizon record", async () => {
+        const passSpy = jest.spyOn(integrityChecker, "onCheckPass");
+        const spies = mockHistory(
+          await getMercuryInvocation(),
+          horizonInvocation,
+        );
+
+        await integrityChecker.matchOperations(
+          pubKey,
+          operation,
+          "TESTNET",
+          true,
+        );
+        expect(passSpy).toHaveBeenCalledTimes(1);
+        expect(useMercury()).toBe(true);
+        [passSpy, ...spies].forEach((spy) => spy.mockRestore());
+      });
+
+      it("fails a Mercury invocation with other parameters", async () => {
+        const passSpy = jest.spyOn(integrityChecker, "onCheckPass");
+        const spies = mockHistory(await getMercuryInvocation(), {
+          ...horizonInvocation,
+          parameters: horizonInvocation.parameters.slice(0, 4),
+        });
+
+        await integrityChecker.matchOperations(
+          pubKey,
+          operation,
+          "TESTNET",
+          true,
+        );
+        expect(passSpy).not.toHaveBeenCalled();
+        expect(useMercury()).toBe(false);
+        [passSpy, ...spies].forEach((spy) => spy.mockRestore());
+      });
+    });
+  });
+
+  describe("balance checks", () => {
+    const usdc =
+      "USDC:GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN";
+    const mercuryBalances: any = {
+      native: { total: "100.5" },
+      [usdc]: { total: "20" },
+    };
+    const horizonBalances: any = {
+      native: { total: new BigNumber("100.5000000") },
+      [usdc]: { total: new BigNumber("20.0000000") },
+      "ABC:lp": { total: new BigNumber("3") },
+    };
+    let setTimeoutSpy: jest.SpyInstance;
+
+    const mockBalances = (horizon: any, horizonError: unknown = null) => {
+      const mercurySpy = jest
+        .spyOn(mockMercuryClient, "getAccountBalancesMercury")
+        .mockResolvedValue({
+          data: {
+            balances: mercuryBalances,
+            isFunded: true,
+            subentryCount: 1,
+          },
+          error: null,
+        } as any);
+      const horizonSpy = jest
+        .spyOn(mockMercuryClient, "getAccountBalances")
+        .mockResolvedValue({
+          balances: horizon,
+          isFunded: horizonError ? null : true,
+          subentryCount: horizonError ? null : 1,
+          error: { horizon: horizonError, soroban: null },
+        });
+      return [mercurySpy, horizonSpy];
+    };
+
+    beforeEach(() => {
+      setTimeoutSpy = jest
+        .spyOn(global, "setTimeout")
+        .mockImplementation((callback: any) => {
+          callback();
+          return 0 as any;
+        });
+    });
+
+    afterEach(() => {
+      setTimeoutSpy.mockRestore();
+    });
+
+    it("normalizes balances before comparing them", () => {
+      expect(compareBalances(mercuryBalances, horizonBalances)).toEqual([]);
+      expect(
+        compareBalances(mercuryBalances, {
+          native: { total: new BigNumber("100.4") },
+        }),
+      ).toEqual([
+        { asset: "native", mercury: "100.5", horizon: "100.4" },
+        { asset: usdc, mercury: "20", horizon: null },
+      ]);
+    });
+
+    it("passes matching balances", async () => {
+      const spies = mockBalances(horizonBalances);
+
+      await integrityChecker.checkBalanceIntegrity(pubKey, "PUBLIC", true);
+      expect(spies[1]).toHaveBeenCalledWith(pubKey, [], "PUBLIC", false);
+      expect(useMercury()).toBe(true);
+      expect(mockSentryClient.captureException).not.toHaveBeenCalled();
+      spies.forEach((spy) => spy.mockRestore());
+    });
+
+    it("disables Mercury on a persistent balance mismatch", async () => {
+      const spies = mockBalances({
+        ...horizonBalances,
+        native: { total: new BigNumber("99") },
+      });
+
+      await integrityChecker.checkBalanceIntegrity(pubKey, "PUBLIC", true);
+      // The balances are read again before failing the check.
+      expect(spies[0]).toHaveBeenCalledTimes(2);
+      expect(useMercury()).toBe(false);
+      expect(mockSentryClient.captureException).toHaveBeenCalledTimes(1);
+      expect(
+        mockSentryClient.captureException.mock.calls[0][0].message,
+      ).toContain("assets: native");
+      spies.forEach((spy) => spy.mockRestore());
+    });
+
+    it("samples the token balance subscriptions of the account", async () => {
+      const contractIds = Array.from({ length: 8 }, (_, i) => `C${i}`);
+      const recordsSpy = jest
+        .spyOn(mockMercuryClient, "getSubscriptionRecords")
+        .mockResolvedValue({
+          account: [],
+          tokenEvents: [],
+          tokenBalances: contractIds.map((contractId, id) => ({
+            id,
+            contractId,
+          })),
+        });
+
+      const sampled = await integrityChecker.sampleContractIds(
+        pubKey,
+        "PUBLIC",
+      );
+      expect(sampled).toHaveLength(5);
+      expect(new Set(sampled).size).toEqual(5);
+      sampled.forEach((contractId) =>
+        expect(contractIds).toContain(contractId),
+      );
+
+      recordsSpy.mockRejectedValue(new Error("Mercury down"));
+      expect(
+        await integrityChecker.sampleContractIds(pubKey, "PUBLIC"),
+      ).toEqual([]);
+      recordsSpy.mockRestore();
+    });
+
+    it("skips the check when Horizon can't be read", async () => {
+      const spies = mockBalances({}, new Error("Horizon down"));
+
+      await integrityChecker.checkBalanceIntegrity(pubKey, "PUBLIC", true);
+      expect(useMercury()).toBe(true);
+      expect(mockSentryClient.captureException).not.toHaveBeenCalled();
+      spies.forEach((spy) => spy.mockRestore());
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { Logger } from "pino";
 import { Networks, Horizon } from "stellar-sdk";
 import { Redis } from "ioredis";
+import BigNumber from "bignumber.js";
 import * as Sentry from "@sentry/node";
 import { parentPort } from "worker_threads";
 
@@ -13,7 +14,52 @@ import { WorkerMessage } from "../../helper/metrics";
 
 const CHECK_INTERVAL = 5;
 const EPOCHS_TO_CHECK = 5;
-const SKIP_KEYS = ["created_at"];
+// Mercury adds the invocation of contract calls to the fields Horizon's joined transaction has, so transaction
+// attributes aren't compared.
+const SKIP_KEYS = ["created_at", "transaction_attr"];
+const REDIS_MERCURY_RECOVERY_KEY = "MERCURY_RECOVERY_STATE";
+// Balances can change between the Mercury and Horizon reads, mismatches are read again once after this long.
+const BALANCE_RECHECK_DELAY_MS = 10000;
+// Token balances of the account compared on each balance check, out of its token balance subscriptions.
+const BALANCE_CHECK_MAX_CONTRACTS = 5;
+
+// Mercury is disabled by a failed check, checks keep running while it's disabled and it's recovering from its
+// first pass on. It's enabled again once enough consecutive checks passed over the recovery window.
+export type MercuryState = "enabled" | "disabled" | "recovering";
+
+export interface MercuryRecoveryState {
+  state: MercuryState;
+  // Consecutive passes since the last failure, and when the first of them happened.
+  passes: number;
+  streakStartedAt: number | null;
+}
+
+export interface MercuryRecoveryConfig {
+  passes: number;
+  windowMs: number;
+}
+
+// Arrays and objects are compared by value, with object keys in the same order. Horizon names the types of
+// invocation parameters after ScVal arms ("Sym") and Mercury after ScVal types ("Symbol"), so parameters are
+// compared by their XDR values.
+const normalizeValue = (key: string, value: any) =>
+  JSON.stringify(
+    key === "parameters" && Array.isArray(value)
+      ? value.map((parameter) => parameter?.value)
+      : value,
+    (_, member) =>
+      member && member.constructor === Object
+        ? Object.keys(member)
+            .sort()
+            .reduce(
+              (sorted, memberKey) => ({
+                ...sorted,
+                [memberKey]: member[memberKey]
+              }),
+              {}
+            )
+        : member
+  );
 
 const alertFailure = (opId: string, client: Sentry.NodeClient) => {
   const err = new Error(
@@ -23,26 +69,201 @@ const alertFailure = (opId: string, client: Sentry.NodeClient) => {
   client.captureException(err);
 };
 
+const alertBalanceFailure = (
+  pubKey: string,
+  assets: string[],
+  client: Sentry.NodeClient
+) => {
+  const err = new Error(
+    `Failed Mercury balance integrity check, account: ${pubKey}, assets: ${assets.join(", ")}`
+  );
+  err.name = "Mercury balance integrity check failed";
+  client.captureException(err);
+};
+
+export interface BalanceMismatch {
+  asset: string;
+  // Null when the asset is missing from one of the sources.
+  mercury: string | null;
+  horizon: string | null;
+}
+
+/**
+ * Compares the totals of the balances read from Mercury and from Horizon/RPC. Totals are normalized, Mercury
+ * trims trailing zeros where Horizon doesn't, and liquidity pool shares are skipped as Mercury doesn't read them.
+ *
+ * @param mercuryBalances - The balances read from Mercury
+ * @param horizonBalances - The balances read from Horizon and Soroban RPC
+ * @returns The assets whose totals don't match
+ */
+export const compareBalances = (
+  mercuryBalances: { [asset: string]: { total?: unknown } },
+  horizonBalances: { [asset: string]: { total?: unknown } }
+): BalanceMismatch[] => {
+  const normalize = (balances: { [asset: string]: { total?: unknown } }) =>
+    Object.entries(balances).reduce(
+      (memo, [asset, balance]) => {
+        if (asset.endsWith(":lp")) {
+          return memo;
+        }
+        memo[asset] = new BigNumber(String(balance.total ?? 0)).toString();
+        return memo;
+      },
+      {} as { [asset: string]: string }
+    );
+
+  const mercury = normalize(mercuryBalances);
+  const horizon = normalize(horizonBalances);
+  const assets = new Set([...Object.keys(mercury), ...Object.keys(horizon)]);
+  return Array.from(assets)
+    .filter((asset) => mercury[asset] !== horizon[asset])
+    .map((asset) => ({
+      asset,
+      mercury: mercury[asset] ?? null,
+      horizon: horizon[asset] ?? null,
+    }));
+};
+
 export class IntegrityChecker {
   logger: Logger;
   lastCheckedLedger: number;
   mercuryClient: MercuryClient;
   redisClient: Redis;
   sentryClient: Sentry.NodeClient;
+  recoveryConfig: MercuryRecoveryConfig;
+  checkBalances: boolean;
 
   constructor(
     logger: Logger,
     mercuryClient: MercuryClient,
     redisClient: Redis,
-    sentryClient: Sentry.NodeClient
+    sentryClient: Sentry.NodeClient,
+    recoveryConfig: MercuryRecoveryConfig,
+    checkBalances: boolean = false
   ) {
     this.logger = logger;
     this.lastCheckedLedger = 0;
     this.mercuryClient = mercuryClient;
     this.redisClient = redisClient;
     this.sentryClient = sentryClient;
+    this.recoveryConfig = recoveryConfig;
+    this.checkBalances = checkBalances;
   }
 
+  getRedisUseMercury = async () => {
+    const redisUseMercuryFlag = await this.redisClient.get(
+      REDIS_USE_MERCURY_KEY
+    );
+    return redisUseMercuryFlag === "true";
+  };
+
+  // Without a stored state, Mercury is assumed to have been disabled by a failed check.
+  getRecoveryState = async (
+    redisUseMercury: boolean
+  ): Promise<MercuryRecoveryState> => {
+    const recovery = await this.redisClient.get(REDIS_MERCURY_RECOVERY_KEY);
+    if (recovery) {
+      return JSON.parse(recovery);
+    }
+    return {
+      state: redisUseMercury ? "enabled" : "disabled",
+      passes: 0,
+      streakStartedAt: null,
+    };
+  };
+
+  setRecoveryState = async (
+    from: MercuryRecoveryState,
+    to: MercuryRecoveryState
+  ) => {
+    await this.redisClient.set(REDIS_MERCURY_RECOVERY_KEY, JSON.stringify(to));
+    if (from.state === to.state) {
+      return;
+    }
+
+    this.logger.info(`Mercury state changed from ${from.state} to ${to.state}`);
+    parentPort?.postMessage({
+      type: WorkerMessage.MERCURY_STATE_TRANSITION,
+      from: from.state,
+      to: to.state,
+    });
+    Sentry.addBreadcrumb({
+      category: "mercury.integrity",
+      message: `Mercury state changed from ${from.state} to ${to.state}`,
+      level: "info",
+      data: { passes: from.passes, streakStartedAt: from.streakStartedAt },
+    });
+  };
+
+  onCheckFailure = async (operationId: string, redisUseMercury: boolean) => {
+    parentPort?.postMessage({ type: WorkerMessage.INTEGRITY_CHECK_FAIL });
+    if (redisUseMercury) {
+      alertFailure(operationId, this.sentryClient);
+    }
+    await this.disableMercury(redisUseMercury);
+  };
+
+  onBalanceCheckFailure = async (
+    pubKey: string,
+    assets: string[],
+    redisUseMercury: boolean
+  ) => {
+    parentPort?.postMessage({ type: WorkerMessage.INTEGRITY_CHECK_FAIL });
+    if (redisUseMercury) {
+      alertBalanceFailure(pubKey, assets, this.sentryClient);
+    }
+    await this.disableMercury(redisUseMercury);
+  };
+
+  disableMercury = async (redisUseMercury: boolean) => {
+    await this.redisClient.set(REDIS_USE_MERCURY_KEY, "false");
+
+    const recovery = await this.getRecoveryState(redisUseMercury);
+    await this.setRecoveryState(recovery, {
+      state: "disabled",
+      passes: 0,
+      streakStartedAt: null,
+    });
+  };
+
+  onCheckPass = async (redisUseMercury: boolean) => {
+    parentPort?.postMessage({ type: WorkerMessage.INTEGRITY_CHECK_PASS });
+
+    const recovery = await this.getRecoveryState(redisUseMercury);
+    // Mercury disabled by an operator rather than a failed check stays disabled.
+    if (recovery.state === "enabled") {
+      await this.setRecoveryState(recovery, recovery);
+      return;
+    }
+    const enabled: MercuryRecoveryState = {
+      state: "enabled",
+      passes: 0,
+      streakStartedAt: null,
+    };
+    // Mercury was enabled again by an operator during the recovery.
+    if (redisUseMercury) {
+      await this.setRecoveryState(recovery, enabled);
+      return;
+    }
+
+    const now = Date.now();
+    const passes = recovery.passes + 1;
+    const streakStartedAt = recovery.streakStartedAt ?? now;
+    if (
+      passes >= this.recoveryConfig.passes &&
+      now - streakStartedAt >= this.recoveryConfig.windowMs
+    ) {
+      await this.redisClient.set(REDIS_USE_MERCURY_KEY, "true");
+      await this.setRecoveryState(recovery, enabled);
+      return;
+    }
+    await this.setRecoveryState(recovery, {
+      state: "recovering",
+      passes,
+      streakStartedAt,
+    });
+  };
+
   watchLedger = async (network: NetworkNames, cursor: string = "now") => {
     const networkUrl = NETWORK_URLS[network];
     const sdk = getSdk(Networks[network]);
@@ -75,20 +296,129 @@ export class IntegrityChecker {
     const ops = await _ledger.operations();
     const firstOp = ops.records[0];
     if (firstOp) {
-      const redisUseMercuryFlag = await this.redisClient.get(
-        REDIS_USE_MERCURY_KEY
-      );
-      const redisUseMercury = redisUseMercuryFlag === "true";
+      const redisUseMercury = await this.getRedisUseMercury();
       try {
         await this.checkOperationIntegrity(firstOp, network, redisUseMercury);
       } catch (error) {
         this.logger.error(error);
-        parentPort?.postMessage({ type: WorkerMessage.INTEGRITY_CHECK_FAIL });
-        if (redisUseMercury) {
-          alertFailure(firstOp.id, this.sentryClient);
+        await this.onCheckFailure(firstOp.id, redisUseMercury);
+      }
+    }
+
+    if (this.checkBalances && ops.records.length) {
+      const sampledOp =
+        ops.records[Math.floor(Math.random() * ops.records.length)];
+      // The operation check may have disabled Mercury in the meantime.
+      const redisUseMercury = await this.getRedisUseMercury();
+      await this.checkBalanceIntegrity(
+        sampledOp.source_account,
+        network,
+        redisUseMercury,
+        await this.sampleContractIds(sampledOp.source_account, network)
+      );
+    }
+  };
+
+  // Samples the token contracts the account has balance subscriptions for, so its token balances are checked
+  // along with the classic ones. Only the classic balances are checked when the subscriptions can't be listed.
+  sampleContractIds = async (pubKey: string, network: NetworkNames) => {
+    try {
+      const { tokenBalances } =
+        await this.mercuryClient.getSubscriptionRecords(pubKey, network);
+      const contractIds = [
+        ...new Set(tokenBalances.map(({ contractId }) => contractId)),
+      ];
+      for (let i = contractIds.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [contractIds[i], contractIds[j]] = [contractIds[j], contractIds[i]];
+      }
+      return contractIds.slice(0, BALANCE_CHECK_MAX_CONTRACTS);
+    } catch (error) {
+      this.logger.error(
+        `Failed to get token balance subscriptions of account: ${pubKey}`
+      );
+      this.logger.error(error);
+      return [];
+    }
+  };
+
+  // Resolves to null when the balances can't be read from Horizon/RPC, in which case there's nothing to compare.
+  getBalanceMismatches = async (
+    pubKey: string,
+    contractIds: string[],
+    network: NetworkNames
+  ) => {
+    const { data, error } = await this.mercuryClient.getAccountBalancesMercury(
+      pubKey,
+      contractIds,
+      network
+    );
+    if (error || !data) {
+      throw error || new Error("Failed to get balances from Mercury");
+    }
+
+    const horizon = await this.mercuryClient.getAccountBalances(
+      pubKey,
+      contractIds,
+      network,
+      false
+    );
+    if (horizon.error.horizon || horizon.error.soroban || !horizon.isFunded) {
+      return null;
+    }
+    return compareBalances(data.balances, horizon.balances);
+  };
+
+  checkBalanceIntegrity = async (
+    pubKey: string,
+    network: NetworkNames,
+    redisUseMercury: boolean,
+    contractIds: string[] = []
+  ) => {
+    this.logger.info(`Checking balance integrity of account: ${pubKey}`);
+    try {
+      let mismatches = await this.getBalanceMismatches(
+        pubKey,
+        contractIds,
+        network
+      );
+      if (mismatches?.length) {
+        await new Promise((resolve) =>
+          setTimeout(resolve, BALANCE_RECHECK_DELAY_MS)
+        );
+        mismatches = await this.getBalanceMismatches(
+          pubKey,
+          contractIds,
+          network
+        );
+      }
+
+      if (!mismatches) {
+        this.logger.error(
+          `Failed to get balances from Horizon/RPC for account: ${pubKey}`
+        );
+        return;
+      }
+      if (mismatches.length) {
+        for (const mismatch of mismatches) {
+          this.logger.error(
+            `Failed balance check for account - ${pubKey}, asset - ${mismatch.asset}, horizon: ${mismatch.horizon}, mercury: ${mismatch.mercury}`
+          );
         }
-        await this.redisClient.set(REDIS_USE_MERCURY_KEY, "false");
+        await this.onBalanceCheckFailure(
+          pubKey,
+          mismatches.map((mismatch) => mismatch.asset),
+          redisUseMercury
+        );
+        return;
       }
+
+      this.logger.info(`Passed balance check for account ${pubKey}`);
+      await this.onCheckPass(redisUseMercury);
+    } catch (error) {
+      this.logger.error(`Failed to get balances from Mercury`);
+      this.logger.error(error);
+      await this.onBalanceCheckFailure(pubKey, [], redisUseMercury);
     }
   };
 
@@ -155,11 +485,7 @@ export class IntegrityChecker {
         `Failed to subscribe to account to perform integrity check`
       );
       this.logger.error(error);
-      parentPort?.postMessage({ type: WorkerMessage.INTEGRITY_CHECK_FAIL });
-      if (redisUseMercury) {
-        alertFailure(operation.id, this.sentryClient);
-      }
-      await this.redisClient.set(REDIS_USE_MERCURY_KEY, "false");
+      await this.onCheckFailure(operation.id, redisUseMercury);
     }
   };
 
@@ -198,94 +524,67 @@ export class IntegrityChecker {
 
       if (match && matchHorizon) {
         for (const key of Object.keys(match)) {
+          if (SKIP_KEYS.includes(key)) {
+            continue;
+          }
           const mercuryValue = (match as any)[key];
           const horizonValue = (matchHorizon as any)[key];
 
-          if (!mercuryValue || !horizonValue) {
+          // a field both sources leave unset is a match, one set by a single source isn't
+          if (
+            (mercuryValue === undefined || mercuryValue === null) &&
+            (horizonValue === undefined || horizonValue === null)
+          ) {
+            continue;
+          }
+          if (
+            mercuryValue === undefined ||
+            mercuryValue === null ||
+            horizonValue === undefined ||
+            horizonValue === null
+          ) {
             this.logger.error(
               `Missing field for key ${key}, horizon: ${horizonValue}, mercury: ${mercuryValue}`
             );
-            parentPort?.postMessage({
-              type: WorkerMessage.INTEGRITY_CHECK_FAIL,
-            });
-            if (redisUseMercury) {
-              alertFailure(operation.id, this.sentryClient);
-            }
-            await this.redisClient.set(REDIS_USE_MERCURY_KEY, "false");
+            await this.onCheckFailure(operation.id, redisUseMercury);
             return;
           }
 
-          // if key is array or object, check members
-          if (Array.isArray(mercuryValue) && Array.isArray(horizonValue)) {
-            for (var i = 0; i < mercuryValue.length; i++) {
-              if (mercuryValue[i] !== horizonValue[i]) {
-                this.logger.error(
-                  `Failed check for operation ID - ${operation.id}, key - ${key}`
-                );
-                parentPort?.postMessage({
-                  type: WorkerMessage.INTEGRITY_CHECK_FAIL,
-                });
-                if (redisUseMercury) {
-                  alertFailure(operation.id, this.sentryClient);
-                }
-                await this.redisClient.set(REDIS_USE_MERCURY_KEY, "false");
-                return;
-              }
-            }
-          }
-
+          // if key is array or object, check members by value
           if (
-            mercuryValue.constructor === Object &&
-            horizonValue.constructor === Object
+            typeof mercuryValue === "object" &&
+            typeof horizonValue === "object"
           ) {
-            for (const valKey of Object.keys(mercuryValue)) {
-              if (mercuryValue[valKey] !== horizonValue[valKey]) {
-                this.logger.error(
-                  `Failed check for operation ID - ${operation.id}, key - ${key}`
-                );
-                parentPort?.postMessage({
-                  type: WorkerMessage.INTEGRITY_CHECK_FAIL,
-                });
-                if (redisUseMercury) {
-                  alertFailure(operation.id, this.sentryClient);
-                }
-                await this.redisClient.set(REDIS_USE_MERCURY_KEY, "false");
-                return;
-              }
+            if (
+              normalizeValue(key, mercuryValue) !==
+              normalizeValue(key, horizonValue)
+            ) {
+              this.logger.error(
+                `Failed check for operation ID - ${operation.id}, key - ${key}`
+              );
+              await this.onCheckFailure(operation.id, redisUseMercury);
+              return;
             }
+            continue;
           }
 
-          if (mercuryValue !== horizonValue && !SKIP_KEYS.includes(key)) {
+          if (mercuryValue !== horizonValue) {
             this.logger.error(
               `Failed check for operation ID - ${operation.id}, key - ${key}`
             );
-            parentPort?.postMessage({
-              type: WorkerMessage.INTEGRITY_CHECK_FAIL,
-            });
-            if (redisUseMercury) {
-              alertFailure(operation.id, this.sentryClient);
-            }
-            await this.redisClient.set(REDIS_USE_MERCURY_KEY, "false");
-            return;
-          } else {
-            this.logger.info(`Passed check for op ${opId}`);
-            parentPort?.postMessage({
-              type: WorkerMessage.INTEGRITY_CHECK_PASS,
-            });
-            //  no need to flip REDIS_USE_MERCURY_KEY to true, this is done manually on intervention after a failure.
+            await this.onCheckFailure(operation.id, redisUseMercury);
             return;
           }
         }
+
+        this.logger.info(`Passed check for op ${opId}`);
+        await this.onCheckPass(redisUseMercury);
       } else {
         if (!match) {
           this.logger.error(
             `Failed to find matching operation from Mercury, ID: ${opId}, source: ${operation.source_account}`
           );
-          parentPort?.postMessage({ type: WorkerMessage.INTEGRITY_CHECK_FAIL });
-          if (redisUseMercury) {
-            alertFailure(operation.id, this.sentryClient);
-          }
-          await this.redisClient.set(REDIS_USE_MERCURY_KEY, "false");
+          await this.onCheckFailure(operation.id, redisUseMercury);
           return;
         }
         if (!matchHorizon) {
@@ -301,11 +600,7 @@ export class IntegrityChecker {
       if (!history) {
         this.logger.error(`Failed to get history from Mercury`);
         this.logger.error(mercuryHistoryError);
-        parentPort?.postMessage({ type: WorkerMessage.INTEGRITY_CHECK_FAIL });
-        if (redisUseMercury) {
-          alertFailure(operation.id, this.sentryClient);
-        }
-        await this.redisClient.set(REDIS_USE_MERCURY_KEY, "false");
+        await this.onCheckFailure(operation.id, redisUseMercury);
       }
     }
   };
@@ -21,6 +21,7 @@ const {
   hostname,
   mercuryBackendPubnet,
   mercuryBackendTestnet,
+  mercuryBalanceIntegrityCheck,
   mercuryEmailTestnet,
   mercuryGraphQLCurrentDataPubnet,
   mercuryGraphQLCurrentDataTestnet,
@@ -29,6 +30,8 @@ const {
   mercuryIntegrityCheckEmail,
   mercuryIntegrityCheckPass,
   mercuryPasswordTestnet,
+  mercuryRecoveryPasses,
+  mercuryRecoveryWindowMs,
   redisConnectionName,
   redisPort,
   sentryKey,
@@ -114,6 +117,8 @@ const main = async () => {
     integrityCheckMercuryClient,
     redis,
     sentryClient,
+    { passes: mercuryRecoveryPasses, windowMs: mercuryRecoveryWindowMs },
+    mercuryBalanceIntegrityCheck,
   );
   await integrityCheckerClient.watchLedger(checkNetwork);
 };
@@ -0,0 +1,129 @@
+import { Address, Asset, Keypair, Networks, nativeToScVal } from "stellar-sdk";
+import { pubKey } from "../../../helper/test-helper";
+import { getAccountHistoryFilter, hasAccountHistoryFilters } from "./filters";
+
+describe("Account history filters", () => {
+  const usdc = "USDC:GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN";
+  const [usdcCode, usdcIssuer] = usdc.split(":");
+  const contractId = "CCWAMYJME4H5CKG7OLXGC2T4M6FL52XCZ3OQOAV6LL3GLA4RO4WH3ASP";
+  const otherPubKey = Keypair.random().publicKey();
+
+  const usdcPayment = {
+    type: "payment",
+    created_at: "2024-01-02T00:00:00Z",
+    source_account: otherPubKey,
+    from: otherPubKey,
+    to: pubKey,
+    asset_type: "credit_alphanum4",
+    asset_code: usdcCode,
+    asset_issuer: usdcIssuer,
+  };
+  // Mercury payments of the native asset carry no asset fields.
+  const nativePayment = {
+    type: "payment",
+    created_at: "2024-01-01T00:00:00Z",
+    source_account: pubKey,
+    from: pubKey,
+    to: otherPubKey,
+  };
+  const trustline = {
+    type: "change_trust",
+    created_at: "2024-01-01T00:00:00Z",
+    source_account: pubKey,
+    trustor: pubKey,
+    asset_type: "credit_alphanum4",
+    asset_code: usdcCode,
+    asset_issuer: usdcIssuer,
+  };
+  const mercuryInvocation = {
+    type: "invoke_host_function",
+    created_at: "2024-01-03T00:00:00Z",
+    source_account: pubKey,
+    transaction_attr: {
+      contractId,
+      fnName: "transfer",
+      args: { from: pubKey, to: otherPubKey, amount: "10" },
+    },
+  };
+  const horizonSacInvocation = {
+    type: "invoke_host_function",
+    created_at: "2024-01-03T00:00:00Z",
+    source_account: pubKey,
+    parameters: [
+      new Address(
+        new Asset(usdcCode, usdcIssuer).contractId(Networks.TESTNET),
+      ).toScVal(),
+      nativeToScVal("transfer", { type: "symbol" }),
+      new Address(pubKey).toScVal(),
+      new Address(otherPubKey).toScVal(),
+      nativeToScVal(10, { type: "i128" }),
+    ].map((scVal) => ({ type: "", value: scVal.toXDR("base64") })),
+  };
+  const history = [
+    usdcPayment,
+    nativePayment,
+    trustline,
+    mercuryInvocation,
+    horizonSacInvocation,
+  ];
+
+  it("knows when filters are set", () => {
+    expect(hasAccountHistoryFilters({})).toBe(false);
+    expect(hasAccountHistoryFilters({ types: [] })).toBe(false);
+    expect(hasAccountHistoryFilters({ from: 0 })).toBe(true);
+  });
+
+  it("filters by operation category", () => {
+    expect(
+      history.filter(
+        getAccountHistoryFilter({ types: ["payment"] }, "TESTNET"),
+      ),
+    ).toEqual([usdcPayment, nativePayment]);
+    expect(
+      history.filter(
+        getAccountHistoryFilter(
+          { types: ["invocation", "trustline"] },
+          "TESTNET",
+        ),
+      ),
+    ).toEqual([trustline, mercuryInvocation, horizonSacInvocation]);
+  });
+
+  it("filters by asset, including the invocations of its Stellar Asset Contract", () => {
+    expect(
+      history.filter(getAccountHistoryFilter({ asset: usdc }, "TESTNET")),
+    ).toEqual([usdcPayment, trustline, horizonSacInvocation]);
+    expect(
+      history.filter(getAccountHistoryFilter({ asset: "XLM" }, "TESTNET")),
+    ).toEqual([nativePayment]);
+    expect(
+      history.filter(getAccountHistoryFilter({ asset: contractId }, "TESTNET")),
+    ).toEqual([mercuryInvocation]);
+  });
+
+  it("filters by counterparty and time range", () => {
+    expect(
+      history.filter(
+        getAccountHistoryFilter(
+          {
+            types: ["payment", "invocation"],
+            counterparty: otherPubKey,
+            from: Date.parse("2024-01-02T00:00:00Z"),
+            to: Date.parse("2024-01-02T23:59:59Z"),
+          },
+          "TESTNET",
+        ),
+      ),
+    ).toEqual([usdcPayment]);
+    expect(
+      history.filter(
+        getAccountHistoryFilter({ counterparty: otherPubKey }, "TESTNET"),
+      ),
+    ).toEqual([
+      usdcPayment,
+      nativePayment,
+      mercuryInvocation,
+      horizonSacInvocation,
+    ]);
+  });
+});
@@ -0,0 +1,323 @@
+import * as StellarSdk from "stellar-sdk";
+import { getOpArgs } from "../../../helper/soroban-rpc";
+import { NetworkNames } from "../../../helper/validate";
+
+export type OperationCategory =
+  | "payment"
+  | "invocation"
+  | "trustline"
+  | "offer"
+  | "claimable_balance"
+  | "liquidity_pool"
+  | "account";
+
+// Horizon operation types grouped the way the wallet activity tab shows them.
+export const OPERATION_CATEGORIES: { [type: string]: OperationCategory } = {
+  create_account: "payment",
+  payment: "payment",
+  path_payment_strict_receive: "payment",
+  path_payment_strict_send: "payment",
+  account_merge: "payment",
+  clawback: "payment",
+  invoke_host_function: "invocation",
+  extend_footprint_ttl: "invocation",
+  restore_footprint: "invocation",
+  change_trust: "trustline",
+  allow_trust: "trustline",
+  set_trust_line_flags: "trustline",
+  manage_sell_offer: "offer",
+  manage_buy_offer: "offer",
+  create_passive_sell_offer: "offer",
+  create_claimable_balance: "claimable_balance",
+  claim_claimable_balance: "claimable_balance",
+  clawback_claimable_balance: "claimable_balance",
+  liquidity_pool_deposit: "liquidity_pool",
+  liquidity_pool_withdraw: "liquidity_pool",
+  set_options: "account",
+  manage_data: "account",
+  bump_sequence: "account",
+  begin_sponsoring_future_reserves: "account",
+  end_sponsoring_future_reserves: "account",
+  revoke_sponsorship: "account",
+};
+
+export interface AccountHistoryFilters {
+  types?: OperationCategory[];
+  // Classic asset as "CODE:ISSUER", "native" or a Soroban token contract ID.
+  asset?: string;
+  // Account or contract on the other side of the operation.
+  counterparty?: string;
+  // Inclusive range of the operation close time, in milliseconds.
+  from?: number;
+  to?: number;
+}
+
+/**
+ * Fields read from the operation records returned by MercuryClient.getAccountHistory, which are
+ * either Horizon operation records or Mercury operations transformed to look like them.
+ */
+export interface HistoryOperation {
+  readonly type?: string;
+  readonly created_at?: string;
+  readonly transaction_hash?: string;
+  readonly transaction_successful?: boolean;
+  readonly source_account?: string;
+  readonly from?: string;
+  readonly to?: string;
+  readonly account?: string;
+  readonly funder?: string;
+  readonly into?: string;
+  readonly trustor?: string;
+  readonly trustee?: string;
+  readonly amount?: string;
+  readonly starting_balance?: string;
+  readonly source_amount?: string;
+  readonly asset?: string;
+  readonly asset_type?: string;
+  readonly asset_code?: string;
+  readonly asset_issuer?: string;
+  readonly source_asset_type?: string;
+  readonly source_asset_code?: string;
+  readonly source_asset_issuer?: string;
+  readonly selling_asset_type?: string;
+  readonly selling_asset_code?: string;
+  readonly selling_asset_issuer?: string;
+  readonly buying_asset_type?: string;
+  readonly buying_asset_code?: string;
+  readonly buying_asset_issuer?: string;
+  readonly parameters?: { type: string; value: string }[];
+  readonly transaction_attr?: {
+    source_account?: string;
+    fee_account?: string;
+    fee_charged?: string | number;
+    memo?: string;
+    contractId?: string;
+    fnName?: string;
+    args?: { from?: string; to?: string; amount?: string | number };
+  };
+}
+
+export const hasAccountHistoryFilters = (filters: AccountHistoryFilters) =>
+  Boolean(
+    filters.types?.length ||
+      filters.asset ||
+      filters.counterparty ||
+      filters.from !== undefined ||
+      filters.to !== undefined,
+  );
+
+/**
+ * Reads the contract and transfer arguments of a contract invocation. Mercury records carry them
+ * already decoded, Horizon records carry the invocation parameters as XDR.
+ *
+ * @param operation - The invoke host function operation record
+ * @param network - The network the operation was submitted to
+ * @returns The invocation, or null if it isn't a contract invocation that can be decoded
+ */
+export const getOperationInvocation = (
+  operation: HistoryOperation,
+  network: NetworkNames,
+): {
+  contractId: string;
+  args: { from?: string; to?: string; amount?: string | number };
+} | null => {
+  const { transaction_attr: attr, parameters } = operation;
+  if (attr?.contractId && attr.args) {
+    return { contractId: attr.contractId, args: attr.args };
+  }
+  if (!parameters || parameters.length < 2) {
+    return null;
+  }
+
+  try {
+    const [contract, fnName, ...args] = parameters.map(({ value }) =>
+      StellarSdk.xdr.ScVal.fromXDR(value, "base64"),
+    );
+    const contractId = StellarSdk.Address.fromScVal(contract).toString();
+    try {
+      return {
+        contractId,
+        args: getOpArgs(fnName.sym().toString(), args, network),
+      };
+    } catch (e) {
+      // Arguments of non token functions, or addressed to contracts, can't be read as transfers.
+      return { contractId, args: {} };
+    }
+  } catch (e) {
+    return null;
+  }
+};
+
+export const getClassicAsset = (
+  assetType?: string,
+  code?: string,
+  issuer?: string,
+) => (!code || assetType === "native" ? "native" : `${code}:${issuer}`);
+
+/**
+ * Lists the assets an operation moves or changes the trustline of, as "CODE:ISSUER", "native" or
+ * a contract ID.
+ */
+const getOperationAssets = (
+  operation: HistoryOperation,
+  network: NetworkNames,
+): string[] => {
+  const assets: string[] = [];
+  switch (operation.type) {
+    case "create_account":
+    case "account_merge":
+      assets.push("native");
+      break;
+    case "invoke_host_function": {
+      const invocation = getOperationInvocation(operation, network);
+      if (invocation) {
+        assets.push(invocation.contractId);
+      }
+      break;
+    }
+    case "create_claimable_balance":
+      if (operation.asset) {
+        assets.push(operation.asset);
+      }
+      break;
+    default:
+      break;
+  }
+
+  if (operation.asset_type || operation.asset_code) {
+    assets.push(
+      getClassicAsset(
+        operation.asset_type,
+        operation.asset_code,
+        operation.asset_issuer,
+      ),
+    );
+  } else if (operation.type === "payment") {
+    // Mercury payments of the native asset carry no asset fields.
+    assets.push("native");
+  }
+  if (operation.source_asset_type || operation.source_asset_code) {
+    assets.push(
+      getClassicAsset(
+        operation.source_asset_type,
+        operation.source_asset_code,
+        operation.source_asset_issuer,
+      ),
+    );
+  }
+  if (operation.selling_asset_type) {
+    assets.push(
+      getClassicAsset(
+        operation.selling_asset_type,
+        operation.selling_asset_code,
+        operation.selling_asset_issuer,
+      ),
+    );
+  }
+  if (operation.buying_asset_type) {
+    assets.push(
+      getClassicAsset(
+        operation.buying_asset_type,
+        operation.buying_asset_code,
+        operation.buying_asset_issuer,
+      ),
+    );
+  }
+  return assets;
+};
+
+/**
+ * Lists the accounts and contracts taking part in an operation.
+ */
+const getOperationParticipants = (
+  operation: HistoryOperation,
+  network: NetworkNames,
+): string[] => {
+  const participants = [
+    operation.source_account,
+    operation.from,
+    operation.to,
+    operation.account,
+    operation.funder,
+    operation.into,
+    operation.trustor,
+    operation.trustee,
+  ];
+  if (operation.type === "invoke_host_function") {
+    const invocation = getOperationInvocation(operation, network);
+    if (invocation) {
+      participants.push(
+        invocation.contractId,
+        invocation.args.from,
+        invocation.args.to,
+      );
+    }
+  }
+  return participants.filter((participant): participant is string =>
+    Boolean(participant),
+  );
+};
+
+/**
+ * Builds a predicate matching the operation records that pass every filter. Classic assets also
+ * match the invocations of their Stellar Asset Contract.
+ *
+ * @param filters - The filters to apply
+ * @param network - The network the history belongs to
+ * @returns Whether an operation record passes the filters
+ */
+export const getAccountHistoryFilter = (
+  filters: AccountHistoryFilters,
+  network: NetworkNames,
+) => {
+  const { types, counterparty, from, to } = filters;
+  const assets: string[] = [];
+  if (filters.asset) {
+    const asset = filters.asset === "XLM" ? "native" : filters.asset;
+    assets.push(asset);
+    try {
+      const classicAsset =
+        asset === "native"
+          ? StellarSdk.Asset.native()
+          : new StellarSdk.Asset(...(asset.split(":") as [string, string]));
+      assets.push(classicAsset.contractId(StellarSdk.Networks[network]));
+    } catch (e) {
+      // A contract ID, it has no Stellar Asset Contract.
+    }
+  }
+
+  return (record: unknown) => {
+    const operation = record as HistoryOperation;
+    if (
+      types?.length &&
+      !types.includes(OPERATION_CATEGORIES[operation.type || ""])
+    ) {
+      return false;
+    }
+    if (from !== undefined || to !== undefined) {
+      const timestamp = Date.parse(operation.created_at || "");
+      if (
+        Number.isNaN(timestamp) ||
+        (from !== undefined && timestamp < from) ||
+        (to !== undefined && timestamp > to)
+      ) {
+        return false;
+      }
+    }
+    if (
+      assets.length &&
+      !getOperationAssets(operation, network).some((asset) =>
+        assets.includes(asset),
+      )
+    ) {
+      return false;
+    }
+    if (
+      counterparty &&
+      !getOperationParticipants(operation, network).includes(counterparty)
+    ) {
+      return false;
+    }
+    return true;
+  };
+};
@@ -1,4 +1,5 @@
 import { OperationResult } from "@urql/core";
+import { createHash } from "crypto";
 import * as StellarSdk from "stellar-sdk";
 import BigNumber from "bignumber.js";
 import {
@@ -8,9 +9,19 @@ import {
   getAssetType,
 } from "../../../helper/horizon-rpc";
 import { formatTokenAmount } from "../../../helper/format";
-import { getOpArgs, isSacContract } from "../../../helper/soroban-rpc";
+import {
+  decodeTokenEvent,
+  getOpArgs,
+  isSacContract,
+  TokenEvent,
+} from "../../../helper/soroban-rpc";
 import { getSdk } from "../../../helper/stellar";
 import { NetworkNames } from "../../../helper/validate";
+import {
+  getClassicAsset,
+  getOperationInvocation,
+  HistoryOperation,
+} from "./filters";
 
 // Transformers take an API response, and transform it/augment it for frontend consumption
 
@@ -768,6 +779,49 @@ type MercuryAccountHistory = {
   };
 };
 
+// Mercury indexes operation bodies, so the amounts a path payment exchanged are read from its result.
+const getOperationResult = (
+  operation: BaseOperation,
+  network: NetworkNames,
+) => {
+  const Sdk = getSdk(StellarSdk.Networks[network]);
+  try {
+    const result = Sdk.xdr.TransactionResult.fromXDR(
+      operation.txInfoByTx.resultXdr,
+      "base64",
+    ).result();
+    const results =
+      result.switch().name ===
+      Sdk.xdr.TransactionResultCode.txFeeBumpInnerSuccess().name
+        ? result.innerResultPair().result().result().results()
+        : result.results();
+    // The low 12 bits of an operation ID are its index in the transaction, counted from 1.
+    const index = Number(BigInt(operation.opId) & BigInt(0xfff)) - 1;
+    return results[index].tr();
+  } catch (error) {
+    return null;
+  }
+};
+
+const getSourceAssetFields = (
+  sendAssetNative: string,
+  assetBySendAsset: { code: string; issuer: string } | null,
+): {
+  source_asset_type: ReturnType<typeof getAssetType>;
+  source_asset_code?: string;
+  source_asset_issuer?: string;
+} => {
+  if (sendAssetNative || !assetBySendAsset) {
+    return { source_asset_type: "native" };
+  }
+  const code = atob(assetBySendAsset.code);
+  return {
+    source_asset_type: getAssetType(code),
+    source_asset_code: code,
+    source_asset_issuer: assetBySendAsset.issuer,
+  };
+};
+
 const transformAccountHistory = async (
   rawResponse: OperationResult<MercuryAccountHistory>,
   network: NetworkNames,
@@ -811,6 +865,15 @@ const transformAccountHistory = async (
           args: getOpArgs(fnName, invocation.args(), network),
           result_meta_xdr: edge.node.sorobanMeta,
         },
+        // Invocation parameters the way Horizon records them, so both backends can be decoded alike.
+        parameters: [
+          Sdk.xdr.ScVal.scvAddress(invocation.contractAddress()),
+          Sdk.xdr.ScVal.scvSymbol(invocation.functionName()),
+          ...invocation.args(),
+        ].map((scVal) => ({
+          type: scVal.switch().name.replace(/^scv/, ""),
+          value: scVal.toXDR("base64"),
+        })),
       } as Partial<StellarSdk.Horizon.ServerApi.InvokeHostFunctionOperationRecord>;
     });
 
@@ -878,8 +941,20 @@ const transformAccountHistory = async (
       const code = edge.destAssetNative
         ? undefined
         : atob(edge.assetByDestAsset.code);
+      let destAmount: string | undefined;
+      try {
+        destAmount = getOperationResult(edge, network)
+          ?.pathPaymentStrictSendResult()
+          .success()
+          .last()
+          .amount()
+          .toString();
+      } catch (error) {
+        // Failed path payments don't exchange anything.
+      }
       const transformedFields = {
         ...baseFields,
+        ...getSourceAssetFields(edge.sendAssetNative, edge.assetBySendAsset),
         type: "path_payment_strict_send",
         type_i: 13,
         asset_type: getAssetType(code),
@@ -887,7 +962,12 @@ const transformAccountHistory = async (
         from: edge.source,
         to: edge.destination,
         destination_min: edge.destMin,
-        amount: formatTokenAmount(new BigNumber(edge.sendAmount), 7),
+        source_amount: formatTokenAmount(new BigNumber(edge.sendAmount), 7),
+        // Received amount, like Horizon records it, or the sent amount when the result can't be read.
+        amount: formatTokenAmount(
+          new BigNumber(destAmount || edge.sendAmount),
+          7,
+        ),
       } as Partial<StellarSdk.Horizon.ServerApi.PathPaymentStrictSendOperationRecord>;
 
       if (!edge.destAssetNative) {
@@ -905,8 +985,44 @@ const transformAccountHistory = async (
       const code = edge.destAssetNative
         ? undefined
         : atob(edge.assetByDestAsset.code);
+      const sourceAssetFields = getSourceAssetFields(
+        edge.sendAssetNative,
+        edge.assetBySendAsset,
+      );
+      let sourceAmount: BigNumber | undefined;
+      try {
+        const Sdk = getSdk(StellarSdk.Networks[network]);
+        const sourceAsset =
+          sourceAssetFields.source_asset_type === "native"
+            ? Sdk.Asset.native()
+            : new Sdk.Asset(
+                sourceAssetFields.source_asset_code!,
+                sourceAssetFields.source_asset_issuer,
+              );
+        const offers = getOperationResult(edge, network)
+          ?.pathPaymentStrictReceiveResult()
+          .success()
+          .offers();
+        // The sent amount is what the first hop of offers bought, or the received amount without a path.
+        sourceAmount = offers?.length
+          ? offers
+              .map((claim) => claim.value())
+              .filter((claim) =>
+                Sdk.Asset.fromOperation(claim.assetBought()).equals(
+                  sourceAsset,
+                ),
+              )
+              .reduce(
+                (sum, claim) => sum.plus(claim.amountBought().toString()),
+                new BigNumber(0),
+              )
+          : offers && new BigNumber(edge.destAmount);
+      } catch (error) {
+        // Failed path payments don't exchange anything.
+      }
       const transformedFields = {
         ...baseFields,
+        ...sourceAssetFields,
         created_at: new Date(
           edge.txInfoByTx.ledgerByLedger.closeTime * 1000,
         ).toISOString(),
@@ -918,6 +1034,9 @@ const transformAccountHistory = async (
         to: edge.destination,
         destination_min: edge.destMin,
         amount: formatTokenAmount(new BigNumber(edge.destAmount), 7),
+        ...(sourceAmount && {
+          source_amount: formatTokenAmount(sourceAmount, 7),
+        }),
       } as Partial<StellarSdk.Horizon.ServerApi.PathPaymentOperationRecord>;
       if (!edge.destAssetNative) {
         transformedFields.asset_code = atob(edge.assetByDestAsset.code);
@@ -1191,8 +1310,499 @@ const transformAccountHistory = async (
     }); // Mercury indexes first to last and sort is TODO
 };
 
+type MercuryTokenEvents = {
+  [contractId: string]: {
+    edges: {
+      node: {
+        contractId: string;
+        topic1: string | null;
+        topic2: string | null;
+        topic3: string | null;
+        topic4: string | null;
+        data: string;
+        txInfoByTx: {
+          txHash: string;
+          ledgerByLedger: {
+            closeTime: number;
+            sequence: number;
+          };
+        };
+      };
+    }[];
+  } | null;
+};
+
+// Bound on the events a contract emits for an account in a single transaction, which spaces their indexes.
+const TOKEN_EVENTS_PER_TX_CONTRACT = 1000;
+
+// Mercury events don't identify the operation that emitted them, so they're given the TOID of their ledger, which
+// sorts them after the operations of the same ledger. Their index is derived from their transaction, contract and
+// position among the events of both, so the ID of an event doesn't depend on the other events of the response.
+const getTokenEventId = (
+  sequence: number,
+  txHash: string,
+  contractId: string,
+  position: number,
+) => {
+  const txContract = createHash("sha256")
+    .update(`${txHash}:${contractId}`)
+    .digest("hex");
+  const index =
+    BigInt(`0x${txContract.slice(0, 12)}`) *
+      BigInt(TOKEN_EVENTS_PER_TX_CONTRACT) +
+    BigInt(position);
+  return `${BigInt(sequence) << BigInt(32)}-${index}`;
+};
+
+const transformTokenEvents = (
+  rawResponse: OperationResult<MercuryTokenEvents>,
+  network: NetworkNames,
+): TokenEvent[] => {
+  const events: TokenEvent[] = [];
+  for (const edges of Object.values(rawResponse.data || {})) {
+    const positions = new Map<string, number>();
+    for (const { node } of edges?.edges || []) {
+      const topics = [node.topic1, node.topic2, node.topic3, node.topic4];
+      const decoded = decodeTokenEvent(
+        topics.filter((topic): topic is string => Boolean(topic)),
+        node.data,
+        network,
+      );
+      if (!decoded) {
+        continue;
+      }
+      const { closeTime, sequence } = node.txInfoByTx.ledgerByLedger;
+      const { txHash } = node.txInfoByTx;
+      const position = positions.get(txHash) || 0;
+      positions.set(txHash, position + 1);
+      events.push({
+        ...decoded,
+        id: getTokenEventId(sequence, txHash, node.contractId, position),
+        contractId: node.contractId,
+        txHash,
+        closeTime: closeTime * 1000,
+      });
+    }
+  }
+  return events;
+};
+
+// Token events are shown like the invocations Mercury records, with the transfer in the transaction attributes.
+const transformTokenEvent = (event: TokenEvent) =>
+  ({
+    id: event.id,
+    paging_token: event.id,
+    type: "invoke_host_function",
+    type_i: 24,
+    created_at: new Date(event.closeTime).toISOString(),
+    transaction_hash: event.txHash,
+    transaction_successful: true,
+    source_account: event.from || event.to || undefined,
+    is_contract_event: true,
+    transaction_attr: {
+      contractId: event.contractId,
+      fnName: event.fnName,
+      args: {
+        from: event.from || undefined,
+        to: event.to || undefined,
+        amount: event.amount,
+      },
+    },
+  }) as Partial<StellarSdk.Horizon.ServerApi.InvokeHostFunctionOperationRecord>;
+
+export interface BalanceChange {
+  // "native", "CODE:ISSUER", the ID of a liquidity pool for its shares, or the ID of a token contract.
+  asset: string;
+  // Signed from the point of view of the account, negative for debits. In the smallest unit of the token for
+  // token contracts, as their decimals aren't known here.
+  amount: string;
+  // The Horizon effect, or for Mercury records the operation, the change was read from.
+  type: string;
+}
+
+/**
+ * Fields read from the Horizon effect records of an account.
+ */
+export interface HistoryEffect {
+  readonly type: string;
+  readonly paging_token: string;
+  readonly amount?: string;
+  readonly starting_balance?: string;
+  readonly asset_type?: string;
+  readonly asset_code?: string;
+  readonly asset_issuer?: string;
+  readonly sold_amount?: string;
+  readonly sold_asset_type?: string;
+  readonly sold_asset_code?: string;
+  readonly sold_asset_issuer?: string;
+  readonly bought_amount?: string;
+  readonly bought_asset_type?: string;
+  readonly bought_asset_code?: string;
+  readonly bought_asset_issuer?: string;
+  readonly liquidity_pool?: { id: string };
+  readonly reserves_deposited?: { asset: string; amount: string }[];
+  readonly reserves_received?: { asset: string; amount: string }[];
+  readonly shares_received?: string;
+  readonly shares_redeemed?: string;
+  readonly sold?: { asset: string; amount: string };
+  readonly bought?: { asset: string; amount: string };
+}
+
+const getBalanceChange = (
+  type: string,
+  asset: string,
+  amount: string | number,
+  isDebit: boolean,
+): BalanceChange => ({
+  asset,
+  amount: getSignedAmount(amount, isDebit),
+  type,
+});
+
+// Takes the Horizon effects of one operation on an account and lists the balances they moved. Path payments
+// also emit the trades they crossed, which are skipped when the operation credits or debits the account.
+const transformEffectBalanceChanges = (
+  effects: HistoryEffect[],
+): BalanceChange[] => {
+  const hasPayments = effects.some(
+    ({ type }) => type === "account_credited" || type === "account_debited",
+  );
+  return effects.flatMap((effect): BalanceChange[] => {
+    switch (effect.type) {
+      case "account_created":
+        return [
+          getBalanceChange(
+            effect.type,
+            "native",
+            effect.starting_balance || 0,
+            false,
+          ),
+        ];
+      case "account_credited":
+      case "account_debited":
+        return [
+          getBalanceChange(
+            effect.type,
+            getClassicAsset(
+              effect.asset_type,
+              effect.asset_code,
+              effect.asset_issuer,
+            ),
+            effect.amount || 0,
+            effect.type === "account_debited",
+          ),
+        ];
+      case "trade":
+        return hasPayments
+          ? []
+          : [
+              getBalanceChange(
+                effect.type,
+                getClassicAsset(
+                  effect.sold_asset_type,
+                  effect.sold_asset_code,
+                  effect.sold_asset_issuer,
+                ),
+                effect.sold_amount || 0,
+                true,
+              ),
+              getBalanceChange(
+                effect.type,
+                getClassicAsset(
+                  effect.bought_asset_type,
+                  effect.bought_asset_code,
+                  effect.bought_asset_issuer,
+                ),
+                effect.bought_amount || 0,
+                false,
+              ),
+            ];
+      // Sold and bought by the pool, so bought and sold by the account.
+      case "liquidity_pool_trade":
+        return hasPayments || !effect.sold || !effect.bought
+          ? []
+          : [
+              getBalanceChange(
+                effect.type,
+                effect.bought.asset,
+                effect.bought.amount,
+                true,
+              ),
+              getBalanceChange(
+                effect.type,
+                effect.sold.asset,
+                effect.sold.amount,
+                false,
+              ),
+            ];
+      case "liquidity_pool_deposited":
+        return [
+          ...(effect.reserves_deposited || []).map(({ asset, amount }) =>
+            getBalanceChange(effect.type, asset, amount, true),
+          ),
+          getBalanceChange(
+            effect.type,
+            effect.liquidity_pool?.id || "",
+            effect.shares_received || 0,
+            false,
+          ),
+        ];
+      case "liquidity_pool_withdrew":
+        return [
+          ...(effect.reserves_received || []).map(({ asset, amount }) =>
+            getBalanceChange(effect.type, asset, amount, false),
+          ),
+          getBalanceChange(
+            effect.type,
+            effect.liquidity_pool?.id || "",
+            effect.shares_redeemed || 0,
+            true,
+          ),
+        ];
+      default:
+        return [];
+    }
+  });
+};
+
+// Mercury has no effects, so balance changes are read from the operation records transformAccountHistory
+// returns, and from the token events merged into either history. Claims, offers, liquidity pool operations,
+// merges and contract calls other than token transfers don't carry what they moved, so their balance changes
+// are null, as an empty list would mean the operation didn't move any balance.
+const transformOperationBalanceChanges = (
+  operation: HistoryOperation,
+  pubKey: string,
+  network: NetworkNames,
+): BalanceChange[] | null => {
+  const type = operation.type || "";
+  const isSource = (operation.from || operation.source_account) === pubKey;
+  const isDestination = operation.to === pubKey;
+  const asset = getClassicAsset(
+    operation.asset_type,
+    operation.asset_code,
+    operation.asset_issuer,
+  );
+  switch (type) {
+    case "create_account":
+      return [
+        getBalanceChange(
+          type,
+          "native",
+          operation.starting_balance || 0,
+          operation.account !== pubKey,
+        ),
+      ];
+    case "payment":
+      return isSource === isDestination
+        ? []
+        : [getBalanceChange(type, asset, operation.amount || 0, isSource)];
+    case "path_payment_strict_send":
+    case "path_payment_strict_receive": {
+      const changes: BalanceChange[] = [];
+      if (isSource && operation.source_amount) {
+        changes.push(
+          getBalanceChange(
+            type,
+            getClassicAsset(
+              operation.source_asset_type,
+              operation.source_asset_code,
+              operation.source_asset_issuer,
+            ),
+            operation.source_amount,
+            true,
+          ),
+        );
+      }
+      if (isDestination) {
+        changes.push(
+          getBalanceChange(type, asset, operation.amount || 0, false),
+        );
+      }
+      return changes;
+    }
+    case "create_claimable_balance":
+      if (operation.source_account !== pubKey) {
+        return [];
+      }
+      return operation.asset && operation.amount
+        ? [getBalanceChange(type, operation.asset, operation.amount, true)]
+        : null;
+    case "invoke_host_function": {
+      const invocation = getOperationInvocation(operation, network);
+      const { from, to, amount } = invocation?.args || {};
+      if (!invocation || !amount || (from !== pubKey && to !== pubKey)) {
+        return null;
+      }
+      return from === to
+        ? []
+        : [
+            getBalanceChange(
+              type,
+              invocation.contractId,
+              amount,
+              from === pubKey,
+            ),
+          ];
+    }
+    // Operations that don't move balances.
+    case "change_trust":
+    case "allow_trust":
+    case "set_trust_line_flags":
+    case "set_options":
+    case "manage_data":
+    case "bump_sequence":
+    case "begin_sponsoring_future_reserves":
+    case "end_sponsoring_future_reserves":
+    case "revoke_sponsorship":
+    case "extend_footprint_ttl":
+    case "restore_footprint":
+      return [];
+    default:
+      return null;
+  }
+};
+
+export interface AccountHistoryRow {
+  date: string;
+  type: string;
+  // "XLM", "CODE:ISSUER" or the contract ID of a Soroban token.
+  asset: string | null;
+  // Signed from the point of view of the account, negative for debits.
+  amount: string | null;
+  counterparty: string | null;
+  // Transaction fee in XLM, only set on one operation of the transactions the account paid for.
+  fee: string | null;
+  memo: string | null;
+  txHash: string | null;
+  fiatValue: string | null;
+  fiatCurrency: string | null;
+}
+
+export interface ContractTokenInfo {
+  // Classic asset of a Stellar Asset Contract, or the contract ID of other tokens.
+  token: string;
+  decimals: number;
+}
+
+const getRowAsset = (assetType?: string, code?: string, issuer?: string) =>
+  !code || assetType === "native" ? "XLM" : `${code}:${issuer}`;
+
+const getSignedAmount = (amount: string | number, isDebit: boolean) => {
+  const value = new BigNumber(amount);
+  return (isDebit ? value.negated() : value).toString();
+};
+
+// Takes an operation record from either Horizon or transformAccountHistory and flattens it into an export row,
+// so both backends export identical rows. Fees, memos and fiat values are filled by the exporter.
+const transformAccountHistoryRow = (
+  operation: HistoryOperation,
+  pubKey: string,
+  network: NetworkNames,
+  contractTokens: Map<string, ContractTokenInfo>,
+): AccountHistoryRow => {
+  const row: AccountHistoryRow = {
+    date: operation.created_at || "",
+    type: operation.type || "",
+    asset: null,
+    amount: null,
+    counterparty: null,
+    fee: null,
+    memo: operation.transaction_attr?.memo || null,
+    txHash: operation.transaction_hash || null,
+    fiatValue: null,
+    fiatCurrency: null,
+  };
+
+  switch (operation.type) {
+    case "create_account": {
+      const isDebit = operation.account !== pubKey;
+      row.asset = "XLM";
+      row.amount = getSignedAmount(operation.starting_balance || 0, isDebit);
+      row.counterparty = isDebit
+        ? operation.account || null
+        : operation.funder || operation.source_account || null;
+      break;
+    }
+    case "payment":
+    case "path_payment_strict_send":
+    case "path_payment_strict_receive": {
+      const isDebit = operation.to !== pubKey;
+      // Path payments debit the source asset, Mercury records don't carry it so the destination asset is used.
+      const isSourceAsset =
+        isDebit && operation.type !== "payment" && !!operation.source_amount;
+      row.asset = isSourceAsset
+        ? getRowAsset(
+            operation.source_asset_type,
+            operation.source_asset_code,
+            operation.source_asset_issuer,
+          )
+        : getRowAsset(
+            operation.asset_type,
+            operation.asset_code,
+            operation.asset_issuer,
+          );
+      row.amount = getSignedAmount(
+        (isSourceAsset ? operation.source_amount : operation.amount) || 0,
+        isDebit,
+      );
+      row.counterparty = (isDebit ? operation.to : operation.from) || null;
+      break;
+    }
+    case "account_merge":
+      row.asset = "XLM";
+      row.counterparty =
+        (operation.into === pubKey ? operation.account : operation.into) ||
+        null;
+      break;
+    case "create_claimable_balance":
+      row.asset = operation.asset
+        ? operation.asset === "native"
+          ? "XLM"
+          : operation.asset
+        : null;
+      row.amount = operation.amount
+        ? getSignedAmount(operation.amount, true)
+        : null;
+      break;
+    case "invoke_host_function": {
+      const invocation = getOperationInvocation(operation, network);
+      if (!invocation) {
+        break;
+      }
+      const { from, to, amount } = invocation.args;
+      const contractToken = contractTokens.get(invocation.contractId);
+      const isDebit = to !== pubKey;
+      row.asset = contractToken ? contractToken.token : invocation.contractId;
+      row.counterparty = (isDebit ? to : from) || invocation.contractId;
+      // Amounts of tokens with unknown decimals can't be expressed in token units.
+      if (contractToken && amount && (from === pubKey || to === pubKey)) {
+        row.amount = getSignedAmount(
+          new BigNumber(amount).shiftedBy(-contractToken.decimals).toString(),
+          isDebit,
+        );
+      }
+      break;
+    }
+    default:
+      if (operation.asset_code || operation.asset_type) {
+        row.asset = getRowAsset(
+          operation.asset_type,
+          operation.asset_code,
+          operation.asset_issuer,
+        );
+      }
+      break;
+  }
+  return row;
+};
+
 export {
   transformAccountBalances,
   transformAccountHistory,
+  transformAccountHistoryRow,
   transformAccountBalancesCurrentData,
+  transformEffectBalanceChanges,
+  transformOperationBalanceChanges,
+  transformTokenEvent,
+  transformTokenEvents,
 };
@@ -1,7 +1,17 @@
-import { Horizon, Keypair, Networks, scValToNative, xdr } from "stellar-sdk";
+import {
+  Address,
+  Asset,
+  Horizon,
+  Keypair,
+  Networks,
+  nativeToScVal,
+  scValToNative,
+  xdr,
+} from "stellar-sdk";
 import BigNumber from "bignumber.js";
+import axios from "axios";
 
-import { mutation } from "./queries";
+import { mutation, query } from "./queries";
 import {
   mockMercuryClient,
   queryMockResponse,
@@ -9,9 +19,14 @@ import {
   contractDataEntryValXdr,
 } from "../../helper/test-helper";
 import { transformAccountBalancesCurrentData } from "./helpers/transformers";
+import * as MercuryTransformers from "./helpers/transformers";
+import { HistoryOperation } from "./helpers/filters";
 import { ERROR_MESSAGES } from ".";
 import { ERROR } from "../../helper/error";
 import * as SorobanRpcHelper from "../../helper/soroban-rpc/token";
+import * as SorobanRpcEvents from "../../helper/soroban-rpc/events";
+import * as HorizonRpcHelpers from "../../helper/horizon-rpc";
+import { SubscriptionQueue } from "../subscription-queue";
 
 describe("Mercury Service", () => {
   afterEach(() => {
@@ -33,6 +48,1030 @@ describe("Mercury Service", () => {
     expect(payment.amount).toEqual("5");
   });
 
+  describe("account history pages", () => {
+    const opIdNodes = (opIds: string[]) => ({
+      edges: opIds.map((opId) => ({ node: { opId } })),
+    });
+    // Answers the account history queries with the given pages, other queries keep their mock response.
+    const mockAccountHistoryQuery = (...pages: object[]) => {
+      const urqlQuery = jest.fn();
+      for (const page of pages) {
+        urqlQuery.mockResolvedValueOnce({ data: page, error: null });
+      }
+      const { backendClientMaker } = mockMercuryClient.mercurySession;
+      backendClientMakerSpy = jest
+        .spyOn(mockMercuryClient.mercurySession, "backendClientMaker")
+        .mockImplementation((network, key) => {
+          const client = backendClientMaker(network, key);
+          const clientQuery = client.query;
+          client.query = ((...args: Parameters<typeof clientQuery>) =>
+            args[0] === query.getAccountHistory
+              ? urqlQuery(...args)
+              : clientQuery(...args)) as typeof clientQuery;
+          return client;
+        });
+      return urqlQuery;
+    };
+
+    let backendClientMakerSpy: jest.SpyInstance | undefined;
+    const mockTransformAccountHistory = () => {
+      transformAccountHistorySpy = jest.spyOn(
+        MercuryTransformers,
+        "transformAccountHistory",
+      );
+      return transformAccountHistorySpy;
+    };
+    let transformAccountHistorySpy: jest.SpyInstance | undefined;
+
+    // Only these spies are restored, the mock client helpers are spied on for the whole suite.
+    afterEach(() => {
+      backendClientMakerSpy?.mockRestore();
+      transformAccountHistorySpy?.mockRestore();
+    });
+
+    it("can page through Mercury account history by operation ID", async () => {
+      const urqlQuery = mockAccountHistoryQuery(
+        {
+          paymentsOfPublicKey: opIdNodes(["400", "200"]),
+          changeTrustByPublicKey: opIdNodes(["300"]),
+        },
+        {
+          paymentsOfPublicKey: opIdNodes(["200"]),
+          changeTrustByPublicKey: opIdNodes(["100"]),
+        },
+      );
+      // Mercury returns the history unordered across operation types.
+      mockTransformAccountHistory()
+        .mockResolvedValueOnce([{ id: "200" }, { id: "400" }, { id: "300" }])
+        .mockResolvedValueOnce([{ id: "100" }, { id: "200" }]);
+
+      const firstPage = await mockMercuryClient.getAccountHistoryMercury(
+        pubKey,
+        "TESTNET",
+        { limit: 2 },
+      );
+      expect(urqlQuery).toHaveBeenLastCalledWith(query.getAccountHistory, {
+        pubKey,
+        limit: 2,
+        cursor: "9223372036854775807",
+      });
+      expect(firstPage.data).toEqual([{ id: "400" }, { id: "300" }]);
+      expect(firstPage.next).toEqual("300");
+
+      const lastPage = await mockMercuryClient.getAccountHistoryMercury(
+        pubKey,
+        "TESTNET",
+        { cursor: firstPage.next!, limit: 2 },
+      );
+      expect(urqlQuery).toHaveBeenLastCalledWith(query.getAccountHistory, {
+        pubKey,
+        limit: 2,
+        cursor: "300",
+      });
+      expect(lastPage.data).toEqual([{ id: "200" }, { id: "100" }]);
+      expect(lastPage.next).toBeNull();
+    });
+
+    it("ends a page at the oldest operation of a full operation type", async () => {
+      mockAccountHistoryQuery({
+        paymentsOfPublicKey: opIdNodes(["500", "400", "350"]),
+        changeTrustByPublicKey: opIdNodes(["100"]),
+      });
+      // The payments 400 and 350 failed, the payments older than 350 weren't read yet.
+      mockTransformAccountHistory().mockResolvedValueOnce([
+        { id: "500" },
+        { id: "100" },
+      ]);
+
+      const response = await mockMercuryClient.getAccountHistoryMercury(
+        pubKey,
+        "TESTNET",
+        { limit: 3 },
+      );
+      expect(response.data).toEqual([{ id: "500" }]);
+      expect(response.next).toEqual("350");
+    });
+
+    it("reads the full history without a page", async () => {
+      const urqlQuery = mockAccountHistoryQuery({
+        paymentsOfPublicKey: opIdNodes(["400", "300", "200", "100"]),
+      });
+      mockTransformAccountHistory().mockResolvedValueOnce(
+        ["400", "300", "200", "100"].map((id) => ({ id })),
+      );
+
+      const response = await mockMercuryClient.getAccountHistoryMercury(
+        pubKey,
+        "TESTNET",
+      );
+      expect(urqlQuery).toHaveBeenCalledWith(query.getAccountHistory, {
+        pubKey,
+        limit: null,
+        cursor: "9223372036854775807",
+      });
+      expect(response.data).toHaveLength(4);
+      expect(response.next).toBeNull();
+    });
+
+    it("fills filtered pages of Mercury account history from older pages", async () => {
+      const urqlQuery = mockAccountHistoryQuery(
+        {
+          paymentsOfPublicKey: opIdNodes(["400", "200"]),
+          changeTrustByPublicKey: opIdNodes(["300"]),
+        },
+        { paymentsOfPublicKey: opIdNodes(["100"]) },
+      );
+      mockTransformAccountHistory()
+        .mockResolvedValueOnce([
+          { id: "400", type: "payment" },
+          { id: "300", type: "change_trust" },
+          { id: "200", type: "payment" },
+        ] as any)
+        .mockResolvedValueOnce([{ id: "100", type: "payment" }] as any);
+
+      const response = await mockMercuryClient.getAccountHistory(
+        pubKey,
+        "TESTNET",
+        true,
+        false,
+        { limit: 2 },
+        { types: ["payment"] },
+      );
+      expect((response.data || []).map(({ id }) => id)).toEqual(["400", "200"]);
+      expect(response.next).toEqual("200");
+      expect(urqlQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("balance changes", () => {
+    const usdc =
+      "USDC:GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN";
+    const [usdcCode, usdcIssuer] = usdc.split(":");
+    const otherPubKey = Keypair.random().publicKey();
+    const usdcFields = (prefix: string) => ({
+      [`${prefix}asset_type`]: "credit_alphanum4",
+      [`${prefix}asset_code`]: usdcCode,
+      [`${prefix}asset_issuer`]: usdcIssuer,
+    });
+
+    it("reads both sides of a path payment from its effects", () => {
+      expect(
+        MercuryTransformers.transformEffectBalanceChanges([
+          {
+            type: "account_debited",
+            paging_token: "300-1",
+            amount: "10.0000000",
+            asset_type: "native",
+          },
+          {
+            type: "account_credited",
+            paging_token: "300-2",
+            amount: "1.5000000",
+            ...usdcFields(""),
+          },
+          // The trade the path payment crossed, already counted by the payment effects.
+          {
+            type: "trade",
+            paging_token: "300-3",
+            sold_amount: "10.0000000",
+            sold_asset_type: "native",
+            bought_amount: "1.5000000",
+            ...usdcFields("bought_"),
+          },
+        ]),
+      ).toEqual([
+        { asset: "native", amount: "-10", type: "account_debited" },
+        { asset: usdc, amount: "1.5", type: "account_credited" },
+      ]);
+    });
+
+    it("reads offer trades and liquidity pool deposits from their effects", () => {
+      expect(
+        MercuryTransformers.transformEffectBalanceChanges([
+          {
+            type: "trade",
+            paging_token: "300-1",
+            sold_amount: "10.0000000",
+            sold_asset_type: "native",
+            bought_amount: "1.5000000",
+            ...usdcFields("bought_"),
+          },
+        ]),
+      ).toEqual([
+        { asset: "native", amount: "-10", type: "trade" },
+        { asset: usdc, amount: "1.5", type: "trade" },
+      ]);
+      expect(
+        MercuryTransformers.transformEffectBalanceChanges([
+          {
+            type: "liquidity_pool_deposited",
+            paging_token: "300-1",
+            liquidity_pool: { id: "pool" },
+            reserves_deposited: [
+              { asset: "native", amount: "10.0000000" },
+              { asset: usdc, amount: "1.5000000" },
+            ],
+            shares_received: "3.8729833",
+          },
+        ]),
+      ).toEqual([
+        { asset: "native", amount: "-10", type: "liquidity_pool_deposited" },
+        { asset: usdc, amount: "-1.5", type: "liquidity_pool_deposited" },
+        {
+          asset: "pool",
+          amount: "3.8729833",
+          type: "liquidity_pool_deposited",
+        },
+      ]);
+    });
+
+    it("reads the exchanged amounts of Mercury path payments from their result", async () => {
+      const resultXdr = new xdr.TransactionResult({
+        feeCharged: xdr.Int64.fromString("100"),
+        result: xdr.TransactionResultResult.txSuccess([
+          xdr.OperationResult.opInner(
+            xdr.OperationResultTr.pathPaymentStrictSend(
+              xdr.PathPaymentStrictSendResult.pathPaymentStrictSendSuccess(
+                new xdr.PathPaymentStrictSendResultSuccess({
+                  offers: [],
+                  last: new xdr.SimplePaymentResult({
+                    destination:
+                      Keypair.fromPublicKey(otherPubKey).xdrAccountId(),
+                    asset: Asset.native().toXDRObject(),
+                    amount: xdr.Int64.fromString("100000000"),
+                  }),
+                }),
+              ),
+            ),
+          ),
+        ]),
+        ext: xdr.TransactionResultExt.fromXDR(Buffer.alloc(4)),
+      }).toXDR("base64");
+      const history = await MercuryTransformers.transformAccountHistory(
+        {
+          data: {
+            ...queryMockResponse[query.getAccountHistory],
+            pathPaymentsStrictSendOfPublicKey: {
+              nodes: [
+                {
+                  source: pubKey,
+                  destination: otherPubKey,
+                  destAssetNative: true,
+                  destMin: "90000000",
+                  sendAmount: "15000000",
+                  sendAssetNative: false,
+                  assetBySendAsset: {
+                    code: btoa(usdcCode),
+                    issuer: usdcIssuer,
+                  },
+                  // The first operation of its transaction.
+                  opId: "4294971393",
+                  tx: "tx1",
+                  txInfoByTx: {
+                    fee: "100",
+                    opCount: 1,
+                    resultXdr,
+                    ledgerByLedger: { closeTime: 1703024113 },
+                  },
+                },
+              ],
+            },
+          },
+        } as any,
+        "TESTNET",
+      );
+      const pathPayment = history.find(
+        ({ type }) => type === "path_payment_strict_send",
+      ) as HistoryOperation;
+
+      expect(pathPayment).toMatchObject({
+        amount: "10",
+        source_amount: "1.5",
+        source_asset_code: usdcCode,
+        source_asset_issuer: usdcIssuer,
+      });
+      expect(
+        MercuryTransformers.transformOperationBalanceChanges(
+          pathPayment,
+          pubKey,
+          "TESTNET",
+        ),
+      ).toEqual([
+        { asset: usdc, amount: "-1.5", type: "path_payment_strict_send" },
+      ]);
+      expect(
+        MercuryTransformers.transformOperationBalanceChanges(
+          pathPayment,
+          otherPubKey,
+          "TESTNET",
+        ),
+      ).toEqual([
+        { asset: "native", amount: "10", type: "path_payment_strict_send" },
+      ]);
+    });
+
+    it("leaves balance changes unset for Mercury operations that don't carry their amounts", () => {
+      const changes = (operation: object) =>
+        MercuryTransformers.transformOperationBalanceChanges(
+          operation as HistoryOperation,
+          pubKey,
+          "TESTNET",
+        );
+
+      expect(
+        changes({ type: "claim_claimable_balance", source_account: pubKey }),
+      ).toBeNull();
+      expect(
+        changes({ type: "manage_sell_offer", source_account: pubKey }),
+      ).toBeNull();
+      expect(
+        changes({ type: "liquidity_pool_deposit", source_account: pubKey }),
+      ).toBeNull();
+      expect(
+        changes({ type: "account_merge", source_account: pubKey }),
+      ).toBeNull();
+      expect(changes({ type: "change_trust", source_account: pubKey })).toEqual(
+        [],
+      );
+      expect(
+        changes({
+          type: "create_claimable_balance",
+          source_account: pubKey,
+          asset: "native",
+          amount: "5.0000000",
+        }),
+      ).toEqual([
+        { asset: "native", amount: "-5", type: "create_claimable_balance" },
+      ]);
+    });
+
+    it("adds the effects of each operation to a Horizon page", async () => {
+      const fetchAccountHistorySpy = jest
+        .spyOn(HorizonRpcHelpers, "fetchAccountHistory")
+        .mockResolvedValue([
+          { id: "600", paging_token: "600" },
+          { id: "300", paging_token: "300" },
+        ] as any);
+      const fetchAccountEffectsSpy = jest
+        .spyOn(HorizonRpcHelpers, "fetchAccountEffects")
+        .mockResolvedValue([
+          {
+            type: "account_credited",
+            paging_token: "600-1",
+            amount: "5.0000000",
+            asset_type: "native",
+          },
+          {
+            type: "account_debited",
+            paging_token: "300-1",
+            amount: "2.0000000",
+            asset_type: "native",
+          },
+        ] as any);
+
+      const response = await mockMercuryClient.getAccountHistory(
+        pubKey,
+        "TESTNET",
+        false,
+        false,
+        { limit: 2 },
+        {},
+        { includeBalanceChanges: true },
+      );
+
+      expect(fetchAccountEffectsSpy).toHaveBeenLastCalledWith(
+        pubKey,
+        expect.anything(),
+        "601-0",
+        200,
+      );
+      expect(
+        (response.data || []).map(({ id, balanceChanges }: any) => [
+          id,
+          balanceChanges,
+        ]),
+      ).toEqual([
+        ["600", [{ asset: "native", amount: "5", type: "account_credited" }]],
+        ["300", [{ asset: "native", amount: "-2", type: "account_debited" }]],
+      ]);
+      fetchAccountHistorySpy.mockRestore();
+      fetchAccountEffectsSpy.mockRestore();
+    });
+
+    it("leaves balance changes unset for operations past the effect pages read", async () => {
+      const fetchAccountHistorySpy = jest
+        .spyOn(HorizonRpcHelpers, "fetchAccountHistory")
+        .mockResolvedValue([
+          { id: "600", paging_token: "600" },
+          { id: "500", paging_token: "500" },
+          { id: "300", paging_token: "300" },
+        ] as any);
+      // Every page is full of effects of operation 600 and then of operation 500, the pages read run out before
+      // reaching operation 300.
+      let page = 0;
+      const fetchAccountEffectsSpy = jest
+        .spyOn(HorizonRpcHelpers, "fetchAccountEffects")
+        .mockImplementation(async () => {
+          const operationId = page++ ? "500" : "600";
+          return Array.from({ length: 200 }, (_, index) => ({
+            type: "account_credited",
+            paging_token: `${operationId}-${page * 200 + index + 1}`,
+            amount: "1.0000000",
+            asset_type: "native",
+          })) as any;
+        });
+
+      const response = await mockMercuryClient.getAccountHistory(
+        pubKey,
+        "TESTNET",
+        false,
+        false,
+        { limit: 3 },
+        {},
+        { includeBalanceChanges: true },
+      );
+
+      expect(fetchAccountEffectsSpy).toHaveBeenCalledTimes(5);
+      expect(
+        (response.data || []).map(({ id, balanceChanges }: any) => [
+          id,
+          balanceChanges && balanceChanges.length,
+        ]),
+      ).toEqual([
+        ["600", 200],
+        ["500", null],
+        ["300", null],
+      ]);
+      fetchAccountHistorySpy.mockRestore();
+      fetchAccountEffectsSpy.mockRestore();
+    });
+  });
+
+  describe("token events", () => {
+    const contractId =
+      "CCWAMYJME4H5CKG7OLXGC2T4M6FL52XCZ3OQOAV6LL3GLA4RO4WH3ASP";
+    const otherPubKey = Keypair.random().publicKey();
+    const transferEvent = {
+      id: "500-0",
+      contractId,
+      fnName: "transfer" as const,
+      from: otherPubKey,
+      to: pubKey,
+      amount: "10000000",
+      txHash: "incoming",
+      closeTime: Date.parse("2024-03-10T10:00:00Z"),
+    };
+    // Emitted by a transaction of the account, which its history already holds as an operation.
+    const ownTransferEvent = {
+      ...transferEvent,
+      id: "300-0",
+      from: pubKey,
+      to: otherPubKey,
+      txHash: "outgoing",
+    };
+
+    it("can transform Mercury token events", () => {
+      const topic = (scVal: xdr.ScVal) => scVal.toXDR("base64");
+      const node = (topics: xdr.ScVal[], sequence: number) => ({
+        contractId,
+        topic1: topic(topics[0]),
+        topic2: topics[1] ? topic(topics[1]) : null,
+        topic3: topics[2] ? topic(topics[2]) : null,
+        topic4: topics[3] ? topic(topics[3]) : null,
+        data: nativeToScVal(10000000, { type: "i128" }).toXDR("base64"),
+        txInfoByTx: {
+          txHash: `tx${sequence}`,
+          ledgerByLedger: { closeTime: 1710064800, sequence },
+        },
+      });
+      const edges = [
+        node(
+          [
+            nativeToScVal("transfer", { type: "symbol" }),
+            new Address(otherPubKey).toScVal(),
+            new Address(pubKey).toScVal(),
+            nativeToScVal("native"),
+          ],
+          2,
+        ),
+        node(
+          [
+            nativeToScVal("mint", { type: "symbol" }),
+            new Address(pubKey).toScVal(),
+          ],
+          2,
+        ),
+        node([nativeToScVal("approve", { type: "symbol" })], 3),
+      ].map((eventNode) => ({ node: eventNode }));
+      const events = MercuryTransformers.transformTokenEvents(
+        { data: { [contractId]: { edges } } } as any,
+        "TESTNET",
+      );
+
+      expect(events).toEqual([
+        {
+          id: expect.stringMatching(/^8589934592-\d+$/),
+          contractId,
+          fnName: "transfer",
+          from: otherPubKey,
+          to: pubKey,
+          amount: "10000000",
+          txHash: "tx2",
+          closeTime: 1710064800000,
+        },
+        {
+          id: expect.stringMatching(/^8589934592-\d+$/),
+          contractId,
+          fnName: "mint",
+          from: null,
+          to: pubKey,
+          amount: "10000000",
+          txHash: "tx2",
+          closeTime: 1710064800000,
+        },
+      ]);
+      expect(events[1].id).not.toEqual(events[0].id);
+
+      // IDs are used as cursors, so they don't depend on the other events of the response.
+      const otherContractId =
+        "CBGTG7XFRY3L6OKAUTR6KGDKUXUQBX3YDJ3QFDYTGVMOM7VV4O7NCODG";
+      const withOtherContract = MercuryTransformers.transformTokenEvents(
+        {
+          data: {
+            [otherContractId]: {
+              edges: edges.map(({ node: eventNode }) => ({
+                node: { ...eventNode, contractId: otherContractId },
+              })),
+            },
+            [contractId]: { edges },
+          },
+        } as any,
+        "TESTNET",
+      );
+      expect(
+        withOtherContract
+          .filter((event) => event.contractId === contractId)
+          .map(({ id }) => id),
+      ).toEqual(events.map(({ id }) => id));
+      expect(
+        withOtherContract
+          .filter((event) => event.contractId === otherContractId)
+          .map(({ id }) => id),
+      ).not.toEqual(events.map(({ id }) => id));
+    });
+
+    it("can merge token events into Mercury account history", async () => {
+      const transformAccountHistorySpy = jest
+        .spyOn(MercuryTransformers, "transformAccountHistory")
+        .mockResolvedValue([
+          { id: "600", transaction_hash: "latest" },
+          { id: "300", transaction_hash: "outgoing" },
+        ]);
+      const getTokenEventsMercurySpy = jest
+        .spyOn(mockMercuryClient, "getTokenEventsMercury")
+        .mockResolvedValue({
+          events: [ownTransferEvent, transferEvent],
+          end: null,
+        });
+
+      const response = await mockMercuryClient.getAccountHistory(
+        pubKey,
+        "TESTNET",
+        true,
+        false,
+        { limit: 2 },
+        {},
+        { contractIds: [contractId] },
+      );
+
+      expect(getTokenEventsMercurySpy).toHaveBeenCalledWith(
+        pubKey,
+        [contractId],
+        "TESTNET",
+        undefined,
+      );
+      // The events within the range of operations of the page are added to it.
+      expect(response.data).toEqual([
+        { id: "600", transaction_hash: "latest" },
+        expect.objectContaining({
+          id: "500-0",
+          type: "invoke_host_function",
+          transaction_hash: "incoming",
+          is_contract_event: true,
+          transaction_attr: {
+            contractId,
+            fnName: "transfer",
+            args: { from: otherPubKey, to: pubKey, amount: "10000000" },
+          },
+        }),
+        { id: "300", transaction_hash: "outgoing" },
+      ]);
+      expect(response.next).toBeNull();
+      transformAccountHistorySpy.mockRestore();
+      getTokenEventsMercurySpy.mockRestore();
+    });
+
+    it("ends a Mercury page at the oldest token event read", async () => {
+      const transformAccountHistorySpy = jest
+        .spyOn(MercuryTransformers, "transformAccountHistory")
+        .mockResolvedValue([
+          { id: "600", transaction_hash: "latest" },
+          { id: "300", transaction_hash: "outgoing" },
+        ]);
+      const getTokenEventsMercurySpy = jest
+        .spyOn(mockMercuryClient, "getTokenEventsMercury")
+        .mockResolvedValue({ events: [transferEvent], end: transferEvent });
+
+      const response = await mockMercuryClient.getAccountHistory(
+        pubKey,
+        "TESTNET",
+        true,
+        false,
+        { limit: 2, cursor: "700" },
+        {},
+        { contractIds: [contractId] },
+      );
+
+      expect(getTokenEventsMercurySpy).toHaveBeenCalledWith(
+        pubKey,
+        [contractId],
+        "TESTNET",
+        "700",
+      );
+      // Older events weren't read, so the older operations are left for the next page.
+      expect((response.data || []).map(({ id }) => id)).toEqual([
+        "600",
+        "500-0",
+      ]);
+      expect(response.next).toEqual("500-0");
+      transformAccountHistorySpy.mockRestore();
+      getTokenEventsMercurySpy.mockRestore();
+    });
+
+    it("reads Mercury token events up to the ledger of the page cursor", async () => {
+      const transferNode = (sequence: number) => ({
+        node: {
+          contractId,
+          topic1: nativeToScVal("transfer", { type: "symbol" }).toXDR("base64"),
+          topic2: new Address(otherPubKey).toScVal().toXDR("base64"),
+          topic3: new Address(pubKey).toScVal().toXDR("base64"),
+          topic4: nativeToScVal("native").toXDR("base64"),
+          data: nativeToScVal(10000000, { type: "i128" }).toXDR("base64"),
+          txInfoByTx: {
+            txHash: `tx${sequence}`,
+            ledgerByLedger: { closeTime: 1710064800, sequence },
+          },
+        },
+      });
+      const query = jest.fn().mockResolvedValue({
+        data: {
+          [contractId]: {
+            edges: Array.from({ length: 200 }, (_, i) => transferNode(100 + i)),
+          },
+        },
+        error: null,
+      });
+      const backendClientMakerSpy = jest
+        .spyOn(mockMercuryClient.mercurySession, "backendClientMaker")
+        .mockReturnValue({ query } as any);
+
+      const { events, end } = await mockMercuryClient.getTokenEventsMercury(
+        pubKey,
+        [contractId],
+        "TESTNET",
+        `${(BigInt(400) << BigInt(32)) + BigInt(4096)}`,
+      );
+
+      expect(query.mock.calls[0][0]).toContain(
+        "txInfoByTx: { ledger: { lessThanOrEqualTo: 400 } }",
+      );
+      expect(events).toHaveLength(200);
+      // The contract returned as many events as are read, older ones may be left.
+      expect(end?.txHash).toEqual("tx100");
+      backendClientMakerSpy.mockRestore();
+    });
+
+    it("adds RPC token events to the operations of a Horizon page", async () => {
+      const fetchAccountHistorySpy = jest
+        .spyOn(HorizonRpcHelpers, "fetchAccountHistory")
+        .mockResolvedValue([
+          { id: "600", paging_token: "600", transaction_hash: "latest" },
+          { id: "300", paging_token: "300", transaction_hash: "outgoing" },
+        ] as any);
+      const olderEvent = { ...transferEvent, id: "200-0", txHash: "older" };
+      const getTokenEventsSpy = jest
+        .spyOn(SorobanRpcEvents, "getTokenEvents")
+        .mockResolvedValue([olderEvent, ownTransferEvent, transferEvent]);
+
+      const response = await mockMercuryClient.getAccountHistory(
+        pubKey,
+        "TESTNET",
+        false,
+        false,
+        { limit: 2 },
+        {},
+        { contractIds: [contractId] },
+      );
+
+      expect(getTokenEventsSpy).toHaveBeenLastCalledWith(
+        pubKey,
+        [contractId],
+        "TESTNET",
+        expect.anything(),
+      );
+      // The older event belongs to the next page, which starts after the last operation.
+      expect((response.data || []).map(({ id }) => id)).toEqual([
+        "600",
+        "500-0",
+        "300",
+      ]);
+      expect(response.next).toEqual("300");
+      fetchAccountHistorySpy.mockRestore();
+      getTokenEventsSpy.mockRestore();
+    });
+
+    it("reads the balance changes of RPC token events on a Horizon page from the transfer", async () => {
+      const fetchAccountHistorySpy = jest
+        .spyOn(HorizonRpcHelpers, "fetchAccountHistory")
+        .mockResolvedValue([
+          { id: "600", paging_token: "600", transaction_hash: "latest" },
+          { id: "300", paging_token: "300", transaction_hash: "outgoing" },
+        ] as any);
+      const fetchAccountEffectsSpy = jest
+        .spyOn(HorizonRpcHelpers, "fetchAccountEffects")
+        .mockResolvedValue([]);
+      const getTokenEventsSpy = jest
+        .spyOn(SorobanRpcEvents, "getTokenEvents")
+        .mockResolvedValue([transferEvent]);
+
+      const response = await mockMercuryClient.getAccountHistory(
+        pubKey,
+        "TESTNET",
+        false,
+        false,
+        { limit: 2 },
+        {},
+        { contractIds: [contractId], includeBalanceChanges: true },
+      );
+
+      expect(
+        (response.data || []).map(({ id, balanceChanges }: any) => [
+          id,
+          balanceChanges,
+        ]),
+      ).toEqual([
+        ["600", []],
+        [
+          "500-0",
+          [
+            {
+              asset: contractId,
+              amount: "10000000",
+              type: "invoke_host_function",
+            },
+          ],
+        ],
+        ["300", []],
+      ]);
+      fetchAccountHistorySpy.mockRestore();
+      fetchAccountEffectsSpy.mockRestore();
+      getTokenEventsSpy.mockRestore();
+    });
+  });
+
+  describe("subscription management", () => {
+    const contractId =
+      "CCWAMYJME4H5CKG7OLXGC2T4M6FL52XCZ3OQOAV6LL3GLA4RO4WH3ASP";
+    const mockRedisClient: any = {
+      hget: jest.fn(),
+      hdel: jest.fn(),
+      zscore: jest.fn(),
+      zadd: jest.fn(),
+      zrem: jest.fn(),
+      zrangebyscore: jest.fn(),
+    };
+    const mockClient = {
+      query: jest.fn(),
+      mutation: jest.fn(),
+    };
+    let backendClientMakerSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      mockMercuryClient.redisClient = mockRedisClient;
+      backendClientMakerSpy = jest
+        .spyOn(mockMercuryClient.mercurySession, "backendClientMaker")
+        .mockReturnValue(mockClient as any);
+      mockClient.query.mockResolvedValue({
+        data: {
+          accounts: [{ id: 1 }],
+          transfersFrom: [{ id: 2, contractId }],
+          transfersTo: [{ id: 3, contractId }],
+          balances: [{ id: 4, contractId }],
+        },
+        error: null,
+      });
+      mockClient.mutation.mockResolvedValue({ data: {}, error: null });
+    });
+
+    afterEach(() => {
+      mockMercuryClient.redisClient = undefined;
+      backendClientMakerSpy.mockRestore();
+    });
+
+    it("skips existing subscriptions when subscribing in bulk", async () => {
+      const newPubKey = Keypair.random().publicKey();
+      const getAccountSubSpy = jest
+        .spyOn(mockMercuryClient, "getAccountSubForPubKey")
+        .mockImplementation(async (key) =>
+          key === pubKey ? [{ publickey: pubKey }] : [],
+        );
+      const accountSubscriptionSpy = jest
+        .spyOn(mockMercuryClient, "accountSubscription")
+        .mockResolvedValue({ data: { id: 1 }, error: null });
+      const getTokenBalanceSubSpy = jest
+        .spyOn(mockMercuryClient, "getTokenBalanceSub")
+        .mockResolvedValue([]);
+      const tokenBalanceSubscriptionSpy = jest
+        .spyOn(mockMercuryClient, "tokenBalanceSubscription")
+        .mockResolvedValue({ data: null, error: "failed" });
+
+      const results = await mockMercuryClient.bulkSubscription(
+        [
+          { pubKey, contractIds: [] },
+          { pubKey: newPubKey, contractIds: [contractId] },
+        ],
+        "TESTNET",
+      );
+
+      expect(results).toEqual([
+        { pubKey, status: "existing" },
+        { pubKey: newPubKey, status: "subscribed" },
+        {
+          pubKey: newPubKey,
+          contractId,
+          status: "failed",
+          error: "failed",
+        },
+      ]);
+      expect(accountSubscriptionSpy).toHaveBeenCalledTimes(1);
+      expect(accountSubscriptionSpy).toHaveBeenCalledWith(newPubKey, "TESTNET");
+      getAccountSubSpy.mockRestore();
+      accountSubscriptionSpy.mockRestore();
+      getTokenBalanceSubSpy.mockRestore();
+      tokenBalanceSubscriptionSpy.mockRestore();
+    });
+
+    it("subscribes to the transfers of an account as an address topic", async () => {
+      const postSpy = jest
+        .spyOn(axios, "post")
+        .mockResolvedValue({ data: { id: 1 } });
+      const accountTopic = new Address(pubKey).toScVal().toXDR("base64");
+
+      const { error } = await mockMercuryClient.tokenSubscription(
+        contractId,
+        pubKey,
+        "TESTNET",
+      );
+
+      expect(error).toBeNull();
+      expect(postSpy.mock.calls.map(([, body]) => body)).toEqual([
+        expect.objectContaining({
+          contract_id: contractId,
+          topic2: accountTopic,
+        }),
+        expect.objectContaining({
+          contract_id: contractId,
+          topic3: accountTopic,
+        }),
+        expect.objectContaining({
+          contract_id: contractId,
+          topic1: xdr.ScVal.scvSymbol("mint").toXDR("base64"),
+        }),
+      ]);
+      // A public key is longer than a symbol can be.
+      expect(() => xdr.ScVal.scvSymbol(pubKey).toXDR("base64")).toThrow();
+      postSpy.mockRestore();
+    });
+
+    it("lists the subscriptions of an account with their hydration", async () => {
+      mockRedisClient.hget.mockResolvedValue("5");
+      mockRedisClient.zscore.mockResolvedValue("1700000000000");
+      const checkHydrationStatusSpy = jest
+        .spyOn(mockMercuryClient, "checkHydrationStatus")
+        .mockResolvedValue({ id: 5, status: "complete" });
+
+      const { data, error } = await mockMercuryClient.getSubscriptionsForPubKey(
+        pubKey,
+        "TESTNET",
+      );
+
+      expect(error).toBeNull();
+      expect(data).toEqual({
+        account: [{ id: 1 }],
+        tokenEvents: [
+          { id: 2, contractId },
+          { id: 3, contractId },
+        ],
+        tokenBalances: [{ id: 4, contractId }],
+        hydration: { id: 5, status: "complete" },
+        lastQueriedAt: 1700000000000,
+      });
+      expect(checkHydrationStatusSpy).toHaveBeenCalledWith(5, "TESTNET");
+      checkHydrationStatusSpy.mockRestore();
+    });
+
+    it("starts tracking the activity of accounts subscribed before it was tracked", async () => {
+      mockRedisClient.hget.mockResolvedValue(null);
+      mockRedisClient.zscore.mockResolvedValue(null);
+      const dateNowSpy = jest.spyOn(Date, "now").mockReturnValue(1700000000000);
+
+      const { data } = await mockMercuryClient.getSubscriptionsForPubKey(
+        pubKey,
+        "TESTNET",
+      );
+
+      expect(data?.lastQueriedAt).toBeNull();
+      expect(mockRedisClient.zadd).toHaveBeenCalledWith(
+        "MERCURY_SUBSCRIPTION_ACTIVITY:TESTNET",
+        "NX",
+        1700000000000,
+        pubKey,
+      );
+      dateNowSpy.mockRestore();
+    });
+
+    it("deletes the subscriptions of an account", async () => {
+      const { data, error } =
+        await mockMercuryClient.deleteSubscriptionsForPubKey(pubKey, "TESTNET");
+
+      expect(error).toBeNull();
+      expect(data).toEqual({ deleted: 4 });
+      expect(mockClient.mutation).toHaveBeenCalledWith(
+        mutation.deleteSubscriptions({
+          accounts: [1],
+          contractEvents: [2, 3],
+          ledgerEntries: [4],
+        }),
+        {},
+      );
+      expect(mockRedisClient.zrem).toHaveBeenCalledWith(
+        "MERCURY_SUBSCRIPTION_ACTIVITY:TESTNET",
+        pubKey,
+      );
+      expect(mockRedisClient.hdel).toHaveBeenCalledWith(
+        "MERCURY_SUBSCRIPTION_HYDRATION:TESTNET",
+        pubKey,
+      );
+    });
+
+    it("forgets the completed subscription jobs of deleted subscriptions", async () => {
+      const subscriptionQueue = {
+        clearCompletedJobs: jest.fn(),
+      } as unknown as SubscriptionQueue;
+      mockMercuryClient.subscriptionQueue = subscriptionQueue;
+
+      await mockMercuryClient.deleteSubscriptionsForPubKey(pubKey, "TESTNET");
+
+      expect(subscriptionQueue.clearCompletedJobs).toHaveBeenCalledWith([
+        { network: "TESTNET", type: "account", pubKey },
+        { network: "TESTNET", type: "token", pubKey, contractId },
+        { network: "TESTNET", type: "token_balance", pubKey, contractId },
+      ]);
+      mockMercuryClient.subscriptionQueue = undefined;
+    });
+
+    it("collects the subscriptions of idle accounts", async () => {
+      const failingPubKey = Keypair.random().publicKey();
+      mockRedisClient.zrangebyscore.mockResolvedValue([pubKey, failingPubKey]);
+      const deleteSubscriptionsSpy = jest
+        .spyOn(mockMercuryClient, "deleteSubscriptionsForPubKey")
+        .mockImplementation(async (key) =>
+          key === pubKey
+            ? { data: { deleted: 1 }, error: null }
+            : { data: null, error: new Error("failed") },
+        );
+      const now = Date.now();
+      const dateNowSpy = jest.spyOn(Date, "now").mockReturnValue(now);
+
+      const { data } = await mockMercuryClient.collectIdleSubscriptions(
+        "PUBLIC",
+        30,
+      );
+
+      expect(data).toEqual({ collected: [pubKey], failed: [failingPubKey] });
+      expect(mockRedisClient.zrangebyscore).toHaveBeenCalledWith(
+        "MERCURY_SUBSCRIPTION_ACTIVITY:PUBLIC",
+        "-inf",
+        now - 30 * 24 * 60 * 60 * 1000,
+        "LIMIT",
+        0,
+        50,
+      );
+      deleteSubscriptionsSpy.mockRestore();
+      dateNowSpy.mockRestore();
+    });
+  });
+
   it("can build a balance ledger key for a pub key", async () => {
     const ledgerKey = mockMercuryClient.tokenBalanceKey(pubKey, "TESTNET");
     const scVal = xdr.ScVal.fromXDR(
@@ -202,6 +1241,37 @@ describe("Mercury Service", () => {
     expect(mockMercuryClient.accountSubscription).toHaveBeenCalled();
   });
 
+  it("queues missing account subscriptions when fetching history with a subscription queue", async () => {
+    const getAccountSubSpy = jest
+      .spyOn(mockMercuryClient, "getAccountSubForPubKey")
+      .mockResolvedValue([{ publickey: "nope" }]);
+    const accountSubscriptionSpy = jest.spyOn(
+      mockMercuryClient,
+      "accountSubscription",
+    );
+    const subscriptionQueue = {
+      enqueue: jest.fn().mockResolvedValue({}),
+    } as unknown as SubscriptionQueue;
+    mockMercuryClient.subscriptionQueue = subscriptionQueue;
+
+    const response = await mockMercuryClient.getAccountHistoryMercury(
+      pubKey,
+      "TESTNET",
+    );
+    expect((response.error as Error).message).toContain(
+      ERROR.MISSING_SUB_FOR_PUBKEY,
+    );
+    expect(subscriptionQueue.enqueue).toHaveBeenCalledWith({
+      network: "TESTNET",
+      type: "account",
+      pubKey,
+    });
+    expect(accountSubscriptionSpy).not.toHaveBeenCalled();
+    mockMercuryClient.subscriptionQueue = undefined;
+    getAccountSubSpy.mockRestore();
+    accountSubscriptionSpy.mockRestore();
+  });
+
   it.skip("can properly key SAC balances by asset issuer", async () => {
     const contracts = [
       "CAP5AMC2OHNVREO66DFIN6DHJMPOBAJ2KCDDIMFBR7WWJH5RZBFM3UEI",
@@ -528,4 +1598,61 @@ describe("Mercury Service", () => {
       balance: "1000000",
     });
   });
+  it("can decode the contract invocations of an account history", async () => {
+    const contractId =
+      "CCWAMYJME4H5CKG7OLXGC2T4M6FL52XCZ3OQOAV6LL3GLA4RO4WH3ASP";
+    const otherPubKey = Keypair.random().publicKey();
+    const getParameters = (fnName: string, args: xdr.ScVal[]) =>
+      [
+        new Address(contractId).toScVal(),
+        nativeToScVal(fnName, { type: "symbol" }),
+        ...args,
+      ].map((scVal) => ({ type: "", value: scVal.toXDR("base64") }));
+    const payment = { id: "1", type: "payment", amount: "5" };
+    const transfer = {
+      id: "2",
+      type: "invoke_host_function",
+      parameters: getParameters("transfer", [
+        new Address(pubKey).toScVal(),
+        new Address(otherPubKey).toScVal(),
+        nativeToScVal(50000000, { type: "i128" }),
+      ]),
+    };
+    const upload = {
+      id: "3",
+      type: "invoke_host_function",
+      parameters: [{ type: "Bytes", value: "AAAADQAAAAA=" }],
+    };
+    const getCachedContractSpecSpy = jest
+      .spyOn(mockMercuryClient, "getCachedContractSpec")
+      .mockResolvedValue(null);
+    const tokenDetailsSpy = jest.spyOn(mockMercuryClient, "tokenDetails");
+
+    const history = await mockMercuryClient.decodeAccountHistoryInvocations(
+      pubKey,
+      [payment, transfer, upload],
+      "TESTNET",
+    );
+
+    expect(getCachedContractSpecSpy).toHaveBeenCalledTimes(1);
+    expect(tokenDetailsSpy).toHaveBeenLastCalledWith(
+      pubKey,
+      contractId,
+      "TESTNET",
+    );
+    expect(history[0]).toEqual(payment);
+    expect(history[1].invocation?.token).toEqual({
+      fnName: "transfer",
+      from: pubKey,
+      to: otherPubKey,
+      spender: null,
+      amount: "5",
+      symbol: "TST",
+      decimals: 7,
+    });
+    expect(history[2].invocation).toBeNull();
+
+    getCachedContractSpecSpy.mockRestore();
+    tokenDetailsSpy.mockRestore();
+  });
 });
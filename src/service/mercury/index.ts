@@ -9,34 +9,58 @@ import Prometheus from "prom-client";
 
 import { mutation, query } from "./queries";
 import {
+  decodeInvocation,
+  DecodedInvocation,
+  getContractSpec,
   getServer,
   getTokenBalance,
   getTokenDecimals,
   getTokenName,
   getTokenSymbol,
+  getTokenEvents,
   getTxBuilder,
+  InvocationTokenDetails,
   isSacContract,
+  isSep41Function,
+  TokenEvent,
 } from "../../helper/soroban-rpc";
 import {
+  BalanceChange,
+  HistoryEffect,
   transformAccountBalancesCurrentData,
   transformAccountHistory,
+  transformEffectBalanceChanges,
+  transformOperationBalanceChanges,
+  transformTokenEvent,
+  transformTokenEvents,
 } from "./helpers/transformers";
+import {
+  AccountHistoryFilters,
+  getAccountHistoryFilter,
+  hasAccountHistoryFilters,
+} from "./helpers/filters";
 import {
   AssetBalance,
   fetchAccountDetails,
+  fetchAccountEffects,
   fetchAccountHistory,
   NativeBalance,
   NETWORK_URLS,
+  TRANSACTIONS_LIMIT,
 } from "../../helper/horizon-rpc";
 import { NetworkNames } from "../../helper/validate";
 import { ERROR } from "../../helper/error";
 import {
   MercurySupportedNetworks,
+  REDIS_SUBSCRIPTION_ACTIVITY_KEY,
+  REDIS_SUBSCRIPTION_HYDRATION_KEY,
   hasIndexerSupport,
   hasSubForPublicKey,
+  hasSubForTokenBalance,
 } from "../../helper/mercury";
 import { getSdk } from "../../helper/stellar";
 import { StellarRpcConfig } from "../../config";
+import { SubscriptionQueue } from "../subscription-queue";
 const DEFAULT_RETRY_AMOUNT = 5;
 
 export const ERROR_MESSAGES = {
@@ -58,6 +82,167 @@ function getGraphQlError(error?: CombinedError) {
   return JSON.stringify(error);
 }
 
+export interface AccountHistoryPage {
+  // ID of the last operation of the previous page, the page starts at the operation before it.
+  cursor?: string;
+  limit?: number;
+}
+
+export interface AccountHistoryOptions {
+  // Token contracts whose SEP-41 transfers and mints of the account are merged into its history.
+  contractIds?: string[];
+  // Adds the balances each operation moved to its record, as balanceChanges. It's null when they can't be read:
+  // for the oldest operations of a Horizon page when their effects are past the effect pages read for it, and
+  // for Mercury operations whose records don't carry the amounts they moved.
+  includeBalanceChanges?: boolean;
+}
+
+// Contracts can be upgraded to a new spec, so cached specs expire after a day.
+const CONTRACT_SPEC_CACHE_TTL_S = 24 * 60 * 60;
+
+// Cursor of the first page of Mercury account history, operation IDs are positive 64 bit integers.
+const MAX_OPERATION_ID = "9223372036854775807";
+
+// Maximum number of token events of an account read per token contract.
+const TOKEN_EVENTS_LIMIT = 200;
+
+// Maximum number of Horizon pages scanned to fill a page of filtered account history.
+const ACCOUNT_HISTORY_MAX_SCANNED_PAGES = 5;
+
+// Maximum number of Horizon effect pages read for the balance changes of a page of account history.
+const ACCOUNT_HISTORY_MAX_EFFECT_PAGES = 5;
+const EFFECTS_PAGE_LIMIT = 200;
+
+// Maximum number of idle accounts unsubscribed in a single collection run.
+const IDLE_SUBSCRIPTION_BATCH_SIZE = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Subscriptions created at the same time by a bulk subscription.
+const BULK_SUBSCRIPTION_CONCURRENCY = 5;
+
+export interface BulkSubscriptionResult {
+  pubKey: string;
+  // Set for token balance subscriptions.
+  contractId?: string;
+  status: "subscribed" | "existing" | "failed";
+  error?: string;
+}
+
+export interface AccountSubscriptions {
+  account: { id: number }[];
+  // Subscriptions to the SEP-41 transfers from or to the account. The mint subscriptions of a token are shared
+  // by all its holders, so they're not listed.
+  tokenEvents: { id: number; contractId: string }[];
+  tokenBalances: { id: number; contractId: string }[];
+}
+
+// Operation IDs are 64 bit TOIDs, ordered like the ledger, transaction and operation they identify.
+// Token event IDs are the TOID of the emitting operation followed by the index of the event.
+const compareOperationIds = (a?: string, b?: string) => {
+  try {
+    const [toidA, indexA = "0"] = String(a).split("-");
+    const [toidB, indexB = "0"] = String(b).split("-");
+    const difference =
+      BigInt(toidA) - BigInt(toidB) || BigInt(indexA) - BigInt(indexB);
+    return difference > BigInt(0) ? 1 : difference < BigInt(0) ? -1 : 0;
+  } catch (error) {
+    return 0;
+  }
+};
+
+// Reads the balance changes of Horizon operations from the effects on the account, which are paged in the same
+// order from the newest operation down to the oldest one. Operations whose effects are past the pages read get
+// null balance changes, as an empty list would mean the operation didn't move any balance.
+const getHorizonBalanceChanges = async (
+  pubKey: string,
+  server: Parameters<typeof fetchAccountEffects>[1],
+  operationIds: string[],
+) => {
+  const effects = new Map<string, HistoryEffect[]>();
+  const sorted = [...operationIds].sort((a, b) => compareOperationIds(b, a));
+  // Effects of operations newer than this one were all read.
+  let readUntil: string | null = null;
+  if (sorted.length) {
+    const oldest = sorted[sorted.length - 1];
+    // Effect paging tokens are the operation ID followed by the index of the effect, counted from 1.
+    let cursor = `${BigInt(sorted[0]) + BigInt(1)}-0`;
+    readUntil = sorted[0];
+    for (let pages = 0; pages < ACCOUNT_HISTORY_MAX_EFFECT_PAGES; pages++) {
+      const records = (await fetchAccountEffects(
+        pubKey,
+        server,
+        cursor,
+        EFFECTS_PAGE_LIMIT,
+      )) as HistoryEffect[];
+      for (const effect of records) {
+        const [operationId] = effect.paging_token.split("-");
+        effects.set(operationId, [...(effects.get(operationId) || []), effect]);
+      }
+
+      const last = records[records.length - 1];
+      if (
+        records.length < EFFECTS_PAGE_LIMIT ||
+        compareOperationIds(last.paging_token, oldest) < 0
+      ) {
+        readUntil = null;
+        break;
+      }
+      // The next page can hold more effects of the operation of the last effect.
+      [readUntil] = last.paging_token.split("-");
+      cursor = last.paging_token;
+    }
+  }
+  return new Map<string, BalanceChange[] | null>(
+    operationIds.map((id) => [
+      id,
+      !readUntil || compareOperationIds(id, readUntil) > 0
+        ? transformEffectBalanceChanges(effects.get(id) || [])
+        : null,
+    ]),
+  );
+};
+
+// Token events of the transactions an account took part in are already in its history as operations.
+const mergeTokenEvents = <T extends { transaction_hash?: string }>(
+  history: T[],
+  events: TokenEvent[],
+) => {
+  const txHashes = new Set(
+    history.map((operation) => operation.transaction_hash),
+  );
+  return [
+    ...history,
+    ...events
+      .filter((event) => !txHashes.has(event.txHash))
+      .map(transformTokenEvent),
+  ];
+};
+
+// Mercury pages each operation type separately. When a type returned a full page its older operations are left
+// for the next page, so the page can't go past the oldest operation that type returned.
+const getAccountHistoryPageEnd = (
+  data: { [connection: string]: any } | undefined,
+  limit: number,
+) => {
+  let end: string | null = null;
+  for (const connection of Object.values(data || {})) {
+    const nodes: { opId?: string }[] =
+      connection?.nodes ||
+      (connection?.edges || []).map(({ node }: { node: object }) => node);
+    if (nodes.length < limit) {
+      continue;
+    }
+    const [oldest] = nodes
+      .map(({ opId }) => opId)
+      .filter((opId): opId is string => Boolean(opId))
+      .sort(compareOperationIds);
+    if (oldest && (!end || compareOperationIds(oldest, end) > 0)) {
+      end = String(oldest);
+    }
+  }
+  return end;
+};
+
 export interface NewEventSubscriptionPayload {
   contract_id?: string;
   max_single_size: number;
@@ -107,6 +292,8 @@ export class MercuryClient {
   };
   rpcConfig: StellarRpcConfig;
   redisClient?: Redis;
+  // Missing account subscriptions are queued when set, and made during the request otherwise.
+  subscriptionQueue?: SubscriptionQueue;
   logger: Logger;
   mercuryErrorCounter: Prometheus.Counter<"endpoint">;
   rpcErrorCounter: Prometheus.Counter<"rpc">;
@@ -123,10 +310,12 @@ export class MercuryClient {
     },
     rpcConfig: StellarRpcConfig,
     redisClient?: Redis,
+    subscriptionQueue?: SubscriptionQueue,
   ) {
     this.mercurySession = mercurySession;
     this.logger = logger;
     this.redisClient = redisClient;
+    this.subscriptionQueue = subscriptionQueue;
     this.rpcConfig = rpcConfig;
     this.mercuryErrorCounter = metrics.mercuryErrorCounter;
     this.rpcErrorCounter = metrics.rpcErrorCounter;
@@ -223,17 +412,20 @@ export class MercuryClient {
       };
     }
     // Token transfer topics are - 1: transfer, 2: from, 3: to, 4: assetName, data(amount)
+    // The accounts are address topics. They used to be built as symbols, which can't hold a public key, so that
+    // failed before subscribing and there are no subscriptions with symbol topics to look for.
+    const accountTopic = new Sdk.Address(pubKey).toScVal().toXDR("base64");
     const transferToSub = {
       contract_id: contractId,
       max_single_size: 200,
       topic1: Sdk.xdr.ScVal.scvSymbol("transfer").toXDR("base64"),
-      topic2: Sdk.xdr.ScVal.scvSymbol(pubKey).toXDR("base64"),
+      topic2: accountTopic,
     };
     const transferFromSub = {
       contract_id: contractId,
       max_single_size: 200,
       topic1: Sdk.xdr.ScVal.scvSymbol("transfer").toXDR("base64"),
-      topic3: Sdk.xdr.ScVal.scvSymbol(pubKey).toXDR("base64"),
+      topic3: accountTopic,
     };
     const mintSub = {
       contract_id: contractId,
@@ -340,6 +532,15 @@ export class MercuryClient {
         DEFAULT_RETRY_AMOUNT,
       );
 
+      if (this.redisClient && data?.id) {
+        await this.redisClient.hset(
+          `${REDIS_SUBSCRIPTION_HYDRATION_KEY}:${network}`,
+          pubKey,
+          data.id,
+        );
+      }
+      await this.recordAccountActivity(pubKey, network);
+
       return {
         data,
         error: null,
@@ -510,10 +711,91 @@ export class MercuryClient {
     }
   };
 
+  /**
+   * Reads the latest SEP-41 token events of an account from Mercury, older than a page cursor when there's one.
+   * At most TOKEN_EVENTS_LIMIT events are read per contract, so the events of a contract that returned that many
+   * are only complete down to the oldest of them, which is returned as the end of the events.
+   *
+   * @param pubKey - The account the events name as sender or recipient
+   * @param contractIds - The token contracts to read the events of
+   * @param network - The network of the contracts
+   * @param cursor - ID of the operation or event the events are older than
+   * @returns The events, and the oldest event the events are complete down to if they're not complete
+   */
+  getTokenEventsMercury = async (
+    pubKey: string,
+    contractIds: string[],
+    network: NetworkNames,
+    cursor?: string,
+  ): Promise<{ events: TokenEvent[]; end: TokenEvent | null }> => {
+    if (!this.tokens[network]) {
+      await this.renewMercuryToken(network);
+    }
+
+    const urqlClient = this.mercurySession.backendClientMaker(
+      network,
+      this.tokens[network],
+    );
+    const Sdk = getSdk(StellarSdk.Networks[network]);
+    const accountXdr = new Sdk.Address(pubKey).toScVal().toXDR("base64");
+    const getData = async () => {
+      const data = await urqlClient.query(
+        query.getTokenEvents(
+          contractIds,
+          accountXdr,
+          TOKEN_EVENTS_LIMIT,
+          // The ledger sequence is the high 32 bits of the TOID the cursor starts with.
+          cursor ? Number(BigInt(cursor.split("-")[0]) >> BigInt(32)) : null,
+        ),
+        {},
+      );
+
+      const errorMessage = getGraphQlError(data.error);
+      if (errorMessage) {
+        throw new Error(errorMessage);
+      }
+
+      return data;
+    };
+    const data = await this.renewAndRetry(getData, network);
+    const contractEvents = transformTokenEvents(data, network);
+
+    let end: TokenEvent | null = null;
+    for (const [contractId, connection] of Object.entries(
+      (data.data || {}) as Record<string, { edges?: unknown[] } | null>,
+    )) {
+      if ((connection?.edges || []).length < TOKEN_EVENTS_LIMIT) {
+        continue;
+      }
+      let oldest: TokenEvent | null = null;
+      for (const event of contractEvents) {
+        if (
+          event.contractId === contractId &&
+          (!oldest || compareOperationIds(event.id, oldest.id) < 0)
+        ) {
+          oldest = event;
+        }
+      }
+      if (oldest && (!end || compareOperationIds(oldest.id, end.id) > 0)) {
+        end = oldest;
+      }
+    }
+    // Stellar Asset Contract mints name the admin before the recipient, mints by the account are dropped here.
+    return {
+      events: contractEvents.filter(
+        (event) => event.from === pubKey || event.to === pubKey,
+      ),
+      end,
+    };
+  };
+
   getAccountHistoryHorizon = async (
     pubKey: string,
     network: NetworkNames,
     isFailedIncluded?: boolean,
+    page: AccountHistoryPage = {},
+    filters: AccountHistoryFilters = {},
+    { contractIds = [], includeBalanceChanges }: AccountHistoryOptions = {},
   ) => {
     try {
       const networkUrl = NETWORK_URLS[network];
@@ -527,9 +809,98 @@ export class MercuryClient {
       const server = new Horizon.Server(networkUrl, {
         allowHttp: !networkUrl.includes("https"),
       });
-      const data = await fetchAccountHistory(pubKey, server, isFailedIncluded);
+      const limit = page.limit || TRANSACTIONS_LIMIT;
+      const isFiltered = hasAccountHistoryFilters(filters);
+      const matches = getAccountHistoryFilter(filters, network);
+      const data: Awaited<ReturnType<typeof fetchAccountHistory>> = [];
+      // Pages can end on a token event, Horizon pages from the operation that emitted it.
+      let cursor = page.cursor?.split("-")[0];
+      let next: string | null = null;
+      // Horizon can't filter operations, so filtered pages are filled by scanning a few Horizon pages.
+      for (
+        let scanned = 0;
+        scanned < (isFiltered ? ACCOUNT_HISTORY_MAX_SCANNED_PAGES : 1);
+        scanned++
+      ) {
+        const records = await fetchAccountHistory(
+          pubKey,
+          server,
+          isFailedIncluded,
+          cursor,
+          limit,
+        );
+        let scannedRecords = 0;
+        for (const record of records) {
+          scannedRecords++;
+          if (matches(record)) {
+            data.push(record);
+          }
+          if (data.length === limit) {
+            break;
+          }
+        }
+
+        const lastScanned = records[scannedRecords - 1];
+        // A full page means Horizon may have older operations, their paging token is the operation ID.
+        const hasOlderRecords =
+          scannedRecords < records.length || records.length === limit;
+        const isOlderThanRange =
+          filters.from !== undefined &&
+          !!lastScanned &&
+          Date.parse(lastScanned.created_at) < filters.from;
+        next =
+          hasOlderRecords && !isOlderThanRange
+            ? lastScanned.paging_token
+            : null;
+        cursor = next || undefined;
+        if (!next || data.length === limit) {
+          break;
+        }
+      }
+
+      // Horizon doesn't index token events, the ones RPC retains are added to the range of operations
+      // the page covers, so the page can hold more records than the limit.
+      let events: TokenEvent[] = [];
+      if (contractIds.length) {
+        try {
+          events = (
+            await getTokenEvents(pubKey, contractIds, network, this.rpcConfig)
+          ).filter(
+            (event) =>
+              (!page.cursor ||
+                compareOperationIds(event.id, page.cursor) < 0) &&
+              (!next || compareOperationIds(event.id, next) > 0),
+          );
+        } catch (error) {
+          this.logger.error(error);
+        }
+      }
+      const history = mergeTokenEvents(data, events)
+        .filter(matches)
+        .sort((a, b) => compareOperationIds(b.id, a.id));
+
+      if (!includeBalanceChanges) {
+        return {
+          data: history,
+          next,
+          error: null,
+        };
+      }
+      const balanceChanges = await getHorizonBalanceChanges(
+        pubKey,
+        server,
+        data.map(({ id }) => id),
+      );
       return {
-        data,
+        data: history.map((operation) => ({
+          ...operation,
+          // Token events aren't Horizon operations, they have no effects and their balance changes are
+          // read from the transfer in their transaction attributes.
+          balanceChanges: balanceChanges.has(operation.id || "")
+            ? balanceChanges.get(operation.id || "")!
+            : transformOperationBalanceChanges(operation, pubKey, network),
+        })),
+        next,
         error: null,
       };
     } catch (error) {
@@ -548,12 +919,19 @@ export class MercuryClient {
 
       return {
         data: null,
+        next: null,
         error: _error,
       };
     }
   };
 
-  getAccountHistoryMercury = async (pubKey: string, network: NetworkNames) => {
+  getAccountHistoryMercury = async (
+    pubKey: string,
+    network: NetworkNames,
+    page?: AccountHistoryPage,
+    filters: AccountHistoryFilters = {},
+    { contractIds = [], includeBalanceChanges }: AccountHistoryOptions = {},
+  ) => {
     try {
       if (!hasIndexerSupport(network)) {
         throw new Error(`network not currently supported: ${network}`);
@@ -561,6 +939,22 @@ export class MercuryClient {
       const subs = await this.getAccountSubForPubKey(pubKey, network);
       const hasSubs = hasSubForPublicKey(subs, pubKey);
       if (!hasSubs) {
+        if (this.subscriptionQueue) {
+          try {
+            await this.subscriptionQueue.enqueue({
+              network,
+              type: "account",
+              pubKey,
+            });
+            this.logger.info(
+              `Queued missing account sub - ${pubKey} - ${network}`,
+            );
+          } catch (error) {
+            this.logger.error(error);
+          }
+          throw new Error(ERROR.MISSING_SUB_FOR_PUBKEY);
+        }
+
         const { error } = await this.accountSubscription(pubKey, network);
         if (!error) {
           this.logger.info(
@@ -578,26 +972,131 @@ export class MercuryClient {
         network,
         this.tokens[network],
       );
-      const getData = async () => {
-        const data = await urqlClient.query(query.getAccountHistory, {
-          pubKey,
-        });
+      // without a page the full history is returned, e.g. to look operations up by ID.
+      const limit = page ? page.limit || TRANSACTIONS_LIMIT : null;
+      const isFiltered = hasAccountHistoryFilters(filters);
+      const matches = getAccountHistoryFilter(filters, network);
+      const operations: Awaited<ReturnType<typeof transformAccountHistory>> =
+        [];
+      // Pages can end on a token event, Mercury pages from the operation that emitted it.
+      let cursor = page?.cursor?.split("-")[0] || MAX_OPERATION_ID;
+      let next: string | null = null;
+      // Filtered pages are filled by scanning a few pages, like Horizon pages are.
+      for (
+        let scanned = 0;
+        scanned < (isFiltered && limit ? ACCOUNT_HISTORY_MAX_SCANNED_PAGES : 1);
+        scanned++
+      ) {
+        const getData = async () => {
+          const data = await urqlClient.query(query.getAccountHistory, {
+            pubKey,
+            limit,
+            cursor,
+          });
 
-        const errorMessage = getGraphQlError(data.error);
-        if (errorMessage) {
-          throw new Error(errorMessage);
+          const errorMessage = getGraphQlError(data.error);
+          if (errorMessage) {
+            throw new Error(errorMessage);
+          }
+
+          return data;
+        };
+        const data = await this.renewAndRetry(getData, network);
+        const records = (await transformAccountHistory(data, network)).sort(
+          (a, b) => compareOperationIds(b.id, a.id),
+        );
+        if (!limit) {
+          operations.push(...records);
+          break;
         }
 
-        return data;
-      };
-      const data = await this.renewAndRetry(getData, network);
+        const end = getAccountHistoryPageEnd(data.data, limit);
+        const pageRecords = records.filter(
+          (record) => !end || compareOperationIds(record.id, end) >= 0,
+        );
+        let scannedRecords = 0;
+        for (const record of pageRecords) {
+          scannedRecords++;
+          if (matches(record)) {
+            operations.push(record);
+          }
+          if (operations.length === limit) {
+            break;
+          }
+        }
+
+        // Pages stopped by the limit continue after their last operation, others where Mercury stopped.
+        const lastScanned = pageRecords[scannedRecords - 1];
+        const isOlderThanRange =
+          filters.from !== undefined &&
+          !!lastScanned?.created_at &&
+          Date.parse(lastScanned.created_at) < filters.from;
+        next =
+          scannedRecords < pageRecords.length ? String(lastScanned.id) : end;
+        if (isOlderThanRange) {
+          next = null;
+        }
+        if (!next || operations.length === limit) {
+          break;
+        }
+        cursor = next;
+      }
+
+      // Token events are added to the range of operations the page covers, so the page can hold more
+      // records than the limit.
+      const tokenEvents = contractIds.length
+        ? await this.getTokenEventsMercury(
+            pubKey,
+            contractIds,
+            network,
+            page?.cursor,
+          )
+        : { events: [], end: null };
+      // Events older than the ones read are left for the next page, which ends this one at the oldest event read
+      // when it's in the range of the page.
+      const eventsEnd = tokenEvents.end;
+      if (
+        limit &&
+        eventsEnd &&
+        (!next || compareOperationIds(eventsEnd.id, next) > 0) &&
+        (filters.from === undefined || eventsEnd.closeTime >= filters.from)
+      ) {
+        next = eventsEnd.id;
+      }
+      const events = tokenEvents.events.filter(
+        (event) =>
+          (!page?.cursor || compareOperationIds(event.id, page.cursor) < 0) &&
+          (!next || compareOperationIds(event.id, next) >= 0),
+      );
+      const history = mergeTokenEvents(
+        next
+          ? operations.filter(({ id }) => compareOperationIds(id, next!) >= 0)
+          : operations,
+        events,
+      )
+        .filter(matches)
+        .sort((a, b) => compareOperationIds(b.id, a.id))
+        .map((operation) =>
+          includeBalanceChanges
+            ? {
+                ...operation,
+                balanceChanges: transformOperationBalanceChanges(
+                  operation,
+                  pubKey,
+                  network,
+                ),
+              }
+            : operation,
+        );
       return {
-        data: await transformAccountHistory(data, network),
+        data: history,
+        next,
         error: null,
       };
     } catch (error) {
       return {
         data: null,
+        next: null,
         error,
       };
     }
@@ -608,9 +1107,19 @@ export class MercuryClient {
     network: NetworkNames,
     useMercury: boolean,
     isFailedIncluded?: boolean,
+    page: AccountHistoryPage = {},
+    filters: AccountHistoryFilters = {},
+    options: AccountHistoryOptions = {},
   ) => {
     if (hasIndexerSupport(network) && useMercury) {
-      const response = await this.getAccountHistoryMercury(pubKey, network);
+      await this.recordAccountActivity(pubKey, network);
+      const response = await this.getAccountHistoryMercury(
+        pubKey,
+        network,
+        page,
+        filters,
+        options,
+      );
 
       if (!response.error) {
         return response;
@@ -628,10 +1137,124 @@ export class MercuryClient {
       pubKey,
       network,
       isFailedIncluded,
+      page,
+      filters,
+      options,
     );
     return horizonResponse;
   };
 
+  getCachedContractSpec = async (
+    contractId: string,
+    network: NetworkNames,
+  ): Promise<Record<string, any> | null> => {
+    const cacheKey = `${network}__${contractId}__spec`;
+    if (this.redisClient) {
+      const cachedSpec = await this.redisClient.get(cacheKey);
+      if (cachedSpec) {
+        return JSON.parse(cachedSpec);
+      }
+    }
+
+    const { result, error } = await getContractSpec(
+      contractId,
+      network,
+      this.logger,
+      this.rpcConfig,
+    );
+    if (error || !result) {
+      return null;
+    }
+    if (this.redisClient) {
+      await this.redisClient.set(
+        cacheKey,
+        JSON.stringify(result),
+        "EX",
+        CONTRACT_SPEC_CACHE_TTL_S,
+      );
+    }
+    return result;
+  };
+
+  // Adds the decoded contract invocation to the invoke host function operations of an account history,
+  // typed by the spec of each invoked contract and with the symbol and decimals of the tokens it moves.
+  decodeAccountHistoryInvocations = async <T extends object>(
+    pubKey: string,
+    history: T[],
+    network: NetworkNames,
+  ): Promise<(T & { invocation?: DecodedInvocation | null })[]> => {
+    const getParameters = (operation: T) => {
+      const { type, parameters } = operation as {
+        type?: string;
+        parameters?: { value: string }[];
+      };
+      return type === "invoke_host_function" && parameters ? parameters : null;
+    };
+
+    const tokenContracts = new Set<string>();
+    const contracts = new Set<string>();
+    for (const operation of history) {
+      const parameters = getParameters(operation);
+      const invocation = parameters
+        ? decodeInvocation(parameters, network)
+        : null;
+      if (invocation) {
+        contracts.add(invocation.contractId);
+        if (isSep41Function(invocation.fnName)) {
+          tokenContracts.add(invocation.contractId);
+        }
+      }
+    }
+
+    const specs = new Map<string, Record<string, any> | null>();
+    const tokens = new Map<string, InvocationTokenDetails | null>();
+    await Promise.all(
+      Array.from(contracts).map(async (contractId) => {
+        try {
+          specs.set(
+            contractId,
+            await this.getCachedContractSpec(contractId, network),
+          );
+        } catch (error) {
+          this.logger.error(error);
+        }
+        if (!tokenContracts.has(contractId)) {
+          return;
+        }
+        try {
+          const { symbol, decimals } = await this.tokenDetails(
+            pubKey,
+            contractId,
+            network,
+          );
+          tokens.set(contractId, { symbol, decimals: Number(decimals) });
+        } catch (error) {
+          // Not a token contract, its amounts are left in the smallest unit.
+        }
+      }),
+    );
+
+    return history.map((operation) => {
+      const parameters = getParameters(operation);
+      if (!parameters) {
+        return operation as T & { invocation?: DecodedInvocation | null };
+      }
+      const invocation = decodeInvocation(parameters, network);
+      if (!invocation) {
+        return { ...operation, invocation: null };
+      }
+      return {
+        ...operation,
+        invocation: decodeInvocation(
+          parameters,
+          network,
+          specs.get(invocation.contractId) || null,
+          tokens.get(invocation.contractId) || null,
+        ),
+      };
+    });
+  };
+
   getTokenBalancesSorobanRPC = async (
     pubKey: string,
     contractIds: string[],
@@ -804,6 +1427,7 @@ export class MercuryClient {
     useMercury: boolean,
   ) => {
     if (hasIndexerSupport(network) && useMercury) {
+      await this.recordAccountActivity(pubKey, network);
       const response = await this.getAccountBalancesMercury(
         pubKey,
         contractIds,
@@ -985,6 +1609,334 @@ export class MercuryClient {
     }
   };
 
+  /**
+   * Subscribes to the history of many accounts and to their token balances, skipping the subscriptions that
+   * already exist. Subscriptions are created a few at a time.
+   *
+   * @param accounts - The accounts to subscribe to, with the token contracts to subscribe to the balances of
+   * @param network - The network of the accounts
+   * @returns The result of each account and token balance subscription, in order
+   */
+  bulkSubscription = async (
+    accounts: { pubKey: string; contractIds: string[] }[],
+    network: NetworkNames,
+  ) => {
+    const subscribeAccount = async (
+      pubKey: string,
+    ): Promise<BulkSubscriptionResult> => {
+      const subs = await this.getAccountSubForPubKey(pubKey, network);
+      if (hasSubForPublicKey(subs, pubKey)) {
+        return { pubKey, status: "existing" };
+      }
+      const { error } = await this.accountSubscription(pubKey, network);
+      return error
+        ? { pubKey, status: "failed", error: String(error) }
+        : { pubKey, status: "subscribed" };
+    };
+    const subscribeTokenBalance = async (
+      pubKey: string,
+      contractId: string,
+    ): Promise<BulkSubscriptionResult> => {
+      const subs = await this.getTokenBalanceSub(pubKey, contractId, network);
+      if (hasSubForTokenBalance(subs, contractId)) {
+        return { pubKey, contractId, status: "existing" };
+      }
+      const { error } = await this.tokenBalanceSubscription(
+        contractId,
+        pubKey,
+        network,
+      );
+      return error
+        ? { pubKey, contractId, status: "failed", error: String(error) }
+        : { pubKey, contractId, status: "subscribed" };
+    };
+
+    const subscriptions = accounts.flatMap(({ pubKey, contractIds }) => [
+      () => subscribeAccount(pubKey),
+      ...contractIds.map(
+        (contractId) => () => subscribeTokenBalance(pubKey, contractId),
+      ),
+    ]);
+    const results: BulkSubscriptionResult[] = [];
+    for (
+      let i = 0;
+      i < subscriptions.length;
+      i += BULK_SUBSCRIPTION_CONCURRENCY
+    ) {
+      const batch = subscriptions.slice(i, i + BULK_SUBSCRIPTION_CONCURRENCY);
+      results.push(
+        ...(await Promise.all(batch.map((subscribe) => subscribe()))),
+      );
+    }
+    return results;
+  };
+
+  // Accounts are unsubscribed once they haven't been queried for a while, see collectIdleSubscriptions.
+  recordAccountActivity = async (pubKey: string, network: NetworkNames) => {
+    if (!this.redisClient) {
+      return;
+    }
+    try {
+      await this.redisClient.zadd(
+        `${REDIS_SUBSCRIPTION_ACTIVITY_KEY}:${network}`,
+        Date.now(),
+        pubKey,
+      );
+    } catch (error) {
+      this.logger.error(error);
+    }
+  };
+
+  getSubscriptionRecords = async (
+    pubKey: string,
+    network: NetworkNames,
+  ): Promise<AccountSubscriptions> => {
+    if (!hasIndexerSupport(network)) {
+      throw new Error(`network not currently supported: ${network}`);
+    }
+    if (!this.tokens[network]) {
+      await this.renewMercuryToken(network);
+    }
+
+    const Sdk = getSdk(StellarSdkNext.Networks[network]);
+    const accountTopic = new Sdk.Address(pubKey).toScVal().toXDR("base64");
+    const getData = async () => {
+      const urqlClient = this.mercurySession.backendClientMaker(
+        network,
+        this.tokens[network],
+      );
+      const response = await urqlClient.query(
+        query.getSubscriptionsForPubKey(
+          pubKey,
+          accountTopic,
+          this.tokenBalanceKey(pubKey, network),
+        ),
+        {},
+      );
+
+      const errorMessage = getGraphQlError(response.error);
+      if (errorMessage) {
+        throw new Error(errorMessage);
+      }
+
+      return response.data;
+    };
+    const { accounts, transfersFrom, transfersTo, balances } =
+      await this.renewAndRetry(getData, network);
+
+    return {
+      account: accounts,
+      tokenEvents: [...transfersFrom, ...transfersTo],
+      tokenBalances: balances,
+    };
+  };
+
+  /**
+   * Lists the Mercury subscriptions of an account, with the status of the hydration started by its account
+   * subscription and the last time it was queried when they're known. Listing an account that was never
+   * queried since its activity is tracked starts counting its idle time, so it can be collected.
+   *
+   * @param pubKey - The account to list the subscriptions of
+   * @param network - The network of the subscriptions
+   */
+  getSubscriptionsForPubKey = async (pubKey: string, network: NetworkNames) => {
+    try {
+      const subscriptions = await this.getSubscriptionRecords(pubKey, network);
+
+      let hydration = null;
+      let lastQueriedAt = null;
+      if (this.redisClient) {
+        const hydrationId = await this.redisClient.hget(
+          `${REDIS_SUBSCRIPTION_HYDRATION_KEY}:${network}`,
+          pubKey,
+        );
+        if (hydrationId && subscriptions.account.length) {
+          hydration = await this.checkHydrationStatus(
+            Number(hydrationId),
+            network,
+          );
+        }
+        const score = await this.redisClient.zscore(
+          `${REDIS_SUBSCRIPTION_ACTIVITY_KEY}:${network}`,
+          pubKey,
+        );
+        lastQueriedAt = score ? Number(score) : null;
+        // Accounts subscribed before their activity was tracked are only collected once they're tracked, so
+        // their idle time is counted from now on.
+        if (!score && subscriptions.account.length) {
+          await this.redisClient.zadd(
+            `${REDIS_SUBSCRIPTION_ACTIVITY_KEY}:${network}`,
+            "NX",
+            Date.now(),
+            pubKey,
+          );
+        }
+      }
+
+      return {
+        data: { ...subscriptions, hydration, lastQueriedAt },
+        error: null,
+      };
+    } catch (error) {
+      this.logger.error(error);
+      return {
+        data: null,
+        error,
+      };
+    }
+  };
+
+  /**
+   * Deletes the Mercury subscriptions of an account. Its history is subscribed to again the next time it's
+   * queried from Mercury.
+   *
+   * @param pubKey - The account to unsubscribe
+   * @param network - The network of the subscriptions
+   */
+  deleteSubscriptionsForPubKey = async (
+    pubKey: string,
+    network: NetworkNames,
+  ) => {
+    try {
+      const subscriptions = await this.getSubscriptionRecords(pubKey, network);
+      const ids = {
+        accounts: subscriptions.account.map(({ id }) => id),
+        contractEvents: subscriptions.tokenEvents.map(({ id }) => id),
+        ledgerEntries: subscriptions.tokenBalances.map(({ id }) => id),
+      };
+      const deleted =
+        ids.accounts.length +
+        ids.contractEvents.length +
+        ids.ledgerEntries.length;
+
+      if (deleted) {
+        const deleteData = async () => {
+          const urqlClient = this.mercurySession.backendClientMaker(
+            network,
+            this.tokens[network],
+          );
+          const response = await urqlClient.mutation(
+            mutation.deleteSubscriptions(ids),
+            {},
+          );
+
+          const errorMessage = getGraphQlError(response.error);
+          if (errorMessage) {
+            throw new Error(errorMessage);
+          }
+
+          return response.data;
+        };
+        await this.renewAndRetry(deleteData, network);
+      }
+
+      if (this.redisClient) {
+        await this.redisClient.zrem(
+          `${REDIS_SUBSCRIPTION_ACTIVITY_KEY}:${network}`,
+          pubKey,
+        );
+        await this.redisClient.hdel(
+          `${REDIS_SUBSCRIPTION_HYDRATION_KEY}:${network}`,
+          pubKey,
+        );
+      }
+      if (this.subscriptionQueue) {
+        await this.subscriptionQueue.clearCompletedJobs([
+          { network, type: "account", pubKey },
+          // The transfers from and to the account are subscribed by the same job.
+          ...Array.from(
+            new Set(
+              subscriptions.tokenEvents.map(({ contractId }) => contractId),
+            ),
+            (contractId) => ({
+              network,
+              type: "token" as const,
+              pubKey,
+              contractId,
+            }),
+          ),
+          ...subscriptions.tokenBalances.map(({ contractId }) => ({
+            network,
+            type: "token_balance" as const,
+            pubKey,
+            contractId,
+          })),
+        ]);
+      }
+
+      return {
+        data: { deleted },
+        error: null,
+      };
+    } catch (error) {
+      this.logger.error(error);
+      return {
+        data: null,
+        error,
+      };
+    }
+  };
+
+  /**
+   * Unsubscribes the accounts that haven't been queried in maxIdleDays, oldest first. Accounts that fail to be
+   * unsubscribed are kept and retried on the next run.
+   *
+   * @param network - The network to collect subscriptions on
+   * @param maxIdleDays - Days an account can go without being queried before it's unsubscribed
+   * @param batchSize - Maximum number of accounts unsubscribed
+   */
+  collectIdleSubscriptions = async (
+    network: NetworkNames,
+    maxIdleDays: number,
+    batchSize: number = IDLE_SUBSCRIPTION_BATCH_SIZE,
+  ) => {
+    if (!this.redisClient) {
+      return {
+        data: null,
+        error: "account activity is only tracked with Redis",
+      };
+    }
+
+    try {
+      const idle = await this.redisClient.zrangebyscore(
+        `${REDIS_SUBSCRIPTION_ACTIVITY_KEY}:${network}`,
+        "-inf",
+        Date.now() - maxIdleDays * DAY_MS,
+        "LIMIT",
+        0,
+        batchSize,
+      );
+
+      const collected: string[] = [];
+      const failed: string[] = [];
+      for (const pubKey of idle) {
+        const { error } = await this.deleteSubscriptionsForPubKey(
+          pubKey,
+          network,
+        );
+        (error ? failed : collected).push(pubKey);
+      }
+      if (failed.length) {
+        this.criticalError
+          .labels({
+            message: `Failed to collect idle subscriptions of ${failed.length} accounts on network - ${network}`,
+          })
+          .inc();
+      }
+
+      return {
+        data: { collected, failed },
+        error: null,
+      };
+    } catch (error) {
+      this.logger.error(error);
+      return {
+        data: null,
+        error,
+      };
+    }
+  };
+
   checkHydrationStatus = async (hydrationId: number, network: NetworkNames) => {
     try {
       if (!this.tokens[network]) {
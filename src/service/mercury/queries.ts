@@ -6,6 +6,35 @@ export const mutation = {
       }
     }
   `,
+  deleteSubscriptions: (subscriptions: {
+    accounts: number[];
+    contractEvents: number[];
+    ledgerEntries: number[];
+  }) => `
+    mutation DeleteSubscriptions {
+      ${subscriptions.accounts.map(
+        (id) => `
+        account${id}: deleteFullAccountSubscriptionById(input: { id: ${id} }) {
+          clientMutationId
+        }
+        `
+      )}
+      ${subscriptions.contractEvents.map(
+        (id) => `
+        contractEvent${id}: deleteContractEventSubscriptionById(input: { id: ${id} }) {
+          clientMutationId
+        }
+        `
+      )}
+      ${subscriptions.ledgerEntries.map(
+        (id) => `
+        ledgerEntry${id}: deleteLedgerEntrySubscriptionById(input: { id: ${id} }) {
+          clientMutationId
+        }
+        `
+      )}
+    }
+  `
 };
 export const query = {
   allSubscriptions: `
@@ -26,6 +55,25 @@ export const query = {
       }
     }
   `,
+  getSubscriptionsForPubKey: (pubKey: string, accountTopic: string, balanceKeyXdr: string) => `
+    query SubscriptionsForPubKey {
+      accounts: allFullAccountSubscriptionsList(condition: { publickey: "${pubKey}" }) {
+        id
+      }
+      transfersFrom: allContractEventSubscriptionsList(condition: { topic2: "${accountTopic}" }) {
+        id
+        contractId
+      }
+      transfersTo: allContractEventSubscriptionsList(condition: { topic3: "${accountTopic}" }) {
+        id
+        contractId
+      }
+      balances: allLedgerEntrySubscriptionsList(condition: { keyXdr: "${balanceKeyXdr}" }) {
+        id
+        contractId
+      }
+    }
+  `,
   getTokenBalanceSub: (contractId: string, keyXdr: string) => `
     query TokenBalanceSub {
       allEntryUpdates(first:10, offset:0, condition: { contractId: "${contractId}", keyXdr: "${keyXdr}" }) {
@@ -148,9 +196,11 @@ export const query = {
       )}
     }
   `,
+  // Every operation type returns at most $limit operations older than the $cursor operation ID, Mercury indexes
+  // them oldest first so the last ones are the newest.
   getAccountHistory: `
-    query GetAccountHistory($pubKey: String!) {
-      invokeHostFnByPublicKey(publicKeyText: $pubKey) {
+    query GetAccountHistory($pubKey: String!, $limit: Int, $cursor: BigInt!) {
+      invokeHostFnByPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         edges {
           node {
             auth
@@ -173,7 +223,7 @@ export const query = {
           }
         }
       }
-      createAccountByPublicKey(publicKeyText: $pubKey) {
+      createAccountByPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         edges {
           node {
             source
@@ -194,7 +244,7 @@ export const query = {
           }
         }
       }
-      createAccountToPublicKey(publicKeyText: $pubKey) {
+      createAccountToPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         edges {
           node {
             source
@@ -215,7 +265,7 @@ export const query = {
           }
         }
       }
-      paymentsOfPublicKey(publicKeyText: $pubKey) {
+      paymentsOfPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         edges {
           node {
             amount
@@ -242,7 +292,7 @@ export const query = {
         }
       }
 
-      pathPaymentsStrictSendOfPublicKey(publicKeyText: $pubKey) {
+      pathPaymentsStrictSendOfPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         nodes {
           source
           destination
@@ -298,7 +348,7 @@ export const query = {
         }
       }
 
-      pathPaymentsStrictReceiveOfPublicKey(publicKeyText: $pubKey) {
+      pathPaymentsStrictReceiveOfPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         nodes {
           source
           destination
@@ -354,9 +404,7 @@ export const query = {
         }
       }
     
-      manageBuyOfferByPublicKey(
-        publicKeyText: $pubKey
-      ) {
+      manageBuyOfferByPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         edges {
           node {
             buyingNative
@@ -389,9 +437,7 @@ export const query = {
         }
       }
 
-      manageSellOfferByPublicKey(
-        publicKeyText: $pubKey
-      ) {
+      manageSellOfferByPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         edges {
           node {
             buyingNative
@@ -424,7 +470,7 @@ export const query = {
         }
       }
 
-      createPassiveSellOfferByPublicKey(publicKeyText: $pubKey) {
+      createPassiveSellOfferByPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         nodes {
           source
           amount
@@ -455,7 +501,7 @@ export const query = {
         }
       }
 
-      changeTrustByPublicKey(publicKeyText: $pubKey) {
+      changeTrustByPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         nodes {
           source
           assetByLineAsset {
@@ -488,7 +534,7 @@ export const query = {
         }
       }
 
-      accountMergeByPublicKey(publicKeyText: $pubKey) {
+      accountMergeByPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         edges {
           node {
             source
@@ -510,7 +556,7 @@ export const query = {
         }
       }
 
-      bumpSequenceByPublicKey(publicKeyText: $pubKey) {
+      bumpSequenceByPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         edges {
           node {
             source
@@ -531,7 +577,7 @@ export const query = {
         }
       }
 
-      claimClaimableBalanceByPublicKey(publicKeyText: $pubKey) {
+      claimClaimableBalanceByPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         edges {
           node {
             source
@@ -552,7 +598,7 @@ export const query = {
         }
       }
 
-      createClaimableBalanceByPublicKey(publicKeyText: $pubKey) {
+      createClaimableBalanceByPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         edges {
           node {
             source
@@ -576,7 +622,7 @@ export const query = {
         }
       }
 
-      allowTrustByPublicKey(publicKeyText: $pubKey) {
+      allowTrustByPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         edges {
           node {
             source
@@ -600,7 +646,7 @@ export const query = {
         }
       }
 
-      manageDataByPublicKey(publicKeyText: $pubKey) {
+      manageDataByPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         edges {
           node {
             source
@@ -623,7 +669,7 @@ export const query = {
         }
       }
 
-      beginSponsoringFutureReservesByPublicKey(publicKeyText: $pubKey) {
+      beginSponsoringFutureReservesByPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         edges {
           node {
             source
@@ -643,7 +689,7 @@ export const query = {
         }
       }
 
-      endSponsoringFutureReservesByPublicKey(publicKeyText: $pubKey) {
+      endSponsoringFutureReservesByPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         edges {
           node {
             source
@@ -663,7 +709,7 @@ export const query = {
         }
       }
 
-      revokeSponsorshipByPublicKey(publicKeyText: $pubKey) {
+      revokeSponsorshipByPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         edges {
           node {
             source
@@ -684,7 +730,7 @@ export const query = {
         }
       }
 
-      clawbackByPublicKey(publicKeyText: $pubKey) {
+      clawbackByPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         edges {
           node {
             source
@@ -709,7 +755,7 @@ export const query = {
         }
       }
 
-      setTrustLineFlagsByPublicKey(publicKeyText: $pubKey) {
+      setTrustLineFlagsByPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         edges {
           node {
             source
@@ -735,7 +781,7 @@ export const query = {
         }
       }
 
-      liquidityPoolDepositByPublicKey(publicKeyText: $pubKey) {
+      liquidityPoolDepositByPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         edges {
           node {
             source
@@ -761,7 +807,7 @@ export const query = {
         }
       }
 
-      liquidityPoolWithdrawByPublicKey(publicKeyText: $pubKey) {
+      liquidityPoolWithdrawByPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         edges {
           node {
             source
@@ -785,7 +831,7 @@ export const query = {
         }
       }
 
-      createClaimableBalanceToPublicKey(publicKeyText: $pubKey) {
+      createClaimableBalanceToPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         edges {
           node {
             source
@@ -811,7 +857,7 @@ export const query = {
         }
       }
 
-      setOptionsByPublicKey(publicKeyText: $pubKey) {
+      setOptionsByPublicKey(publicKeyText: $pubKey, last: $limit, filter: { opId: { lessThan: $cursor } }) {
         edges {
           node {
             id
@@ -846,4 +892,34 @@ export const query = {
 
     }
   `,
+  // Token events are indexed for every subscribed holder, so only the latest events naming the account as
+  // sender or recipient are read, up to the ledger of the page cursor when there's one. Mercury indexes them
+  // oldest first, so the last ones are the newest.
+  getTokenEvents: (contractIds: string[], accountXdr: string, limit: number, maxLedger: number | null) => `
+    query TokenEvents {
+      ${contractIds.map(
+        (id) => `
+        ${id}: eventByContractId(searchedContractId: "${id}", last: ${limit}, filter: { ${maxLedger === null ? "" : `txInfoByTx: { ledger: { lessThanOrEqualTo: ${maxLedger} } }, `}or: [{ topic2: { equalTo: "${accountXdr}" } }, { topic3: { equalTo: "${accountXdr}" } }] }) {
+          edges {
+            node {
+              contractId
+              topic1
+              topic2
+              topic3
+              topic4
+              data
+              txInfoByTx {
+                txHash
+                ledgerByLedger {
+                  closeTime
+                  sequence
+                }
+              }
+            }
+          }
+        }
+        `
+      )}
+    }
+  `,
 };
@@ -0,0 +1,165 @@
+import BigNumber from "bignumber.js";
+import { PriceAggregator } from "./aggregator";
+import { testLogger } from "../../helper/test-helper";
+import {
+  PathsNotFoundError,
+  PriceSourcesDisagreeError,
+  PriceSourcesNotFoundError,
+} from "./errors";
+import { PriceConfidence, PriceSource, QuoteAsset } from "./types";
+
+describe("Price Aggregator", () => {
+  const quoteAsset = {} as QuoteAsset;
+
+  const mockSource = (
+    name: string,
+    price: number | Error,
+    options: { isOverride?: boolean; supports?: boolean } = {},
+  ): PriceSource => ({
+    name,
+    isOverride: options.isOverride,
+    supports: jest.fn().mockReturnValue(options.supports ?? true),
+    getPrice: jest.fn(() =>
+      price instanceof Error
+        ? Promise.reject(price)
+        : Promise.resolve({
+            timestamp: 1000 + price,
+            price: new BigNumber(price),
+          }),
+    ),
+  });
+
+  beforeEach(() => {
+    jest.spyOn(testLogger, "warn").mockImplementation(() => testLogger);
+    jest.spyOn(testLogger, "debug").mockImplementation(() => testLogger);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should return the median of the source prices", async () => {
+    const aggregator = new PriceAggregator(testLogger, [
+      mockSource("a", 1.0),
+      mockSource("b", 1.04),
+      mockSource("c", 0.98),
+    ]);
+
+    const result = await aggregator.getPrice("XLM", "USD", quoteAsset);
+
+    expect(result.price.toNumber()).toBe(1.0);
+    expect(result.timestamp).toBe(1000 + 1.04);
+  });
+
+  it("should reject outliers before taking the median", async () => {
+    const aggregator = new PriceAggregator(
+      testLogger,
+      [
+        mockSource("a", 1.0),
+        mockSource("b", 1.02),
+        mockSource("c", 1.5),
+        mockSource("d", 0.99),
+      ],
+      0.1,
+    );
+
+    const result = await aggregator.getPrice("XLM", "USD", quoteAsset);
+
+    expect(result.price.toNumber()).toBe(1.0);
+    expect(testLogger.warn).toHaveBeenCalledWith(
+      expect.stringContaining("c=1.5"),
+    );
+  });
+
+  it("should return the confidence of the deepest source", async () => {
+    const shallow = {
+      hops: 1,
+      pathCount: 1,
+      spread: new BigNumber(0),
+    };
+    const deep = {
+      hops: 2,
+      pathCount: 4,
+      spread: new BigNumber(0.01),
+    };
+    const withConfidence = (
+      name: string,
+      price: number,
+      confidence?: PriceConfidence,
+    ): PriceSource => ({
+      ...mockSource(name, price),
+      getPrice: jest.fn().mockResolvedValue({
+        timestamp: 1000,
+        price: new BigNumber(price),
+        confidence,
+      }),
+    });
+    const aggregator = new PriceAggregator(testLogger, [
+      withConfidence("a", 1, shallow),
+      withConfidence("b", 1.01, deep),
+      withConfidence("c", 0.99),
+    ]);
+
+    const result = await aggregator.getPrice("XLM", "USD", quoteAsset);
+
+    expect(result.confidence).toEqual(deep);
+  });
+
+  it("should ignore failed and unsupported sources", async () => {
+    const unsupported = mockSource("b", 5, { supports: false });
+    const aggregator = new PriceAggregator(testLogger, [
+      mockSource("a", 2),
+      unsupported,
+      mockSource("c", new PathsNotFoundError("XLM")),
+    ]);
+
+    const result = await aggregator.getPrice("XLM", "USD", quoteAsset);
+
+    expect(result.price.toNumber()).toBe(2);
+    expect(unsupported.getPrice).not.toHaveBeenCalled();
+  });
+
+  it("should return an override price as is", async () => {
+    const other = mockSource("a", 2);
+    const aggregator = new PriceAggregator(testLogger, [
+      other,
+      mockSource("override", 1, { isOverride: true }),
+    ]);
+
+    const result = await aggregator.getPrice("XLM", "USD", quoteAsset);
+
+    expect(result.price.toNumber()).toBe(1);
+    expect(other.getPrice).not.toHaveBeenCalled();
+  });
+
+  it("should throw the source error when every source fails", async () => {
+    const aggregator = new PriceAggregator(testLogger, [
+      mockSource("a", new PathsNotFoundError("XLM")),
+    ]);
+
+    await expect(aggregator.getPrice("XLM", "USD", quoteAsset)).rejects.toThrow(
+      new PathsNotFoundError("XLM"),
+    );
+  });
+
+  it("should throw when no source supports the token", async () => {
+    const aggregator = new PriceAggregator(testLogger, [
+      mockSource("a", 1, { supports: false }),
+    ]);
+
+    await expect(aggregator.getPrice("XLM", "USD", quoteAsset)).rejects.toThrow(
+      new PriceSourcesNotFoundError("XLM"),
+    );
+  });
+
+  it("should throw when the sources disagree", async () => {
+    const aggregator = new PriceAggregator(testLogger, [
+      mockSource("a", 1),
+      mockSource("b", 2),
+    ]);
+
+    await expect(aggregator.getPrice("XLM", "USD", quoteAsset)).rejects.toThrow(
+      new PriceSourcesDisagreeError("XLM"),
+    );
+  });
+});
@@ -0,0 +1,161 @@
+import BigNumber from "bignumber.js";
+import { Logger } from "pino";
+import {
+  PriceSourcesDisagreeError,
+  PriceSourcesNotFoundError,
+  ensureError,
+} from "./errors";
+import { median } from "./helpers";
+import {
+  PriceCalculationResult,
+  PriceConfidence,
+  PriceSource,
+  QuoteAsset,
+  SourcePriceResult,
+  TokenKey,
+} from "./types";
+
+/**
+ * PriceAggregator combines the prices of every source that supports a token into a single price.
+ * It takes the median of the source prices, rejects the ones that deviate from it by more than
+ * the configured threshold and returns the median of the remaining prices. A price from an
+ * override source is returned as is.
+ */
+export class PriceAggregator {
+  /**
+   * Maximum relative deviation from the median before a source price is rejected, used when none is configured.
+   */
+  private static readonly DEFAULT_MAX_DEVIATION = 0.1;
+
+  private readonly maxDeviation: BigNumber;
+
+  /**
+   * Creates a new PriceAggregator instance.
+   *
+   * @param logger - The logger instance for logging events and errors
+   * @param sources - The price sources to aggregate, in order of preference
+   * @param maxDeviation - Maximum relative deviation from the median, e.g. 0.1 for 10%
+   */
+  constructor(
+    private readonly logger: Logger,
+    private readonly sources: PriceSource[],
+    maxDeviation?: number,
+  ) {
+    this.maxDeviation = new BigNumber(
+      maxDeviation || PriceAggregator.DEFAULT_MAX_DEVIATION,
+    );
+  }
+
+  /**
+   * Calculates the aggregated price of a token in a quote currency.
+   *
+   * @param token - Token identifier to calculate price for
+   * @param quote - The quote currency to calculate the price in
+   * @param quoteAsset - The asset and receive value of the quote currency
+   * @returns Object containing the latest accepted timestamp, the aggregated price and its confidence
+   * @throws Error if no source supports the token, every source fails or the sources disagree
+   */
+  getPrice = async (
+    token: TokenKey,
+    quote: string,
+    quoteAsset: QuoteAsset,
+  ): Promise<PriceCalculationResult> => {
+    const sources = this.sources.filter((source) =>
+      source.supports(token, quote),
+    );
+    if (!sources.length) {
+      throw new PriceSourcesNotFoundError(token);
+    }
+
+    const override = sources.find((source) => source.isOverride);
+    if (override) {
+      return override.getPrice(token, quote, quoteAsset);
+    }
+
+    const settled = await Promise.allSettled(
+      sources.map((source) =>
+        source
+          .getPrice(token, quote, quoteAsset)
+          .then((result) => ({ ...result, source: source.name })),
+      ),
+    );
+
+    const results: SourcePriceResult[] = [];
+    const errors: Error[] = [];
+    for (const result of settled) {
+      if (result.status === "fulfilled") {
+        results.push(result.value);
+      } else {
+        errors.push(ensureError(result.reason, `calculating price`));
+      }
+    }
+
+    if (!results.length) {
+      throw errors[0];
+    }
+    for (const error of errors) {
+      this.logger.debug(error);
+    }
+
+    const accepted = this.rejectOutliers(results);
+    if (!accepted.length) {
+      throw new PriceSourcesDisagreeError(token);
+    }
+
+    const rejected = results.filter((result) => !accepted.includes(result));
+    if (rejected.length) {
+      this.logger.warn(
+        `Rejected outlier ${quote} prices for ${token}: ${rejected
+          .map(({ source, price }) => `${source}=${price.toString()}`)
+          .join(", ")}`,
+      );
+    }
+
+    return {
+      timestamp: Math.max(...accepted.map(({ timestamp }) => timestamp)),
+      price: median(accepted.map(({ price }) => price)),
+      confidence: this.getDeepestConfidence(accepted),
+    };
+  };
+
+  /**
+   * Picks the confidence of the accepted source price backed by the most alternative paths.
+   *
+   * @param results - The accepted source prices
+   * @returns The confidence of the deepest source price, undefined if no source reported one
+   * @private
+   */
+  private getDeepestConfidence(
+    results: SourcePriceResult[],
+  ): PriceConfidence | undefined {
+    return results.reduce<PriceConfidence | undefined>(
+      (deepest, { confidence }) =>
+        confidence && (!deepest || confidence.pathCount > deepest.pathCount)
+          ? confidence
+          : deepest,
+      undefined,
+    );
+  }
+
+  /**
+   * Keeps the source prices within the maximum deviation from the median of all source prices.
+   *
+   * @param results - The prices returned by the sources
+   * @returns The accepted source prices
+   * @private
+   */
+  private rejectOutliers(results: SourcePriceResult[]): SourcePriceResult[] {
+    const medianPrice = median(results.map(({ price }) => price));
+    if (medianPrice.isZero()) {
+      return results;
+    }
+
+    return results.filter(({ price }) =>
+      price
+        .minus(medianPrice)
+        .abs()
+        .dividedBy(medianPrice)
+        .lte(this.maxDeviation),
+    );
+  }
+}
@@ -0,0 +1,271 @@
+import axios from "axios";
+import BigNumber from "bignumber.js";
+import { createHmac } from "crypto";
+import { PriceAlerts } from "./alerts";
+import { InvalidWebhookUrlError, PriceAlertLimitError } from "./errors";
+import * as ValidateHelpers from "../../helper/validate";
+import { testLogger } from "../../helper/test-helper";
+import { PriceAlertCondition, PriceWindow } from "./types";
+
+describe("Price Alerts", () => {
+  let hashes: Map<string, Map<string, string>>;
+  let sortedSets: Map<string, Map<string, number>>;
+  const getHash = (key: string) => {
+    if (!hashes.has(key)) {
+      hashes.set(key, new Map());
+    }
+    return hashes.get(key)!;
+  };
+  const getSortedSet = (key: string) => {
+    if (!sortedSets.has(key)) {
+      sortedSets.set(key, new Map());
+    }
+    return sortedSets.get(key)!;
+  };
+
+  const commands = {
+    hGet: async (key: string, field: string) => getHash(key).get(field),
+    hGetAll: async (key: string) => Object.fromEntries(getHash(key)),
+    hSet: async (key: string, field: string, value: string) => {
+      getHash(key).set(field, value);
+      return 1;
+    },
+    hDel: async (key: string, field: string) =>
+      getHash(key).delete(field) ? 1 : 0,
+    hLen: async (key: string) => getHash(key).size,
+    zAdd: async (key: string, { score, value }: any) => {
+      getSortedSet(key).set(value, score);
+      return 1;
+    },
+    zRem: async (key: string, value: string) =>
+      getSortedSet(key).delete(value) ? 1 : 0,
+    zRangeByScore: async (key: string, min: number, max: number) =>
+      Array.from(getSortedSet(key).entries())
+        .filter(([, score]) => score >= min && score <= max)
+        .sort(([, a], [, b]) => a - b)
+        .map(([value]) => value),
+  };
+  const mockRedisClient: any = {
+    ...commands,
+    // Only the script updating existing alerts is run against the alerts hash.
+    eval: async (
+      _script: string,
+      { keys: [key], arguments: [field, value] }: any,
+    ) => {
+      if (!getHash(key).has(field)) {
+        return 0;
+      }
+      getHash(key).set(field, value);
+      return 1;
+    },
+    multi: () => {
+      const queued: Promise<unknown>[] = [];
+      const pipeline: any = {
+        exec: () => Promise.all(queued),
+      };
+      for (const [name, command] of Object.entries(commands)) {
+        pipeline[name] = (...args: any[]) => {
+          queued.push((command as any)(...args));
+          return pipeline;
+        };
+      }
+      return pipeline;
+    },
+  };
+
+  const window = (
+    price: number,
+    windowPrice: number | null = null,
+  ): PriceWindow => ({
+    timestamp: 1000,
+    price: new BigNumber(price),
+    windowPrice: windowPrice === null ? null : new BigNumber(windowPrice),
+  });
+
+  const thresholdCondition: PriceAlertCondition = {
+    token: "XLM",
+    quote: "USD",
+    direction: "down",
+    threshold: new BigNumber(0.1),
+    percentChange: null,
+    windowMs: null,
+    webhookUrl: "https://example.com/webhook",
+  };
+
+  let getPriceWindow: jest.Mock;
+  let alerts: PriceAlerts;
+
+  beforeEach(() => {
+    hashes = new Map();
+    sortedSets = new Map();
+    getPriceWindow = jest.fn();
+    alerts = new PriceAlerts(testLogger, mockRedisClient, getPriceWindow);
+    jest.spyOn(ValidateHelpers, "isPublicHttpsUrl").mockResolvedValue(true);
+    jest.spyOn(testLogger, "warn").mockImplementation(() => testLogger);
+    jest.spyOn(testLogger, "error").mockImplementation(() => testLogger);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should store, read and delete alerts", async () => {
+    const alert = await alerts.create(thresholdCondition);
+
+    expect(alert.secret).toHaveLength(64);
+    expect(await alerts.get(alert.id)).toEqual(alert);
+    expect(await alerts.delete(alert.id)).toBe(true);
+    expect(await alerts.get(alert.id)).toBeNull();
+    expect(await alerts.delete(alert.id)).toBe(false);
+  });
+
+  it("should reject webhooks that don't resolve to a public address", async () => {
+    jest.spyOn(ValidateHelpers, "isPublicHttpsUrl").mockResolvedValue(false);
+
+    await expect(
+      alerts.create({
+        ...thresholdCondition,
+        webhookUrl: "https://localhost/webhook",
+      }),
+    ).rejects.toThrow(InvalidWebhookUrlError);
+    expect(getHash("price_alerts").size).toEqual(0);
+  });
+
+  it("should reject alerts once the maximum number of alerts is registered", async () => {
+    for (let i = 0; i < PriceAlerts.MAX_PRICE_ALERTS; i++) {
+      getHash("price_alerts").set(`alert-${i}`, "{}");
+    }
+
+    await expect(alerts.create(thresholdCondition)).rejects.toThrow(
+      PriceAlertLimitError,
+    );
+  });
+
+  it("should not restore alerts deleted while they are evaluated", async () => {
+    const post = jest.spyOn(axios, "post").mockResolvedValue({ status: 200 });
+    const alert = await alerts.create(thresholdCondition);
+    getPriceWindow.mockImplementation(async () => {
+      await alerts.delete(alert.id);
+      return window(0.09);
+    });
+
+    await alerts.evaluate();
+    await alerts.deliver();
+
+    expect(await alerts.get(alert.id)).toBeNull();
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it("should fire a threshold alert once until its condition stops holding", async () => {
+    const post = jest.spyOn(axios, "post").mockResolvedValue({ status: 200 });
+    const alert = await alerts.create(thresholdCondition);
+
+    getPriceWindow.mockResolvedValue(window(0.2));
+    await alerts.evaluate();
+    await alerts.deliver();
+    expect(post).not.toHaveBeenCalled();
+
+    getPriceWindow.mockResolvedValue(window(0.09));
+    await alerts.evaluate();
+    await alerts.evaluate();
+    await alerts.deliver();
+    expect(post).toHaveBeenCalledTimes(1);
+    expect((await alerts.get(alert.id))?.triggered).toBe(true);
+
+    getPriceWindow.mockResolvedValue(window(0.11));
+    await alerts.evaluate();
+    getPriceWindow.mockResolvedValue(window(0.1));
+    await alerts.evaluate();
+    await alerts.deliver();
+    expect(post).toHaveBeenCalledTimes(2);
+  });
+
+  it("should fire percentage move alerts over the alert window", async () => {
+    const post = jest.spyOn(axios, "post").mockResolvedValue({ status: 200 });
+    await alerts.create({
+      ...thresholdCondition,
+      threshold: null,
+      percentChange: 10,
+      windowMs: 3600000,
+    });
+
+    getPriceWindow.mockResolvedValue(window(0.095, 0.1));
+    await alerts.evaluate();
+    expect(getPriceWindow).toHaveBeenCalledWith("XLM", "USD", 3600000);
+    await alerts.deliver();
+    expect(post).not.toHaveBeenCalled();
+
+    getPriceWindow.mockResolvedValue(window(0.09, 0.1));
+    await alerts.evaluate();
+    await alerts.deliver();
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+
+  it("should sign deliveries with the alert secret", async () => {
+    const post = jest.spyOn(axios, "post").mockResolvedValue({ status: 200 });
+    const alert = await alerts.create(thresholdCondition);
+
+    getPriceWindow.mockResolvedValue(window(0.09));
+    await alerts.evaluate();
+    await alerts.deliver();
+
+    const [url, payload, options] = post.mock.calls[0] as [string, string, any];
+    const timestamp = options.headers[PriceAlerts.TIMESTAMP_HEADER];
+    expect(url).toEqual(alert.webhookUrl);
+    expect(JSON.parse(payload)).toEqual({
+      alertId: alert.id,
+      token: "XLM",
+      quote: "USD",
+      direction: "down",
+      threshold: "0.1",
+      percentChange: null,
+      windowMs: null,
+      timestamp: 1000,
+      price: "0.09",
+      windowPrice: null,
+    });
+    expect(options.headers[PriceAlerts.SIGNATURE_HEADER]).toEqual(
+      `sha256=${createHmac("sha256", alert.secret)
+        .update(`${timestamp}.${payload}`)
+        .digest("hex")}`,
+    );
+  });
+
+  it("should retry failed deliveries with backoff and drop them after the last attempt", async () => {
+    const post = jest
+      .spyOn(axios, "post")
+      .mockRejectedValue(new Error("Service unavailable"));
+    const now = jest.spyOn(Date, "now").mockReturnValue(0);
+    await alerts.create(thresholdCondition);
+    getPriceWindow.mockResolvedValue(window(0.09));
+    await alerts.evaluate();
+
+    await alerts.deliver();
+    expect(post).toHaveBeenCalledTimes(1);
+    // Not due again before the first backoff delay.
+    now.mockReturnValue(29999);
+    await alerts.deliver();
+    expect(post).toHaveBeenCalledTimes(1);
+
+    for (const delay of [30000, 60000, 120000, 240000]) {
+      now.mockReturnValue(Date.now() + delay);
+      await alerts.deliver();
+    }
+    expect(post).toHaveBeenCalledTimes(5);
+    expect(getSortedSet("price_alert_delivery_queue").size).toEqual(0);
+    expect(getHash("price_alert_deliveries").size).toEqual(0);
+  });
+
+  it("should drop the deliveries of deleted alerts", async () => {
+    const post = jest.spyOn(axios, "post").mockResolvedValue({ status: 200 });
+    const alert = await alerts.create(thresholdCondition);
+    getPriceWindow.mockResolvedValue(window(0.09));
+    await alerts.evaluate();
+
+    await alerts.delete(alert.id);
+    await alerts.deliver();
+
+    expect(post).not.toHaveBeenCalled();
+    expect(getSortedSet("price_alert_delivery_queue").size).toEqual(0);
+  });
+});
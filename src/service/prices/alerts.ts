@@ -0,0 +1,438 @@
+import axios from "axios";
+import BigNumber from "bignumber.js";
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { lookup, LookupAddress, LookupOptions } from "dns";
+import { Agent } from "https";
+import { Logger } from "pino";
+import {
+  ensureError,
+  InvalidWebhookUrlError,
+  PriceAlertLimitError,
+} from "./errors";
+import { isPublicAddress, isPublicHttpsUrl } from "../../helper/validate";
+import {
+  PriceAlert,
+  PriceAlertCondition,
+  PriceAlertDelivery,
+  PriceWindow,
+  RedisClientWithTS,
+  TokenKey,
+} from "./types";
+
+type StoredPriceAlert = Omit<PriceAlert, "threshold"> & {
+  threshold: string | null;
+};
+
+/**
+ * Updates an alert only if it still exists, so an alert deleted during an evaluation isn't written back.
+ * Returns 1 if the alert was updated, 0 otherwise.
+ */
+const UPDATE_EXISTING_ALERT_SCRIPT = `
+if redis.call("HEXISTS", KEYS[1], ARGV[1]) == 1 then
+  redis.call("HSET", KEYS[1], ARGV[1], ARGV[2])
+  return 1
+end
+return 0
+`;
+
+/**
+ * Agent used for webhook deliveries. The webhook host is resolved again when connecting, and the
+ * connection is refused if it resolves to a non-public address, so a webhook can't be pointed at
+ * internal services after its creation.
+ */
+const webhookAgent = new Agent({
+  lookup: (
+    hostname: string,
+    options: LookupOptions,
+    callback: (
+      error: NodeJS.ErrnoException | null,
+      address: string | LookupAddress[],
+      family?: number,
+    ) => void,
+  ) =>
+    lookup(hostname, options, (error, address, family) => {
+      if (error) {
+        callback(error, address, family);
+        return;
+      }
+      const addresses = Array.isArray(address)
+        ? address.map((entry) => entry.address)
+        : [address];
+      if (!addresses.every(isPublicAddress)) {
+        callback(
+          new Error(
+            `Webhook host ${hostname} resolves to a non-public address`,
+          ),
+          address,
+          family,
+        );
+        return;
+      }
+      callback(null, address, family);
+    }),
+});
+
+/**
+ * PriceAlerts stores the price alerts registered by clients, evaluates them against the latest prices
+ * and delivers the alerts that fire to their webhook. Deliveries are queued in Redis and retried with
+ * exponential backoff, each one signed with an HMAC of the alert secret.
+ */
+export class PriceAlerts {
+  /**
+   * Redis hash holding the price alerts, keyed by alert ID.
+   */
+  private static readonly PRICE_ALERTS_HASH_KEY = "price_alerts";
+
+  /**
+   * Maximum number of registered alerts, as every alert is evaluated on each price update.
+   */
+  static readonly MAX_PRICE_ALERTS = 10000;
+
+  /**
+   * Redis sorted set of pending webhook deliveries, scored by the time (in milliseconds) of their next attempt.
+   */
+  private static readonly DELIVERY_QUEUE_KEY = "price_alert_delivery_queue";
+
+  /**
+   * Redis hash holding the pending webhook deliveries, keyed by delivery ID.
+   */
+  private static readonly DELIVERY_HASH_KEY = "price_alert_deliveries";
+
+  /**
+   * Maximum number of due deliveries sent in a single delivery run.
+   */
+  private static readonly DELIVERY_BATCH_SIZE = 50;
+
+  /**
+   * Number of attempts after which a delivery is dropped.
+   */
+  private static readonly MAX_DELIVERY_ATTEMPTS = 5;
+
+  /**
+   * Delay (in milliseconds) before the first retry of a delivery, doubled on every further retry.
+   */
+  private static readonly DELIVERY_RETRY_BASE_DELAY_MS = 30000;
+
+  /**
+   * Maximum time (in milliseconds) a webhook has to respond to a delivery.
+   */
+  private static readonly DELIVERY_TIMEOUT_MS = 5000;
+
+  /**
+   * Headers carrying the delivery timestamp and the HMAC-SHA256 signature of "<timestamp>.<body>".
+   */
+  static readonly SIGNATURE_HEADER = "X-Freighter-Signature";
+  static readonly TIMESTAMP_HEADER = "X-Freighter-Timestamp";
+
+  constructor(
+    private readonly logger: Logger,
+    private readonly redisClient: RedisClientWithTS,
+    private readonly getPriceWindow: (
+      token: TokenKey,
+      quote: string,
+      windowMs: number,
+    ) => Promise<PriceWindow | null>,
+  ) {}
+
+  /**
+   * Registers a price alert.
+   *
+   * @param condition - The alert condition and webhook
+   * @returns The alert, including the secret its deliveries are signed with
+   * @throws InvalidWebhookUrlError if the webhook doesn't resolve to a public address
+   * @throws PriceAlertLimitError if the maximum number of alerts is registered
+   */
+  create = async (condition: PriceAlertCondition): Promise<PriceAlert> => {
+    if (!(await isPublicHttpsUrl(condition.webhookUrl))) {
+      throw new InvalidWebhookUrlError(condition.webhookUrl);
+    }
+    const alertCount = await this.redisClient.hLen(
+      PriceAlerts.PRICE_ALERTS_HASH_KEY,
+    );
+    if (alertCount >= PriceAlerts.MAX_PRICE_ALERTS) {
+      throw new PriceAlertLimitError(PriceAlerts.MAX_PRICE_ALERTS);
+    }
+
+    const alert: PriceAlert = {
+      ...condition,
+      id: randomUUID(),
+      secret: randomBytes(32).toString("hex"),
+      createdAt: Date.now(),
+      triggered: false,
+    };
+    await this.saveAlert(alert);
+    return alert;
+  };
+
+  /**
+   * Retrieves a price alert.
+   *
+   * @param id - The alert ID
+   * @returns The alert, or null if there is no alert with that ID
+   */
+  get = async (id: string): Promise<PriceAlert | null> => {
+    const alert = await this.redisClient.hGet(
+      PriceAlerts.PRICE_ALERTS_HASH_KEY,
+      id,
+    );
+    return alert ? this.parseAlert(alert) : null;
+  };
+
+  /**
+   * Deletes a price alert. Its pending deliveries are dropped when they are next attempted.
+   *
+   * @param id - The alert ID
+   * @returns Whether an alert was deleted
+   */
+  delete = async (id: string): Promise<boolean> => {
+    const deleted = await this.redisClient.hDel(
+      PriceAlerts.PRICE_ALERTS_HASH_KEY,
+      id,
+    );
+    return deleted > 0;
+  };
+
+  /**
+   * Evaluates every alert against the latest price of its token and queues a delivery for each alert
+   * whose condition started holding since its last evaluation.
+   */
+  evaluate = async (): Promise<void> => {
+    const alerts = Object.values(
+      await this.redisClient.hGetAll(PriceAlerts.PRICE_ALERTS_HASH_KEY),
+    ).map((alert) => this.parseAlert(alert));
+
+    for (const alert of alerts) {
+      try {
+        const window = await this.getPriceWindow(
+          alert.token,
+          alert.quote,
+          alert.windowMs || 0,
+        );
+        if (!window) {
+          continue;
+        }
+
+        const triggered = this.isTriggered(alert, window);
+        if (triggered === alert.triggered) {
+          continue;
+        }
+        const updated = await this.updateAlert({ ...alert, triggered });
+        if (updated && triggered) {
+          await this.queueDelivery(alert, window);
+        }
+      } catch (e) {
+        const error = ensureError(e, `evaluating price alert ${alert.id}`);
+        this.logger.error(error);
+      }
+    }
+  };
+
+  /**
+   * Sends the due webhook deliveries. Failed deliveries are retried with exponential backoff
+   * until MAX_DELIVERY_ATTEMPTS is reached.
+   */
+  deliver = async (): Promise<void> => {
+    const now = Date.now();
+    const ids = await this.redisClient.zRangeByScore(
+      PriceAlerts.DELIVERY_QUEUE_KEY,
+      0,
+      now,
+      { LIMIT: { offset: 0, count: PriceAlerts.DELIVERY_BATCH_SIZE } },
+    );
+
+    for (const id of ids) {
+      const rawDelivery = await this.redisClient.hGet(
+        PriceAlerts.DELIVERY_HASH_KEY,
+        id,
+      );
+      const delivery: PriceAlertDelivery | null = rawDelivery
+        ? JSON.parse(rawDelivery)
+        : null;
+      const alert = delivery ? await this.get(delivery.alertId) : null;
+      if (!delivery || !alert) {
+        await this.removeDelivery(id);
+        continue;
+      }
+
+      try {
+        await this.send(alert, delivery.payload);
+        await this.removeDelivery(id);
+      } catch (e) {
+        const attempts = delivery.attempts + 1;
+        const error = ensureError(
+          e,
+          `delivering price alert ${alert.id} (attempt ${attempts})`,
+        );
+        if (attempts >= PriceAlerts.MAX_DELIVERY_ATTEMPTS) {
+          this.logger.error(error);
+          await this.removeDelivery(id);
+          continue;
+        }
+
+        this.logger.warn(error);
+        await this.redisClient
+          .multi()
+          .hSet(
+            PriceAlerts.DELIVERY_HASH_KEY,
+            id,
+            JSON.stringify({ ...delivery, attempts }),
+          )
+          .zAdd(PriceAlerts.DELIVERY_QUEUE_KEY, {
+            score:
+              now +
+              PriceAlerts.DELIVERY_RETRY_BASE_DELAY_MS *
+                Math.pow(2, attempts - 1),
+            value: id,
+          })
+          .exec();
+      }
+    }
+  };
+
+  /**
+   * Checks whether the condition of an alert holds for a price window.
+   *
+   * @param alert - The alert to check
+   * @param window - The latest price of the alert token and its price at the start of the alert window
+   * @returns Whether the condition holds
+   * @private
+   */
+  private isTriggered(alert: PriceAlert, window: PriceWindow): boolean {
+    if (alert.threshold) {
+      return alert.direction === "up"
+        ? window.price.isGreaterThanOrEqualTo(alert.threshold)
+        : window.price.isLessThanOrEqualTo(alert.threshold);
+    }
+    if (
+      alert.percentChange === null ||
+      !window.windowPrice ||
+      window.windowPrice.isZero()
+    ) {
+      return false;
+    }
+
+    const change = window.price
+      .minus(window.windowPrice)
+      .dividedBy(window.windowPrice)
+      .times(100);
+    return alert.direction === "up"
+      ? change.isGreaterThanOrEqualTo(alert.percentChange)
+      : change.isLessThanOrEqualTo(-alert.percentChange);
+  }
+
+  /**
+   * Queues a webhook delivery for an alert that fired, due right away.
+   *
+   * @param alert - The alert that fired
+   * @param window - The price window it fired on
+   * @private
+   */
+  private async queueDelivery(
+    alert: PriceAlert,
+    window: PriceWindow,
+  ): Promise<void> {
+    const delivery: PriceAlertDelivery = {
+      id: randomUUID(),
+      alertId: alert.id,
+      payload: JSON.stringify({
+        alertId: alert.id,
+        token: alert.token,
+        quote: alert.quote,
+        direction: alert.direction,
+        threshold: alert.threshold,
+        percentChange: alert.percentChange,
+        windowMs: alert.windowMs,
+        timestamp: window.timestamp,
+        price: window.price,
+        windowPrice: window.windowPrice,
+      }),
+      attempts: 0,
+    };
+
+    await this.redisClient
+      .multi()
+      .hSet(
+        PriceAlerts.DELIVERY_HASH_KEY,
+        delivery.id,
+        JSON.stringify(delivery),
+      )
+      .zAdd(PriceAlerts.DELIVERY_QUEUE_KEY, {
+        score: Date.now(),
+        value: delivery.id,
+      })
+      .exec();
+  }
+
+  /**
+   * Posts a delivery to the webhook of its alert, signed with the alert secret.
+   *
+   * @param alert - The alert the delivery belongs to
+   * @param payload - The JSON encoded webhook body
+   * @throws Error if the webhook doesn't respond with a 2xx status in time
+   * @private
+   */
+  private async send(alert: PriceAlert, payload: string): Promise<void> {
+    const timestamp = Date.now().toString();
+    const signature = createHmac("sha256", alert.secret)
+      .update(`${timestamp}.${payload}`)
+      .digest("hex");
+
+    await axios.post(alert.webhookUrl, payload, {
+      headers: {
+        "Content-Type": "application/json",
+        [PriceAlerts.TIMESTAMP_HEADER]: timestamp,
+        [PriceAlerts.SIGNATURE_HEADER]: `sha256=${signature}`,
+      },
+      timeout: PriceAlerts.DELIVERY_TIMEOUT_MS,
+      maxRedirects: 0,
+      httpsAgent: webhookAgent,
+    });
+  }
+
+  private async removeDelivery(id: string): Promise<void> {
+    await this.redisClient
+      .multi()
+      .hDel(PriceAlerts.DELIVERY_HASH_KEY, id)
+      .zRem(PriceAlerts.DELIVERY_QUEUE_KEY, id)
+      .exec();
+  }
+
+  private async saveAlert(alert: PriceAlert): Promise<void> {
+    await this.redisClient.hSet(
+      PriceAlerts.PRICE_ALERTS_HASH_KEY,
+      alert.id,
+      this.serializeAlert(alert),
+    );
+  }
+
+  /**
+   * Writes back an alert unless it was deleted in the meantime.
+   *
+   * @param alert - The updated alert
+   * @returns Whether the alert still existed and was updated
+   * @private
+   */
+  private async updateAlert(alert: PriceAlert): Promise<boolean> {
+    const updated = await this.redisClient.eval(UPDATE_EXISTING_ALERT_SCRIPT, {
+      keys: [PriceAlerts.PRICE_ALERTS_HASH_KEY],
+      arguments: [alert.id, this.serializeAlert(alert)],
+    });
+    return updated === 1;
+  }
+
+  private serializeAlert(alert: PriceAlert): string {
+    const stored: StoredPriceAlert = {
+      ...alert,
+      threshold: alert.threshold ? alert.threshold.toString() : null,
+    };
+    return JSON.stringify(stored);
+  }
+
+  private parseAlert(alert: string): PriceAlert {
+    const stored: StoredPriceAlert = JSON.parse(alert);
+    return {
+      ...stored,
+      threshold: stored.threshold ? new BigNumber(stored.threshold) : null,
+    };
+  }
+}
@@ -30,13 +30,72 @@ export class CacheInitializationError extends TokenPricesError {
 export class InvalidTokenFormatError extends TokenPricesError {
   constructor(token: string, cause?: unknown) {
     super(
-      `Invalid token format: ${token}. Expected 'code:issuer' or 'XLM'`,
+      `Invalid token format: ${token}. Expected 'code:issuer', 'XLM' or a contract ID`,
       cause,
     );
     this.name = "InvalidTokenFormatError";
   }
 }
 
+export class UnsupportedQuoteError extends TokenPricesError {
+  constructor(quote: string, cause?: unknown) {
+    super(`Unsupported quote currency: ${quote}`, cause);
+    this.name = "UnsupportedQuoteError";
+  }
+}
+
+export class SorobanPricingNotConfiguredError extends TokenPricesError {
+  constructor(token: string, cause?: unknown) {
+    super(`Soroban pricing is not configured for token: ${token}`, cause);
+    this.name = "SorobanPricingNotConfiguredError";
+  }
+}
+
+export class OracleAssetNotFoundError extends TokenPricesError {
+  constructor(token: string, cause?: unknown) {
+    super(`Oracle price not found for token: ${token}`, cause);
+    this.name = "OracleAssetNotFoundError";
+  }
+}
+
+export class LiquidityPoolNotFoundError extends TokenPricesError {
+  constructor(token: string, cause?: unknown) {
+    super(`Liquidity pool not found for token: ${token}`, cause);
+    this.name = "LiquidityPoolNotFoundError";
+  }
+}
+
+export class PriceSourcesNotFoundError extends TokenPricesError {
+  constructor(token: string, cause?: unknown) {
+    super(`No price source supports token: ${token}`, cause);
+    this.name = "PriceSourcesNotFoundError";
+  }
+}
+
+export class PriceSourcesDisagreeError extends TokenPricesError {
+  constructor(token: string, cause?: unknown) {
+    super(`Price sources disagree for token: ${token}`, cause);
+    this.name = "PriceSourcesDisagreeError";
+  }
+}
+
+export class InvalidWebhookUrlError extends TokenPricesError {
+  constructor(url: string, cause?: unknown) {
+    super(
+      `Webhook URL must be https and resolve to a public address: ${url}`,
+      cause,
+    );
+    this.name = "InvalidWebhookUrlError";
+  }
+}
+
+export class PriceAlertLimitError extends TokenPricesError {
+  constructor(limit: number, cause?: unknown) {
+    super(`Price alert limit of ${limit} reached`, cause);
+    this.name = "PriceAlertLimitError";
+  }
+}
+
 export const ensureError = (error: unknown, message: string): Error => {
   if (error instanceof TokenPricesError) {
     return error;
@@ -46,3 +105,13 @@ export const ensureError = (error: unknown, message: string): Error => {
     error instanceof Error ? error : undefined,
   );
 };
+
+export class HistoryExportLimitError extends TokenPricesError {
+  constructor(maxOperations: number, cause?: unknown) {
+    super(
+      `Account history has more than ${maxOperations} operations to export, narrow its time range with from and to`,
+      cause,
+    );
+    this.name = "HistoryExportLimitError";
+  }
+}
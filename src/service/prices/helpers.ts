@@ -0,0 +1,16 @@
+import BigNumber from "bignumber.js";
+
+/**
+ * Calculates the median of a non empty list of prices.
+ *
+ * @param prices - The prices to take the median of
+ * @returns The median price
+ */
+export const median = (prices: BigNumber[]): BigNumber => {
+  const sorted = [...prices].sort((a, b) => a.comparedTo(b) || 0);
+  const middle = Math.floor(sorted.length / 2);
+  if (sorted.length % 2) {
+    return sorted[middle];
+  }
+  return sorted[middle - 1].plus(sorted[middle]).dividedBy(2);
+};
@@ -0,0 +1,236 @@
+import BigNumber from "bignumber.js";
+import { Asset, Keypair, Networks } from "stellar-sdk";
+import {
+  mockMercuryClient,
+  mockPriceClient,
+  pubKey,
+} from "../../helper/test-helper";
+import {
+  exportAccountHistory,
+  getAccountHistoryCsvHeader,
+  getAccountHistoryCsvLine,
+} from "./history-export";
+import { HistoryExportLimitError } from "./errors";
+
+describe("Account history export", () => {
+  const usdc = "USDC:GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN";
+  const [usdcCode, usdcIssuer] = usdc.split(":");
+  const usdcContractId = new Asset(usdcCode, usdcIssuer).contractId(
+    Networks.PUBLIC,
+  );
+  const otherPubKey = Keypair.random().publicKey();
+  const day = 24 * 60 * 60 * 1000;
+  const now = Date.parse("2024-03-10T12:00:00Z");
+
+  // The same USDC payment as Horizon and transformAccountHistory record it.
+  const horizonPayment = {
+    id: "300",
+    type: "payment",
+    created_at: "2024-03-10T10:00:00Z",
+    transaction_hash: "tx1",
+    transaction_successful: true,
+    source_account: pubKey,
+    from: pubKey,
+    to: otherPubKey,
+    asset_type: "credit_alphanum4",
+    asset_code: usdcCode,
+    asset_issuer: usdcIssuer,
+    amount: "10.0000000",
+    transaction_attr: {
+      source_account: pubKey,
+      fee_account: pubKey,
+      fee_charged: "200",
+      memo: "rent, march",
+    },
+  };
+  const mercuryPayment = {
+    id: "300",
+    type: "payment",
+    created_at: "2024-03-10T10:00:00.000Z",
+    transaction_hash: "tx1",
+    transaction_successful: true,
+    source_account: pubKey,
+    from: pubKey,
+    to: otherPubKey,
+    asset_type: usdcCode,
+    asset_code: usdcCode,
+    asset_issuer: usdcIssuer,
+    amount: "10",
+    transaction_attr: { operation_count: 2, fee_charged: "200" },
+  };
+  const sacTransfer = {
+    id: "200",
+    type: "invoke_host_function",
+    created_at: "2024-03-09T10:00:00Z",
+    transaction_hash: "tx1",
+    transaction_successful: true,
+    source_account: pubKey,
+    transaction_attr: {
+      fee_charged: "200",
+      contractId: usdcContractId,
+      fnName: "transfer",
+      args: { from: otherPubKey, to: pubKey, amount: "25000000" },
+    },
+  };
+
+  beforeEach(() => {
+    jest.spyOn(Date, "now").mockReturnValue(now);
+    jest.spyOn(mockMercuryClient, "tokenDetails").mockResolvedValue({
+      name: usdc,
+      symbol: usdcCode,
+      decimals: "7",
+    });
+    jest.spyOn(mockPriceClient, "getCandles").mockResolvedValue({
+      token: usdc,
+      interval: "1d",
+      candles: [
+        Date.parse("2024-03-09T00:00:00Z"),
+        Date.parse("2024-03-10T00:00:00Z"),
+      ].map((timestamp, i) => ({
+        timestamp,
+        open: new BigNumber(1),
+        high: new BigNumber(1),
+        low: new BigNumber(1),
+        close: new BigNumber(i ? 0.99 : 1.01),
+      })),
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const exportRows = async (history: unknown[][]) => {
+    const getAccountHistory = jest.spyOn(
+      mockMercuryClient,
+      "getAccountHistory",
+    );
+    history.forEach((data, i) =>
+      getAccountHistory.mockResolvedValueOnce({
+        data: data as any,
+        next: i < history.length - 1 ? String(i) : null,
+        error: null,
+      }),
+    );
+
+    const { data, error } = await exportAccountHistory(
+      pubKey,
+      "PUBLIC",
+      true,
+      { from: now - 30 * day },
+      mockMercuryClient,
+      mockPriceClient,
+    );
+    expect(error).toBeNull();
+    const rows = [];
+    for await (const row of data!) {
+      rows.push(row);
+    }
+    return { rows, getAccountHistory };
+  };
+
+  it("exports every page of the history with fiat values", async () => {
+    const { rows, getAccountHistory } = await exportRows([
+      [horizonPayment],
+      [sacTransfer],
+    ]);
+
+    expect(getAccountHistory).toHaveBeenLastCalledWith(
+      pubKey,
+      "PUBLIC",
+      true,
+      false,
+      { cursor: "0", limit: 200 },
+      { from: now - 30 * day },
+    );
+    expect(rows).toEqual([
+      {
+        date: "2024-03-10T10:00:00Z",
+        type: "payment",
+        asset: usdc,
+        amount: "-10",
+        counterparty: otherPubKey,
+        fee: "0.00002",
+        memo: "rent, march",
+        txHash: "tx1",
+        fiatValue: "-9.9",
+        fiatCurrency: "USD",
+      },
+      {
+        date: "2024-03-09T10:00:00Z",
+        type: "invoke_host_function",
+        asset: usdc,
+        amount: "2.5",
+        counterparty: otherPubKey,
+        fee: null,
+        memo: null,
+        txHash: "tx1",
+        fiatValue: "2.525",
+        fiatCurrency: "USD",
+      },
+    ]);
+  });
+
+  it("exports the same rows from Horizon and Mercury records", async () => {
+    const { rows: horizonRows } = await exportRows([[horizonPayment]]);
+    const { rows: mercuryRows } = await exportRows([[mercuryPayment]]);
+
+    const { memo, date, ...horizonRow } = horizonRows[0];
+    const { memo: _, date: mercuryDate, ...mercuryRow } = mercuryRows[0];
+    expect(mercuryRow).toEqual(horizonRow);
+    expect(Date.parse(mercuryDate)).toEqual(Date.parse(date));
+  });
+
+  it("returns the error of the first history page", async () => {
+    jest
+      .spyOn(mockMercuryClient, "getAccountHistory")
+      .mockResolvedValue({ data: null, next: null, error: "not found" });
+
+    const { data, error } = await exportAccountHistory(
+      pubKey,
+      "PUBLIC",
+      true,
+      {},
+      mockMercuryClient,
+      mockPriceClient,
+    );
+    expect(data).toBeNull();
+    expect(error).toEqual("not found");
+  });
+
+  it("fails exports of histories longer than the export limit", async () => {
+    jest
+      .spyOn(mockMercuryClient, "getAccountHistory")
+      .mockResolvedValue({ data: [], next: "1", error: null });
+
+    const { data } = await exportAccountHistory(
+      pubKey,
+      "PUBLIC",
+      true,
+      {},
+      mockMercuryClient,
+      mockPriceClient,
+    );
+    await expect(data!.next()).rejects.toThrow(HistoryExportLimitError);
+    expect(mockMercuryClient.getAccountHistory).toHaveBeenCalledTimes(100);
+  });
+
+  it("escapes CSV fields", async () => {
+    const { rows } = await exportRows([[horizonPayment]]);
+
+    expect(getAccountHistoryCsvHeader()).toEqual(
+      "date,type,asset,amount,counterparty,fee,memo,tx_hash,fiat_value,fiat_currency\n",
+    );
+    expect(getAccountHistoryCsvLine(rows[0])).toEqual(
+      `2024-03-10T10:00:00Z,payment,${usdc},-10,${otherPubKey},0.00002,"rent, march",tx1,-9.9,USD\n`,
+    );
+    expect(
+      getAccountHistoryCsvLine({ ...rows[0], memo: '=HYPERLINK("x","y")' }),
+    ).toContain(`,"'=HYPERLINK(""x"",""y"")",`);
+    ["+1", "-cmd", "@SUM(A1)"].forEach((memo) =>
+      expect(getAccountHistoryCsvLine({ ...rows[0], memo })).toContain(
+        `,'${memo},`,
+      ),
+    );
+  });
+});
@@ -0,0 +1,262 @@
+import BigNumber from "bignumber.js";
+import { Asset, Networks } from "stellar-sdk";
+import { NetworkNames } from "../../helper/validate";
+import { MercuryClient } from "../mercury";
+import {
+  AccountHistoryFilters,
+  getOperationInvocation,
+  HistoryOperation,
+} from "../mercury/helpers/filters";
+import {
+  AccountHistoryRow,
+  ContractTokenInfo,
+  transformAccountHistoryRow,
+} from "../mercury/helpers/transformers";
+import { PriceClient } from ".";
+import { HistoryExportLimitError } from "./errors";
+import { Candle, TokenKey } from "./types";
+
+/**
+ * Operations fetched per history page, the largest page Horizon serves.
+ */
+const EXPORT_PAGE_SIZE = 200;
+
+/**
+ * Maximum number of history pages exported, bounding an export to 20000 operations. Exports of
+ * longer histories fail rather than leave out their oldest operations.
+ */
+const EXPORT_MAX_PAGES = 100;
+
+/**
+ * Number of daily candles read to value operations, the retention of the daily candle series.
+ */
+const EXPORT_PRICE_DAYS = 365;
+
+/**
+ * Columns of the CSV export, in order, with the row field each one is read from.
+ */
+export const ACCOUNT_HISTORY_EXPORT_COLUMNS: [
+  string,
+  keyof AccountHistoryRow,
+][] = [
+  ["date", "date"],
+  ["type", "type"],
+  ["asset", "asset"],
+  ["amount", "amount"],
+  ["counterparty", "counterparty"],
+  ["fee", "fee"],
+  ["memo", "memo"],
+  ["tx_hash", "txHash"],
+  ["fiat_value", "fiatValue"],
+  ["fiat_currency", "fiatCurrency"],
+];
+
+/**
+ * Escapes a CSV field. Fields a spreadsheet would read as a formula, like a memo starting with `=`,
+ * are prefixed with `'` so they're shown as text. Numbers, negative ones included, are left as is.
+ */
+const escapeCsvField = (value: string | null) => {
+  if (value === null) {
+    return "";
+  }
+  const field =
+    /^[=+\-@\t\r]/.test(value) && !/^-\d+(\.\d+)?$/.test(value)
+      ? `'${value}`
+      : value;
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+};
+
+export const getAccountHistoryCsvHeader = () =>
+  `${ACCOUNT_HISTORY_EXPORT_COLUMNS.map(([column]) => column).join(",")}\n`;
+
+export const getAccountHistoryCsvLine = (row: AccountHistoryRow) =>
+  `${ACCOUNT_HISTORY_EXPORT_COLUMNS.map(([, field]) =>
+    escapeCsvField(row[field]),
+  ).join(",")}\n`;
+
+/**
+ * Resolves the token a contract invocation moves. Stellar Asset Contracts are resolved to their
+ * classic asset so they are priced like it.
+ *
+ * @param pubKey - The account the history belongs to, used to simulate the token calls
+ * @param contractId - The token contract
+ * @param network - The network of the contract
+ * @param mercuryClient - The client to read the token details with
+ * @returns The token and its decimals, or null if the contract isn't a token
+ */
+const getContractTokenInfo = async (
+  pubKey: string,
+  contractId: string,
+  network: NetworkNames,
+  mercuryClient: MercuryClient,
+): Promise<ContractTokenInfo | null> => {
+  try {
+    const { name, decimals } = await mercuryClient.tokenDetails(
+      pubKey,
+      contractId,
+      network,
+    );
+    let token = contractId;
+    try {
+      const asset =
+        name === "native"
+          ? Asset.native()
+          : new Asset(...(name.split(":") as [string, string]));
+      if (asset.contractId(Networks[network]) === contractId) {
+        token = asset.isNative() ? "XLM" : name;
+      }
+    } catch (e) {
+      // Not a Stellar Asset Contract.
+    }
+    return { token, decimals: Number(decimals) };
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Finds the daily close of the day a timestamp falls in.
+ *
+ * @param candles - Daily candles in chronological order
+ * @param timestamp - The timestamp to price at
+ * @returns The close, or null if there is no candle for that day or an earlier one
+ */
+const getCloseAt = (candles: Candle[], timestamp: number): BigNumber | null => {
+  let close: BigNumber | null = null;
+  for (const candle of candles) {
+    if (candle.timestamp > timestamp) {
+      break;
+    }
+    close = candle.close;
+  }
+  return close;
+};
+
+/**
+ * Exports the history of an account as flat rows for tax reporting, newest first. The history is
+ * read page by page, through the same backend as the account history endpoint, and every row with
+ * an amount is valued in the default quote currency at the daily close of the day it happened.
+ * Prices are only tracked for the public network and memos are only recorded by Horizon.
+ *
+ * @param pubKey - The account to export the history of
+ * @param network - The network of the account
+ * @param useMercury - Whether to read the history from Mercury
+ * @param filters - Time range, and other filters, of the exported history
+ * @param mercuryClient - The client to read the history and token details with
+ * @param priceClient - The price client to value the rows with
+ * @returns The rows, streamed as pages are read, or the error of the first page
+ * @throws {HistoryExportLimitError} While streaming the rows, when the history is longer than an export can be
+ */
+export const exportAccountHistory = async (
+  pubKey: string,
+  network: NetworkNames,
+  useMercury: boolean,
+  filters: AccountHistoryFilters,
+  mercuryClient: MercuryClient,
+  priceClient: PriceClient,
+): Promise<{
+  data: AsyncGenerator<AccountHistoryRow> | null;
+  error: unknown;
+}> => {
+  const getPage = (cursor?: string) =>
+    mercuryClient.getAccountHistory(
+      pubKey,
+      network,
+      useMercury,
+      false,
+      { cursor, limit: EXPORT_PAGE_SIZE },
+      filters,
+    );
+
+  const firstPage = await getPage();
+  if (firstPage.error) {
+    return { data: null, error: firstPage.error };
+  }
+
+  const contractTokens = new Map<string, ContractTokenInfo>();
+  const candles = new Map<TokenKey, Candle[]>();
+  const feeTransactions = new Set<string>();
+
+  const getFiatValue = async (row: AccountHistoryRow) => {
+    if (network !== "PUBLIC" || !row.asset || !row.amount) {
+      return null;
+    }
+    if (!candles.has(row.asset)) {
+      const data = await priceClient.getCandles(
+        row.asset,
+        "1d",
+        EXPORT_PRICE_DAYS,
+      );
+      candles.set(row.asset, data?.candles || []);
+    }
+    const close = getCloseAt(candles.get(row.asset)!, Date.parse(row.date));
+    return close ? new BigNumber(row.amount).times(close).toString() : null;
+  };
+
+  async function* getRows(): AsyncGenerator<AccountHistoryRow> {
+    let page = firstPage;
+    for (let pages = 1; ; pages++) {
+      const operations = (page.data || []) as HistoryOperation[];
+      for (const operation of operations) {
+        const invocation =
+          operation.type === "invoke_host_function"
+            ? getOperationInvocation(operation, network)
+            : null;
+        if (invocation && !contractTokens.has(invocation.contractId)) {
+          const contractToken = await getContractTokenInfo(
+            pubKey,
+            invocation.contractId,
+            network,
+            mercuryClient,
+          );
+          if (contractToken) {
+            contractTokens.set(invocation.contractId, contractToken);
+          }
+        }
+      }
+
+      for (const operation of operations) {
+        if (operation.transaction_successful === false) {
+          continue;
+        }
+        const row = transformAccountHistoryRow(
+          operation,
+          pubKey,
+          network,
+          contractTokens,
+        );
+
+        // Fees are charged per transaction, so they're only counted on its first exported operation.
+        const attr = operation.transaction_attr;
+        const feeAccount =
+          attr?.fee_account || attr?.source_account || operation.source_account;
+        if (
+          row.txHash &&
+          attr?.fee_charged !== undefined &&
+          feeAccount === pubKey &&
+          !feeTransactions.has(row.txHash)
+        ) {
+          feeTransactions.add(row.txHash);
+          row.fee = new BigNumber(attr.fee_charged).shiftedBy(-7).toString();
+        }
+
+        row.fiatValue = await getFiatValue(row);
+        row.fiatCurrency = row.fiatValue ? PriceClient.DEFAULT_QUOTE : null;
+        yield row;
+      }
+
+      if (!page.next) {
+        return;
+      }
+      if (pages >= EXPORT_MAX_PAGES) {
+        throw new HistoryExportLimitError(EXPORT_MAX_PAGES * EXPORT_PAGE_SIZE);
+      }
+      page = await getPage(page.next);
+      if (page.error) {
+        throw new Error(JSON.stringify(page.error));
+      }
+    }
+  }
+
+  return { data: getRows(), error: null };
+};
@@ -3,6 +3,8 @@ import { testLogger } from "../../helper/test-helper";
 import { TokenPriceData } from "./types";
 import BigNumber from "bignumber.js";
 import { PriceCalculationError } from "./errors";
+import { PriceSourceName } from "../../config";
+import * as ValidateHelpers from "../../helper/validate";
 describe("Token Price Client", () => {
   let priceClient: PriceClient;
   const mockRedisClient: any = {
@@ -13,12 +15,25 @@ describe("Token Price Client", () => {
       create: jest.fn(),
       add: jest.fn(),
       mAdd: jest.fn(),
+      createRule: jest.fn(),
     },
     zIncrBy: jest.fn(),
     zRange: jest.fn(),
     set: jest.fn(),
     multi: jest.fn(),
     get: jest.fn(),
+    exists: jest.fn(),
+    hGet: jest.fn(),
+    hSet: jest.fn(),
+    hLen: jest.fn(),
+    sAdd: jest.fn(),
+    sRandMemberCount: jest.fn(),
+    sRem: jest.fn(),
+    sMembers: jest.fn(),
+    sIsMember: jest.fn(),
+    zRangeWithScores: jest.fn(),
+    zUnionStore: jest.fn(),
+    publish: jest.fn(),
   };
 
   beforeEach(() => {
@@ -32,6 +47,18 @@ describe("Token Price Client", () => {
       priceStalenessThreshold: 0,
       usdReceiveValue: 500,
       priceOneDayThresholdMs: 300000,
+      quoteAssets: [],
+      sorobanRpcUrl: "http://test-rpc-url",
+      sorobanRouterContracts: [
+        "CAG5LRYQ5JVEUI5TEID72EYOVX44TTUJT5BQR2J6J77FH65PCCFAJDDH",
+      ],
+      sorobanPricingAccount:
+        "GBBD47IF6LWK7P7MDEVSCWR7DPUWV3NY3DTQEVFL4NAT4AQH3ZLLFLA5",
+      priceSources: ["horizon_paths", "soroban_router"] as PriceSourceName[],
+      sep40Oracles: [],
+      manualPriceOverrides: [],
+      maxSourceDeviation: 0.1,
+      maxSampleDeviation: 0.5,
     };
 
     priceClient = new PriceClient(testLogger, mockPriceConfig, mockRedisClient);
@@ -49,11 +76,18 @@ describe("Token Price Client", () => {
     const mockPipeline = {
       ts: {
         create: jest.fn().mockReturnThis(),
+        createRule: jest.fn().mockReturnThis(),
       },
       zIncrBy: jest.fn().mockReturnThis(),
+      sAdd: jest.fn().mockReturnThis(),
+      sRem: jest.fn().mockReturnThis(),
+      zRem: jest.fn().mockReturnThis(),
+      hDel: jest.fn().mockReturnThis(),
+      del: jest.fn().mockReturnThis(),
       exec: jest.fn().mockResolvedValue([]),
     };
     mockRedisClient.multi.mockReturnValue(mockPipeline);
+    mockRedisClient.sMembers.mockResolvedValue([]);
   });
 
   afterEach(() => {
@@ -179,7 +213,7 @@ describe("Token Price Client", () => {
       const result = await priceClient.getPrice(token);
 
       // Should call addNewTokenToCache and return its result
-      expect(addNewTokenToCacheSpy).toHaveBeenCalledWith(token);
+      expect(addNewTokenToCacheSpy).toHaveBeenCalledWith(token, "USD");
       expect(result).not.toBeNull();
       expect(result?.currentPrice.toNumber()).toBe(60000);
     });
@@ -188,9 +222,9 @@ describe("Token Price Client", () => {
       // First call: Setup mock - ts.get throws error for non-existent key
       mockRedisClient.ts.get.mockRejectedValue(new Error("Key does not exist"));
 
-      // Mock calculatePriceInUSD to throw an error
+      // Mock calculatePrice to throw an error
       jest
-        .spyOn(priceClient as any, "calculatePriceInUSD")
+        .spyOn(priceClient as any, "calculatePrice")
         .mockRejectedValue(new Error("Failed to calculate price"));
 
       const token = "NONEXISTENT:TOKEN";
@@ -241,6 +275,330 @@ describe("Token Price Client", () => {
     });
   });
 
+  describe("getPrice reliability", () => {
+    it("should flag tokens whose latest sample was quarantined", async () => {
+      const now = Date.now();
+      mockRedisClient.ts.get.mockImplementation((key: string) =>
+        Promise.resolve(
+          key.endsWith(":quarantine")
+            ? { timestamp: now, value: 1000 }
+            : { timestamp: now - 60000, value: 1 },
+        ),
+      );
+      mockRedisClient.ts.range.mockResolvedValue([
+        { timestamp: now - 60000, value: 1 },
+      ]);
+
+      const result = await priceClient.getPrice("TOKEN1");
+
+      expect(mockRedisClient.ts.get).toHaveBeenCalledWith("TOKEN1:quarantine");
+      expect(result?.currentPrice.toNumber()).toBe(1);
+      expect(result?.unreliable).toBe(true);
+    });
+
+    it("should not flag tokens without quarantined samples", async () => {
+      const now = Date.now();
+      mockRedisClient.ts.get.mockImplementation((key: string) =>
+        key.endsWith(":quarantine")
+          ? Promise.reject(new Error("ERR TSDB: the key does not exist"))
+          : Promise.resolve({ timestamp: now, value: 1 }),
+      );
+      mockRedisClient.ts.range.mockResolvedValue([
+        { timestamp: now, value: 1 },
+      ]);
+
+      const result = await priceClient.getPrice("TOKEN1");
+
+      expect(result?.unreliable).toBe(false);
+    });
+  });
+
+  describe("getPrice confidence", () => {
+    it("should return the confidence recorded for the latest price", async () => {
+      const now = Date.now();
+      mockRedisClient.ts.get.mockResolvedValue({ timestamp: now, value: 1 });
+      mockRedisClient.ts.range.mockResolvedValue([
+        { timestamp: now, value: 1 },
+      ]);
+      mockRedisClient.hGet.mockResolvedValue(
+        JSON.stringify({ timestamp: now, hops: 2, pathCount: 1, spread: "0" }),
+      );
+
+      const result = await priceClient.getPrice("TOKEN1");
+
+      expect(mockRedisClient.hGet).toHaveBeenCalledWith(
+        "price_confidence",
+        "TOKEN1",
+      );
+      expect(result?.confidence).toEqual({
+        hops: 2,
+        pathCount: 1,
+        spread: new BigNumber(0),
+      });
+    });
+
+    it("should not return the confidence of an older price", async () => {
+      const now = Date.now();
+      mockRedisClient.ts.get.mockResolvedValue({ timestamp: now, value: 1 });
+      mockRedisClient.ts.range.mockResolvedValue([
+        { timestamp: now, value: 1 },
+      ]);
+      mockRedisClient.hGet.mockResolvedValue(
+        JSON.stringify({
+          timestamp: now - 60000,
+          hops: 2,
+          pathCount: 1,
+          spread: "0",
+        }),
+      );
+
+      const result = await priceClient.getPrice("TOKEN1");
+
+      expect(result?.confidence).toBeNull();
+    });
+
+    it("should return the price without a confidence when it can't be read", async () => {
+      const now = Date.now();
+      mockRedisClient.ts.get.mockResolvedValue({ timestamp: now, value: 1 });
+      mockRedisClient.ts.range.mockResolvedValue([
+        { timestamp: now, value: 1 },
+      ]);
+      mockRedisClient.hGet.mockRejectedValueOnce(new Error("Redis error"));
+
+      const result = await priceClient.getPrice("TOKEN1");
+
+      expect(result?.currentPrice).toEqual(new BigNumber(1));
+      expect(result?.confidence).toBeNull();
+    });
+  });
+
+  describe("getPrice with quote", () => {
+    let quotedClient: PriceClient;
+
+    beforeEach(() => {
+      quotedClient = new PriceClient(
+        testLogger,
+        {
+          quoteAssets: [
+            {
+              quote: "EUR",
+              asset:
+                "EURC:GDHU6WRG4IEQXM5NZ4BMPKOXHW76MZM4Y2IEMFDVXBSDP6SJY4ITNPP2",
+            },
+          ],
+        } as any,
+        mockRedisClient,
+      );
+    });
+
+    it("should read the quote time series and count the token once", async () => {
+      const mockNow = Date.now();
+      mockRedisClient.ts.get.mockResolvedValue({
+        timestamp: mockNow,
+        value: 0.09,
+      });
+      mockRedisClient.ts.range.mockResolvedValue([
+        { timestamp: mockNow, value: 0.09 },
+      ]);
+
+      const result = await quotedClient.getPrice("native", "EUR");
+
+      expect(result?.currentPrice.toNumber()).toBe(0.09);
+      expect(mockRedisClient.ts.get).toHaveBeenCalledWith("XLM:quote:EUR");
+      expect(mockRedisClient.zIncrBy).toHaveBeenCalledWith(
+        "token_counter",
+        1,
+        "XLM",
+      );
+    });
+
+    it("should return null for unsupported quotes", async () => {
+      const result = await quotedClient.getPrice("native", "JPY");
+
+      expect(result).toBeNull();
+      expect(mockRedisClient.ts.get).not.toHaveBeenCalled();
+    });
+
+    it("should create missing quote series for tracked tokens", async () => {
+      mockRedisClient.zRange.mockResolvedValue(["XLM", "TOKEN1"]);
+      mockRedisClient.exists.mockImplementation((key: string) =>
+        Promise.resolve(key === "XLM:quote:EUR" ? 1 : 0),
+      );
+
+      await quotedClient.initQuoteSeries();
+
+      expect(mockRedisClient.ts.create).toHaveBeenCalledTimes(1);
+      expect(mockRedisClient.ts.create).toHaveBeenCalledWith(
+        "TOKEN1:quote:EUR",
+        expect.objectContaining({
+          LABELS: { PRICE_CACHE_LABEL: "ts:price:quote" },
+        }),
+      );
+    });
+  });
+
+  describe("getPriceHistory", () => {
+    it("should read short periods from the raw time series", async () => {
+      const mockNow = Date.now();
+      mockRedisClient.ts.range.mockResolvedValue([
+        { timestamp: mockNow - 60000, value: 0.1 },
+        { timestamp: mockNow, value: 0.2 },
+      ]);
+
+      const result = await priceClient.getPriceHistory("native", "1h");
+
+      expect(result?.token).toBe("native");
+      expect(result?.period).toBe("1h");
+      expect(result?.prices.map(({ price }) => price.toNumber())).toEqual([
+        0.1, 0.2,
+      ]);
+      expect(mockRedisClient.ts.range).toHaveBeenCalledWith(
+        "XLM",
+        expect.any(Number),
+        "+",
+        {
+          AGGREGATION: { type: "AVG", timeBucket: 60 * 1000 },
+        },
+      );
+    });
+
+    it("should read long periods from the compaction series", async () => {
+      mockRedisClient.ts.range.mockResolvedValue([]);
+
+      const token =
+        "BTC:GDPJALI4AZKUU2W426U5WKMAT6CN3AJRPIIRYR2YM54TL2GDWO5O2MZM";
+      const result = await priceClient.getPriceHistory(token, "30d");
+
+      expect(result?.prices).toEqual([]);
+      expect(mockRedisClient.ts.range).toHaveBeenCalledWith(
+        `${token}:avg_1h`,
+        expect.any(Number),
+        "+",
+        {
+          AGGREGATION: { type: "AVG", timeBucket: 4 * 60 * 60 * 1000 },
+        },
+      );
+    });
+
+    it("should return null when the history cannot be read", async () => {
+      mockRedisClient.ts.range.mockRejectedValue(
+        new Error("Key does not exist"),
+      );
+
+      const token = "NONEXISTENT:TOKEN";
+      const result = await priceClient.getPriceHistory(token, "7d");
+
+      expect(result).toBeNull();
+      expect(testLogger.error).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: expect.stringContaining(
+            `getting price history for ${token}`,
+          ),
+        }),
+      );
+    });
+  });
+
+  describe("getCandles", () => {
+    it("should combine the candle compaction series into OHLC candles", async () => {
+      const bucket = 60 * 60 * 1000;
+      const t0 = Math.floor(Date.now() / bucket) * bucket - bucket;
+      const t1 = t0 + bucket;
+      const seriesByField: Record<
+        string,
+        { timestamp: number; value: number }[]
+      > = {
+        open: [
+          { timestamp: t1, value: 0.12 },
+          { timestamp: t0, value: 0.1 },
+        ],
+        high: [
+          { timestamp: t0, value: 0.13 },
+          { timestamp: t1, value: 0.15 },
+        ],
+        low: [
+          { timestamp: t0, value: 0.09 },
+          { timestamp: t1, value: 0.11 },
+        ],
+        // The close of the latest bucket is missing, so only the first candle is complete
+        close: [{ timestamp: t0, value: 0.12 }],
+      };
+      mockRedisClient.ts.range.mockImplementation((key: string) =>
+        Promise.resolve(seriesByField[key.split(":")[1].split("_")[0]]),
+      );
+
+      const result = await priceClient.getCandles("native", "1h", 24);
+
+      expect(result?.interval).toBe("1h");
+      expect(result?.candles).toHaveLength(1);
+      expect(result?.candles[0].timestamp).toBe(t0);
+      expect(result?.candles[0].open.toNumber()).toBe(0.1);
+      expect(result?.candles[0].high.toNumber()).toBe(0.13);
+      expect(result?.candles[0].low.toNumber()).toBe(0.09);
+      expect(result?.candles[0].close.toNumber()).toBe(0.12);
+      expect(mockRedisClient.ts.range).toHaveBeenCalledWith(
+        "XLM:open_1h",
+        t1 - 23 * bucket,
+        "+",
+        { LATEST: true },
+      );
+    });
+
+    it("should return null when the candles cannot be read", async () => {
+      mockRedisClient.ts.range.mockRejectedValue(
+        new Error("Key does not exist"),
+      );
+
+      const token = "NONEXISTENT:TOKEN";
+      const result = await priceClient.getCandles(token, "5m", 10);
+
+      expect(result).toBeNull();
+      expect(testLogger.error).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: expect.stringContaining(`getting candles for ${token}`),
+        }),
+      );
+    });
+  });
+
+  describe("initCompactionSeries", () => {
+    it("should only create compaction series that are missing", async () => {
+      mockRedisClient.zRange.mockResolvedValue(["XLM", "TOKEN1"]);
+      mockRedisClient.exists.mockImplementation((key: string) =>
+        Promise.resolve(key.startsWith("XLM:") ? 1 : 0),
+      );
+
+      await priceClient.initCompactionSeries();
+
+      // One price history series plus four candle fields for each of the three intervals
+      expect(mockRedisClient.ts.create).toHaveBeenCalledTimes(13);
+      expect(mockRedisClient.ts.create).toHaveBeenCalledWith(
+        "TOKEN1:avg_1h",
+        expect.objectContaining({
+          RETENTION: 30 * 24 * 60 * 60 * 1000,
+        }),
+      );
+      expect(mockRedisClient.ts.createRule).toHaveBeenCalledWith(
+        "TOKEN1",
+        "TOKEN1:avg_1h",
+        "AVG",
+        60 * 60 * 1000,
+      );
+      expect(mockRedisClient.ts.createRule).toHaveBeenCalledWith(
+        "TOKEN1",
+        "TOKEN1:high_5m",
+        "MAX",
+        5 * 60 * 1000,
+      );
+      expect(mockRedisClient.ts.createRule).not.toHaveBeenCalledWith(
+        "XLM",
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+      );
+    });
+  });
+
   describe("initPriceCache", () => {
     it("should initialize price cache successfully", async () => {
       // Mock fetchAllTokens to return predefined tokens
@@ -340,6 +698,65 @@ describe("Token Price Client", () => {
       );
     });
 
+    it("getTokensToUpdate should refresh pinned tokens first", async () => {
+      mockRedisClient.sMembers.mockResolvedValue(["TOKEN2", "TOKEN3"]);
+      mockRedisClient.zRange.mockResolvedValue(["TOKEN1", "TOKEN2"]);
+
+      const result = await priceClient["getTokensToUpdate"]();
+
+      expect(mockRedisClient.sMembers).toHaveBeenCalledWith(
+        "price_pinned_tokens",
+      );
+      expect(result).toEqual(["TOKEN2", "TOKEN3", "TOKEN1"]);
+    });
+
+    it("getTokensToUpdate should refresh colder tiers less often", async () => {
+      const mockTokens = Array(300)
+        .fill(0)
+        .map((_, i) => `TOKEN${i}`);
+      mockRedisClient.zRange.mockResolvedValue(mockTokens);
+
+      const cycles = [];
+      for (let cycle = 0; cycle < 6; cycle++) {
+        cycles.push(await priceClient["getTokensToUpdate"]());
+      }
+
+      // Every tier is due on the first cycle.
+      expect(cycles[0]).toEqual(mockTokens);
+      expect(cycles[1]).toEqual(mockTokens.slice(0, 50));
+      expect(cycles[4]).toEqual(mockTokens.slice(0, 50));
+      // The warm tier is due every 5 cycles, the cold tier isn't yet.
+      expect(cycles[5]).toEqual(mockTokens.slice(0, 200));
+    });
+
+    it("decayAccessCounts should decay the counters of every elapsed interval", async () => {
+      const ONE_HOUR = 60 * 60 * 1000;
+      const now = 1700000000000;
+      jest.spyOn(Date, "now").mockReturnValue(now);
+      mockRedisClient.get.mockResolvedValue((now - 2.5 * ONE_HOUR).toString());
+
+      await priceClient["decayAccessCounts"]();
+
+      expect(mockRedisClient.zUnionStore).toHaveBeenCalledWith(
+        "token_counter",
+        "token_counter",
+        { WEIGHTS: [Math.pow(0.5, 2 / 24)] },
+      );
+      expect(mockRedisClient.set).toHaveBeenCalledWith(
+        "token_counter_last_decay",
+        (now - 0.5 * ONE_HOUR).toString(),
+      );
+      jest.restoreAllMocks();
+    });
+
+    it("decayAccessCounts should wait for a full interval", async () => {
+      mockRedisClient.get.mockResolvedValue((Date.now() - 60000).toString());
+
+      await priceClient["decayAccessCounts"]();
+
+      expect(mockRedisClient.zUnionStore).not.toHaveBeenCalled();
+    });
+
     it("getTokensToUpdate should throw error if no tokens found", async () => {
       mockRedisClient.zRange.mockResolvedValue([]);
 
@@ -402,6 +819,61 @@ describe("Token Price Client", () => {
       );
     });
 
+    it("addBatchToCache should record the confidence of the added prices", async () => {
+      mockRedisClient.ts.revRange.mockResolvedValue([]);
+      jest.spyOn(priceClient as any, "calculateBatchPrices").mockResolvedValue([
+        {
+          token: "TOKEN1",
+          quote: "USD",
+          timestamp: 123456789,
+          price: new BigNumber(100),
+          confidence: {
+            hops: 3,
+            pathCount: 2,
+            spread: new BigNumber(0.5),
+          },
+        },
+        {
+          token: "TOKEN2",
+          quote: "USD",
+          timestamp: 123456789,
+          price: new BigNumber(200),
+        },
+      ]);
+
+      await priceClient["addBatchToCache"](["TOKEN1", "TOKEN2"]);
+
+      expect(mockRedisClient.hSet).toHaveBeenCalledWith("price_confidence", {
+        TOKEN1: JSON.stringify({
+          timestamp: 123456789,
+          hops: 3,
+          pathCount: 2,
+          spread: "0.5",
+        }),
+      });
+    });
+
+    it("addBatchToCache should publish the added prices", async () => {
+      mockRedisClient.ts.revRange.mockResolvedValue([]);
+      jest.spyOn(priceClient as any, "calculateBatchPrices").mockResolvedValue([
+        {
+          token: "XLM",
+          quote: "USD",
+          timestamp: 123456789,
+          price: new BigNumber(0.1),
+        },
+      ]);
+
+      await priceClient["addBatchToCache"](["XLM"]);
+
+      expect(mockRedisClient.publish).toHaveBeenCalledWith(
+        "price_updates",
+        JSON.stringify([
+          { token: "XLM", quote: "USD", timestamp: 123456789, price: "0.1" },
+        ]),
+      );
+    });
+
     it("addBatchToCache should return if no prices calculated", async () => {
       jest
         .spyOn(priceClient as any, "calculateBatchPrices")
@@ -414,19 +886,192 @@ describe("Token Price Client", () => {
       );
     });
 
+    it("addBatchToCache should quarantine samples deviating from recent prices", async () => {
+      const recentSamples = [1, 1.02, 0.98, 1.01, 0.99].map((value, i) => ({
+        timestamp: 123456000 - i * 60000,
+        value,
+      }));
+      mockRedisClient.ts.revRange.mockResolvedValue(recentSamples);
+      mockRedisClient.ts.range.mockRejectedValue(
+        new Error("ERR TSDB: the key does not exist"),
+      );
+      jest.spyOn(priceClient as any, "calculateBatchPrices").mockResolvedValue([
+        {
+          token: "TOKEN1",
+          quote: "USD",
+          timestamp: 123456789,
+          price: new BigNumber(1000),
+        },
+        {
+          token: "TOKEN2",
+          quote: "USD",
+          timestamp: 123456789,
+          price: new BigNumber(1.1),
+        },
+      ]);
+
+      await priceClient["addBatchToCache"](["TOKEN1", "TOKEN2"]);
+
+      expect(mockRedisClient.ts.add).toHaveBeenCalledWith(
+        "TOKEN1:quarantine",
+        123456789,
+        1000,
+        expect.objectContaining({
+          LABELS: { PRICE_CACHE_LABEL: "ts:price:quarantine" },
+        }),
+      );
+      expect(mockRedisClient.ts.mAdd).toHaveBeenCalledWith([
+        { key: "TOKEN2", timestamp: 123456789, value: 1.1 },
+      ]);
+    });
+
+    it("addBatchToCache should accept a price level confirmed by quarantined samples", async () => {
+      mockRedisClient.ts.revRange.mockResolvedValue(
+        [1, 1, 1].map((value, i) => ({
+          timestamp: 123000000 - i * 60000,
+          value,
+        })),
+      );
+      mockRedisClient.ts.range.mockResolvedValue(
+        [990, 1010, 1005, 995].map((value, i) => ({
+          timestamp: 123100000 + i * 60000,
+          value,
+        })),
+      );
+      jest.spyOn(priceClient as any, "calculateBatchPrices").mockResolvedValue([
+        {
+          token: "TOKEN1",
+          quote: "USD",
+          timestamp: 123456789,
+          price: new BigNumber(1000),
+        },
+      ]);
+
+      await priceClient["addBatchToCache"](["TOKEN1"]);
+
+      expect(mockRedisClient.ts.range).toHaveBeenCalledWith(
+        "TOKEN1:quarantine",
+        122880001,
+        "+",
+      );
+      expect(mockRedisClient.ts.add).not.toHaveBeenCalled();
+      expect(mockRedisClient.ts.mAdd).toHaveBeenCalledWith([
+        { key: "TOKEN1", timestamp: 123456789, value: 1000 },
+      ]);
+    });
+
+    it("addBatchToCache should keep accepting a confirmed price level until the median catches up", async () => {
+      // The first sample at the new level was accepted, the quarantined samples confirming it are
+      // older than it but still within the window.
+      mockRedisClient.ts.revRange.mockResolvedValue(
+        [1000, 1, 1, 1].map((value, i) => ({
+          timestamp: 123400000 - i * 100000,
+          value,
+        })),
+      );
+      mockRedisClient.ts.range.mockResolvedValue(
+        [990, 1010, 1005, 995].map((value, i) => ({
+          timestamp: 123300000 + i * 10000,
+          value,
+        })),
+      );
+      jest.spyOn(priceClient as any, "calculateBatchPrices").mockResolvedValue([
+        {
+          token: "TOKEN1",
+          quote: "USD",
+          timestamp: 123456789,
+          price: new BigNumber(1002),
+        },
+      ]);
+
+      await priceClient["addBatchToCache"](["TOKEN1"]);
+
+      expect(mockRedisClient.ts.range).toHaveBeenCalledWith(
+        "TOKEN1:quarantine",
+        123100001,
+        "+",
+      );
+      expect(mockRedisClient.ts.add).not.toHaveBeenCalled();
+      expect(mockRedisClient.ts.mAdd).toHaveBeenCalledWith([
+        { key: "TOKEN1", timestamp: 123456789, value: 1002 },
+      ]);
+    });
+
+    it("addBatchToCache should not accept a level only a few quarantined samples agree with", async () => {
+      mockRedisClient.ts.revRange.mockResolvedValue(
+        [1, 1, 1].map((value, i) => ({
+          timestamp: 123000000 - i * 60000,
+          value,
+        })),
+      );
+      mockRedisClient.ts.range.mockResolvedValue(
+        [990, 1010, 50, 60].map((value, i) => ({
+          timestamp: 123100000 + i * 60000,
+          value,
+        })),
+      );
+      jest.spyOn(priceClient as any, "calculateBatchPrices").mockResolvedValue([
+        {
+          token: "TOKEN1",
+          quote: "USD",
+          timestamp: 123456789,
+          price: new BigNumber(1000),
+        },
+      ]);
+
+      await priceClient["addBatchToCache"](["TOKEN1"]);
+
+      expect(mockRedisClient.ts.add).toHaveBeenCalledWith(
+        "TOKEN1:quarantine",
+        123456789,
+        1000,
+        expect.anything(),
+      );
+    });
+
+    it("addBatchToCache should not check tokens with too few samples", async () => {
+      mockRedisClient.ts.revRange.mockResolvedValue([
+        { timestamp: 123000000, value: 1 },
+      ]);
+      jest.spyOn(priceClient as any, "calculateBatchPrices").mockResolvedValue([
+        {
+          token: "TOKEN1",
+          quote: "USD",
+          timestamp: 123456789,
+          price: new BigNumber(1000),
+        },
+      ]);
+
+      await priceClient["addBatchToCache"](["TOKEN1"]);
+
+      expect(mockRedisClient.ts.add).not.toHaveBeenCalled();
+      expect(mockRedisClient.ts.mAdd).toHaveBeenCalledWith([
+        { key: "TOKEN1", timestamp: 123456789, value: 1000 },
+      ]);
+    });
+
     it("getTimeSeriesKey should handle native asset correctly", async () => {
       expect(priceClient["getTimeSeriesKey"]("native")).toBe("XLM");
       expect(priceClient["getTimeSeriesKey"]("CODE:ISSUER")).toBe(
         "CODE:ISSUER",
       );
     });
+
+    it("getTimeSeriesKey should use a separate series for non default quotes", async () => {
+      expect(priceClient["getTimeSeriesKey"]("native", "EUR")).toBe(
+        "XLM:quote:EUR",
+      );
+      expect(priceClient["getTimeSeriesKey"]("CODE:ISSUER", "USD")).toBe(
+        "CODE:ISSUER",
+      );
+    });
   });
 
   describe("Price Calculation Methods", () => {
     it("should calculate prices for a batch of tokens", async () => {
-      // Mock calculatePriceInUSD to return predefined values
+      // Mock calculatePrice to return predefined values
       jest
-        .spyOn(priceClient as any, "calculatePriceInUSD")
+        .spyOn(priceClient as any, "calculatePrice")
         .mockResolvedValueOnce({
           timestamp: 123456789,
           price: new BigNumber(100),
@@ -440,16 +1085,26 @@ describe("Token Price Client", () => {
       const result = await priceClient["calculateBatchPrices"](tokens);
 
       expect(result).toEqual([
-        { token: "TOKEN1", timestamp: 123456789, price: new BigNumber(100) },
-        { token: "TOKEN2", timestamp: 123456789, price: new BigNumber(200) },
+        {
+          token: "TOKEN1",
+          quote: "USD",
+          timestamp: 123456789,
+          price: new BigNumber(100),
+        },
+        {
+          token: "TOKEN2",
+          quote: "USD",
+          timestamp: 123456789,
+          price: new BigNumber(200),
+        },
       ]);
-      expect(priceClient["calculatePriceInUSD"]).toHaveBeenCalledTimes(2);
+      expect(priceClient["calculatePrice"]).toHaveBeenCalledTimes(2);
     });
 
     it("should filter out failed price calculations", async () => {
       // Mock one successful and one failed calculation
       jest
-        .spyOn(priceClient as any, "calculatePriceInUSD")
+        .spyOn(priceClient as any, "calculatePrice")
         .mockResolvedValueOnce({
           timestamp: 123456789,
           price: new BigNumber(100),
@@ -460,44 +1115,105 @@ describe("Token Price Client", () => {
       const result = await priceClient["calculateBatchPrices"](tokens);
 
       expect(result).toEqual([
-        { token: "TOKEN1", timestamp: 123456789, price: new BigNumber(100) },
+        {
+          token: "TOKEN1",
+          quote: "USD",
+          timestamp: 123456789,
+          price: new BigNumber(100),
+        },
       ]);
       expect(testLogger.error).toHaveBeenCalled();
     });
 
+    it("should calculate prices in every configured quote", async () => {
+      const quotedClient = new PriceClient(
+        testLogger,
+        {
+          calculationTimeoutMs: 10000,
+          quoteAssets: [
+            {
+              quote: "EUR",
+              asset:
+                "EURC:GDHU6WRG4IEQXM5NZ4BMPKOXHW76MZM4Y2IEMFDVXBSDP6SJY4ITNPP2",
+            },
+          ],
+        } as any,
+        mockRedisClient,
+      );
+      jest
+        .spyOn(quotedClient["priceAggregator"], "getPrice")
+        .mockImplementation((_token, quote) =>
+          Promise.resolve({
+            timestamp: 123456789,
+            price: new BigNumber(quote === "EUR" ? 90 : 100),
+          }),
+        );
+
+      const result = await quotedClient["calculateBatchPrices"](["TOKEN1"]);
+
+      expect(quotedClient.getSupportedQuotes()).toEqual(["USD", "EUR"]);
+      expect(result).toEqual([
+        {
+          token: "TOKEN1",
+          quote: "USD",
+          timestamp: 123456789,
+          price: new BigNumber(100),
+        },
+        {
+          token: "TOKEN1",
+          quote: "EUR",
+          timestamp: 123456789,
+          price: new BigNumber(90),
+        },
+      ]);
+    });
+
     it("should calculate price in USD with timeout", async () => {
-      // Mock calculatePriceUsingPaths to return a value
+      // Mock the price aggregator to return a value
       jest
-        .spyOn(priceClient as any, "calculatePriceUsingPaths")
+        .spyOn(priceClient["priceAggregator"], "getPrice")
         .mockResolvedValue({ timestamp: 123456789, price: new BigNumber(100) });
 
-      const result = await priceClient["calculatePriceInUSD"]("TOKEN1");
+      const result = await priceClient["calculatePrice"]("TOKEN1", "USD");
 
       expect(result).toEqual({
         timestamp: 123456789,
         price: new BigNumber(100),
       });
-      expect(priceClient["calculatePriceUsingPaths"]).toHaveBeenCalledWith(
+      expect(priceClient["priceAggregator"].getPrice).toHaveBeenCalledWith(
         "TOKEN1",
+        "USD",
+        expect.objectContaining({ receiveValue: new BigNumber(500) }),
       );
     });
 
+    it("should build the price sources enabled in config", async () => {
+      const sources = priceClient["buildPriceSources"]({
+        priceSources: ["horizon_paths", "liquidity_pool"],
+        manualPriceOverrides: [{ token: "XLM", quote: "USD", price: 0.1 }],
+      } as any);
+
+      expect(sources.map(({ name }) => name)).toEqual([
+        "manual_override",
+        "horizon_paths",
+        "liquidity_pool",
+      ]);
+    });
+
     it("should handle timeout in price calculation", async () => {
       // Use Jest's timer mocks
       jest.useFakeTimers();
 
-      // Mock calculatePriceUsingPaths to never resolve (simulating a hanging operation)
-      jest
-        .spyOn(priceClient as any, "calculatePriceUsingPaths")
-        .mockImplementation(
-          () =>
-            new Promise(() => {
-              // This promise will never resolve during the test
-            }),
-        );
+      // Mock the price aggregator to never resolve (simulating a hanging operation)
+      jest.spyOn(priceClient["priceAggregator"], "getPrice").mockImplementation(
+        () =>
+          new Promise(() => {
+            // This promise will never resolve during the test
+          }),
+      );
 
       // Start the price calculation but don't await it yet
-      const pricePromise = priceClient["calculatePriceInUSD"]("TOKEN1");
+      const pricePromise = priceClient["calculatePrice"]("TOKEN1", "USD");
 
       // Fast-forward time past the timeout
       jest.advanceTimersByTime(10000 + 100);
@@ -522,6 +1238,18 @@ describe("Token Price Client", () => {
           LABELS: expect.any(Object),
         }),
       );
+      expect(mockRedisClient.ts.createRule).toHaveBeenCalledWith(
+        "TOKEN1",
+        "TOKEN1:avg_1h",
+        expect.any(String),
+        expect.any(Number),
+      );
+      expect(mockRedisClient.ts.createRule).toHaveBeenCalledWith(
+        "TOKEN1",
+        "TOKEN1:close_1d",
+        "LAST",
+        24 * 60 * 60 * 1000,
+      );
       expect(mockRedisClient.zIncrBy).toHaveBeenCalledWith(
         expect.any(String),
         1,
@@ -530,6 +1258,350 @@ describe("Token Price Client", () => {
     });
   });
 
+  describe("backfillNewTokens", () => {
+    const TOKEN =
+      "BTC:GDPJALI4AZKUU2W426U5WKMAT6CN3AJRPIIRYR2YM54TL2GDWO5O2MZM";
+    const NOW = 1700000000000;
+    const EARLIEST = NOW - 24 * 60 * 60 * 1000;
+
+    const mockTradeAggregations = (records: {
+      usdc: [number, string][];
+      xlm: [number, string][];
+      native: [number, string][];
+    }) => {
+      const tradeAggregation = jest.fn((base, counter) => {
+        let pairRecords = records.usdc;
+        if (base.isNative()) {
+          pairRecords = records.native;
+        } else if (counter.isNative()) {
+          pairRecords = records.xlm;
+        }
+        return {
+          limit: () => ({
+            call: () =>
+              Promise.resolve({
+                records: pairRecords.map(([timestamp, close]) => ({
+                  timestamp,
+                  close,
+                })),
+              }),
+          }),
+        };
+      });
+      (priceClient as any).server = { tradeAggregation };
+      return tradeAggregation;
+    };
+
+    beforeEach(() => {
+      jest.spyOn(Date, "now").mockReturnValue(NOW);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should backfill history before the first price from trade aggregations", async () => {
+      mockRedisClient.sRandMemberCount.mockResolvedValue([TOKEN]);
+      mockRedisClient.ts.range.mockResolvedValue([
+        { timestamp: NOW - 60000, value: 2.1 },
+      ]);
+      const t1 = EARLIEST + 60 * 60 * 1000;
+      const t2 = EARLIEST + 2 * 60 * 60 * 1000;
+      mockTradeAggregations({
+        usdc: [
+          [EARLIEST - 10 * 60 * 1000, "1.9"],
+          [t1, "2"],
+        ],
+        xlm: [
+          [t1, "30"],
+          [t2, "10"],
+        ],
+        native: [
+          [EARLIEST, "0.1"],
+          [t1, "0.12"],
+        ],
+      });
+
+      await priceClient.backfillNewTokens();
+
+      expect(mockRedisClient.sRandMemberCount).toHaveBeenCalledWith(
+        "price_backfill_queue",
+        10,
+      );
+      expect(mockRedisClient.ts.mAdd).toHaveBeenCalledWith([
+        { key: TOKEN, timestamp: EARLIEST, value: 1.9 },
+        { key: TOKEN, timestamp: t1, value: 2 },
+        { key: TOKEN, timestamp: t2, value: 1.2 },
+      ]);
+      expect(mockRedisClient.sRem).toHaveBeenCalledWith(
+        "price_backfill_queue",
+        TOKEN,
+      );
+    });
+
+    it("should keep tokens whose backfill failed queued", async () => {
+      mockRedisClient.sRandMemberCount.mockResolvedValue([TOKEN]);
+      mockRedisClient.ts.range.mockResolvedValue([
+        { timestamp: NOW - 60000, value: 2.1 },
+      ]);
+      (priceClient as any).server = {
+        tradeAggregation: jest.fn(() => ({
+          limit: () => ({
+            call: () => Promise.reject(new Error("Horizon timeout")),
+          }),
+        })),
+      };
+
+      await priceClient.backfillNewTokens();
+
+      expect(mockRedisClient.sRem).not.toHaveBeenCalled();
+    });
+
+    it("should not overwrite prices already in the time series", async () => {
+      mockRedisClient.sRandMemberCount.mockResolvedValue(["XLM"]);
+      mockRedisClient.ts.range.mockResolvedValue([
+        { timestamp: EARLIEST + 30 * 60 * 1000, value: 0.1 },
+      ]);
+      const tradeAggregation = mockTradeAggregations({
+        usdc: [],
+        xlm: [],
+        native: [
+          [EARLIEST, "0.1"],
+          [EARLIEST + 60 * 60 * 1000, "0.12"],
+        ],
+      });
+
+      await priceClient.backfillNewTokens();
+
+      expect(tradeAggregation).toHaveBeenCalledTimes(1);
+      expect(mockRedisClient.ts.mAdd).toHaveBeenCalledWith([
+        { key: "XLM", timestamp: EARLIEST, value: 0.1 },
+      ]);
+    });
+
+    it("should skip contract tokens", async () => {
+      mockRedisClient.sRandMemberCount.mockResolvedValue([
+        "CAG5LRYQ5JVEUI5TEID72EYOVX44TTUJT5BQR2J6J77FH65PCCFAJDDH",
+      ]);
+      const tradeAggregation = mockTradeAggregations({
+        usdc: [],
+        xlm: [],
+        native: [],
+      });
+
+      await priceClient.backfillNewTokens();
+
+      expect(tradeAggregation).not.toHaveBeenCalled();
+      expect(mockRedisClient.ts.mAdd).not.toHaveBeenCalled();
+    });
+
+    it("should queue tokens added to the cache for backfill", async () => {
+      jest.spyOn(priceClient as any, "calculatePrice").mockResolvedValue({
+        timestamp: NOW,
+        price: new BigNumber(1),
+      });
+
+      await priceClient["addNewTokenToCache"](TOKEN);
+
+      expect(mockRedisClient.sAdd).toHaveBeenCalledWith(
+        "price_backfill_queue",
+        TOKEN,
+      );
+    });
+
+    it("should create the missing quote series of a tracked token", async () => {
+      priceClient["quoteAssets"].set("EUR", {} as any);
+      jest.spyOn(priceClient as any, "calculatePrice").mockResolvedValue({
+        timestamp: NOW,
+        price: new BigNumber(0.9),
+      });
+      mockRedisClient.exists.mockImplementation(async (key: string) =>
+        key === TOKEN ? 1 : 0,
+      );
+
+      const result = await priceClient["addNewTokenToCache"](TOKEN, "EUR");
+
+      expect(result?.currentPrice).toEqual(new BigNumber(0.9));
+      expect(mockRedisClient.ts.create).not.toHaveBeenCalledWith(
+        TOKEN,
+        expect.anything(),
+      );
+      expect(mockRedisClient.ts.create).toHaveBeenCalledWith(
+        priceClient["getTimeSeriesKey"](TOKEN, "EUR"),
+        expect.anything(),
+      );
+      expect(mockRedisClient.ts.add).toHaveBeenCalledWith(
+        priceClient["getTimeSeriesKey"](TOKEN, "EUR"),
+        NOW,
+        0.9,
+      );
+      expect(mockRedisClient.sAdd).not.toHaveBeenCalled();
+      mockRedisClient.exists.mockReset();
+    });
+  });
+
+  describe("tracked token management", () => {
+    it("should list tracked tokens with access counts and last update", async () => {
+      mockRedisClient.zRangeWithScores.mockResolvedValue([
+        { value: "XLM", score: 12 },
+        { value: "TOKEN1", score: 3 },
+      ]);
+      mockRedisClient.sMembers.mockResolvedValue(["TOKEN1"]);
+      mockRedisClient.ts.get.mockImplementation((key: string) =>
+        key === "XLM"
+          ? Promise.resolve({ timestamp: 123456789, value: 0.1 })
+          : Promise.reject(new Error("ERR TSDB: the key does not exist")),
+      );
+
+      const result = await priceClient.getTrackedTokens();
+
+      expect(result).toEqual([
+        {
+          token: "XLM",
+          accessCount: 12,
+          lastUpdated: 123456789,
+          pinned: false,
+        },
+        { token: "TOKEN1", accessCount: 3, lastUpdated: null, pinned: true },
+      ]);
+    });
+
+    it("should track and queue a pinned token that isn't tracked yet", async () => {
+      mockRedisClient.exists.mockResolvedValue(0);
+
+      await priceClient.pinToken("native");
+
+      expect(mockRedisClient.sRem).toHaveBeenCalledWith(
+        "price_evicted_tokens",
+        "XLM",
+      );
+      expect(mockRedisClient.ts.create).toHaveBeenCalledWith(
+        "XLM",
+        expect.any(Object),
+      );
+      expect(mockRedisClient.sAdd).toHaveBeenCalledWith(
+        "price_backfill_queue",
+        "XLM",
+      );
+      expect(mockRedisClient.sAdd).toHaveBeenCalledWith(
+        "price_pinned_tokens",
+        "XLM",
+      );
+    });
+
+    it("should delete every series of an evicted token", async () => {
+      await priceClient.evictToken("TOKEN1");
+
+      const pipeline = mockRedisClient.multi.mock.results[0].value;
+      expect(pipeline.del).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          "TOKEN1",
+          "TOKEN1:quarantine",
+          "TOKEN1:avg_1h",
+          "TOKEN1:open_5m",
+        ]),
+      );
+      expect(pipeline.zRem).toHaveBeenCalledWith("token_counter", "TOKEN1");
+      expect(pipeline.sRem).toHaveBeenCalledWith(
+        "price_pinned_tokens",
+        "TOKEN1",
+      );
+      expect(pipeline.sAdd).toHaveBeenCalledWith(
+        "price_evicted_tokens",
+        "TOKEN1",
+      );
+      expect(pipeline.exec).toHaveBeenCalled();
+    });
+
+    it("should not track evicted tokens again when their price is requested", async () => {
+      mockRedisClient.ts.get.mockRejectedValue(new Error("Key does not exist"));
+      mockRedisClient.sIsMember.mockResolvedValue(true);
+      const addNewTokenToCacheSpy = jest.spyOn(
+        priceClient as any,
+        "addNewTokenToCache",
+      );
+
+      const result = await priceClient.getPrice("TOKEN1");
+
+      expect(result).toBeNull();
+      expect(addNewTokenToCacheSpy).not.toHaveBeenCalled();
+    });
+
+    it("should skip tracked and evicted tokens when initializing the cache", async () => {
+      jest
+        .spyOn(priceClient as any, "fetchAllTokens")
+        .mockResolvedValue(["XLM", "TOKEN1", "TOKEN2"]);
+      mockRedisClient.sMembers.mockResolvedValue(["TOKEN2"]);
+      mockRedisClient.exists.mockImplementation((key: string) =>
+        Promise.resolve(key === "XLM" ? 1 : 0),
+      );
+
+      await priceClient.initPriceCache();
+
+      const pipeline = mockRedisClient.multi.mock.results[0].value;
+      expect(pipeline.zIncrBy).toHaveBeenCalledTimes(1);
+      expect(pipeline.zIncrBy).toHaveBeenCalledWith(
+        "token_counter",
+        1,
+        "TOKEN1",
+      );
+    });
+  });
+
+  describe("price alerts", () => {
+    it("should read the latest price and the price at the start of the window", async () => {
+      mockRedisClient.ts.get.mockResolvedValue({
+        timestamp: 7200000,
+        value: 2,
+      });
+      mockRedisClient.ts.revRange.mockResolvedValue([
+        { timestamp: 3000000, value: 1 },
+      ]);
+
+      const window = await priceClient["getPriceWindow"]("XLM", "USD", 3600000);
+
+      expect(mockRedisClient.ts.revRange).toHaveBeenCalledWith(
+        "XLM",
+        "-",
+        3600000,
+        { COUNT: 1 },
+      );
+      expect(window).toEqual({
+        timestamp: 7200000,
+        price: new BigNumber(2),
+        windowPrice: new BigNumber(1),
+      });
+      expect(mockRedisClient.zIncrBy).not.toHaveBeenCalled();
+    });
+
+    it("should track the token of a new alert", async () => {
+      const alert = {
+        token: "XLM",
+        quote: "USD",
+        direction: "up" as const,
+        threshold: new BigNumber(1),
+        percentChange: null,
+        windowMs: null,
+        webhookUrl: "https://example.com/webhook",
+      };
+      const getPrice = jest
+        .spyOn(priceClient, "getPrice")
+        .mockResolvedValue(null);
+      jest.spyOn(ValidateHelpers, "isPublicHttpsUrl").mockResolvedValue(true);
+      mockRedisClient.hLen.mockResolvedValue(0);
+
+      const created = await priceClient.createPriceAlert(alert);
+
+      expect(created).toMatchObject(alert);
+      expect(mockRedisClient.hSet).toHaveBeenCalledWith(
+        "price_alerts",
+        created.id,
+        expect.any(String),
+      );
+      expect(getPrice).toHaveBeenCalledWith("XLM", "USD");
+    });
+  });
+
   describe("fetchAllTokens", () => {
     beforeEach(() => {
       // Mock fetch
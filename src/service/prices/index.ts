@@ -1,17 +1,35 @@
 import { Logger } from "pino";
 import BigNumber from "bignumber.js";
+import { parentPort } from "worker_threads";
 import * as StellarSdk from "stellar-sdk";
 import * as StellarSdkNext from "stellar-sdk-next";
 import { getSdk } from "../../helper/stellar";
 import { NETWORK_URLS } from "../../helper/horizon-rpc";
-import { TimeSeriesDuplicatePolicies } from "@redis/time-series";
-import { PriceConfig } from "../../config";
+import { isContractId } from "../../helper/validate";
+import {
+  TimeSeriesAggregationType,
+  TimeSeriesDuplicatePolicies,
+} from "@redis/time-series";
+import { PriceConfig, QuoteAssetConfig } from "../../config";
+import { WorkerMessage } from "../../helper/metrics";
 import {
-  InvalidTokenFormatError,
   PriceCalculationError,
-  PathsNotFoundError,
+  UnsupportedQuoteError,
   ensureError,
 } from "./errors";
+import { PriceAggregator } from "./aggregator";
+import { PriceStream } from "./stream";
+import { PriceAlerts } from "./alerts";
+import { median } from "./helpers";
+import {
+  HorizonPathsSource,
+  LiquidityPoolSource,
+  ManualOverrideSource,
+  Sep40OracleSource,
+  SorobanPricingContext,
+  SorobanRouterSource,
+  getClassicAsset,
+} from "./sources";
 import {
   RedisClientWithTS,
   TokenPriceData,
@@ -19,6 +37,23 @@ import {
   TokenKey,
   TimeSeriesEntry,
   MAddEntry,
+  PriceHistoryPeriod,
+  TokenPriceHistoryData,
+  CandleInterval,
+  CandleField,
+  Candle,
+  CompactionRule,
+  TokenCandlesData,
+  QuoteAsset,
+  PriceSource,
+  PriceSample,
+  PriceConfidence,
+  TrackedToken,
+  RefreshTier,
+  PriceUpdate,
+  PriceAlert,
+  PriceAlertCondition,
+  PriceWindow,
 } from "./types";
 
 /**
@@ -35,17 +70,29 @@ export class PriceClient {
     "GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN",
   );
 
-  /**
-   * Stellar Asset for the native asset (XLM).
-   */
-  private static readonly NativeAsset = StellarSdk.Asset.native();
-
   /**
    * The receiving value of the USDC asset used as the destination amount for
    * pathfinding to calculate the per-unit price of a token in USD.
    */
   private static readonly DEFAULT_USD_RECEIVE_VALUE = new BigNumber(500);
 
+  /**
+   * The quote currency prices are returned in when no quote is requested. Prices in this
+   * quote are priced against USDC and stored in the token time series itself.
+   */
+  static readonly DEFAULT_QUOTE = "USD";
+
+  /**
+   * Redis pub/sub channel the price worker publishes every batch of new prices on, for API instances
+   * to stream them to clients.
+   */
+  private static readonly PRICE_UPDATES_CHANNEL = "price_updates";
+
+  /**
+   * Label for the Redis time series that hold token prices in a non default quote currency.
+   */
+  private static readonly PRICE_QUOTE_TS_KEY_PREFIX = "ts:price:quote";
+
   /**
    * Redis key that indicates whether the price cache has been successfully initialized.
    * Set to "true" after PriceClient.initPriceCache() completes successfully.
@@ -67,6 +114,34 @@ export class PriceClient {
    */
   private static readonly TOKEN_COUNTER_SORTED_SET_KEY = "token_counter";
 
+  /**
+   * Redis key holding the time (in milliseconds) the access counters were last decayed.
+   */
+  private static readonly TOKEN_COUNTER_LAST_DECAY_KEY =
+    "token_counter_last_decay";
+
+  /**
+   * How often (in milliseconds) the access counters are decayed.
+   */
+  private static readonly ACCESS_DECAY_INTERVAL_MS = 60 * 60 * 1000;
+
+  /**
+   * Factor the access counters are multiplied by on every decay, halving them once a day
+   * so the token ranking reflects recent demand.
+   */
+  private static readonly ACCESS_DECAY_FACTOR = Math.pow(0.5, 1 / 24);
+
+  /**
+   * Refresh tiers of the tracked tokens ranked by access frequency, from the most requested tokens down.
+   * The hot tier is refreshed on every update, colder tiers once every few updates.
+   * Pinned tokens are refreshed on every update regardless of their rank.
+   */
+  private static readonly REFRESH_TIERS: RefreshTier[] = [
+    { size: 50, refreshEvery: 1 },
+    { size: 150, refreshEvery: 5 },
+    { size: Infinity, refreshEvery: 30 },
+  ];
+
   /**
    * Represents one day in milliseconds (24h * 60m * 60s * 1000ms).
    * Used when calculating 24-hour price changes in getPrice() method.
@@ -79,6 +154,174 @@ export class PriceClient {
    */
   private static readonly RETENTION_PERIOD = 24 * 60 * 60 * 1000;
 
+  /**
+   * Label for the compacted Redis time series that back price history.
+   * Kept separate from PRICE_TS_KEY_PREFIX so label based queries on raw prices don't pick them up.
+   */
+  private static readonly PRICE_HISTORY_TS_KEY_PREFIX = "ts:price:history";
+
+  /**
+   * Label for the compacted Redis time series that back OHLC candles.
+   */
+  private static readonly PRICE_CANDLE_TS_KEY_PREFIX = "ts:price:candle";
+
+  /**
+   * Compaction rule that averages raw prices into hourly buckets, retained for 30 days
+   * to cover the longest supported price history period.
+   */
+  private static readonly PRICE_HISTORY_COMPACTION: CompactionRule = {
+    suffix: "avg_1h",
+    aggregation: TimeSeriesAggregationType.AVG,
+    bucketMs: 60 * 60 * 1000,
+    retention: 30 * 24 * 60 * 60 * 1000,
+    label: PriceClient.PRICE_HISTORY_TS_KEY_PREFIX,
+  };
+
+  /**
+   * Bucket size and retention (in milliseconds) of the compaction series for each candle interval.
+   */
+  private static readonly CANDLE_INTERVALS: Record<
+    CandleInterval,
+    { bucketMs: number; retention: number }
+  > = {
+    "5m": { bucketMs: 5 * 60 * 1000, retention: 2 * 24 * 60 * 60 * 1000 },
+    "1h": { bucketMs: 60 * 60 * 1000, retention: 30 * 24 * 60 * 60 * 1000 },
+    "1d": {
+      bucketMs: 24 * 60 * 60 * 1000,
+      retention: 365 * 24 * 60 * 60 * 1000,
+    },
+  };
+
+  /**
+   * Aggregation used to compact raw prices into each field of a candle.
+   */
+  private static readonly CANDLE_FIELDS: Record<
+    CandleField,
+    TimeSeriesAggregationType
+  > = {
+    open: TimeSeriesAggregationType.FIRST,
+    high: TimeSeriesAggregationType.MAX,
+    low: TimeSeriesAggregationType.MIN,
+    close: TimeSeriesAggregationType.LAST,
+  };
+
+  /**
+   * All compaction rules maintained for every tracked token, filled by Redis from the raw time series.
+   */
+  private static readonly COMPACTION_RULES: CompactionRule[] = [
+    PriceClient.PRICE_HISTORY_COMPACTION,
+    ...(Object.keys(PriceClient.CANDLE_INTERVALS) as CandleInterval[]).flatMap(
+      (interval) =>
+        (Object.keys(PriceClient.CANDLE_FIELDS) as CandleField[]).map(
+          (field) => ({
+            suffix: PriceClient.getCandleSuffix(field, interval),
+            aggregation: PriceClient.CANDLE_FIELDS[field],
+            bucketMs: PriceClient.CANDLE_INTERVALS[interval].bucketMs,
+            retention: PriceClient.CANDLE_INTERVALS[interval].retention,
+            label: PriceClient.PRICE_CANDLE_TS_KEY_PREFIX,
+          }),
+        ),
+    ),
+  ];
+
+  /**
+   * Window and downsampling bucket (in milliseconds) for each supported price history period.
+   * Periods that fit in RETENTION_PERIOD are read from the raw series, longer ones from the hourly compaction series.
+   */
+  private static readonly PRICE_HISTORY_PERIODS: Record<
+    PriceHistoryPeriod,
+    { windowMs: number; bucketMs: number; useCompaction: boolean }
+  > = {
+    "1h": {
+      windowMs: 60 * 60 * 1000,
+      bucketMs: 60 * 1000,
+      useCompaction: false,
+    },
+    "24h": {
+      windowMs: 24 * 60 * 60 * 1000,
+      bucketMs: 15 * 60 * 1000,
+      useCompaction: false,
+    },
+    "7d": {
+      windowMs: 7 * 24 * 60 * 60 * 1000,
+      bucketMs: 60 * 60 * 1000,
+      useCompaction: true,
+    },
+    "30d": {
+      windowMs: 30 * 24 * 60 * 60 * 1000,
+      bucketMs: 4 * 60 * 60 * 1000,
+      useCompaction: true,
+    },
+  };
+
+  /**
+   * Redis hash holding the confidence of the latest price of each token time series, keyed by the time series key.
+   * Each entry records the timestamp of the price it belongs to so a stale confidence is never returned.
+   */
+  private static readonly PRICE_CONFIDENCE_HASH_KEY = "price_confidence";
+
+  /**
+   * Redis set of tokens pinned by an admin. Pinned tokens are refreshed first on every update and
+   * are tracked even if nobody requests their price.
+   */
+  private static readonly PINNED_TOKENS_SET_KEY = "price_pinned_tokens";
+
+  /**
+   * Redis set of tokens evicted by an admin, e.g. spam tokens. Evicted tokens are not tracked again
+   * when their price is requested or when the price cache is initialized, until they are pinned.
+   */
+  private static readonly EVICTED_TOKENS_SET_KEY = "price_evicted_tokens";
+
+  /**
+   * Redis set of newly tracked tokens whose recent price history still has to be backfilled.
+   * Filled when a token is added to the cache on request and drained by the price worker.
+   */
+  private static readonly PRICE_BACKFILL_SET_KEY = "price_backfill_queue";
+
+  /**
+   * Maximum number of tokens to backfill in a single backfill run.
+   */
+  private static readonly BACKFILL_BATCH_SIZE = 10;
+
+  /**
+   * Resolution (in milliseconds) of the Horizon trade aggregations used to backfill price history.
+   */
+  private static readonly BACKFILL_RESOLUTION_MS = 15 * 60 * 1000;
+
+  /**
+   * Label for the Redis time series that hold price samples quarantined by the outlier guard.
+   */
+  private static readonly PRICE_QUARANTINE_TS_KEY_PREFIX =
+    "ts:price:quarantine";
+
+  /**
+   * Suffix of the time series key, relative to the token time series key, holding its quarantined samples.
+   */
+  private static readonly PRICE_QUARANTINE_SUFFIX = "quarantine";
+
+  /**
+   * Number of the most recent samples of a token the rolling median of the outlier guard is taken over.
+   */
+  private static readonly OUTLIER_WINDOW_SIZE = 10;
+
+  /**
+   * Minimum number of recent samples a token needs before the outlier guard starts rejecting samples.
+   */
+  private static readonly OUTLIER_MIN_SAMPLES = 3;
+
+  /**
+   * Number of samples agreeing with a new price level, counting the quarantined samples within the outlier
+   * window and the new sample itself, after which the level is accepted, so a genuine and lasting price
+   * move doesn't stay quarantined forever.
+   */
+  private static readonly OUTLIER_CONFIRMATION_SAMPLES = 5;
+
+  /**
+   * Maximum relative deviation of a new sample from the rolling median of the recent samples of a token,
+   * used when none is configured.
+   */
+  private static readonly DEFAULT_MAX_SAMPLE_DEVIATION = 0.5;
+
   /**
    * Delay (in milliseconds) between processing batches of tokens during price updates.
    * Prevents overwhelming the Stellar network and API rate limits.
@@ -127,8 +370,13 @@ export class PriceClient {
   private readonly batchUpdateDelayMs: number;
   private readonly calculationTimeoutMs: number;
   private readonly tokenUpdateBatchSize: number;
-  private readonly usdReceiveValue: BigNumber;
   private readonly priceOneDayThresholdMs: number;
+  private readonly maxSampleDeviation: number;
+  private readonly quoteAssets: Map<string, QuoteAsset>;
+  private readonly priceAggregator: PriceAggregator;
+  private updateCycle = 0;
+  private priceStream?: PriceStream;
+  private priceAlerts?: PriceAlerts;
 
   /**
    * Creates a new PriceClient instance.
@@ -162,32 +410,67 @@ export class PriceClient {
     this.tokenUpdateBatchSize =
       priceConfig.tokenUpdateBatchSize ||
       PriceClient.DEFAULT_TOKEN_UPDATE_BATCH_SIZE;
-    this.usdReceiveValue = new BigNumber(
-      priceConfig.usdReceiveValue || PriceClient.DEFAULT_USD_RECEIVE_VALUE,
-    );
     this.priceOneDayThresholdMs =
       priceConfig.priceOneDayThresholdMs ||
       PriceClient.DEFAULT_ONE_DAY_THRESHOLD_MS;
+    this.maxSampleDeviation =
+      priceConfig.maxSampleDeviation ||
+      PriceClient.DEFAULT_MAX_SAMPLE_DEVIATION;
+    this.quoteAssets = this.buildQuoteAssets(
+      priceConfig.usdReceiveValue,
+      priceConfig.quoteAssets || [],
+    );
+    this.priceAggregator = new PriceAggregator(
+      logger,
+      this.buildPriceSources(priceConfig),
+      priceConfig.maxSourceDeviation,
+    );
   }
 
+  /**
+   * Returns the quote currencies prices can be requested in, starting with the default quote.
+   *
+   * @returns Array of quote currency identifiers, e.g. ["USD", "EUR"]
+   */
+  getSupportedQuotes = (): string[] => {
+    return Array.from(this.quoteAssets.keys());
+  };
+
   /**
    * Retrieves the current price and 24-hour price change percentage for a token.
    * If the token is not in the cache, it also adds it to the cache.
    *
    * @param token - The token identifier in format "code:issuer" or "native" for native asset
+   * @param quote - The quote currency to return the price in, one of the supported quotes
    * @returns The token price data or null if price cannot be retrieved
    */
-  getPrice = async (token: TokenKey): Promise<TokenPriceData | null> => {
+  getPrice = async (
+    token: TokenKey,
+    quote: string = PriceClient.DEFAULT_QUOTE,
+  ): Promise<TokenPriceData | null> => {
     if (!this.redisClient) {
       return null;
     }
 
-    const tsKey = this.getTimeSeriesKey(token);
+    if (!this.quoteAssets.has(quote)) {
+      this.logger.error(`Unsupported quote ${quote} requested for ${token}`);
+      return null;
+    }
+
+    const tsKey = this.getTimeSeriesKey(token, quote);
     let latestPrice: TimeSeriesEntry | null = null;
     try {
       latestPrice = await this.redisClient.ts.get(tsKey);
     } catch (e) {
-      return this.addNewTokenToCache(token);
+      if (
+        await this.redisClient.sIsMember(
+          PriceClient.EVICTED_TOKENS_SET_KEY,
+          this.getTimeSeriesKey(token),
+        )
+      ) {
+        return null;
+      }
+      return this.addNewTokenToCache(token, quote);
     }
 
     try {
@@ -249,15 +532,18 @@ export class PriceClient {
         );
       }
 
+      // The sorted set tracks tokens regardless of the quote they are requested in.
       await this.redisClient.zIncrBy(
         PriceClient.TOKEN_COUNTER_SORTED_SET_KEY,
         1,
-        tsKey,
+        this.getTimeSeriesKey(token),
       );
 
       return {
         currentPrice,
         percentagePriceChange24h,
+        unreliable: await this.isPriceUnreliable(tsKey, latestPrice.timestamp),
+        confidence: await this.getConfidence(tsKey, latestPrice.timestamp),
       };
     } catch (e) {
       const error = ensureError(
@@ -269,9 +555,255 @@ export class PriceClient {
     }
   };
 
+  /**
+   * Streams the new prices of a list of tokens in a quote currency as the price worker adds them to the cache.
+   *
+   * @param tokens - The token identifiers in format "code:issuer", "native" or a contract ID
+   * @param quote - The quote currency to stream prices in, one of the supported quotes
+   * @param onUpdate - Called with every new price of one of the tokens
+   * @returns Function that stops the stream
+   * @throws Error if Redis client is not initialized or the price updates cannot be subscribed to
+   */
+  subscribeToPrices = async (
+    tokens: TokenKey[],
+    quote: string,
+    onUpdate: (update: PriceUpdate) => void,
+  ): Promise<() => void> => {
+    if (!this.redisClient) {
+      throw new Error("Redis client not initialized");
+    }
+
+    if (!this.priceStream) {
+      this.priceStream = new PriceStream(
+        this.logger,
+        this.redisClient,
+        PriceClient.PRICE_UPDATES_CHANNEL,
+      );
+    }
+    // Updates are published under the tracked token keys, map them back to the requested tokens.
+    const requestedTokens = new Map(
+      tokens.map((token) => [this.getTimeSeriesKey(token), token]),
+    );
+    return this.priceStream.subscribe(
+      Array.from(requestedTokens.keys()),
+      quote,
+      (update) =>
+        onUpdate({
+          ...update,
+          token: requestedTokens.get(update.token) || update.token,
+        }),
+    );
+  };
+
+  /**
+   * Registers a price alert, delivered to its webhook when the condition starts holding.
+   * The alert token is tracked as if its price was requested.
+   *
+   * @param condition - The alert condition and webhook
+   * @returns The alert, including the secret its deliveries are signed with
+   * @throws Error if Redis client is not initialized or the alert cannot be stored
+   */
+  createPriceAlert = async (
+    condition: PriceAlertCondition,
+  ): Promise<PriceAlert> => {
+    try {
+      const alert = await this.getPriceAlerts().create(condition);
+      await this.getPrice(condition.token, condition.quote);
+      return alert;
+    } catch (e) {
+      throw ensureError(e, `creating price alert for ${condition.token}`);
+    }
+  };
+
+  /**
+   * Retrieves a price alert.
+   *
+   * @param id - The alert ID
+   * @returns The alert, or null if there is no alert with that ID
+   * @throws Error if Redis client is not initialized or the alert cannot be read
+   */
+  getPriceAlert = async (id: string): Promise<PriceAlert | null> => {
+    try {
+      return await this.getPriceAlerts().get(id);
+    } catch (e) {
+      throw ensureError(e, `getting price alert ${id}`);
+    }
+  };
+
+  /**
+   * Deletes a price alert.
+   *
+   * @param id - The alert ID
+   * @returns Whether an alert was deleted
+   * @throws Error if Redis client is not initialized or the alert cannot be deleted
+   */
+  deletePriceAlert = async (id: string): Promise<boolean> => {
+    try {
+      return await this.getPriceAlerts().delete(id);
+    } catch (e) {
+      throw ensureError(e, `deleting price alert ${id}`);
+    }
+  };
+
+  /**
+   * Evaluates the price alerts against the latest prices and queues the deliveries of the alerts that fire.
+   * This method should be called after every price update.
+   *
+   * @throws Error if Redis client is not initialized or the alerts cannot be read
+   */
+  evaluatePriceAlerts = async (): Promise<void> => {
+    try {
+      await this.getPriceAlerts().evaluate();
+    } catch (e) {
+      throw ensureError(e, `evaluating price alerts`);
+    }
+  };
+
+  /**
+   * Sends the due price alert webhook deliveries, retrying failed ones with backoff.
+   *
+   * @throws Error if Redis client is not initialized or the delivery queue cannot be read
+   */
+  deliverPriceAlerts = async (): Promise<void> => {
+    try {
+      await this.getPriceAlerts().deliver();
+    } catch (e) {
+      throw ensureError(e, `delivering price alerts`);
+    }
+  };
+
+  /**
+   * Retrieves the downsampled price history of a token for the given period.
+   *
+   * @param token - The token identifier in format "code:issuer" or "native" for native asset
+   * @param period - The history window to return, one of "1h", "24h", "7d" or "30d"
+   * @returns The token price history or null if the token is not tracked or history cannot be retrieved
+   */
+  getPriceHistory = async (
+    token: TokenKey,
+    period: PriceHistoryPeriod,
+  ): Promise<TokenPriceHistoryData | null> => {
+    if (!this.redisClient) {
+      return null;
+    }
+
+    const tsKey = this.getTimeSeriesKey(token);
+    const { windowMs, bucketMs, useCompaction } =
+      PriceClient.PRICE_HISTORY_PERIODS[period];
+    const key = useCompaction
+      ? this.getCompactionKey(tsKey, PriceClient.PRICE_HISTORY_COMPACTION)
+      : tsKey;
+
+    try {
+      const entries = await this.redisClient.ts.range(
+        key,
+        Date.now() - windowMs,
+        "+",
+        {
+          AGGREGATION: {
+            type: TimeSeriesAggregationType.AVG,
+            timeBucket: bucketMs,
+          },
+        },
+      );
+
+      return {
+        token,
+        period,
+        prices: entries.map(({ timestamp, value }) => ({
+          timestamp,
+          price: new BigNumber(value),
+        })),
+      };
+    } catch (e) {
+      const error = ensureError(e, `getting price history for ${token}`);
+      this.logger.error(error);
+      return null;
+    }
+  };
+
+  /**
+   * Retrieves the most recent OHLC candles of a token for the given interval.
+   * The candle of the current, still open bucket is included.
+   *
+   * @param token - The token identifier in format "code:issuer" or "native" for native asset
+   * @param interval - The candle interval, one of "5m", "1h" or "1d"
+   * @param limit - The maximum number of candles to return
+   * @returns The token candles in chronological order or null if the candles cannot be retrieved
+   */
+  getCandles = async (
+    token: TokenKey,
+    interval: CandleInterval,
+    limit: number,
+  ): Promise<TokenCandlesData | null> => {
+    if (!this.redisClient) {
+      return null;
+    }
+
+    const tsKey = this.getTimeSeriesKey(token);
+    const { bucketMs } = PriceClient.CANDLE_INTERVALS[interval];
+    // Align to the bucket boundary so the window holds exactly `limit` buckets including the open one.
+    const fromTimestamp =
+      Math.floor(Date.now() / bucketMs) * bucketMs - (limit - 1) * bucketMs;
+    const fields = Object.keys(PriceClient.CANDLE_FIELDS) as CandleField[];
+
+    try {
+      const series = await Promise.all(
+        fields.map((field) =>
+          this.redisClient!.ts.range(
+            this.getCompactionKey(
+              tsKey,
+              PriceClient.getCandleSuffix(field, interval),
+            ),
+            fromTimestamp,
+            "+",
+            { LATEST: true },
+          ),
+        ),
+      );
+
+      // Every field is compacted from the same raw series with the same bucket, so buckets share timestamps.
+      const buckets = new Map<number, Partial<Record<CandleField, number>>>();
+      fields.forEach((field, i) => {
+        for (const { timestamp, value } of series[i]) {
+          buckets.set(timestamp, {
+            ...buckets.get(timestamp),
+            [field]: value,
+          });
+        }
+      });
+
+      const candles: Candle[] = [];
+      for (const [timestamp, bucket] of buckets) {
+        if (fields.some((field) => bucket[field] === undefined)) {
+          continue;
+        }
+        candles.push({
+          timestamp,
+          open: new BigNumber(bucket.open!),
+          high: new BigNumber(bucket.high!),
+          low: new BigNumber(bucket.low!),
+          close: new BigNumber(bucket.close!),
+        });
+      }
+      candles.sort((a, b) => a.timestamp - b.timestamp);
+
+      return {
+        token,
+        interval,
+        candles: candles.slice(-limit),
+      };
+    } catch (e) {
+      const error = ensureError(e, `getting candles for ${token}`);
+      this.logger.error(error);
+      return null;
+    }
+  };
+
   /**
    * Initializes the price cache by fetching all tokens and creating time series
    * entries for each in Redis. This should be called once at service startup.
+   * Tokens that are already tracked or were evicted are skipped.
    *
    * @throws Error if Redis client is not initialized or price cache initialization fails
    */
@@ -281,8 +813,24 @@ export class PriceClient {
         throw new Error("Redis client not initialized");
       }
 
-      const tokens = await this.fetchAllTokens();
-      this.logger.info(`Fetched ${tokens.length} total tokens`);
+      const fetchedTokens = await this.fetchAllTokens();
+      this.logger.info(`Fetched ${fetchedTokens.length} total tokens`);
+
+      // Skip tokens that are already tracked so initialization can be re-run, and tokens evicted by an admin.
+      const evictedTokens = await this.redisClient.sMembers(
+        PriceClient.EVICTED_TOKENS_SET_KEY,
+      );
+      const tokens: TokenKey[] = [];
+      for (const token of fetchedTokens) {
+        const tsKey = this.getTimeSeriesKey(token);
+        if (
+          evictedTokens.includes(tsKey) ||
+          (await this.redisClient.exists(tsKey))
+        ) {
+          continue;
+        }
+        tokens.push(token);
+      }
 
       // Create time series and sorted set for each token and add it to Redis pipeline.
       // The Redis pipeline submits all the commands at once to Redis, which is more efficient than submitting them one by one.
@@ -297,7 +845,33 @@ export class PriceClient {
               PRICE_CACHE_LABEL: PriceClient.PRICE_TS_KEY_PREFIX,
             },
           });
+          for (const rule of PriceClient.COMPACTION_RULES) {
+            const compactionKey = this.getCompactionKey(tsKey, rule);
+            pipeline.ts.create(compactionKey, {
+              RETENTION: rule.retention,
+              DUPLICATE_POLICY: TimeSeriesDuplicatePolicies.LAST,
+              LABELS: {
+                PRICE_CACHE_LABEL: rule.label,
+              },
+            });
+            pipeline.ts.createRule(
+              tsKey,
+              compactionKey,
+              rule.aggregation,
+              rule.bucketMs,
+            );
+          }
+          for (const quoteKey of this.getQuoteTimeSeriesKeys(token)) {
+            pipeline.ts.create(quoteKey, {
+              RETENTION: PriceClient.RETENTION_PERIOD,
+              DUPLICATE_POLICY: TimeSeriesDuplicatePolicies.LAST,
+              LABELS: {
+                PRICE_CACHE_LABEL: PriceClient.PRICE_QUOTE_TS_KEY_PREFIX,
+              },
+            });
+          }
           pipeline.zIncrBy(PriceClient.TOKEN_COUNTER_SORTED_SET_KEY, 1, tsKey);
+          pipeline.sAdd(PriceClient.PRICE_BACKFILL_SET_KEY, tsKey);
           this.logger.info(`Creating time series ${tsKey}`);
           this.logger.info(`Adding to sorted set ${tsKey}`);
         } catch (error) {
@@ -317,46 +891,352 @@ export class PriceClient {
   };
 
   /**
-   * Updates prices for all tokens in the cache. This method should be called
-   * periodically to keep prices current.
+   * Creates the compaction series (price history and candles) for tracked tokens that don't have them yet.
+   * Tokens tracked before a compaction rule was introduced only have the series that existed at the time,
+   * so this should be called on worker startup when the price cache is already initialized.
    *
-   * @throws Error if Redis client is not initialized or price update fails
+   * @throws Error if Redis client is not initialized or the compaction series cannot be created
    */
-  updatePrices = async (): Promise<void> => {
+  initCompactionSeries = async (): Promise<void> => {
     try {
       if (!this.redisClient) {
         throw new Error("Redis client not initialized");
       }
 
-      const tokens = await this.getTokensToUpdate();
-      this.logger.info(`Updating prices for ${tokens.length} tokens`);
-      await this.processTokenBatches(tokens);
+      const tsKeys = await this.redisClient.zRange(
+        PriceClient.TOKEN_COUNTER_SORTED_SET_KEY,
+        0,
+        -1,
+      );
+      for (const tsKey of tsKeys) {
+        for (const rule of PriceClient.COMPACTION_RULES) {
+          if (
+            await this.redisClient.exists(this.getCompactionKey(tsKey, rule))
+          ) {
+            continue;
+          }
+
+          await this.createCompactionSeries(tsKey, rule);
+        }
+      }
     } catch (e) {
-      throw ensureError(e, `updating prices`);
+      throw ensureError(e, `initializing compaction series`);
     }
   };
 
   /**
-   * Retrieves tokens to update prices for, from the Redis sorted set, ordered by access frequency.
+   * Creates the time series of the configured non default quotes for tracked tokens that don't have them yet.
+   * Quotes can be added to the config after tokens are tracked, so this should be called on worker startup
+   * when the price cache is already initialized.
    *
-   * @returns Array of token keys to update
-   * @throws Error if no tokens are found in the sorted set
-   * @private
+   * @throws Error if Redis client is not initialized or the quote series cannot be created
    */
-  private async getTokensToUpdate(): Promise<TokenKey[]> {
-    const tokens = await this.redisClient!.zRange(
-      PriceClient.TOKEN_COUNTER_SORTED_SET_KEY,
-      0,
-      -1,
-      { REV: true },
-    );
+  initQuoteSeries = async (): Promise<void> => {
+    try {
+      if (!this.redisClient) {
+        throw new Error("Redis client not initialized");
+      }
 
-    if (tokens.length === 0) {
-      throw new Error("No tokens found in sorted set");
+      const tokens = await this.redisClient.zRange(
+        PriceClient.TOKEN_COUNTER_SORTED_SET_KEY,
+        0,
+        -1,
+      );
+      for (const token of tokens) {
+        await this.createMissingQuoteSeries(token);
+      }
+    } catch (e) {
+      throw ensureError(e, `initializing quote series`);
     }
+  };
 
-    return tokens;
-  }
+  /**
+   * Updates prices for the tokens in the cache whose refresh tier is due. This method should be called
+   * periodically to keep prices current.
+   *
+   * @throws Error if Redis client is not initialized or price update fails
+   */
+  updatePrices = async (): Promise<void> => {
+    try {
+      if (!this.redisClient) {
+        throw new Error("Redis client not initialized");
+      }
+
+      await this.decayAccessCounts();
+      const tokens = await this.getTokensToUpdate();
+      this.logger.info(`Updating prices for ${tokens.length} tokens`);
+      await this.processTokenBatches(tokens);
+    } catch (e) {
+      throw ensureError(e, `updating prices`);
+    }
+  };
+
+  /**
+   * Backfills the recent price history of tokens newly added to the cache from Horizon trade aggregations,
+   * so their 24h price change is available right away instead of after a day of tracking.
+   * Only the default quote is backfilled and contract tokens, which don't trade on the DEX, are skipped.
+   *
+   * @throws Error if Redis client is not initialized or the backfill queue cannot be read
+   */
+  backfillNewTokens = async (): Promise<void> => {
+    try {
+      if (!this.redisClient) {
+        throw new Error("Redis client not initialized");
+      }
+
+      // Tokens are only removed from the queue once backfilled, so a failed backfill is retried next run.
+      const tokens = await this.redisClient.sRandMemberCount(
+        PriceClient.PRICE_BACKFILL_SET_KEY,
+        PriceClient.BACKFILL_BATCH_SIZE,
+      );
+      for (const token of tokens) {
+        try {
+          await this.backfillToken(token);
+          await this.redisClient.sRem(
+            PriceClient.PRICE_BACKFILL_SET_KEY,
+            token,
+          );
+        } catch (e) {
+          const error = ensureError(
+            e,
+            `backfilling price history for ${token}`,
+          );
+          this.logger.error(error);
+        }
+      }
+    } catch (e) {
+      throw ensureError(e, `backfilling new tokens`);
+    }
+  };
+
+  /**
+   * Lists the tracked tokens ordered by access frequency, along with the time of their latest price.
+   *
+   * @returns The tracked tokens
+   * @throws Error if Redis client is not initialized or the tracked tokens cannot be read
+   */
+  getTrackedTokens = async (): Promise<TrackedToken[]> => {
+    try {
+      if (!this.redisClient) {
+        throw new Error("Redis client not initialized");
+      }
+
+      const [entries, pinnedTokens] = await Promise.all([
+        this.redisClient.zRangeWithScores(
+          PriceClient.TOKEN_COUNTER_SORTED_SET_KEY,
+          0,
+          -1,
+          { REV: true },
+        ),
+        this.redisClient.sMembers(PriceClient.PINNED_TOKENS_SET_KEY),
+      ]);
+
+      return await Promise.all(
+        entries.map(async ({ value, score }) => {
+          let lastUpdated: number | null = null;
+          try {
+            const latestPrice = await this.redisClient!.ts.get(value);
+            lastUpdated = latestPrice ? latestPrice.timestamp : null;
+          } catch (e) {
+            // The time series of a token can be missing if its creation failed.
+          }
+
+          return {
+            token: value,
+            accessCount: score,
+            lastUpdated,
+            pinned: pinnedTokens.includes(value),
+          };
+        }),
+      );
+    } catch (e) {
+      throw ensureError(e, `getting tracked tokens`);
+    }
+  };
+
+  /**
+   * Pins a token so it is tracked and refreshed first on every update, regardless of how often it is requested.
+   * Pinning an evicted token tracks it again.
+   *
+   * @param token - The token identifier in format "code:issuer", "XLM" or a contract ID
+   * @throws Error if Redis client is not initialized or the token cannot be pinned
+   */
+  pinToken = async (token: TokenKey): Promise<void> => {
+    try {
+      if (!this.redisClient) {
+        throw new Error("Redis client not initialized");
+      }
+
+      const tsKey = this.getTimeSeriesKey(token);
+      await this.redisClient.sRem(PriceClient.EVICTED_TOKENS_SET_KEY, tsKey);
+      if (!(await this.redisClient.exists(tsKey))) {
+        await this.createTimeSeries(tsKey);
+        await this.redisClient.sAdd(PriceClient.PRICE_BACKFILL_SET_KEY, tsKey);
+      }
+      await this.redisClient.sAdd(PriceClient.PINNED_TOKENS_SET_KEY, tsKey);
+    } catch (e) {
+      throw ensureError(e, `pinning ${token}`);
+    }
+  };
+
+  /**
+   * Unpins a token. The token stays tracked and is refreshed by access frequency again.
+   *
+   * @param token - The token identifier in format "code:issuer", "XLM" or a contract ID
+   * @throws Error if Redis client is not initialized or the token cannot be unpinned
+   */
+  unpinToken = async (token: TokenKey): Promise<void> => {
+    try {
+      if (!this.redisClient) {
+        throw new Error("Redis client not initialized");
+      }
+
+      await this.redisClient.sRem(
+        PriceClient.PINNED_TOKENS_SET_KEY,
+        this.getTimeSeriesKey(token),
+      );
+    } catch (e) {
+      throw ensureError(e, `unpinning ${token}`);
+    }
+  };
+
+  /**
+   * Stops tracking a token and deletes all of its price data. The token is not tracked again when its
+   * price is requested, so this can be used to clean up spam tokens.
+   *
+   * @param token - The token identifier in format "code:issuer", "XLM" or a contract ID
+   * @throws Error if Redis client is not initialized or the token cannot be evicted
+   */
+  evictToken = async (token: TokenKey): Promise<void> => {
+    try {
+      if (!this.redisClient) {
+        throw new Error("Redis client not initialized");
+      }
+
+      const tsKey = this.getTimeSeriesKey(token);
+      const seriesKeys = [tsKey, ...this.getQuoteTimeSeriesKeys(tsKey)];
+      const keys = [
+        ...seriesKeys,
+        ...seriesKeys.map((key) => this.getQuarantineKey(key)),
+        ...PriceClient.COMPACTION_RULES.map((rule) =>
+          this.getCompactionKey(tsKey, rule),
+        ),
+      ];
+
+      await this.redisClient
+        .multi()
+        .del(keys)
+        .hDel(PriceClient.PRICE_CONFIDENCE_HASH_KEY, seriesKeys)
+        .zRem(PriceClient.TOKEN_COUNTER_SORTED_SET_KEY, tsKey)
+        .sRem(PriceClient.PINNED_TOKENS_SET_KEY, tsKey)
+        .sRem(PriceClient.PRICE_BACKFILL_SET_KEY, tsKey)
+        .sAdd(PriceClient.EVICTED_TOKENS_SET_KEY, tsKey)
+        .exec();
+      this.logger.info(`Evicted ${tsKey} from the price cache`);
+    } catch (e) {
+      throw ensureError(e, `evicting ${token}`);
+    }
+  };
+
+  /**
+   * Re-runs the price cache initialization, tracking the current top tokens that aren't tracked yet
+   * and creating any missing quote and compaction series.
+   *
+   * @throws Error if Redis client is not initialized or initialization fails
+   */
+  reinitializePriceCache = async (): Promise<void> => {
+    await this.initPriceCache();
+    await this.initQuoteSeries();
+    await this.initCompactionSeries();
+  };
+
+  /**
+   * Retrieves tokens to update prices for: the pinned tokens first, then the tokens in the Redis sorted set
+   * ordered by access frequency whose refresh tier is due in this update cycle.
+   *
+   * @returns Array of token keys to update
+   * @throws Error if no tokens are found in the sorted set
+   * @private
+   */
+  private async getTokensToUpdate(): Promise<TokenKey[]> {
+    const [pinnedTokens, trackedTokens] = await Promise.all([
+      this.redisClient!.sMembers(PriceClient.PINNED_TOKENS_SET_KEY),
+      this.redisClient!.zRange(
+        PriceClient.TOKEN_COUNTER_SORTED_SET_KEY,
+        0,
+        -1,
+        {
+          REV: true,
+        },
+      ),
+    ]);
+
+    if (pinnedTokens.length === 0 && trackedTokens.length === 0) {
+      throw new Error("No tokens found in sorted set");
+    }
+
+    const cycle = this.updateCycle++;
+    const dueTokens = trackedTokens.filter((_, rank) =>
+      this.isTierDue(rank, cycle),
+    );
+    return Array.from(new Set([...pinnedTokens, ...dueTokens]));
+  }
+
+  /**
+   * Checks whether the refresh tier of a token is due in an update cycle.
+   *
+   * @param rank - The rank of the token by access frequency, 0 being the most requested
+   * @param cycle - The update cycle, counted from the worker start
+   * @returns True if the token should be refreshed in this cycle
+   * @private
+   */
+  private isTierDue(rank: number, cycle: number): boolean {
+    let tierStart = 0;
+    for (const tier of PriceClient.REFRESH_TIERS) {
+      if (rank < tierStart + tier.size) {
+        return cycle % tier.refreshEvery === 0;
+      }
+      tierStart += tier.size;
+    }
+    return false;
+  }
+
+  /**
+   * Decays the access counters once per decay interval, applying the decay of every interval elapsed
+   * since the last one. Weighting the sorted set by itself scales all counters in a single command.
+   *
+   * @private
+   */
+  private async decayAccessCounts(): Promise<void> {
+    const now = Date.now();
+    const lastDecay = Number(
+      await this.redisClient!.get(PriceClient.TOKEN_COUNTER_LAST_DECAY_KEY),
+    );
+    if (!lastDecay) {
+      await this.redisClient!.set(
+        PriceClient.TOKEN_COUNTER_LAST_DECAY_KEY,
+        now.toString(),
+      );
+      return;
+    }
+
+    const intervals = Math.floor(
+      (now - lastDecay) / PriceClient.ACCESS_DECAY_INTERVAL_MS,
+    );
+    if (intervals < 1) {
+      return;
+    }
+
+    await this.redisClient!.zUnionStore(
+      PriceClient.TOKEN_COUNTER_SORTED_SET_KEY,
+      PriceClient.TOKEN_COUNTER_SORTED_SET_KEY,
+      { WEIGHTS: [Math.pow(PriceClient.ACCESS_DECAY_FACTOR, intervals)] },
+    );
+    await this.redisClient!.set(
+      PriceClient.TOKEN_COUNTER_LAST_DECAY_KEY,
+      (lastDecay + intervals * PriceClient.ACCESS_DECAY_INTERVAL_MS).toString(),
+    );
+  }
 
   /**
    * Processes tokens in batches to prevent overwhelming the network and API limits.
@@ -383,6 +1263,7 @@ export class PriceClient {
 
   /**
    * Adds a batch of new token prices and the timestamps to the Redis timeseries structure.
+   * Samples rejected by the outlier guard are quarantined instead of being added.
    *
    * @param tokenBatch - Array of token keys to add to cache
    * @throws Error if no prices could be calculated
@@ -395,48 +1276,381 @@ export class PriceClient {
       return;
     }
 
-    const mAddEntries: MAddEntry[] = prices.map(
-      ({ token, timestamp, price }) => ({
-        key: this.getTimeSeriesKey(token),
+    const acceptedPrices = await this.rejectOutlierSamples(prices);
+    if (acceptedPrices.length === 0) {
+      this.logger.warn("All prices calculated for batch were quarantined");
+      return;
+    }
+
+    const mAddEntries: MAddEntry[] = acceptedPrices.map(
+      ({ token, quote, timestamp, price }) => ({
+        key: this.getTimeSeriesKey(token, quote),
         timestamp,
         value: price.toNumber(),
       }),
     );
     await this.redisClient!.ts.mAdd(mAddEntries);
+    await this.storeConfidence(acceptedPrices);
+    await this.publishPriceUpdates(acceptedPrices);
+  }
+
+  /**
+   * Publishes the prices added to the cache to the API instances streaming them.
+   * A failure is logged only, as the prices are already stored.
+   *
+   * @param samples - The price samples added to the cache
+   * @private
+   */
+  private async publishPriceUpdates(samples: PriceSample[]): Promise<void> {
+    try {
+      await this.redisClient!.publish(
+        PriceClient.PRICE_UPDATES_CHANNEL,
+        JSON.stringify(
+          samples.map(({ token, quote, timestamp, price }) => ({
+            token,
+            quote,
+            timestamp,
+            price: price.toString(),
+          })),
+        ),
+      );
+    } catch (e) {
+      const error = ensureError(e, `publishing price updates`);
+      this.logger.error(error);
+    }
   }
 
   /**
-   * Calculates prices for a batch of tokens in parallel.
+   * Records the confidence of the price samples that carry one, replacing the previous confidence of their token.
+   *
+   * @param samples - The price samples added to the cache
+   * @private
+   */
+  private async storeConfidence(samples: PriceSample[]): Promise<void> {
+    const entries: Record<string, string> = {};
+    for (const { token, quote, timestamp, confidence } of samples) {
+      if (confidence) {
+        entries[this.getTimeSeriesKey(token, quote)] = JSON.stringify({
+          timestamp,
+          hops: confidence.hops,
+          pathCount: confidence.pathCount,
+          spread: confidence.spread.toString(),
+        });
+      }
+    }
+
+    if (Object.keys(entries).length) {
+      await this.redisClient!.hSet(
+        PriceClient.PRICE_CONFIDENCE_HASH_KEY,
+        entries,
+      );
+    }
+  }
+
+  /**
+   * Returns the price alerts of this client, created on first use.
+   *
+   * @returns The price alerts
+   * @throws Error if Redis client is not initialized
+   * @private
+   */
+  private getPriceAlerts(): PriceAlerts {
+    if (!this.redisClient) {
+      throw new Error("Redis client not initialized");
+    }
+    if (!this.priceAlerts) {
+      this.priceAlerts = new PriceAlerts(
+        this.logger,
+        this.redisClient,
+        this.getPriceWindow,
+      );
+    }
+    return this.priceAlerts;
+  }
+
+  /**
+   * Retrieves the latest price of a token along with its price a given time before it.
+   * Unlike getPrice, this doesn't count as an access of the token.
+   *
+   * @param token - The token identifier in format "code:issuer", "XLM" or a contract ID
+   * @param quote - The quote currency of the prices
+   * @param windowMs - How long (in milliseconds) before the latest price to take the window price at
+   * @returns The price window, or null if the token has no price
+   * @private
+   */
+  private getPriceWindow = async (
+    token: TokenKey,
+    quote: string,
+    windowMs: number,
+  ): Promise<PriceWindow | null> => {
+    const tsKey = this.getTimeSeriesKey(token, quote);
+    try {
+      const latestPrice = await this.redisClient!.ts.get(tsKey);
+      if (!latestPrice) {
+        return null;
+      }
+      const [windowEntry] = await this.redisClient!.ts.revRange(
+        tsKey,
+        "-",
+        latestPrice.timestamp - windowMs,
+        { COUNT: 1 },
+      );
+      return {
+        timestamp: latestPrice.timestamp,
+        price: new BigNumber(latestPrice.value),
+        windowPrice: windowEntry ? new BigNumber(windowEntry.value) : null,
+      };
+    } catch (e) {
+      const error = ensureError(e, `getting price window for ${token}`);
+      this.logger.error(error);
+      return null;
+    }
+  };
+
+  /**
+   * Retrieves the confidence recorded for the latest price of a token.
+   *
+   * @param tsKey - The time series key of the token
+   * @param latestTimestamp - Timestamp of the latest price of the token
+   * @returns The confidence of the latest price, null if none was recorded for it or it can't be read
+   * @private
+   */
+  private async getConfidence(
+    tsKey: string,
+    latestTimestamp: number,
+  ): Promise<PriceConfidence | null> {
+    try {
+      const stored = await this.redisClient!.hGet(
+        PriceClient.PRICE_CONFIDENCE_HASH_KEY,
+        tsKey,
+      );
+      if (!stored) {
+        return null;
+      }
+
+      const { timestamp, hops, pathCount, spread } = JSON.parse(stored);
+      if (timestamp !== latestTimestamp) {
+        return null;
+      }
+      return { hops, pathCount, spread: new BigNumber(spread) };
+    } catch (e) {
+      const error = ensureError(e, `getting price confidence for ${tsKey}`);
+      this.logger.error(error);
+      return null;
+    }
+  }
+
+  /**
+   * Quarantines the price samples that deviate from the recent prices of their token and reports them
+   * to the main thread, which counts them per token.
+   * A failure of the guard itself lets the sample through so prices keep updating.
+   *
+   * @param samples - The calculated price samples
+   * @returns The samples that passed the outlier guard
+   * @private
+   */
+  private async rejectOutlierSamples(
+    samples: PriceSample[],
+  ): Promise<PriceSample[]> {
+    const results = await Promise.all(
+      samples.map(async (sample) => {
+        const tsKey = this.getTimeSeriesKey(sample.token, sample.quote);
+        try {
+          if (!(await this.isOutlierSample(tsKey, sample))) {
+            return sample;
+          }
+
+          await this.redisClient!.ts.add(
+            this.getQuarantineKey(tsKey),
+            sample.timestamp,
+            sample.price.toNumber(),
+            {
+              RETENTION: PriceClient.RETENTION_PERIOD,
+              ON_DUPLICATE: TimeSeriesDuplicatePolicies.LAST,
+              LABELS: {
+                PRICE_CACHE_LABEL: PriceClient.PRICE_QUARANTINE_TS_KEY_PREFIX,
+              },
+            },
+          );
+          this.logger.warn(
+            `Quarantined ${sample.quote} price sample for ${sample.token}: ${sample.price.toString()}`,
+          );
+          parentPort?.postMessage({
+            type: WorkerMessage.PRICE_OUTLIER_REJECTED,
+            token: sample.token,
+          });
+          return null;
+        } catch (e) {
+          const error = ensureError(
+            e,
+            `checking ${sample.quote} price sample for ${sample.token}`,
+          );
+          this.logger.error(error);
+          return sample;
+        }
+      }),
+    );
+
+    return results.filter((sample): sample is PriceSample => sample !== null);
+  }
+
+  /**
+   * Checks whether a price sample deviates from the rolling median of the recent samples of its token
+   * by more than the maximum sample deviation. A deviating sample is still accepted once enough
+   * quarantined samples within the window agree with it, as the price level has then genuinely moved.
+   * These keep counting after the first acceptance, so the following samples at the new level are
+   * accepted too while the median catches up.
+   *
+   * @param tsKey - The time series key of the token
+   * @param sample - The price sample to check
+   * @returns True if the sample should be quarantined
+   * @private
+   */
+  private async isOutlierSample(
+    tsKey: string,
+    sample: PriceSample,
+  ): Promise<boolean> {
+    const recentSamples = await this.redisClient!.ts.revRange(tsKey, "-", "+", {
+      COUNT: PriceClient.OUTLIER_WINDOW_SIZE,
+    });
+    if (recentSamples.length < PriceClient.OUTLIER_MIN_SAMPLES) {
+      return false;
+    }
+
+    const medianPrice = median(
+      recentSamples.map(({ value }) => new BigNumber(value)),
+    );
+    if (!this.deviates(sample.price, medianPrice)) {
+      return false;
+    }
+
+    // revRange returns the latest accepted sample first, so the window starts at the last one.
+    const quarantinedSamples = await this.getQuarantinedSamples(
+      tsKey,
+      recentSamples[recentSamples.length - 1].timestamp,
+    );
+    const agreeingSamples = quarantinedSamples.filter(
+      ({ value }) => !this.deviates(new BigNumber(value), sample.price),
+    );
+    if (
+      agreeingSamples.length >=
+      PriceClient.OUTLIER_CONFIRMATION_SAMPLES - 1
+    ) {
+      this.logger.info(
+        `Accepting ${sample.quote} price level of ${sample.token} confirmed by ${agreeingSamples.length} quarantined samples`,
+      );
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Checks whether a price deviates from a reference price by more than the maximum sample deviation.
+   *
+   * @param price - The price to check
+   * @param reference - The price to compare against
+   * @returns True if the relative deviation exceeds the maximum sample deviation
+   * @private
+   */
+  private deviates(price: BigNumber, reference: BigNumber): boolean {
+    if (reference.isZero()) {
+      return false;
+    }
+    return price
+      .minus(reference)
+      .abs()
+      .dividedBy(reference)
+      .gt(this.maxSampleDeviation);
+  }
+
+  /**
+   * Retrieves the quarantined samples of a token newer than the given timestamp.
+   *
+   * @param tsKey - The time series key of the token
+   * @param after - Timestamp (in milliseconds) after which to return quarantined samples
+   * @returns The quarantined samples, empty if the token has none
+   * @private
+   */
+  private async getQuarantinedSamples(
+    tsKey: string,
+    after: number,
+  ): Promise<TimeSeriesEntry[]> {
+    try {
+      return await this.redisClient!.ts.range(
+        this.getQuarantineKey(tsKey),
+        after + 1,
+        "+",
+      );
+    } catch (e) {
+      // The quarantine series is only created once a sample of the token is quarantined.
+      return [];
+    }
+  }
+
+  /**
+   * Checks whether a token has a quarantined sample newer than its latest accepted price.
+   *
+   * @param tsKey - The time series key of the token
+   * @param latestTimestamp - Timestamp of the latest accepted price of the token
+   * @returns True if the latest price sample of the token was quarantined
+   * @private
+   */
+  private async isPriceUnreliable(
+    tsKey: string,
+    latestTimestamp: number,
+  ): Promise<boolean> {
+    try {
+      const quarantined = await this.redisClient!.ts.get(
+        this.getQuarantineKey(tsKey),
+      );
+      return !!quarantined && quarantined.timestamp > latestTimestamp;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  /**
+   * Builds the key of the time series holding the quarantined samples of a token time series.
+   *
+   * @param tsKey - The time series key of the token
+   * @returns The quarantine time series key
+   * @private
+   */
+  private getQuarantineKey(tsKey: string): string {
+    return `${tsKey}:${PriceClient.PRICE_QUARANTINE_SUFFIX}`;
+  }
+
+  /**
+   * Calculates prices for a batch of tokens in parallel, in every supported quote.
    *
    * @param tokens - Array of token keys to calculate prices for
-   * @returns Array of calculated prices with token, timestamp, and price information
+   * @returns Array of calculated prices with token, quote, timestamp, price and confidence information
    * @throws Error if batch price calculation fails
    * @private
    */
   private async calculateBatchPrices(
     tokens: TokenKey[],
-  ): Promise<{ token: TokenKey; timestamp: number; price: BigNumber }[]> {
+  ): Promise<PriceSample[]> {
     try {
-      const pricePromises = tokens.map((token) =>
-        this.calculatePriceInUSD(token)
-          .then((price) => ({
-            token,
-            timestamp: price.timestamp,
-            price: price.price,
-          }))
-          .catch((e) => {
-            const error = ensureError(e, `calculating price for ${token}`);
-            this.logger.error(error);
-            return null;
-          }),
+      const pricePromises = tokens.flatMap((token) =>
+        this.getSupportedQuotes().map((quote) =>
+          this.calculatePrice(token, quote)
+            .then((price) => ({ token, quote, ...price }))
+            .catch((e) => {
+              const error = ensureError(
+                e,
+                `calculating ${quote} price for ${token}`,
+              );
+              this.logger.error(error);
+              return null;
+            }),
+        ),
       );
 
       // Filter out null responses - these are tokens for which we failed to calculate a price.
       const prices = (await Promise.all(pricePromises)).filter(
-        (
-          price,
-        ): price is { token: TokenKey; timestamp: number; price: BigNumber } =>
-          price !== null,
+        (price): price is PriceSample => price !== null,
       );
 
       return prices;
@@ -445,6 +1659,146 @@ export class PriceClient {
     }
   }
 
+  /**
+   * Inserts the prices of a token over the retention period, reconstructed from trade aggregations,
+   * before the first price in its time series.
+   *
+   * @param token - Token key of the token to backfill
+   * @private
+   */
+  private async backfillToken(token: TokenKey): Promise<void> {
+    if (isContractId(token)) {
+      this.logger.info(`Skipping price backfill for contract token ${token}`);
+      return;
+    }
+
+    const tsKey = this.getTimeSeriesKey(token);
+    const end = Date.now();
+    // Samples older than the retention period relative to the latest price are rejected by Redis.
+    const earliest = end - PriceClient.RETENTION_PERIOD;
+    const prices = await this.getHistoricalPrices(
+      getClassicAsset(token),
+      earliest,
+      end,
+    );
+
+    const firstEntry = await this.redisClient!.ts.range(tsKey, "-", "+", {
+      COUNT: 1,
+    });
+    const firstTimestamp = firstEntry.length ? firstEntry[0].timestamp : end;
+    const mAddEntries: MAddEntry[] = prices
+      .map(({ timestamp, price }) => ({
+        key: tsKey,
+        // The first bucket starts before the window, move it into the window so the 24h change can use it.
+        timestamp: Math.max(timestamp, earliest),
+        value: price.toNumber(),
+      }))
+      .filter(({ timestamp }) => timestamp < firstTimestamp);
+    if (!mAddEntries.length) {
+      this.logger.info(`No trade history found to backfill ${token}`);
+      return;
+    }
+
+    await this.redisClient!.ts.mAdd(mAddEntries);
+    this.logger.info(`Backfilled ${mAddEntries.length} prices for ${token}`);
+  }
+
+  /**
+   * Reconstructs the USD prices of an asset from the closing prices of its trade aggregations against USDC,
+   * filling the buckets without USDC trades with its trades against XLM priced at the XLM/USDC close.
+   *
+   * @param asset - The asset to reconstruct prices for
+   * @param start - Start of the window (in milliseconds)
+   * @param end - End of the window (in milliseconds)
+   * @returns The reconstructed prices, sorted by timestamp
+   * @private
+   */
+  private async getHistoricalPrices(
+    asset: StellarSdk.Asset,
+    start: number,
+    end: number,
+  ): Promise<PriceCalculationResult[]> {
+    const prices = await this.getTradeAggregationCloses(
+      asset,
+      PriceClient.USDCAsset,
+      start,
+      end,
+    );
+
+    if (!asset.isNative()) {
+      const native = StellarSdk.Asset.native();
+      const [xlmCloses, nativePrices] = await Promise.all([
+        this.getTradeAggregationCloses(asset, native, start, end),
+        this.getTradeAggregationCloses(
+          native,
+          PriceClient.USDCAsset,
+          start,
+          end,
+        ),
+      ]);
+
+      const nativeTimestamps = Array.from(nativePrices.keys()).sort(
+        (a, b) => a - b,
+      );
+      for (const [timestamp, xlmClose] of xlmCloses) {
+        if (prices.has(timestamp)) {
+          continue;
+        }
+        // Use the latest XLM price at or before the bucket.
+        const nativeTimestamp = nativeTimestamps
+          .filter((nativeTs) => nativeTs <= timestamp)
+          .pop();
+        if (nativeTimestamp !== undefined) {
+          prices.set(
+            timestamp,
+            xlmClose.times(nativePrices.get(nativeTimestamp)!),
+          );
+        }
+      }
+    }
+
+    return Array.from(prices.entries())
+      .map(([timestamp, price]) => ({ timestamp, price }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Fetches the closing prices of the trade aggregations of an asset pair.
+   *
+   * @param base - The base asset of the pair
+   * @param counter - The counter asset the prices are expressed in
+   * @param start - Start of the window (in milliseconds)
+   * @param end - End of the window (in milliseconds)
+   * @returns Map of bucket start timestamps to closing prices, without the buckets that had no trades
+   * @private
+   */
+  private async getTradeAggregationCloses(
+    base: StellarSdk.Asset,
+    counter: StellarSdk.Asset,
+    start: number,
+    end: number,
+  ): Promise<Map<number, BigNumber>> {
+    const resolution = PriceClient.BACKFILL_RESOLUTION_MS;
+    const aggregations = await this.server
+      .tradeAggregation(
+        base,
+        counter,
+        Math.floor(start / resolution) * resolution,
+        end,
+        resolution,
+        0,
+      )
+      .limit(200)
+      .call();
+
+    return new Map(
+      aggregations.records.map((record) => [
+        Number(record.timestamp),
+        new BigNumber(record.close),
+      ]),
+    );
+  }
+
   /**
    * Fetches all tradable tokens from Stellar Expert API sorted by the rating. This ensures we start with the most
    * popular tokens in the cache.
@@ -502,19 +1856,232 @@ export class PriceClient {
   /**
    * Converts a token identifier to a Redis time series key.
    * Handles special case for "native" token which is converted to "XLM".
+   * Prices in the default quote live in the token key itself, other quotes get their own series.
    *
    * @param token - Token identifier
+   * @param quote - The quote currency of the time series
    * @returns Redis time series key for the token
    * @private
    */
-  private getTimeSeriesKey(token: TokenKey): string {
+  private getTimeSeriesKey(
+    token: TokenKey,
+    quote: string = PriceClient.DEFAULT_QUOTE,
+  ): string {
     let key = token;
     if (token === "native") {
       key = "XLM";
     }
+    if (quote !== PriceClient.DEFAULT_QUOTE) {
+      key = `${key}:quote:${quote}`;
+    }
     return key;
   }
 
+  /**
+   * Returns the time series keys of a token for every configured non default quote.
+   *
+   * @param token - Token identifier
+   * @returns Array of Redis time series keys
+   * @private
+   */
+  private getQuoteTimeSeriesKeys(token: TokenKey): string[] {
+    return this.getSupportedQuotes()
+      .filter((quote) => quote !== PriceClient.DEFAULT_QUOTE)
+      .map((quote) => this.getTimeSeriesKey(token, quote));
+  }
+
+  /**
+   * Builds the quote assets map from config. The default quote is always priced against USDC.
+   *
+   * @param usdReceiveValue - The configured USDC receive value
+   * @param quoteAssets - The configured additional quote assets
+   * @returns Map of quote currency to the asset and receive value used for pathfinding
+   * @private
+   */
+  private buildQuoteAssets(
+    usdReceiveValue: number,
+    quoteAssets: QuoteAssetConfig[],
+  ): Map<string, QuoteAsset> {
+    const assets = new Map<string, QuoteAsset>([
+      [
+        PriceClient.DEFAULT_QUOTE,
+        {
+          asset: PriceClient.USDCAsset,
+          receiveValue: new BigNumber(
+            usdReceiveValue || PriceClient.DEFAULT_USD_RECEIVE_VALUE,
+          ),
+        },
+      ],
+    ]);
+
+    for (const { quote, asset, receiveValue } of quoteAssets) {
+      if (assets.has(quote)) {
+        this.logger.warn(`Ignoring duplicate quote asset config for ${quote}`);
+        continue;
+      }
+      const [code, issuer] = asset.split(":");
+      assets.set(quote, {
+        asset: new StellarSdk.Asset(code, issuer),
+        receiveValue: new BigNumber(
+          receiveValue || PriceClient.DEFAULT_USD_RECEIVE_VALUE,
+        ),
+      });
+    }
+
+    return assets;
+  }
+
+  /**
+   * Builds the compaction rule suffix for one field of a candle interval, e.g. "open_5m".
+   *
+   * @param field - The candle field
+   * @param interval - The candle interval
+   * @returns Suffix of the compaction series key
+   * @private
+   */
+  private static getCandleSuffix(
+    field: CandleField,
+    interval: CandleInterval,
+  ): string {
+    return `${field}_${interval}`;
+  }
+
+  /**
+   * Converts a token time series key to the key of one of its compaction series.
+   *
+   * @param tsKey - The token time series key
+   * @param rule - The compaction rule, or its key suffix
+   * @returns Redis time series key for the compaction series
+   * @private
+   */
+  private getCompactionKey(
+    tsKey: string,
+    rule: CompactionRule | string,
+  ): string {
+    const suffix = typeof rule === "string" ? rule : rule.suffix;
+    return `${tsKey}:${suffix}`;
+  }
+
+  /**
+   * Creates a compaction series for a token and the rule that fills it from the raw time series.
+   *
+   * @param tsKey - The token time series key to compact
+   * @param rule - The compaction rule to create
+   * @private
+   */
+  private async createCompactionSeries(
+    tsKey: string,
+    rule: CompactionRule,
+  ): Promise<void> {
+    const compactionKey = this.getCompactionKey(tsKey, rule);
+    await this.redisClient!.ts.create(compactionKey, {
+      RETENTION: rule.retention,
+      DUPLICATE_POLICY: TimeSeriesDuplicatePolicies.LAST,
+      LABELS: {
+        PRICE_CACHE_LABEL: rule.label,
+      },
+    });
+    await this.redisClient!.ts.createRule(
+      tsKey,
+      compactionKey,
+      rule.aggregation,
+      rule.bucketMs,
+    );
+    this.logger.info(`Created compaction series ${compactionKey}`);
+  }
+
+  /**
+   * Builds the price sources enabled in config. Manual overrides are always included when configured
+   * and take precedence over the other sources.
+   *
+   * @param priceConfig - Configuration object containing price-related settings
+   * @returns The price sources to aggregate
+   * @private
+   */
+  private buildPriceSources(priceConfig: PriceConfig): PriceSource[] {
+    const enabledSources = priceConfig.priceSources || [
+      "horizon_paths",
+      "soroban_router",
+    ];
+
+    // Soroban based sources read contracts by simulating transactions over RPC.
+    let soroban: SorobanPricingContext | undefined;
+    if (priceConfig.sorobanRpcUrl && priceConfig.sorobanPricingAccount) {
+      const Sdk = getSdk(StellarSdkNext.Networks.PUBLIC);
+      soroban = {
+        server: new Sdk.rpc.Server(priceConfig.sorobanRpcUrl, {
+          allowHttp: priceConfig.sorobanRpcUrl.startsWith("http://"),
+        }),
+        pricingAccount: priceConfig.sorobanPricingAccount,
+      };
+    }
+
+    const sources: PriceSource[] = [];
+    if (priceConfig.manualPriceOverrides?.length) {
+      sources.push(new ManualOverrideSource(priceConfig.manualPriceOverrides));
+    }
+    if (enabledSources.includes("horizon_paths")) {
+      sources.push(new HorizonPathsSource(this.server));
+    }
+    if (enabledSources.includes("soroban_router")) {
+      sources.push(
+        new SorobanRouterSource(
+          this.logger,
+          this.server,
+          priceConfig.sorobanRouterContracts || [],
+          soroban,
+        ),
+      );
+    }
+    if (enabledSources.includes("liquidity_pool")) {
+      sources.push(new LiquidityPoolSource(this.server));
+    }
+    if (enabledSources.includes("sep40_oracle")) {
+      if (soroban && priceConfig.sep40Oracles?.length) {
+        sources.push(new Sep40OracleSource(priceConfig.sep40Oracles, soroban));
+      } else {
+        this.logger.warn(
+          "SEP-40 oracle price source enabled without oracles or Soroban RPC config",
+        );
+      }
+    }
+
+    return sources;
+  }
+
+  /**
+   * Creates the time series holding a token price in a non default quote.
+   *
+   * @param quoteKey - The quote time series key to create
+   * @private
+   */
+  private async createQuoteSeries(quoteKey: string): Promise<void> {
+    await this.redisClient!.ts.create(quoteKey, {
+      RETENTION: PriceClient.RETENTION_PERIOD,
+      DUPLICATE_POLICY: TimeSeriesDuplicatePolicies.LAST,
+      LABELS: {
+        PRICE_CACHE_LABEL: PriceClient.PRICE_QUOTE_TS_KEY_PREFIX,
+      },
+    });
+    this.logger.info(`Created quote series ${quoteKey}`);
+  }
+
+  /**
+   * Creates the quote series of a tracked token that don't exist yet.
+   *
+   * @param key - The time series key of the token
+   * @private
+   */
+  private async createMissingQuoteSeries(key: string): Promise<void> {
+    for (const quoteKey of this.getQuoteTimeSeriesKeys(key)) {
+      if (await this.redisClient!.exists(quoteKey)) {
+        continue;
+      }
+
+      await this.createQuoteSeries(quoteKey);
+    }
+  }
+
   /**
    * Creates a new time series in Redis for a token and adds it to the sorted set.
    *
@@ -535,6 +2102,12 @@ export class PriceClient {
           PRICE_CACHE_LABEL: PriceClient.PRICE_TS_KEY_PREFIX,
         },
       });
+      for (const rule of PriceClient.COMPACTION_RULES) {
+        await this.createCompactionSeries(key, rule);
+      }
+      for (const quoteKey of this.getQuoteTimeSeriesKeys(key)) {
+        await this.createQuoteSeries(quoteKey);
+      }
       await this.redisClient.zIncrBy(
         PriceClient.TOKEN_COUNTER_SORTED_SET_KEY,
         1,
@@ -552,37 +2125,69 @@ export class PriceClient {
    * and creating a time series for it.
    *
    * @param token - Token identifier to add to cache
+   * @param quote - The quote currency of the requested price
    * @returns The token price data or null if price calculation fails
    * @throws Error if Redis client is not initialized or adding token to cache fails
    * @private
    */
   private addNewTokenToCache = async (
     token: TokenKey,
+    quote: string = PriceClient.DEFAULT_QUOTE,
   ): Promise<TokenPriceData | null> => {
     try {
       if (!this.redisClient) {
         throw new Error("Redis client not initialized");
       }
 
-      let tsKey: string;
+      const tsKey = this.getTimeSeriesKey(token);
+      // A token tracked before its quote was configured only misses the quote series.
+      let isTracked: boolean;
       try {
-        tsKey = this.getTimeSeriesKey(token);
-        await this.createTimeSeries(tsKey);
+        isTracked = Boolean(await this.redisClient.exists(tsKey));
+        if (isTracked) {
+          await this.createMissingQuoteSeries(tsKey);
+        } else {
+          await this.createTimeSeries(tsKey);
+        }
       } catch (e) {
         throw new Error(`creating time series for ${token}`);
       }
 
-      const { timestamp, price } = await this.calculatePriceInUSD(token);
+      const { timestamp, price, confidence } = await this.calculatePrice(
+        token,
+        quote,
+      );
 
       try {
-        await this.redisClient.ts.add(tsKey, timestamp, price.toNumber());
+        await this.redisClient.ts.add(
+          this.getTimeSeriesKey(token, quote),
+          timestamp,
+          price.toNumber(),
+        );
+        await this.storeConfidence([
+          { token, quote, timestamp, price, confidence },
+        ]);
       } catch (e) {
         throw new Error(`adding price to time series for ${token}`);
       }
 
+      if (!isTracked) {
+        try {
+          await this.redisClient.sAdd(
+            PriceClient.PRICE_BACKFILL_SET_KEY,
+            tsKey,
+          );
+        } catch (e) {
+          const error = ensureError(e, `queueing price backfill for ${token}`);
+          this.logger.error(error);
+        }
+      }
+
       return {
         currentPrice: price,
         percentagePriceChange24h: null,
+        unreliable: false,
+        confidence: confidence || null,
       } as TokenPriceData;
     } catch (e) {
       const error = ensureError(e, `adding new token to cache for ${token}`);
@@ -592,15 +2197,17 @@ export class PriceClient {
   };
 
   /**
-   * Calculates the price of a token in USD with a timeout to prevent hanging.
+   * Calculates the price of a token in a quote currency with a timeout to prevent hanging.
    *
    * @param token - Token identifier to calculate price for
-   * @returns Object containing timestamp and price in USD
+   * @param quote - The quote currency to calculate the price in
+   * @returns Object containing timestamp and price in the quote currency
    * @throws Error if price calculation fails or times out
    * @private
    */
-  private calculatePriceInUSD = async (
+  private calculatePrice = async (
     token: TokenKey,
+    quote: string,
   ): Promise<PriceCalculationResult> => {
     try {
       const timeoutPromise = new Promise<PriceCalculationResult>((_, reject) =>
@@ -610,72 +2217,17 @@ export class PriceClient {
         ),
       );
 
+      const quoteAsset = this.quoteAssets.get(quote);
+      if (!quoteAsset) {
+        throw new UnsupportedQuoteError(quote);
+      }
+
       return await Promise.race([
-        this.calculatePriceUsingPaths(token),
+        this.priceAggregator.getPrice(token, quote, quoteAsset),
         timeoutPromise,
       ]);
     } catch (e) {
       throw ensureError(e, `calculating price for ${token}`);
     }
   };
-
-  /**
-   * Calculates the price of a token in USD using Horizon's path finding functionality.
-   * Finds paths from the token to USDC and calculates the exchange rate.
-   *
-   * @param token - Token identifier to calculate price for
-   * @returns Object containing timestamp and price in USD
-   * @throws Error if no paths are found or price calculation fails
-   * @private
-   */
-  private calculatePriceUsingPaths = async (
-    token: TokenKey,
-  ): Promise<PriceCalculationResult> => {
-    try {
-      let sourceAssets = undefined;
-      if (token === "XLM") {
-        sourceAssets = [PriceClient.NativeAsset];
-      } else {
-        const [code, issuer] = token.split(":");
-        if (!code || !issuer) {
-          throw new InvalidTokenFormatError(token);
-        }
-        sourceAssets = [new StellarSdk.Asset(code, issuer)];
-      }
-
-      const latestLedger = await this.server
-        .ledgers()
-        .order("desc")
-        .limit(1)
-        .call();
-      const latestLedgerTimestamp = new Date(
-        latestLedger.records[0].closed_at,
-      ).getTime();
-
-      const paths = await this.server
-        .strictReceivePaths(
-          sourceAssets,
-          PriceClient.USDCAsset,
-          this.usdReceiveValue.toString(),
-        )
-        .call();
-      if (!paths.records.length) {
-        throw new PathsNotFoundError(token);
-      }
-
-      const tokenUnit = new BigNumber(
-        paths.records.reduce(
-          (min, record) => Math.min(min, Number(record.source_amount)),
-          Number(paths.records[0].source_amount),
-        ),
-      );
-      const unitTokenPrice = this.usdReceiveValue.dividedBy(tokenUnit);
-      return {
-        timestamp: latestLedgerTimestamp,
-        price: unitTokenPrice,
-      } as PriceCalculationResult;
-    } catch (e) {
-      throw ensureError(e, `calculating price using paths for ${token}`);
-    }
-  };
 }
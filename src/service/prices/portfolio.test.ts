@@ -0,0 +1,267 @@
+import BigNumber from "bignumber.js";
+import { Address, Asset, Keypair, Networks, nativeToScVal } from "stellar-sdk";
+import { mockPriceClient, pubKey } from "../../helper/test-helper";
+import {
+  getBalanceTokenKey,
+  getPortfolioHistory,
+  getPortfolioValuation,
+} from "./portfolio";
+import { TokenPriceData } from "./types";
+
+describe("Portfolio valuation", () => {
+  const usdc = "USDC:GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN";
+  const contractId = "CCWAMYJME4H5CKG7OLXGC2T4M6FL52XCZ3OQOAV6LL3GLA4RO4WH3ASP";
+
+  const priceData = (
+    price: number,
+    percentagePriceChange24h: number | null,
+  ): TokenPriceData => ({
+    currentPrice: new BigNumber(price),
+    percentagePriceChange24h:
+      percentagePriceChange24h === null
+        ? null
+        : new BigNumber(percentagePriceChange24h),
+    unreliable: false,
+    confidence: null,
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("getBalanceTokenKey", () => {
+    it("maps balances to the token they are priced by", () => {
+      expect(getBalanceTokenKey("native", {})).toEqual("XLM");
+      expect(getBalanceTokenKey(usdc, { contractId })).toEqual(usdc);
+      expect(getBalanceTokenKey(`TST:${contractId}`, { contractId })).toEqual(
+        contractId,
+      );
+      expect(getBalanceTokenKey("abcd:lp", {})).toBeNull();
+    });
+  });
+
+  describe("getPortfolioValuation", () => {
+    it("values priced balances and sums the 24h change", async () => {
+      const prices: { [token: string]: TokenPriceData | null } = {
+        XLM: priceData(0.5, 25),
+        [usdc]: priceData(1, null),
+        [contractId]: priceData(2, -50),
+      };
+      jest
+        .spyOn(mockPriceClient, "getPrice")
+        .mockImplementation(async (token) => prices[token]);
+
+      const portfolio = await getPortfolioValuation(
+        {
+          native: { total: new BigNumber(100) },
+          [usdc]: { total: "10" },
+          [`TST:${contractId}`]: {
+            contractId,
+            decimals: 7,
+            total: new BigNumber(50000000),
+          },
+        },
+        mockPriceClient,
+        "USD",
+      );
+
+      expect(portfolio.quote).toEqual("USD");
+      expect(portfolio.assets.native.value).toEqual(new BigNumber(50));
+      expect(portfolio.assets.native.valueChange24h).toEqual(new BigNumber(10));
+      expect(portfolio.assets[usdc].valueChange24h).toBeNull();
+      expect(portfolio.assets[`TST:${contractId}`].amount).toEqual(
+        new BigNumber(5),
+      );
+      expect(portfolio.assets[`TST:${contractId}`].valueChange24h).toEqual(
+        new BigNumber(-10),
+      );
+      // 50 + 10 + 10 now, 40 + 10 + 20 a day ago
+      expect(portfolio.totalValue).toEqual(new BigNumber(70));
+      expect(portfolio.valueChange24h).toEqual(new BigNumber(0));
+      expect(portfolio.percentageChange24h).toEqual(new BigNumber(0));
+      expect(portfolio.unpricedAssets).toEqual([]);
+    });
+
+    it("lists balances without a price as unpriced", async () => {
+      const getPrice = jest
+        .spyOn(mockPriceClient, "getPrice")
+        .mockImplementation(async (token) =>
+          token === "XLM" ? priceData(0.5, 100) : null,
+        );
+
+      const portfolio = await getPortfolioValuation(
+        {
+          native: { total: new BigNumber(100) },
+          [usdc]: { total: "10" },
+          "abcd:lp": { total: new BigNumber(1) },
+        },
+        mockPriceClient,
+      );
+
+      expect(getPrice).toHaveBeenCalledTimes(2);
+      expect(Object.keys(portfolio.assets)).toEqual(["native"]);
+      expect(portfolio.unpricedAssets).toEqual([usdc, "abcd:lp"]);
+      expect(portfolio.totalValue).toEqual(new BigNumber(50));
+      expect(portfolio.valueChange24h).toEqual(new BigNumber(25));
+      expect(portfolio.percentageChange24h).toEqual(new BigNumber(100));
+    });
+
+    it("returns no percentage change for an empty portfolio", async () => {
+      const portfolio = await getPortfolioValuation({}, mockPriceClient);
+
+      expect(portfolio.totalValue).toEqual(new BigNumber(0));
+      expect(portfolio.percentageChange24h).toBeNull();
+    });
+  });
+
+  describe("getPortfolioHistory", () => {
+    const now = 1700000000000;
+    const day = 24 * 60 * 60 * 1000;
+    const otherPubKey = Keypair.random().publicKey();
+
+    beforeEach(() => {
+      jest.spyOn(Date, "now").mockReturnValue(now);
+    });
+
+    it("rolls balances back through the account history", async () => {
+      const prices: { [token: string]: number } = { XLM: 0.5, [usdc]: 1 };
+      const getPriceHistory = jest
+        .spyOn(mockPriceClient, "getPriceHistory")
+        .mockImplementation(async (token, period) =>
+          prices[token]
+            ? {
+                token,
+                period,
+                prices: [
+                  {
+                    timestamp: now - 30 * day,
+                    price: new BigNumber(prices[token]),
+                  },
+                ],
+              }
+            : null,
+        );
+      const xlmContractId = Asset.native().contractId(Networks.PUBLIC);
+
+      const history = await getPortfolioHistory(
+        pubKey,
+        {
+          native: { total: new BigNumber(100) },
+          [usdc]: { total: "10" },
+          [`TST:${contractId}`]: {
+            contractId,
+            decimals: 7,
+            total: new BigNumber(10000000),
+          },
+        },
+        [
+          {
+            type: "payment",
+            created_at: new Date(now - day).toISOString(),
+            from: otherPubKey,
+            to: pubKey,
+            asset_type: "native",
+            amount: "50",
+          },
+          {
+            type: "payment",
+            created_at: new Date(now - 2 * day).toISOString(),
+            transaction_successful: false,
+            from: otherPubKey,
+            to: pubKey,
+            asset_type: "native",
+            amount: "1000",
+          },
+          {
+            type: "invoke_host_function",
+            created_at: new Date(now - 3 * day).toISOString(),
+            transaction_attr: {
+              contractId,
+              fnName: "transfer",
+              args: { from: otherPubKey, to: pubKey, amount: "10000000" },
+            },
+          },
+          {
+            type: "invoke_host_function",
+            created_at: new Date(now - 5 * day).toISOString(),
+            parameters: [
+              new Address(xlmContractId).toScVal(),
+              nativeToScVal("transfer", { type: "symbol" }),
+              new Address(pubKey).toScVal(),
+              new Address(otherPubKey).toScVal(),
+              nativeToScVal(100000000, { type: "i128" }),
+            ].map((scVal) => ({ type: "", value: scVal.toXDR("base64") })),
+          },
+          {
+            type: "payment",
+            created_at: new Date(now - 10 * day).toISOString(),
+            from: pubKey,
+            to: otherPubKey,
+            asset_type: "credit_alphanum4",
+            asset_code: "USDC",
+            asset_issuer: usdc.split(":")[1],
+            amount: "5",
+          },
+        ],
+        mockPriceClient,
+      );
+
+      expect(getPriceHistory).toHaveBeenCalledWith("XLM", "30d");
+      expect(history.quote).toEqual("USD");
+      expect(history.unpricedAssets).toEqual([contractId]);
+      expect(history.values).toHaveLength(181);
+      expect(history.values[0]).toEqual({
+        timestamp: now - 30 * day,
+        value: new BigNumber(45),
+      });
+      const valueAt = (daysAgo: number) =>
+        history.values.find(
+          ({ timestamp }) => timestamp === now - daysAgo * day,
+        )?.value;
+      expect(valueAt(0)).toEqual(new BigNumber(60));
+      expect(valueAt(2)).toEqual(new BigNumber(35));
+      expect(valueAt(6)).toEqual(new BigNumber(40));
+      expect(valueAt(11)).toEqual(new BigNumber(45));
+    });
+
+    it("empties the balance of a removed trustline", async () => {
+      jest.spyOn(mockPriceClient, "getPriceHistory").mockResolvedValue({
+        token: usdc,
+        period: "30d",
+        prices: [{ timestamp: now - 30 * day, price: new BigNumber(1) }],
+      });
+
+      const history = await getPortfolioHistory(
+        pubKey,
+        {},
+        [
+          {
+            type: "change_trust",
+            created_at: new Date(now - day).toISOString(),
+            trustor: pubKey,
+            asset_type: "credit_alphanum4",
+            asset_code: "USDC",
+            asset_issuer: usdc.split(":")[1],
+            limit: "0.0000000",
+          },
+          {
+            type: "payment",
+            created_at: new Date(now - 2 * day).toISOString(),
+            from: pubKey,
+            to: otherPubKey,
+            asset_type: "credit_alphanum4",
+            asset_code: "USDC",
+            asset_issuer: usdc.split(":")[1],
+            amount: "5",
+          },
+        ],
+        mockPriceClient,
+      );
+
+      expect(history.values[history.values.length - 1].value).toEqual(
+        new BigNumber(0),
+      );
+      expect(history.values[0].value).toEqual(new BigNumber(5));
+    });
+  });
+});
@@ -0,0 +1,487 @@
+import BigNumber from "bignumber.js";
+import { Asset, Networks } from "stellar-sdk";
+import { isContractId, isValidTokenString } from "../../helper/validate";
+import { getOperationInvocation } from "../mercury/helpers/filters";
+import { PriceClient } from ".";
+import {
+  PortfolioAsset,
+  PortfolioHistory,
+  PortfolioValuation,
+  PriceHistoryEntry,
+  PriceHistoryPeriod,
+  TokenKey,
+} from "./types";
+
+/**
+ * Price history period a portfolio history is reconstructed over.
+ */
+const PORTFOLIO_HISTORY_PERIOD: PriceHistoryPeriod = "30d";
+
+/**
+ * Length of the portfolio history and interval between its values, in milliseconds.
+ * The interval matches the bucket of the 30 day price history.
+ */
+export const PORTFOLIO_HISTORY_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+const PORTFOLIO_HISTORY_INTERVAL_MS = 4 * 60 * 60 * 1000;
+
+/**
+ * Decimals of every Stellar Asset Contract.
+ */
+const SAC_DECIMALS = 7;
+
+/**
+ * Balance entry as returned by MercuryClient.getAccountBalances. Soroban token balances carry
+ * their contract ID and a total in the smallest unit of the token.
+ */
+interface PortfolioBalance {
+  readonly total?: BigNumber | string;
+  readonly contractId?: string;
+  readonly decimals?: number | string;
+}
+
+/**
+ * Fields read from the operation records returned by MercuryClient.getAccountHistory, which are
+ * either Horizon operation records or Mercury operations transformed to look like them.
+ */
+export interface PortfolioOperation {
+  readonly type?: string;
+  readonly created_at?: string;
+  readonly transaction_successful?: boolean;
+  readonly source_account?: string;
+  readonly from?: string;
+  readonly to?: string;
+  readonly account?: string;
+  readonly funder?: string;
+  readonly trustor?: string;
+  readonly starting_balance?: string;
+  readonly amount?: string;
+  readonly limit?: string;
+  readonly asset_type?: string;
+  readonly asset_code?: string;
+  readonly asset_issuer?: string;
+  readonly source_amount?: string;
+  readonly source_asset_type?: string;
+  readonly source_asset_code?: string;
+  readonly source_asset_issuer?: string;
+  readonly parameters?: { type: string; value: string }[];
+  readonly transaction_attr?: {
+    contractId?: string;
+    fnName?: string;
+    args?: { from?: string; to?: string; amount?: string | number };
+  };
+}
+
+interface BalanceChange {
+  readonly token: TokenKey;
+  readonly amount: BigNumber;
+  /**
+   * Set when the operation removed the trustline of the token, which requires an empty balance.
+   */
+  readonly trustlineRemoved?: boolean;
+}
+
+interface ContractToken {
+  readonly token: TokenKey;
+  readonly decimals: number;
+}
+
+/**
+ * Maps a balance to the token key it is priced by. Classic assets and SACs are keyed by their
+ * classic asset, other Soroban tokens by their contract ID.
+ *
+ * @param balanceKey - Key of the balance in the account balances
+ * @param balance - The balance entry
+ * @returns The token key, or null for balances that can't be priced such as liquidity pool shares
+ */
+export const getBalanceTokenKey = (
+  balanceKey: string,
+  balance: PortfolioBalance,
+): TokenKey | null => {
+  if (balanceKey === "native") {
+    return "XLM";
+  }
+  if (isValidTokenString(balanceKey)) {
+    return balanceKey;
+  }
+  if (balance.contractId) {
+    return balance.contractId;
+  }
+  return null;
+};
+
+const getBalanceAmount = (balance: PortfolioBalance): BigNumber => {
+  const amount = new BigNumber(balance.total || 0);
+  if (balance.contractId && balance.decimals !== undefined) {
+    return amount.shiftedBy(-Number(balance.decimals));
+  }
+  return amount;
+};
+
+/**
+ * Values the balances of an account in a quote currency. The 24h change of the portfolio only
+ * accounts for the assets that have a 24h price change, the value of the others is assumed unchanged.
+ *
+ * @param balances - Account balances keyed by balance key
+ * @param priceClient - The price client to price the balances with
+ * @param quote - The quote currency to value the balances in
+ * @returns The value of every priced asset, the total value and its 24h change
+ */
+export const getPortfolioValuation = async (
+  balances: { [balanceKey: string]: PortfolioBalance },
+  priceClient: PriceClient,
+  quote: string = PriceClient.DEFAULT_QUOTE,
+): Promise<PortfolioValuation> => {
+  const assets: { [balanceKey: string]: PortfolioAsset } = {};
+  const unpricedAssets: string[] = [];
+
+  await Promise.all(
+    Object.entries(balances).map(async ([balanceKey, balance]) => {
+      const token = getBalanceTokenKey(balanceKey, balance);
+      const priceData = token ? await priceClient.getPrice(token, quote) : null;
+      if (!token || !priceData) {
+        unpricedAssets.push(balanceKey);
+        return;
+      }
+
+      const amount = getBalanceAmount(balance);
+      const { currentPrice, percentagePriceChange24h } = priceData;
+      const value = amount.times(currentPrice);
+      // The value 24h ago is the current value at the price before the percentage change.
+      const valueChange24h = percentagePriceChange24h
+        ? value.minus(
+            value.dividedBy(percentagePriceChange24h.dividedBy(100).plus(1)),
+          )
+        : null;
+
+      assets[balanceKey] = {
+        token,
+        amount,
+        price: currentPrice,
+        value,
+        valueChange24h,
+        percentagePriceChange24h,
+      };
+    }),
+  );
+
+  const pricedAssets = Object.values(assets);
+  const totalValue = BigNumber.sum(
+    0,
+    ...pricedAssets.map((asset) => asset.value),
+  );
+  const valueChange24h = BigNumber.sum(
+    0,
+    ...pricedAssets.map((asset) => asset.valueChange24h || 0),
+  );
+  const previousTotalValue = totalValue.minus(valueChange24h);
+
+  return {
+    quote,
+    totalValue,
+    valueChange24h,
+    percentageChange24h: previousTotalValue.isGreaterThan(0)
+      ? valueChange24h.dividedBy(previousTotalValue).times(100)
+      : null,
+    assets,
+    unpricedAssets: unpricedAssets.sort(),
+  };
+};
+
+const getClassicTokenKey = (
+  assetType?: string,
+  code?: string,
+  issuer?: string,
+): TokenKey => (!code || assetType === "native" ? "XLM" : `${code}:${issuer}`);
+
+/**
+ * Computes how a classic operation changed the balances of an account.
+ *
+ * @param operation - The operation record
+ * @param pubKey - The account the history belongs to
+ * @returns The balance changes, with negative amounts for debits
+ */
+const getClassicBalanceChanges = (
+  operation: PortfolioOperation,
+  pubKey: string,
+): BalanceChange[] => {
+  const changes: BalanceChange[] = [];
+  switch (operation.type) {
+    case "create_account": {
+      const amount = new BigNumber(operation.starting_balance || 0);
+      if (operation.account === pubKey) {
+        changes.push({ token: "XLM", amount });
+      }
+      if ((operation.funder || operation.source_account) === pubKey) {
+        changes.push({ token: "XLM", amount: amount.negated() });
+      }
+      break;
+    }
+    case "payment":
+    case "path_payment_strict_send":
+    case "path_payment_strict_receive": {
+      const amount = new BigNumber(operation.amount || 0);
+      const token = getClassicTokenKey(
+        operation.asset_type,
+        operation.asset_code,
+        operation.asset_issuer,
+      );
+      if (operation.to === pubKey) {
+        changes.push({ token, amount });
+      }
+      if (operation.from === pubKey) {
+        // Path payments debit the source asset, Mercury records don't carry it so the
+        // destination asset and amount are used instead.
+        const isPathPayment = operation.type !== "payment";
+        changes.push(
+          isPathPayment && operation.source_amount
+            ? {
+                token: getClassicTokenKey(
+                  operation.source_asset_type,
+                  operation.source_asset_code,
+                  operation.source_asset_issuer,
+                ),
+                amount: new BigNumber(operation.source_amount).negated(),
+              }
+            : { token, amount: amount.negated() },
+        );
+      }
+      break;
+    }
+    case "change_trust":
+      if (
+        operation.trustor === pubKey &&
+        operation.asset_code &&
+        new BigNumber(operation.limit || 0).isZero()
+      ) {
+        changes.push({
+          token: getClassicTokenKey(
+            operation.asset_type,
+            operation.asset_code,
+            operation.asset_issuer,
+          ),
+          amount: new BigNumber(0),
+          trustlineRemoved: true,
+        });
+      }
+      break;
+    default:
+      break;
+  }
+  return changes;
+};
+
+/**
+ * Computes how a Soroban token transfer or mint changed the balances of an account.
+ *
+ * @param operation - The invoke host function operation record
+ * @param pubKey - The account the history belongs to
+ * @param contractTokens - Known token contracts keyed by contract ID
+ * @returns The balance changes, with negative amounts for debits
+ */
+const getContractBalanceChanges = (
+  operation: PortfolioOperation,
+  pubKey: string,
+  contractTokens: Map<string, ContractToken>,
+): BalanceChange[] => {
+  const invocation = getOperationInvocation(operation, "PUBLIC");
+  const contractToken = invocation
+    ? contractTokens.get(invocation.contractId)
+    : undefined;
+  if (!invocation || !contractToken) {
+    return [];
+  }
+
+  const { from, to, amount: rawAmount } = invocation.args;
+  const amount = new BigNumber(rawAmount || 0).shiftedBy(
+    -contractToken.decimals,
+  );
+  const changes: BalanceChange[] = [];
+  if (to === pubKey) {
+    changes.push({ token: contractToken.token, amount });
+  }
+  if (from === pubKey) {
+    changes.push({ token: contractToken.token, amount: amount.negated() });
+  }
+  return changes;
+};
+
+/**
+ * Maps the contracts of the tokens of an account to their token keys. Classic assets are
+ * reachable through their Stellar Asset Contract.
+ *
+ * @param balances - Account balances keyed by balance key
+ * @param classicTokens - Classic token keys held by the account now or in its history
+ * @returns Token contracts keyed by contract ID
+ */
+const getContractTokens = (
+  balances: { [balanceKey: string]: PortfolioBalance },
+  classicTokens: Set<TokenKey>,
+): Map<string, ContractToken> => {
+  const contractTokens = new Map<string, ContractToken>();
+  for (const [balanceKey, balance] of Object.entries(balances)) {
+    const token = getBalanceTokenKey(balanceKey, balance);
+    if (token && balance.contractId && token === balance.contractId) {
+      contractTokens.set(balance.contractId, {
+        token,
+        decimals: Number(balance.decimals || 0),
+      });
+    }
+  }
+  for (const token of classicTokens) {
+    try {
+      const asset =
+        token === "XLM"
+          ? Asset.native()
+          : new Asset(...(token.split(":") as [string, string]));
+      contractTokens.set(asset.contractId(Networks.PUBLIC), {
+        token,
+        decimals: SAC_DECIMALS,
+      });
+    } catch (e) {
+      // Not a classic asset, it has no Stellar Asset Contract.
+    }
+  }
+  return contractTokens;
+};
+
+/**
+ * Finds the price at a timestamp, the latest one at or before it or the earliest one if there is none.
+ *
+ * @param prices - Price history in chronological order
+ * @param timestamp - The timestamp to price at
+ * @returns The price, or null if the history is empty
+ */
+const getPriceAt = (
+  prices: PriceHistoryEntry[],
+  timestamp: number,
+): BigNumber | null => {
+  let price = prices.length ? prices[0].price : null;
+  for (const entry of prices) {
+    if (entry.timestamp > timestamp) {
+      break;
+    }
+    price = entry.price;
+  }
+  return price;
+};
+
+/**
+ * Reconstructs the value of an account over the last 30 days in the default quote currency. The
+ * balances are rolled back from the current ones by undoing the payments, path payments, account
+ * creations and Soroban token transfers of the account history, newest first, and valued against
+ * the stored price history of each token. Balance changes the history doesn't record, like offer
+ * fills, are not undone and negative rolled back balances are valued at zero.
+ *
+ * @param pubKey - The account to reconstruct the value of
+ * @param balances - Current account balances keyed by balance key
+ * @param operations - Account operation history, as returned by MercuryClient.getAccountHistory
+ * @param priceClient - The price client to read price history from
+ * @returns The portfolio value at regular intervals and the tokens that have no price history
+ */
+export const getPortfolioHistory = async (
+  pubKey: string,
+  balances: { [balanceKey: string]: PortfolioBalance },
+  operations: PortfolioOperation[],
+  priceClient: PriceClient,
+): Promise<PortfolioHistory> => {
+  const now = Date.now();
+  const amounts = new Map<TokenKey, BigNumber>();
+  for (const [balanceKey, balance] of Object.entries(balances)) {
+    const token = getBalanceTokenKey(balanceKey, balance);
+    if (token) {
+      amounts.set(token, getBalanceAmount(balance));
+    }
+  }
+
+  const history = operations
+    .filter(
+      (operation) =>
+        operation.created_at && operation.transaction_successful !== false,
+    )
+    .map((operation) => ({
+      operation,
+      timestamp: Date.parse(operation.created_at!),
+      changes: getClassicBalanceChanges(operation, pubKey),
+    }))
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+  const classicTokens = new Set(
+    [
+      ...amounts.keys(),
+      ...history.flatMap(({ changes }) => changes.map(({ token }) => token)),
+    ].filter((token) => !isContractId(token)),
+  );
+  const contractTokens = getContractTokens(balances, classicTokens);
+  for (const entry of history) {
+    if (entry.operation.type === "invoke_host_function") {
+      entry.changes = getContractBalanceChanges(
+        entry.operation,
+        pubKey,
+        contractTokens,
+      );
+    }
+  }
+
+  const tokens = [
+    ...new Set([
+      ...amounts.keys(),
+      ...history.flatMap(({ changes }) => changes.map(({ token }) => token)),
+    ]),
+  ];
+  const priceHistories = new Map<TokenKey, PriceHistoryEntry[]>();
+  const unpricedAssets: TokenKey[] = [];
+  await Promise.all(
+    tokens.map(async (token) => {
+      const priceHistory = await priceClient.getPriceHistory(
+        token,
+        PORTFOLIO_HISTORY_PERIOD,
+      );
+      if (priceHistory && priceHistory.prices.length) {
+        priceHistories.set(token, priceHistory.prices);
+      } else {
+        unpricedAssets.push(token);
+      }
+    }),
+  );
+
+  const values = [];
+  let operationIndex = 0;
+  for (
+    let timestamp = now;
+    timestamp >= now - PORTFOLIO_HISTORY_WINDOW_MS;
+    timestamp -= PORTFOLIO_HISTORY_INTERVAL_MS
+  ) {
+    // Undo every operation that happened after this point to get the balances at that time.
+    while (
+      operationIndex < history.length &&
+      history[operationIndex].timestamp > timestamp
+    ) {
+      for (const { token, amount, trustlineRemoved } of history[operationIndex]
+        .changes) {
+        amounts.set(
+          token,
+          trustlineRemoved
+            ? new BigNumber(0)
+            : (amounts.get(token) || new BigNumber(0)).minus(amount),
+        );
+      }
+      operationIndex++;
+    }
+
+    let value = new BigNumber(0);
+    for (const [token, amount] of amounts) {
+      const prices = priceHistories.get(token);
+      const price = prices ? getPriceAt(prices, timestamp) : null;
+      if (price && amount.isGreaterThan(0)) {
+        value = value.plus(amount.times(price));
+      }
+    }
+    values.push({ timestamp, value });
+  }
+
+  return {
+    quote: PriceClient.DEFAULT_QUOTE,
+    values: values.reverse(),
+    unpricedAssets: unpricedAssets.sort(),
+  };
+};
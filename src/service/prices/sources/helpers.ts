@@ -0,0 +1,104 @@
+import BigNumber from "bignumber.js";
+import * as StellarSdk from "stellar-sdk";
+import { isContractId } from "../../../helper/validate";
+import { InvalidTokenFormatError } from "../errors";
+import { PriceConfidence, TokenKey } from "../types";
+
+/**
+ * Decimals of Stellar Asset Contracts, which wrap classic assets such as the quote assets.
+ */
+export const SAC_DECIMALS = 7;
+
+/**
+ * Soroban RPC access shared by the sources that price tokens through contract simulation.
+ */
+export interface SorobanPricingContext {
+  readonly server: StellarSdk.rpc.Server;
+  /**
+   * Funded account used as the source of simulated transactions.
+   */
+  readonly pricingAccount: string;
+}
+
+/**
+ * Converts a classic token identifier to a Stellar Asset.
+ *
+ * @param token - Token identifier in format "code:issuer" or "XLM"
+ * @returns The Stellar Asset for the token
+ * @throws InvalidTokenFormatError if the token is not a classic asset
+ */
+export const getClassicAsset = (token: TokenKey): StellarSdk.Asset => {
+  if (token === "XLM" || token === "native") {
+    return StellarSdk.Asset.native();
+  }
+
+  const [code, issuer] = token.split(":");
+  if (!code || !issuer) {
+    throw new InvalidTokenFormatError(token);
+  }
+  return new StellarSdk.Asset(code, issuer);
+};
+
+/**
+ * Returns the contract ID of a token, which is its Stellar Asset Contract for classic assets.
+ *
+ * @param token - Token identifier in format "code:issuer", "XLM" or a contract ID
+ * @returns The contract ID of the token on pubnet
+ */
+export const getTokenContractId = (token: TokenKey): string => {
+  if (isContractId(token)) {
+    return token;
+  }
+  return getClassicAsset(token).contractId(StellarSdk.Networks.PUBLIC);
+};
+
+/**
+ * Fetches the close time of the latest ledger from Horizon, used as the timestamp of calculated prices.
+ *
+ * @param server - The Horizon server to query
+ * @returns The latest ledger close time in milliseconds
+ */
+export const getLatestLedgerTimestamp = async (
+  server: StellarSdk.Horizon.Server,
+): Promise<number> => {
+  const latestLedger = await server.ledgers().order("desc").limit(1).call();
+  return new Date(latestLedger.records[0].closed_at).getTime();
+};
+
+/**
+ * A path between a token and a quote asset along with the amount of the token it costs.
+ */
+export interface PricedPath {
+  readonly sourceAmount: BigNumber;
+  readonly hops: number;
+}
+
+/**
+ * Picks the cheapest of the alternative paths between a token and a quote asset and describes how
+ * well the price taken from it is supported by the other paths.
+ *
+ * @param paths - Non empty list of the alternative paths
+ * @returns The cheapest path and the confidence of a price derived from it
+ */
+export const getBestPath = (
+  paths: PricedPath[],
+): { best: PricedPath; confidence: PriceConfidence } => {
+  const sorted = [...paths].sort(
+    (a, b) => a.sourceAmount.comparedTo(b.sourceAmount) || 0,
+  );
+  const best = sorted[0];
+  const worst = sorted[sorted.length - 1];
+
+  return {
+    best,
+    confidence: {
+      hops: best.hops,
+      pathCount: paths.length,
+      spread: best.sourceAmount.isZero()
+        ? new BigNumber(0)
+        : worst.sourceAmount
+            .minus(best.sourceAmount)
+            .dividedBy(best.sourceAmount),
+    },
+  };
+};
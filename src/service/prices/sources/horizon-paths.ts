@@ -0,0 +1,83 @@
+import BigNumber from "bignumber.js";
+import * as StellarSdk from "stellar-sdk";
+import { isContractId } from "../../../helper/validate";
+import { PathsNotFoundError, ensureError } from "../errors";
+import {
+  PriceCalculationResult,
+  PriceSource,
+  QuoteAsset,
+  TokenKey,
+} from "../types";
+import {
+  getBestPath,
+  getClassicAsset,
+  getLatestLedgerTimestamp,
+} from "./helpers";
+
+/**
+ * Prices classic assets using Horizon's path finding functionality.
+ * Finds strict receive paths from the token to the quote asset and uses the cheapest one, with the
+ * alternative paths describing the confidence of the price.
+ */
+export class HorizonPathsSource implements PriceSource {
+  readonly name = "horizon_paths";
+
+  constructor(private readonly server: StellarSdk.Horizon.Server) {}
+
+  supports = (token: TokenKey): boolean => {
+    return !isContractId(token);
+  };
+
+  /**
+   * Calculates the price of a token in a quote currency from the cheapest path that receives
+   * the quote receive value.
+   *
+   * @param token - Token identifier in format "code:issuer" or "XLM"
+   * @param quote - The quote currency to calculate the price in
+   * @param quoteAsset - The asset and receive value of the quote currency
+   * @returns Object containing timestamp, price in the quote currency and path confidence
+   * @throws Error if no paths are found or price calculation fails
+   */
+  getPrice = async (
+    token: TokenKey,
+    quote: string,
+    quoteAsset: QuoteAsset,
+  ): Promise<PriceCalculationResult> => {
+    try {
+      const sourceAssets = [getClassicAsset(token)];
+      const latestLedgerTimestamp = await getLatestLedgerTimestamp(this.server);
+
+      const paths = await this.server
+        .strictReceivePaths(
+          sourceAssets,
+          quoteAsset.asset,
+          quoteAsset.receiveValue.toString(),
+        )
+        .call();
+      if (!paths.records.length) {
+        throw new PathsNotFoundError(token);
+      }
+
+      const { best, confidence } = getBestPath(
+        paths.records.map((record) => ({
+          sourceAmount: new BigNumber(record.source_amount),
+          // Intermediate assets of the path, each adding a trade.
+          hops: record.path.length + 1,
+        })),
+      );
+      const unitTokenPrice = quoteAsset.receiveValue.dividedBy(
+        best.sourceAmount,
+      );
+      return {
+        timestamp: latestLedgerTimestamp,
+        price: unitTokenPrice,
+        confidence,
+      } as PriceCalculationResult;
+    } catch (e) {
+      throw ensureError(
+        e,
+        `calculating ${quote} price using paths for ${token}`,
+      );
+    }
+  };
+}
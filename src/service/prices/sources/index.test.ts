@@ -0,0 +1,279 @@
+import BigNumber from "bignumber.js";
+import * as StellarSdk from "stellar-sdk";
+import { testLogger } from "../../../helper/test-helper";
+import * as sorobanNetworkHelpers from "../../../helper/soroban-rpc/network";
+import * as sorobanTokenHelpers from "../../../helper/soroban-rpc/token";
+import * as sorobanRouterHelpers from "../../../helper/soroban-rpc/router";
+import * as sorobanOracleHelpers from "../../../helper/soroban-rpc/oracle";
+import * as helpers from "./helpers";
+import {
+  LiquidityPoolNotFoundError,
+  OracleAssetNotFoundError,
+  PathsNotFoundError,
+  SorobanPricingNotConfiguredError,
+} from "../errors";
+import {
+  HorizonPathsSource,
+  LiquidityPoolSource,
+  ManualOverrideSource,
+  Sep40OracleSource,
+  SorobanPricingContext,
+  SorobanRouterSource,
+} from ".";
+
+describe("Price Sources", () => {
+  const CONTRACT_TOKEN =
+    "CCWAMYJME4H5CKG7OLXGC2T4M6FL52XCZ3OQOAV6LL3GLA4RO4WH3ASP";
+  const ROUTER_CONTRACT =
+    "CAG5LRYQ5JVEUI5TEID72EYOVX44TTUJT5BQR2J6J77FH65PCCFAJDDH";
+  const USDC = new StellarSdk.Asset(
+    "USDC",
+    "GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN",
+  );
+  const quoteAsset = { asset: USDC, receiveValue: new BigNumber(500) };
+  const soroban = {
+    server: {},
+    pricingAccount: "GBBD47IF6LWK7P7MDEVSCWR7DPUWV3NY3DTQEVFL4NAT4AQH3ZLLFLA5",
+  } as unknown as SorobanPricingContext;
+
+  const mockHorizonServer = (records: object[]) =>
+    ({
+      strictReceivePaths: jest.fn().mockReturnValue({
+        call: jest.fn().mockResolvedValue({ records }),
+      }),
+      liquidityPools: jest.fn().mockReturnValue({
+        forAssets: jest.fn().mockReturnValue({
+          call: jest.fn().mockResolvedValue({ records }),
+        }),
+      }),
+    }) as unknown as StellarSdk.Horizon.Server;
+
+  beforeEach(() => {
+    jest.spyOn(testLogger, "debug").mockImplementation(() => testLogger);
+    jest
+      .spyOn(helpers, "getLatestLedgerTimestamp")
+      .mockResolvedValue(123456789);
+    jest
+      .spyOn(sorobanNetworkHelpers, "getTxBuilder")
+      .mockResolvedValue({} as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("HorizonPathsSource", () => {
+    it("should price a token from the cheapest path", async () => {
+      const source = new HorizonPathsSource(
+        mockHorizonServer([
+          { source_amount: "5000", path: [] },
+          { source_amount: "4000", path: [{ asset_type: "native" }] },
+        ]),
+      );
+
+      const result = await source.getPrice("XLM", "USD", quoteAsset);
+
+      expect(source.supports("XLM")).toBe(true);
+      expect(source.supports(CONTRACT_TOKEN)).toBe(false);
+      expect(result).toEqual({
+        timestamp: 123456789,
+        price: new BigNumber(500).dividedBy(4000),
+        confidence: {
+          hops: 2,
+          pathCount: 2,
+          spread: new BigNumber(0.25),
+        },
+      });
+    });
+
+    it("should throw when no paths are found", async () => {
+      const source = new HorizonPathsSource(mockHorizonServer([]));
+
+      await expect(source.getPrice("XLM", "USD", quoteAsset)).rejects.toThrow(
+        new PathsNotFoundError("XLM"),
+      );
+    });
+  });
+
+  describe("SorobanRouterSource", () => {
+    beforeEach(() => {
+      jest
+        .spyOn(sorobanTokenHelpers, "getTokenDecimals")
+        .mockResolvedValue("6");
+    });
+
+    it("should price contract tokens using the best router quote", async () => {
+      // 1000 tokens needed directly, 800 tokens when routed through XLM
+      jest
+        .spyOn(sorobanRouterHelpers, "getRouterAmountsIn")
+        .mockImplementation((_routerId, _amountOut, path) =>
+          Promise.resolve(
+            path.length === 2
+              ? [BigInt(1000_000000), BigInt(500_0000000)]
+              : [BigInt(800_000000), BigInt(1), BigInt(500_0000000)],
+          ),
+        );
+      const source = new SorobanRouterSource(
+        testLogger,
+        mockHorizonServer([]),
+        [ROUTER_CONTRACT],
+        soroban,
+      );
+
+      const result = await source.getPrice(CONTRACT_TOKEN, "USD", quoteAsset);
+
+      expect(source.supports(CONTRACT_TOKEN)).toBe(true);
+      expect(result).toEqual({
+        timestamp: 123456789,
+        price: new BigNumber(500).dividedBy(800),
+        confidence: {
+          hops: 2,
+          pathCount: 2,
+          spread: new BigNumber(0.25),
+        },
+      });
+      expect(sorobanRouterHelpers.getRouterAmountsIn).toHaveBeenCalledWith(
+        ROUTER_CONTRACT,
+        BigInt(500_0000000),
+        expect.arrayContaining([CONTRACT_TOKEN]),
+        soroban.server,
+        expect.anything(),
+        "PUBLIC",
+      );
+    });
+
+    it("should throw when no router can price the token", async () => {
+      jest
+        .spyOn(sorobanRouterHelpers, "getRouterAmountsIn")
+        .mockRejectedValue(new Error("PairDoesNotExist"));
+      const source = new SorobanRouterSource(
+        testLogger,
+        mockHorizonServer([]),
+        [ROUTER_CONTRACT],
+        soroban,
+      );
+
+      await expect(
+        source.getPrice(CONTRACT_TOKEN, "USD", quoteAsset),
+      ).rejects.toThrow(new PathsNotFoundError(CONTRACT_TOKEN));
+    });
+
+    it("should throw when Soroban pricing is not configured", async () => {
+      const source = new SorobanRouterSource(
+        testLogger,
+        mockHorizonServer([]),
+        [],
+      );
+
+      await expect(
+        source.getPrice(CONTRACT_TOKEN, "USD", quoteAsset),
+      ).rejects.toThrow(new SorobanPricingNotConfiguredError(CONTRACT_TOKEN));
+    });
+  });
+
+  describe("Sep40OracleSource", () => {
+    const ORACLE_CONTRACT =
+      "CALI2BYU2JE6WVRUFYTS6MSBNEHGJ35P4AVCZYF3B6QOE3QKOB2PLE6M";
+
+    it("should read the last price from the oracle of the quote", async () => {
+      jest
+        .spyOn(sorobanOracleHelpers, "getOracleDecimals")
+        .mockResolvedValue(14);
+      jest.spyOn(sorobanOracleHelpers, "getOracleLastPrice").mockResolvedValue({
+        price: BigInt("12000000000000"),
+        timestamp: BigInt(1700000000),
+      });
+      const source = new Sep40OracleSource(
+        [{ quote: "USD", contractId: ORACLE_CONTRACT }],
+        soroban,
+      );
+
+      const result = await source.getPrice("XLM", "USD", quoteAsset);
+      await source.getPrice("XLM", "USD", quoteAsset);
+
+      expect(source.supports("XLM", "USD")).toBe(true);
+      expect(source.supports("XLM", "EUR")).toBe(false);
+      expect(result).toEqual({
+        timestamp: 1700000000000,
+        price: new BigNumber(0.12),
+      });
+      expect(sorobanOracleHelpers.getOracleLastPrice).toHaveBeenCalledWith(
+        ORACLE_CONTRACT,
+        StellarSdk.Asset.native().contractId(StellarSdk.Networks.PUBLIC),
+        soroban.server,
+        expect.anything(),
+        "PUBLIC",
+      );
+      // Oracle decimals are only read once
+      expect(sorobanOracleHelpers.getOracleDecimals).toHaveBeenCalledTimes(1);
+    });
+
+    it("should throw when the oracle doesn't track the token", async () => {
+      jest
+        .spyOn(sorobanOracleHelpers, "getOracleDecimals")
+        .mockResolvedValue(14);
+      jest
+        .spyOn(sorobanOracleHelpers, "getOracleLastPrice")
+        .mockResolvedValue(undefined);
+      const source = new Sep40OracleSource(
+        [{ quote: "USD", contractId: ORACLE_CONTRACT }],
+        soroban,
+      );
+
+      await expect(source.getPrice("XLM", "USD", quoteAsset)).rejects.toThrow(
+        new OracleAssetNotFoundError("XLM"),
+      );
+    });
+  });
+
+  describe("LiquidityPoolSource", () => {
+    it("should price a token from the deepest pool reserve ratio", async () => {
+      const source = new LiquidityPoolSource(
+        mockHorizonServer([
+          {
+            reserves: [
+              { asset: "native", amount: "1000" },
+              { asset: USDC.toString(), amount: "100" },
+            ],
+          },
+          {
+            reserves: [
+              { asset: "native", amount: "9000" },
+              { asset: USDC.toString(), amount: "1080" },
+            ],
+          },
+        ]),
+      );
+
+      const result = await source.getPrice("XLM", "USD", quoteAsset);
+
+      expect(result).toEqual({
+        timestamp: 123456789,
+        price: new BigNumber(1080).dividedBy(9000),
+      });
+    });
+
+    it("should throw when no pool pairs the token with the quote", async () => {
+      const source = new LiquidityPoolSource(mockHorizonServer([]));
+
+      await expect(source.getPrice("XLM", "USD", quoteAsset)).rejects.toThrow(
+        new LiquidityPoolNotFoundError("XLM"),
+      );
+    });
+  });
+
+  describe("ManualOverrideSource", () => {
+    it("should only support configured token and quote pairs", async () => {
+      const source = new ManualOverrideSource([
+        { token: "XLM", quote: "USD", price: 0.1 },
+      ]);
+
+      const result = await source.getPrice("native", "USD", quoteAsset);
+
+      expect(source.isOverride).toBe(true);
+      expect(source.supports("native", "USD")).toBe(true);
+      expect(source.supports("XLM", "EUR")).toBe(false);
+      expect(result.price.toNumber()).toBe(0.1);
+    });
+  });
+});
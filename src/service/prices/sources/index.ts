@@ -0,0 +1,6 @@
+export * from "./helpers";
+export * from "./horizon-paths";
+export * from "./soroban-router";
+export * from "./sep40-oracle";
+export * from "./liquidity-pool";
+export * from "./manual-override";
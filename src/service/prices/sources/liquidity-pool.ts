@@ -0,0 +1,89 @@
+import BigNumber from "bignumber.js";
+import * as StellarSdk from "stellar-sdk";
+import { isContractId } from "../../../helper/validate";
+import { LiquidityPoolNotFoundError, ensureError } from "../errors";
+import {
+  PriceCalculationResult,
+  PriceSource,
+  QuoteAsset,
+  TokenKey,
+} from "../types";
+import { getClassicAsset, getLatestLedgerTimestamp } from "./helpers";
+
+/**
+ * Prices classic assets from the reserve ratio of the deepest classic liquidity pool
+ * that pairs the token directly with the quote asset.
+ */
+export class LiquidityPoolSource implements PriceSource {
+  readonly name = "liquidity_pool";
+
+  constructor(private readonly server: StellarSdk.Horizon.Server) {}
+
+  supports = (token: TokenKey): boolean => {
+    return !isContractId(token);
+  };
+
+  /**
+   * Calculates the price of a token in a quote currency from liquidity pool reserves.
+   *
+   * @param token - Token identifier in format "code:issuer" or "XLM"
+   * @param quote - The quote currency to calculate the price in
+   * @param quoteAsset - The asset of the quote currency
+   * @returns Object containing timestamp and price in the quote currency
+   * @throws Error if no pool with reserves pairs the token with the quote asset
+   */
+  getPrice = async (
+    token: TokenKey,
+    quote: string,
+    quoteAsset: QuoteAsset,
+  ): Promise<PriceCalculationResult> => {
+    try {
+      const tokenAssetId = getClassicAsset(token).toString();
+      const quoteAssetId = quoteAsset.asset.toString();
+
+      const pools = await this.server
+        .liquidityPools()
+        .forAssets(getClassicAsset(token), quoteAsset.asset)
+        .call();
+
+      let deepest: { tokenReserve: BigNumber; quoteReserve: BigNumber } | null =
+        null;
+      for (const pool of pools.records) {
+        const tokenReserve = pool.reserves.find(
+          (reserve) => reserve.asset === tokenAssetId,
+        );
+        const quoteReserve = pool.reserves.find(
+          (reserve) => reserve.asset === quoteAssetId,
+        );
+        if (!tokenReserve || !quoteReserve) {
+          continue;
+        }
+
+        const reserves = {
+          tokenReserve: new BigNumber(tokenReserve.amount),
+          quoteReserve: new BigNumber(quoteReserve.amount),
+        };
+        if (reserves.tokenReserve.isZero() || reserves.quoteReserve.isZero()) {
+          continue;
+        }
+        if (!deepest || reserves.quoteReserve.gt(deepest.quoteReserve)) {
+          deepest = reserves;
+        }
+      }
+
+      if (!deepest) {
+        throw new LiquidityPoolNotFoundError(token);
+      }
+
+      return {
+        timestamp: await getLatestLedgerTimestamp(this.server),
+        price: deepest.quoteReserve.dividedBy(deepest.tokenReserve),
+      } as PriceCalculationResult;
+    } catch (e) {
+      throw ensureError(
+        e,
+        `calculating ${quote} price using liquidity pools for ${token}`,
+      );
+    }
+  };
+}
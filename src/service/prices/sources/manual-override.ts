@@ -0,0 +1,53 @@
+import BigNumber from "bignumber.js";
+import { ManualPriceOverrideConfig } from "../../../config";
+import { TokenPricesError } from "../errors";
+import {
+  PriceCalculationResult,
+  PriceSource,
+  QuoteAsset,
+  TokenKey,
+} from "../types";
+
+/**
+ * Returns statically configured prices, e.g. to pin a stablecoin or to correct a token
+ * whose market is known to be broken. Its prices replace the aggregated price.
+ */
+export class ManualOverrideSource implements PriceSource {
+  readonly name = "manual_override";
+  readonly isOverride = true;
+
+  private readonly overrides: Map<string, BigNumber>;
+
+  constructor(overrides: ManualPriceOverrideConfig[]) {
+    this.overrides = new Map(
+      overrides.map(({ token, quote, price }) => [
+        this.getOverrideKey(token, quote),
+        new BigNumber(price),
+      ]),
+    );
+  }
+
+  supports = (token: TokenKey, quote: string): boolean => {
+    return this.overrides.has(this.getOverrideKey(token, quote));
+  };
+
+  getPrice = async (
+    token: TokenKey,
+    quote: string,
+    _quoteAsset: QuoteAsset,
+  ): Promise<PriceCalculationResult> => {
+    const price = this.overrides.get(this.getOverrideKey(token, quote));
+    if (!price) {
+      throw new TokenPricesError(`No ${quote} price override for ${token}`);
+    }
+
+    return {
+      timestamp: Date.now(),
+      price,
+    };
+  };
+
+  private getOverrideKey(token: TokenKey, quote: string): string {
+    return `${token === "native" ? "XLM" : token}@${quote}`;
+  }
+}
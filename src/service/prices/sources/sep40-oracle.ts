@@ -0,0 +1,102 @@
+import BigNumber from "bignumber.js";
+import { getTxBuilder } from "../../../helper/soroban-rpc/network";
+import {
+  getOracleDecimals,
+  getOracleLastPrice,
+} from "../../../helper/soroban-rpc/oracle";
+import { Sep40OracleConfig } from "../../../config";
+import { OracleAssetNotFoundError, ensureError } from "../errors";
+import {
+  PriceCalculationResult,
+  PriceSource,
+  QuoteAsset,
+  TokenKey,
+} from "../types";
+import { SorobanPricingContext, getTokenContractId } from "./helpers";
+
+/**
+ * Prices tokens using SEP-40 oracle contracts (e.g. Reflector) read through Soroban RPC.
+ * Each oracle quotes prices in a single currency, so a quote is only supported when an oracle is configured for it.
+ */
+export class Sep40OracleSource implements PriceSource {
+  readonly name = "sep40_oracle";
+
+  /**
+   * Oracle decimals never change, so they are cached per oracle contract after the first read.
+   */
+  private readonly oracleDecimals = new Map<string, number>();
+
+  constructor(
+    private readonly oracles: Sep40OracleConfig[],
+    private readonly soroban: SorobanPricingContext,
+  ) {}
+
+  supports = (_token: TokenKey, quote: string): boolean => {
+    return this.oracles.some((oracle) => oracle.quote === quote);
+  };
+
+  /**
+   * Reads the last price of a token from the oracle configured for the quote currency.
+   *
+   * @param token - Token identifier in format "code:issuer", "XLM" or a contract ID
+   * @param quote - The quote currency to read the price in
+   * @param _quoteAsset - Unused, oracles quote their own base currency
+   * @returns Object containing the oracle timestamp and price in the quote currency
+   * @throws Error if the oracle doesn't track the token or the price cannot be read
+   */
+  getPrice = async (
+    token: TokenKey,
+    quote: string,
+    _quoteAsset: QuoteAsset,
+  ): Promise<PriceCalculationResult> => {
+    try {
+      const oracle = this.oracles.find((oracle) => oracle.quote === quote);
+      if (!oracle) {
+        throw new OracleAssetNotFoundError(token);
+      }
+
+      const { server, pricingAccount } = this.soroban;
+      const decimals = await this.getDecimals(oracle.contractId);
+      const priceData = await getOracleLastPrice(
+        oracle.contractId,
+        getTokenContractId(token),
+        server,
+        await getTxBuilder(pricingAccount, "PUBLIC", server),
+        "PUBLIC",
+      );
+      if (!priceData) {
+        throw new OracleAssetNotFoundError(token);
+      }
+
+      return {
+        // SEP-40 timestamps are in seconds
+        timestamp: Number(priceData.timestamp) * 1000,
+        price: new BigNumber(priceData.price.toString()).shiftedBy(-decimals),
+      } as PriceCalculationResult;
+    } catch (e) {
+      throw ensureError(
+        e,
+        `calculating ${quote} price using SEP-40 oracle for ${token}`,
+      );
+    }
+  };
+
+  private async getDecimals(contractId: string): Promise<number> {
+    const cached = this.oracleDecimals.get(contractId);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const { server, pricingAccount } = this.soroban;
+    const decimals = Number(
+      await getOracleDecimals(
+        contractId,
+        server,
+        await getTxBuilder(pricingAccount, "PUBLIC", server),
+        "PUBLIC",
+      ),
+    );
+    this.oracleDecimals.set(contractId, decimals);
+    return decimals;
+  }
+}
@@ -0,0 +1,140 @@
+import BigNumber from "bignumber.js";
+import * as StellarSdk from "stellar-sdk";
+import { Logger } from "pino";
+import { isContractId } from "../../../helper/validate";
+import { getTxBuilder } from "../../../helper/soroban-rpc/network";
+import { getTokenDecimals } from "../../../helper/soroban-rpc/token";
+import { getRouterAmountsIn } from "../../../helper/soroban-rpc/router";
+import {
+  PathsNotFoundError,
+  SorobanPricingNotConfiguredError,
+  ensureError,
+} from "../errors";
+import {
+  PriceCalculationResult,
+  PriceSource,
+  QuoteAsset,
+  TokenKey,
+} from "../types";
+import {
+  PricedPath,
+  SAC_DECIMALS,
+  SorobanPricingContext,
+  getBestPath,
+  getLatestLedgerTimestamp,
+} from "./helpers";
+
+/**
+ * Prices Soroban contract tokens by simulating swaps against the configured AMM router contracts.
+ * Mirrors the strict receive approach used for classic assets: asks each router how much of the
+ * token is needed to receive the quote receive value, directly or routed through XLM, and uses
+ * the best quote.
+ */
+export class SorobanRouterSource implements PriceSource {
+  readonly name = "soroban_router";
+
+  constructor(
+    private readonly logger: Logger,
+    private readonly horizonServer: StellarSdk.Horizon.Server,
+    private readonly routerContracts: string[],
+    private readonly soroban?: SorobanPricingContext,
+  ) {}
+
+  supports = (token: TokenKey): boolean => {
+    return isContractId(token);
+  };
+
+  /**
+   * Calculates the price of a contract token in a quote currency from the best router quote.
+   *
+   * @param token - Contract ID of the token to calculate price for
+   * @param quote - The quote currency to calculate the price in
+   * @param quoteAsset - The asset and receive value of the quote currency
+   * @returns Object containing timestamp, price in the quote currency and path confidence
+   * @throws Error if Soroban pricing is not configured, no router can price the token or price calculation fails
+   */
+  getPrice = async (
+    token: TokenKey,
+    quote: string,
+    quoteAsset: QuoteAsset,
+  ): Promise<PriceCalculationResult> => {
+    try {
+      if (!this.soroban || this.routerContracts.length === 0) {
+        throw new SorobanPricingNotConfiguredError(token);
+      }
+
+      const { server, pricingAccount } = this.soroban;
+      const networkPassphrase = StellarSdk.Networks.PUBLIC;
+      const decimals = Number(
+        await getTokenDecimals(
+          token,
+          server,
+          await getTxBuilder(pricingAccount, "PUBLIC", server),
+          "PUBLIC",
+        ),
+      );
+
+      const quoteContractId = quoteAsset.asset.contractId(networkPassphrase);
+      const nativeContractId =
+        StellarSdk.Asset.native().contractId(networkPassphrase);
+      const swapPaths = [
+        [token, quoteContractId],
+        [token, nativeContractId, quoteContractId],
+      ];
+      const amountOut = BigInt(
+        quoteAsset.receiveValue
+          .shiftedBy(SAC_DECIMALS)
+          .integerValue(BigNumber.ROUND_DOWN)
+          .toFixed(),
+      );
+
+      const amountsIn = await Promise.all(
+        this.routerContracts.flatMap((routerId) =>
+          swapPaths.map(async (path) => {
+            try {
+              const amounts = await getRouterAmountsIn(
+                routerId,
+                amountOut,
+                path,
+                server,
+                await getTxBuilder(pricingAccount, "PUBLIC", server),
+                "PUBLIC",
+              );
+              return {
+                sourceAmount: new BigNumber(amounts[0].toString()),
+                hops: path.length - 1,
+              };
+            } catch (e) {
+              // Routers revert when a pair in the path doesn't exist, try the remaining paths.
+              this.logger.debug(
+                `No ${path.join(" -> ")} route on router ${routerId}: ${e}`,
+              );
+              return null;
+            }
+          }),
+        ),
+      );
+
+      const validPaths = amountsIn.filter(
+        (path): path is PricedPath => path !== null && path.sourceAmount.gt(0),
+      );
+      if (!validPaths.length) {
+        throw new PathsNotFoundError(token);
+      }
+
+      const { best, confidence } = getBestPath(validPaths);
+      const tokenUnit = best.sourceAmount.shiftedBy(-decimals);
+      const unitTokenPrice = quoteAsset.receiveValue.dividedBy(tokenUnit);
+      return {
+        timestamp: await getLatestLedgerTimestamp(this.horizonServer),
+        price: unitTokenPrice,
+        confidence,
+      } as PriceCalculationResult;
+    } catch (e) {
+      throw ensureError(
+        e,
+        `calculating ${quote} price using Soroban routers for ${token}`,
+      );
+    }
+  };
+}
@@ -0,0 +1,80 @@
+import BigNumber from "bignumber.js";
+import { PriceStream } from "./stream";
+import { testLogger } from "../../helper/test-helper";
+
+describe("Price Stream", () => {
+  let publish: (message: string) => void;
+  const subscriber = {
+    on: jest.fn(),
+    connect: jest.fn().mockResolvedValue(undefined),
+    subscribe: jest.fn((_channel: string, listener: (m: string) => void) => {
+      publish = listener;
+      return Promise.resolve();
+    }),
+  };
+  const mockRedisClient: any = {
+    duplicate: jest.fn(() => subscriber),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(testLogger, "error").mockImplementation(() => testLogger);
+  });
+
+  it("should forward updates of the subscribed tokens and quote", async () => {
+    const stream = new PriceStream(testLogger, mockRedisClient, "channel");
+    const onUpdate = jest.fn();
+
+    await stream.subscribe(["XLM", "TOKEN1"], "USD", onUpdate);
+    publish(
+      JSON.stringify([
+        { token: "XLM", quote: "USD", timestamp: 1, price: "0.1" },
+        { token: "XLM", quote: "EUR", timestamp: 1, price: "0.09" },
+        { token: "TOKEN2", quote: "USD", timestamp: 1, price: "2" },
+      ]),
+    );
+
+    expect(subscriber.subscribe).toHaveBeenCalledWith(
+      "channel",
+      expect.any(Function),
+    );
+    expect(onUpdate).toHaveBeenCalledTimes(1);
+    expect(onUpdate).toHaveBeenCalledWith({
+      token: "XLM",
+      quote: "USD",
+      timestamp: 1,
+      price: new BigNumber(0.1),
+    });
+  });
+
+  it("should subscribe to the channel once and stop forwarding after unsubscribing", async () => {
+    const stream = new PriceStream(testLogger, mockRedisClient, "channel");
+    const first = jest.fn();
+    const second = jest.fn();
+
+    const unsubscribe = await stream.subscribe(["XLM"], "USD", first);
+    await stream.subscribe(["XLM"], "USD", second);
+    unsubscribe();
+    publish(
+      JSON.stringify([
+        { token: "XLM", quote: "USD", timestamp: 1, price: "0.1" },
+      ]),
+    );
+
+    expect(mockRedisClient.duplicate).toHaveBeenCalledTimes(1);
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it("should retry a failed subscription", async () => {
+    subscriber.connect.mockRejectedValueOnce(new Error("Connection refused"));
+    const stream = new PriceStream(testLogger, mockRedisClient, "channel");
+
+    await expect(stream.subscribe(["XLM"], "USD", jest.fn())).rejects.toThrow(
+      "subscribing to price updates",
+    );
+    await stream.subscribe(["XLM"], "USD", jest.fn());
+
+    expect(mockRedisClient.duplicate).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,107 @@
+import { Logger } from "pino";
+import BigNumber from "bignumber.js";
+import { ensureError } from "./errors";
+import { PriceUpdate, RedisClientWithTS, TokenKey } from "./types";
+
+interface PriceStreamListener {
+  readonly tokens: Set<TokenKey>;
+  readonly quote: string;
+  readonly onUpdate: (update: PriceUpdate) => void;
+}
+
+/**
+ * PriceStream fans out the price updates the price worker publishes on a Redis channel to the
+ * listeners of this API instance. It subscribes to the channel on a dedicated connection the first
+ * time a listener subscribes.
+ */
+export class PriceStream {
+  private readonly listeners = new Set<PriceStreamListener>();
+  private subscribing?: Promise<void>;
+
+  constructor(
+    private readonly logger: Logger,
+    private readonly redisClient: RedisClientWithTS,
+    private readonly channel: string,
+  ) {}
+
+  /**
+   * Registers a listener for the price updates of a list of tokens in a quote currency.
+   *
+   * @param tokens - Token keys to receive updates for
+   * @param quote - The quote currency to receive updates in
+   * @param onUpdate - Called with every matching price update
+   * @returns Function that removes the listener
+   * @throws Error if the price update channel cannot be subscribed to
+   */
+  subscribe = async (
+    tokens: TokenKey[],
+    quote: string,
+    onUpdate: (update: PriceUpdate) => void,
+  ): Promise<() => void> => {
+    await this.ensureSubscribed();
+
+    const listener = { tokens: new Set(tokens), quote, onUpdate };
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Subscribes to the price update channel once, on a duplicate of the Redis client since a
+   * subscribed connection can't run other commands. A failed subscription is retried on the next call.
+   *
+   * @private
+   */
+  private ensureSubscribed(): Promise<void> {
+    if (!this.subscribing) {
+      this.subscribing = (async () => {
+        const subscriber = this.redisClient.duplicate();
+        subscriber.on("error", (error: Error) => {
+          this.logger.error(
+            { error: error.message },
+            "Redis price stream connection error",
+          );
+        });
+        await subscriber.connect();
+        await subscriber.subscribe(this.channel, this.handleMessage);
+      })().catch((e) => {
+        this.subscribing = undefined;
+        throw ensureError(e, `subscribing to price updates`);
+      });
+    }
+    return this.subscribing;
+  }
+
+  /**
+   * Forwards the price updates of a published batch to the listeners of their token and quote.
+   *
+   * @param message - JSON encoded array of price updates
+   * @private
+   */
+  private handleMessage = (message: string): void => {
+    let updates: PriceUpdate[];
+    try {
+      updates = JSON.parse(message).map(
+        (update: { price: string } & Omit<PriceUpdate, "price">) => ({
+          ...update,
+          price: new BigNumber(update.price),
+        }),
+      );
+    } catch (e) {
+      this.logger.error(ensureError(e, `parsing price update ${message}`));
+      return;
+    }
+
+    for (const listener of this.listeners) {
+      for (const update of updates) {
+        if (
+          update.quote === listener.quote &&
+          listener.tokens.has(update.token)
+        ) {
+          listener.onUpdate(update);
+        }
+      }
+    }
+  };
+}
@@ -4,8 +4,11 @@ import {
   RedisFunctions,
   RedisScripts,
 } from "redis";
-import TimeSeriesCommands from "@redis/time-series";
+import TimeSeriesCommands, {
+  TimeSeriesAggregationType,
+} from "@redis/time-series";
 import BigNumber from "bignumber.js";
+import { Asset } from "stellar-sdk";
 
 export type RedisClientWithTS = RedisClientType<
   RedisModules & { ts: typeof TimeSeriesCommands },
@@ -16,15 +19,96 @@ export type RedisClientWithTS = RedisClientType<
 export interface TokenPriceData {
   readonly currentPrice: BigNumber;
   readonly percentagePriceChange24h: BigNumber | null;
+  /**
+   * Whether the latest price sample of the token was quarantined for deviating from its recent prices.
+   */
+  readonly unreliable: boolean;
+  /**
+   * Depth of the paths the latest price was derived from, null if its source doesn't price through paths.
+   */
+  readonly confidence: PriceConfidence | null;
+}
+
+export interface PriceConfidence {
+  /**
+   * Number of trades in the path the price was taken from.
+   */
+  readonly hops: number;
+  /**
+   * Number of alternative paths found between the token and the quote asset.
+   */
+  readonly pathCount: number;
+  /**
+   * Relative difference between the worst and the best source amount of the alternative paths.
+   */
+  readonly spread: BigNumber;
 }
 
 export interface PriceCalculationResult {
   readonly timestamp: number;
   readonly price: BigNumber;
+  readonly confidence?: PriceConfidence;
 }
 
 export type TokenKey = string;
 
+export interface PriceUpdate extends PriceCalculationResult {
+  readonly token: TokenKey;
+  readonly quote: string;
+}
+
+export interface RefreshTier {
+  /**
+   * Number of tokens in the tier.
+   */
+  readonly size: number;
+  /**
+   * Number of update cycles between two refreshes of the tokens in the tier.
+   */
+  readonly refreshEvery: number;
+}
+
+export interface TrackedToken {
+  readonly token: TokenKey;
+  /**
+   * Number of times the price of the token was requested.
+   */
+  readonly accessCount: number;
+  /**
+   * Timestamp of the latest price of the token, null if it has none yet.
+   */
+  readonly lastUpdated: number | null;
+  readonly pinned: boolean;
+}
+
+export interface PriceSample extends PriceCalculationResult {
+  readonly token: TokenKey;
+  readonly quote: string;
+}
+
+export interface QuoteAsset {
+  readonly asset: Asset;
+  readonly receiveValue: BigNumber;
+}
+
+export interface PriceSource {
+  readonly name: string;
+  /**
+   * Whether a price returned by this source should be used as is instead of being aggregated.
+   */
+  readonly isOverride?: boolean;
+  supports(token: TokenKey, quote: string): boolean;
+  getPrice(
+    token: TokenKey,
+    quote: string,
+    quoteAsset: QuoteAsset,
+  ): Promise<PriceCalculationResult>;
+}
+
+export interface SourcePriceResult extends PriceCalculationResult {
+  readonly source: string;
+}
+
 export interface MAddEntry {
   readonly key: string;
   readonly timestamp: number;
@@ -35,3 +119,140 @@ export interface TimeSeriesEntry {
   readonly timestamp: number;
   readonly value: number;
 }
+
+export type PriceHistoryPeriod = "1h" | "24h" | "7d" | "30d";
+
+export interface PriceHistoryEntry {
+  readonly timestamp: number;
+  readonly price: BigNumber;
+}
+
+export interface TokenPriceHistoryData {
+  readonly token: TokenKey;
+  readonly period: PriceHistoryPeriod;
+  readonly prices: PriceHistoryEntry[];
+}
+
+export type CandleInterval = "5m" | "1h" | "1d";
+
+export type CandleField = "open" | "high" | "low" | "close";
+
+export type Candle = {
+  readonly timestamp: number;
+} & {
+  readonly [field in CandleField]: BigNumber;
+};
+
+export interface TokenCandlesData {
+  readonly token: TokenKey;
+  readonly interval: CandleInterval;
+  readonly candles: Candle[];
+}
+
+export interface CompactionRule {
+  readonly suffix: string;
+  readonly aggregation: TimeSeriesAggregationType;
+  readonly bucketMs: number;
+  readonly retention: number;
+  readonly label: string;
+}
+
+export interface PortfolioAsset {
+  readonly token: TokenKey;
+  readonly amount: BigNumber;
+  readonly price: BigNumber;
+  readonly value: BigNumber;
+  /**
+   * Change of the asset value over the last 24 hours, null if the token has no 24 hour price change yet.
+   */
+  readonly valueChange24h: BigNumber | null;
+  readonly percentagePriceChange24h: BigNumber | null;
+}
+
+export interface PortfolioValuation {
+  readonly quote: string;
+  readonly totalValue: BigNumber;
+  readonly valueChange24h: BigNumber;
+  readonly percentageChange24h: BigNumber | null;
+  /**
+   * Priced balances, keyed by their balance key.
+   */
+  readonly assets: { [balanceKey: string]: PortfolioAsset };
+  /**
+   * Balance keys of the assets that have no price in the quote currency.
+   */
+  readonly unpricedAssets: string[];
+}
+
+export interface PortfolioHistoryEntry {
+  readonly timestamp: number;
+  readonly value: BigNumber;
+}
+
+export interface PortfolioHistory {
+  readonly quote: string;
+  /**
+   * Value of the portfolio at regular intervals over the history period, in chronological order.
+   */
+  readonly values: PortfolioHistoryEntry[];
+  /**
+   * Tokens held over the history period that have no price history.
+   */
+  readonly unpricedAssets: TokenKey[];
+}
+
+export type PriceAlertDirection = "up" | "down";
+
+export interface PriceAlertCondition {
+  readonly token: TokenKey;
+  readonly quote: string;
+  /**
+   * Whether the alert fires on a price rise ("up") or a price drop ("down").
+   */
+  readonly direction: PriceAlertDirection;
+  /**
+   * Price the token has to cross in the alert direction, null for a percentage move alert.
+   */
+  readonly threshold: BigNumber | null;
+  /**
+   * Percentage the price has to move by in the alert direction within windowMs, null for a threshold alert.
+   */
+  readonly percentChange: number | null;
+  readonly windowMs: number | null;
+  /**
+   * HTTPS URL the alert is delivered to.
+   */
+  readonly webhookUrl: string;
+}
+
+export interface PriceAlert extends PriceAlertCondition {
+  readonly id: string;
+  /**
+   * Key the webhook deliveries of the alert are signed with.
+   */
+  readonly secret: string;
+  readonly createdAt: number;
+  /**
+   * Whether the condition held on the last evaluation. The alert fires again only once the condition stopped holding.
+   */
+  readonly triggered: boolean;
+}
+
+export interface PriceWindow {
+  readonly timestamp: number;
+  readonly price: BigNumber;
+  /**
+   * The latest price at or before the start of the window, null if the token isn't tracked for that long.
+   */
+  readonly windowPrice: BigNumber | null;
+}
+
+export interface PriceAlertDelivery {
+  readonly id: string;
+  readonly alertId: string;
+  /**
+   * JSON encoded webhook body.
+   */
+  readonly payload: string;
+  readonly attempts: number;
+}
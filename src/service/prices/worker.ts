@@ -12,6 +12,8 @@ const CONFIG = {
   NUM_RETRIES_CACHE_INITIALIZATION: 3,
   PRICE_CACHE_INITIALIZATION_RETRY_DELAY_MS: 30000,
   PRICE_WORKER_LAST_UPDATE_KEY: "price_worker_last_update",
+  PRICE_BACKFILL_INTERVAL_MS: 10000,
+  PRICE_ALERT_DELIVERY_INTERVAL_MS: 5000,
 } as const;
 
 async function createRedisClient(): Promise<RedisClientWithTS> {
@@ -83,6 +85,13 @@ async function updatePrices(
     const error = ensureError(e, "updating price cache");
     logger.error(error);
   }
+
+  try {
+    await priceClient.evaluatePriceAlerts();
+  } catch (e) {
+    const error = ensureError(e, "evaluating price alerts");
+    logger.error(error);
+  }
 }
 
 async function startPriceUpdateInterval(
@@ -103,6 +112,40 @@ async function startPriceUpdateInterval(
   void scheduleNextUpdate();
 }
 
+async function startPriceBackfillInterval(
+  priceClient: PriceClient,
+): Promise<void> {
+  const scheduleNextBackfill = async () => {
+    try {
+      await priceClient.backfillNewTokens();
+    } catch (e) {
+      const error = ensureError(e, "backfilling price history");
+      logger.error(error);
+    } finally {
+      setTimeout(scheduleNextBackfill, CONFIG.PRICE_BACKFILL_INTERVAL_MS);
+    }
+  };
+
+  void scheduleNextBackfill();
+}
+
+async function startPriceAlertDeliveryInterval(
+  priceClient: PriceClient,
+): Promise<void> {
+  const scheduleNextDelivery = async () => {
+    try {
+      await priceClient.deliverPriceAlerts();
+    } catch (e) {
+      const error = ensureError(e, "delivering price alerts");
+      logger.error(error);
+    } finally {
+      setTimeout(scheduleNextDelivery, CONFIG.PRICE_ALERT_DELIVERY_INTERVAL_MS);
+    }
+  };
+
+  void scheduleNextDelivery();
+}
+
 async function main(): Promise<void> {
   try {
     const redisClient = await createRedisClient();
@@ -116,9 +159,23 @@ async function main(): Promise<void> {
       await initializePriceCache(priceClient, redisClient);
     } else {
       logger.info("Price cache already initialized");
+      try {
+        await priceClient.initQuoteSeries();
+      } catch (e) {
+        const error = ensureError(e, "quote series initialization");
+        logger.error(error);
+      }
+      try {
+        await priceClient.initCompactionSeries();
+      } catch (e) {
+        const error = ensureError(e, "compaction series initialization");
+        logger.error(error);
+      }
     }
 
     await startPriceUpdateInterval(priceClient, redisClient);
+    await startPriceBackfillInterval(priceClient);
+    await startPriceAlertDeliveryInterval(priceClient);
   } catch (e) {
     const error = ensureError(e, "worker initialization");
     logger.error(error);
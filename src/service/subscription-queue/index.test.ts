@@ -0,0 +1,209 @@
+import {
+  SUBSCRIPTION_QUEUE_CONFIG,
+  SubscriptionJob,
+  SubscriptionQueue,
+  getRetryDelay,
+  getSubscriptionJobId,
+} from ".";
+import {
+  mockMercuryClient,
+  pubKey,
+  testLogger,
+} from "../../helper/test-helper";
+
+describe("SubscriptionQueue", () => {
+  const contractId = "CCWAMYJME4H5CKG7OLXGC2T4M6FL52XCZ3OQOAV6LL3GLA4RO4WH3ASP";
+  const mockPipeline: any = {
+    set: jest.fn().mockReturnThis(),
+    zadd: jest.fn().mockReturnThis(),
+    zrem: jest.fn().mockReturnThis(),
+    exec: jest.fn(),
+  };
+  const mockRedisClient: any = {
+    get: jest.fn(),
+    set: jest.fn(),
+    zadd: jest.fn(),
+    zrem: jest.fn(),
+    del: jest.fn(),
+    multi: jest.fn(() => mockPipeline),
+  };
+  const queue = new SubscriptionQueue(mockRedisClient, testLogger);
+  const now = 1700000000000;
+  let dateNowSpy: jest.SpyInstance;
+
+  const pendingJob = (attempts: number): SubscriptionJob => ({
+    id: getSubscriptionJobId({ network: "PUBLIC", type: "account", pubKey }),
+    network: "PUBLIC",
+    type: "account",
+    pubKey,
+    status: "pending",
+    attempts,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dateNowSpy = jest.spyOn(Date, "now").mockReturnValue(now);
+  });
+
+  afterEach(() => {
+    dateNowSpy.mockRestore();
+  });
+
+  it("keys jobs by network, type, account and contract", () => {
+    expect(
+      getSubscriptionJobId({
+        network: "TESTNET",
+        type: "token_balance",
+        pubKey,
+        contractId,
+      }),
+    ).toEqual(`TESTNET:token_balance:${pubKey}:${contractId}`);
+  });
+
+  it("backs off exponentially up to a maximum delay", () => {
+    expect([1, 2, 3].map(getRetryDelay)).toEqual([5000, 10000, 20000]);
+    expect(getRetryDelay(SUBSCRIPTION_QUEUE_CONFIG.MAX_ATTEMPTS)).toEqual(
+      SUBSCRIPTION_QUEUE_CONFIG.MAX_RETRY_DELAY_MS,
+    );
+  });
+
+  it("queues a subscription once", async () => {
+    mockRedisClient.set.mockResolvedValueOnce("OK");
+    const job = await queue.enqueue({
+      network: "PUBLIC",
+      type: "account",
+      pubKey,
+    });
+    expect(job).toEqual(pendingJob(0));
+    expect(mockRedisClient.zadd).toHaveBeenCalledWith(
+      SUBSCRIPTION_QUEUE_CONFIG.QUEUE_KEY,
+      now,
+      job.id,
+    );
+
+    mockRedisClient.set.mockResolvedValueOnce(null);
+    mockRedisClient.get.mockResolvedValueOnce(JSON.stringify(pendingJob(2)));
+    const existing = await queue.enqueue({
+      network: "PUBLIC",
+      type: "account",
+      pubKey,
+    });
+    expect(existing).toEqual(pendingJob(2));
+    expect(mockRedisClient.zadd).toHaveBeenCalledTimes(1);
+  });
+
+  it("queues dead subscriptions again", async () => {
+    mockRedisClient.set.mockResolvedValueOnce(null);
+    mockRedisClient.get.mockResolvedValueOnce(
+      JSON.stringify({ ...pendingJob(12), status: "dead" }),
+    );
+    const job = await queue.enqueue({
+      network: "PUBLIC",
+      type: "account",
+      pubKey,
+    });
+
+    expect(job).toEqual(pendingJob(0));
+    expect(mockPipeline.zrem).toHaveBeenCalledWith(
+      SUBSCRIPTION_QUEUE_CONFIG.DEAD_LETTER_KEY,
+      job.id,
+    );
+    expect(mockRedisClient.zadd).toHaveBeenCalledWith(
+      SUBSCRIPTION_QUEUE_CONFIG.QUEUE_KEY,
+      now,
+      job.id,
+    );
+  });
+
+  it("forgets the completed jobs of deleted subscriptions", async () => {
+    const completedId = getSubscriptionJobId({
+      network: "PUBLIC",
+      type: "token_balance",
+      pubKey,
+      contractId,
+    });
+    mockRedisClient.get.mockImplementation(async (key: string) =>
+      key === `${SUBSCRIPTION_QUEUE_CONFIG.JOB_KEY}:${completedId}`
+        ? JSON.stringify({ ...pendingJob(1), status: "completed" })
+        : JSON.stringify(pendingJob(1)),
+    );
+
+    await queue.clearCompletedJobs([
+      { network: "PUBLIC", type: "account", pubKey },
+      { network: "PUBLIC", type: "token_balance", pubKey, contractId },
+    ]);
+
+    expect(mockRedisClient.del).toHaveBeenCalledTimes(1);
+    expect(mockRedisClient.del).toHaveBeenCalledWith(
+      `${SUBSCRIPTION_QUEUE_CONFIG.JOB_KEY}:${completedId}`,
+    );
+    mockRedisClient.get.mockReset();
+  });
+
+  it("completes a job once subscribed", async () => {
+    mockRedisClient.get.mockResolvedValueOnce(JSON.stringify(pendingJob(0)));
+    const getAccountSubSpy = jest
+      .spyOn(mockMercuryClient, "getAccountSubForPubKey")
+      .mockResolvedValue([]);
+    const accountSubscriptionSpy = jest
+      .spyOn(mockMercuryClient, "accountSubscription")
+      .mockResolvedValue({ data: { id: 1 }, error: null });
+
+    const job = await queue.processJob(pendingJob(0).id, mockMercuryClient);
+
+    expect(job).toEqual({ ...pendingJob(1), status: "completed" });
+    expect(accountSubscriptionSpy).toHaveBeenCalledWith(pubKey, "PUBLIC");
+    expect(mockPipeline.set).toHaveBeenCalledWith(
+      `${SUBSCRIPTION_QUEUE_CONFIG.JOB_KEY}:${job!.id}`,
+      JSON.stringify(job),
+      "EX",
+      SUBSCRIPTION_QUEUE_CONFIG.COMPLETED_JOB_TTL_S,
+    );
+    expect(mockPipeline.zrem).toHaveBeenCalledWith(
+      SUBSCRIPTION_QUEUE_CONFIG.QUEUE_KEY,
+      job!.id,
+    );
+    getAccountSubSpy.mockRestore();
+    accountSubscriptionSpy.mockRestore();
+  });
+
+  it("retries failed jobs with a backoff, then dead-letters them", async () => {
+    const getAccountSubSpy = jest
+      .spyOn(mockMercuryClient, "getAccountSubForPubKey")
+      .mockResolvedValue([]);
+    const accountSubscriptionSpy = jest
+      .spyOn(mockMercuryClient, "accountSubscription")
+      .mockResolvedValue({ data: null, error: new Error("Mercury down") });
+
+    mockRedisClient.get.mockResolvedValueOnce(JSON.stringify(pendingJob(2)));
+    const retried = await queue.processJob(pendingJob(2).id, mockMercuryClient);
+    expect(retried).toEqual({
+      ...pendingJob(3),
+      lastError: "Mercury down",
+    });
+    expect(mockPipeline.zadd).toHaveBeenCalledWith(
+      SUBSCRIPTION_QUEUE_CONFIG.QUEUE_KEY,
+      now + getRetryDelay(3),
+      retried!.id,
+    );
+
+    const lastAttempt = SUBSCRIPTION_QUEUE_CONFIG.MAX_ATTEMPTS - 1;
+    mockRedisClient.get.mockResolvedValueOnce(
+      JSON.stringify(pendingJob(lastAttempt)),
+    );
+    const dead = await queue.processJob(
+      pendingJob(lastAttempt).id,
+      mockMercuryClient,
+    );
+    expect(dead?.status).toEqual("dead");
+    expect(mockPipeline.zadd).toHaveBeenLastCalledWith(
+      SUBSCRIPTION_QUEUE_CONFIG.DEAD_LETTER_KEY,
+      now,
+      dead!.id,
+    );
+    getAccountSubSpy.mockRestore();
+    accountSubscriptionSpy.mockRestore();
+  });
+});
@@ -0,0 +1,302 @@
+import { Logger } from "pino";
+import { Redis } from "ioredis";
+
+import { MercuryClient } from "../mercury";
+import { NetworkNames } from "../../helper/validate";
+import {
+  hasSubForPublicKey,
+  hasSubForTokenBalance,
+} from "../../helper/mercury";
+
+export type SubscriptionJobType = "account" | "token" | "token_balance";
+
+export interface SubscriptionJobRequest {
+  network: NetworkNames;
+  type: SubscriptionJobType;
+  pubKey: string;
+  // Set for token and token balance subscriptions.
+  contractId?: string;
+}
+
+export interface SubscriptionJob extends SubscriptionJobRequest {
+  // The idempotency key of the subscription, see getSubscriptionJobId.
+  id: string;
+  status: "pending" | "completed" | "dead";
+  attempts: number;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export const SUBSCRIPTION_QUEUE_CONFIG = {
+  JOB_KEY: "SUBSCRIPTION_JOB",
+  // Sorted set of the pending job IDs, scored by when they're next attempted.
+  QUEUE_KEY: "SUBSCRIPTION_JOB_QUEUE",
+  // Sorted set of the IDs of the jobs that ran out of attempts, scored by when they did.
+  DEAD_LETTER_KEY: "SUBSCRIPTION_JOB_DEAD_LETTER",
+  MAX_ATTEMPTS: 12,
+  BASE_RETRY_DELAY_MS: 5000,
+  MAX_RETRY_DELAY_MS: 30 * 60 * 1000,
+  // Claimed jobs are attempted again after this long if the worker stops before settling them.
+  LEASE_MS: 2 * 60 * 1000,
+  BATCH_SIZE: 10,
+  // Completed jobs are kept for a day, requests for the same subscription until then are no-ops.
+  COMPLETED_JOB_TTL_S: 24 * 60 * 60,
+} as const;
+
+// Leases the due jobs atomically, so that each one is claimed by a single worker.
+const CLAIM_DUE_JOBS_SCRIPT = `
+  local ids = redis.call("ZRANGEBYSCORE", KEYS[1], "-inf", ARGV[1], "LIMIT", 0, ARGV[3])
+  for _, id in ipairs(ids) do
+    redis.call("ZADD", KEYS[1], ARGV[2], id)
+  end
+  return ids
+`;
+
+export const getSubscriptionJobId = ({
+  network,
+  type,
+  pubKey,
+  contractId,
+}: SubscriptionJobRequest) =>
+  `${network}:${type}:${pubKey}:${contractId || ""}`;
+
+const getJobKey = (id: string) => `${SUBSCRIPTION_QUEUE_CONFIG.JOB_KEY}:${id}`;
+
+export const getRetryDelay = (attempts: number) =>
+  Math.min(
+    SUBSCRIPTION_QUEUE_CONFIG.BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1),
+    SUBSCRIPTION_QUEUE_CONFIG.MAX_RETRY_DELAY_MS,
+  );
+
+// Existing account and token balance subscriptions are skipped, in case an earlier attempt reached Mercury.
+const subscribe = async (
+  mercuryClient: MercuryClient,
+  job: SubscriptionJob,
+) => {
+  const { network, pubKey, contractId } = job;
+  switch (job.type) {
+    case "account": {
+      const subs = await mercuryClient.getAccountSubForPubKey(pubKey, network);
+      if (hasSubForPublicKey(subs, pubKey)) {
+        return;
+      }
+      const { error } = await mercuryClient.accountSubscription(
+        pubKey,
+        network,
+      );
+      if (error) {
+        throw error;
+      }
+      return;
+    }
+
+    case "token": {
+      const { error } = await mercuryClient.tokenSubscription(
+        contractId!,
+        pubKey,
+        network,
+      );
+      if (error) {
+        throw error;
+      }
+      return;
+    }
+
+    case "token_balance": {
+      const subs = await mercuryClient.getTokenBalanceSub(
+        pubKey,
+        contractId!,
+        network,
+      );
+      if (hasSubForTokenBalance(subs, contractId!)) {
+        return;
+      }
+      const { error } = await mercuryClient.tokenBalanceSubscription(
+        contractId!,
+        pubKey,
+        network,
+      );
+      if (error) {
+        throw error;
+      }
+      return;
+    }
+
+    default:
+      throw new Error(`subscription type not supported: ${job.type}`);
+  }
+};
+
+export class SubscriptionQueue {
+  redisClient: Redis;
+  logger: Logger;
+
+  constructor(redisClient: Redis, logger: Logger) {
+    this.redisClient = redisClient;
+    this.logger = logger;
+  }
+
+  getJob = async (id: string): Promise<SubscriptionJob | null> => {
+    const job = await this.redisClient.get(getJobKey(id));
+    return job ? JSON.parse(job) : null;
+  };
+
+  /**
+   * Queues a subscription, unless the same one is already pending or was completed recently. Subscriptions that
+   * ran out of attempts are queued again with a fresh set of attempts.
+   *
+   * @param request - The subscription to create
+   * @returns The job of the subscription
+   */
+  enqueue = async (request: SubscriptionJobRequest) => {
+    const id = getSubscriptionJobId(request);
+    const now = Date.now();
+    const job: SubscriptionJob = {
+      ...request,
+      id,
+      status: "pending",
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const created = await this.redisClient.set(
+      getJobKey(id),
+      JSON.stringify(job),
+      "NX",
+    );
+    if (!created) {
+      const existing = await this.getJob(id);
+      if (existing && existing.status !== "dead") {
+        return existing;
+      }
+      await this.redisClient
+        .multi()
+        .set(getJobKey(id), JSON.stringify(job))
+        .zrem(SUBSCRIPTION_QUEUE_CONFIG.DEAD_LETTER_KEY, id)
+        .exec();
+    }
+
+    await this.redisClient.zadd(SUBSCRIPTION_QUEUE_CONFIG.QUEUE_KEY, now, id);
+    return job;
+  };
+
+  /**
+   * Forgets the completed jobs of subscriptions that were deleted, so requesting them again queues them instead
+   * of being a no-op until the jobs expire. Pending and dead jobs are left as they are.
+   *
+   * @param requests - The deleted subscriptions
+   */
+  clearCompletedJobs = async (requests: SubscriptionJobRequest[]) => {
+    for (const request of requests) {
+      const id = getSubscriptionJobId(request);
+      const job = await this.getJob(id);
+      if (job?.status === "completed") {
+        await this.redisClient.del(getJobKey(id));
+      }
+    }
+  };
+
+  getDeadLetters = async (limit: number = 100) => {
+    const ids = await this.redisClient.zrevrange(
+      SUBSCRIPTION_QUEUE_CONFIG.DEAD_LETTER_KEY,
+      0,
+      limit - 1,
+    );
+    if (!ids.length) {
+      return [];
+    }
+    const jobs = await this.redisClient.mget(ids.map(getJobKey));
+    return jobs
+      .filter((job): job is string => Boolean(job))
+      .map((job) => JSON.parse(job) as SubscriptionJob);
+  };
+
+  claimDueJobs = async (
+    batchSize: number = SUBSCRIPTION_QUEUE_CONFIG.BATCH_SIZE,
+  ) => {
+    const now = Date.now();
+    return (await this.redisClient.eval(
+      CLAIM_DUE_JOBS_SCRIPT,
+      1,
+      SUBSCRIPTION_QUEUE_CONFIG.QUEUE_KEY,
+      now,
+      now + SUBSCRIPTION_QUEUE_CONFIG.LEASE_MS,
+      batchSize,
+    )) as string[];
+  };
+
+  /**
+   * Attempts a claimed job. Failed jobs are retried with an exponential backoff until they run out of attempts,
+   * then they're moved to the dead letters.
+   *
+   * @param id - The ID of the job
+   * @param mercuryClient - The client to subscribe with
+   * @returns The settled job, or null if it isn't pending anymore
+   */
+  processJob = async (id: string, mercuryClient: MercuryClient) => {
+    const job = await this.getJob(id);
+    if (!job || job.status !== "pending") {
+      await this.redisClient.zrem(SUBSCRIPTION_QUEUE_CONFIG.QUEUE_KEY, id);
+      return null;
+    }
+
+    const attempts = job.attempts + 1;
+    try {
+      await subscribe(mercuryClient, job);
+
+      const completed: SubscriptionJob = {
+        ...job,
+        status: "completed",
+        attempts,
+        updatedAt: Date.now(),
+      };
+      delete completed.lastError;
+      await this.redisClient
+        .multi()
+        .set(
+          getJobKey(id),
+          JSON.stringify(completed),
+          "EX",
+          SUBSCRIPTION_QUEUE_CONFIG.COMPLETED_JOB_TTL_S,
+        )
+        .zrem(SUBSCRIPTION_QUEUE_CONFIG.QUEUE_KEY, id)
+        .exec();
+      return completed;
+    } catch (error) {
+      const now = Date.now();
+      const failed: SubscriptionJob = {
+        ...job,
+        attempts,
+        lastError: error instanceof Error ? error.message : String(error),
+        updatedAt: now,
+      };
+
+      if (attempts >= SUBSCRIPTION_QUEUE_CONFIG.MAX_ATTEMPTS) {
+        failed.status = "dead";
+        this.logger.error(
+          `Subscription job ${id} failed ${attempts} times: ${failed.lastError}`,
+        );
+        await this.redisClient
+          .multi()
+          .set(getJobKey(id), JSON.stringify(failed))
+          .zrem(SUBSCRIPTION_QUEUE_CONFIG.QUEUE_KEY, id)
+          .zadd(SUBSCRIPTION_QUEUE_CONFIG.DEAD_LETTER_KEY, now, id)
+          .exec();
+        return failed;
+      }
+
+      await this.redisClient
+        .multi()
+        .set(getJobKey(id), JSON.stringify(failed))
+        .zadd(
+          SUBSCRIPTION_QUEUE_CONFIG.QUEUE_KEY,
+          now + getRetryDelay(attempts),
+          id,
+        )
+        .exec();
+      return failed;
+    }
+  };
+}
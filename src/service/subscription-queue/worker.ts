@@ -0,0 +1,126 @@
+import { Redis } from "ioredis";
+import { parentPort, workerData } from "worker_threads";
+
+import { SubscriptionQueue } from ".";
+import { logger } from "../../logger";
+import {
+  buildBackendClientMaker,
+  buildCurrentDataClientMaker,
+  buildRenewClientMaker,
+} from "../../helper/mercury";
+import { MercuryClient } from "../mercury";
+import {
+  register,
+  mercuryErrorCounter,
+  rpcErrorCounter,
+  criticalError,
+  WorkerMessage,
+} from "../../helper/metrics";
+
+const POLL_INTERVAL_MS = 1000;
+
+const {
+  hostname,
+  mercuryBackendPubnet,
+  mercuryBackendTestnet,
+  mercuryEmail,
+  mercuryEmailTestnet,
+  mercuryGraphQLCurrentDataPubnet,
+  mercuryGraphQLCurrentDataTestnet,
+  mercuryGraphQLPubnet,
+  mercuryGraphQLTestnet,
+  mercuryPassword,
+  mercuryPasswordTestnet,
+  redisConnectionName,
+  redisPort,
+  stellarRpcConfig,
+} = workerData;
+
+const main = async () => {
+  const graphQlEndpoints = {
+    TESTNET: mercuryGraphQLTestnet,
+    PUBLIC: mercuryGraphQLPubnet,
+  };
+
+  const graphQlCurrentDataEndpoints = {
+    TESTNET: mercuryGraphQLCurrentDataTestnet,
+    PUBLIC: mercuryGraphQLCurrentDataPubnet,
+  };
+
+  const backends = {
+    TESTNET: mercuryBackendTestnet,
+    PUBLIC: mercuryBackendPubnet,
+  };
+
+  const redis = new Redis({
+    connectionName: redisConnectionName,
+    host: hostname,
+    port: redisPort,
+    maxRetriesPerRequest: 1,
+  });
+
+  // ioredis reconnects on its own, jobs that fail in the meantime are retried.
+  redis.on("error", (error: any) => {
+    logger.error({ error: error.message }, "Redis connection error");
+  });
+
+  const mercurySession = {
+    renewClientMaker: buildRenewClientMaker(graphQlEndpoints),
+    backendClientMaker: buildBackendClientMaker(graphQlEndpoints),
+    currentDataClientMaker: buildCurrentDataClientMaker(
+      graphQlCurrentDataEndpoints,
+    ),
+    backends,
+    credentials: {
+      PUBLIC: {
+        email: mercuryEmail,
+        password: mercuryPassword,
+      },
+      TESTNET: {
+        email: mercuryEmailTestnet,
+        password: mercuryPasswordTestnet,
+      },
+    },
+  };
+
+  const mercuryClient = new MercuryClient(
+    mercurySession,
+    logger,
+    register,
+    {
+      mercuryErrorCounter,
+      rpcErrorCounter,
+      criticalError,
+    },
+    stellarRpcConfig,
+    redis,
+  );
+  const subscriptionQueue = new SubscriptionQueue(redis, logger);
+
+  const processDueJobs = async () => {
+    try {
+      const ids = await subscriptionQueue.claimDueJobs();
+      for (const id of ids) {
+        const job = await subscriptionQueue.processJob(id, mercuryClient);
+        if (job?.status === "dead") {
+          parentPort?.postMessage({
+            type: WorkerMessage.SUBSCRIPTION_JOB_DEAD_LETTERED,
+          });
+        }
+      }
+    } catch (error) {
+      logger.error(error);
+    } finally {
+      setTimeout(processDueJobs, POLL_INTERVAL_MS);
+    }
+  };
+
+  logger.info("Starting subscription worker...");
+  void processDueJobs();
+};
+
+// The worker is restarted when it exits with an error.
+main().catch((e) => {
+  logger.error(e);
+  process.exit(1);
+});
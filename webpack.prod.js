@@ -97,4 +97,36 @@ module.exports = [
       ],
     },
   },
+  {
+    entry: "./src/service/subscription-queue/worker.ts",
+    mode: "production",
+    target: "node",
+    devtool: "source-map",
+    output: {
+      path: path.resolve(__dirname, "build"),
+      filename: "subscription-worker.js",
+      devtoolModuleFilenameTemplate: "[absolute-resource-path]",
+    },
+    resolve: {
+      extensions: [".ts", ".js"],
+    },
+    externals: [nodeExternals()],
+    module: {
+      rules: [
+        {
+          test: /\.([cm]?ts)$/,
+          use: [
+            {
+              loader: "ts-loader",
+              options: {
+                compilerOptions: {
+                  sourceMap: true,
+                },
+              },
+            },
+          ],
+        },
+      ],
+    },
+  },
 ];